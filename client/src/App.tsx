@@ -12,9 +12,11 @@ import Dashboard from "@/pages/dashboard";
 import CreateLeague from "@/pages/create-league";
 import LeagueDetail from "@/pages/league-detail";
 import AdminDashboard from "@/pages/admin";
+import AdminJobs from "@/pages/admin-jobs";
 import MyWallet from "@/pages/my-wallet";
 import PayLps from "@/pages/pay-lps";
 import PayDues from "@/pages/pay-dues";
+import AcceptInvite from "@/pages/accept-invite";
 import { Shell } from "@/components/layout-shell";
 
 function Router() {
@@ -34,6 +36,7 @@ function Router() {
         <Route path="/" component={Landing} />
         <Route path="/pay-lps/:token" component={PayLps} />
         <Route path="/pay-dues/:token" component={PayDues} />
+        <Route path="/invite/:token" component={AcceptInvite} />
         <Route component={NotFound} />
       </Switch>
     );
@@ -48,8 +51,10 @@ function Router() {
         <Route path="/create-league" component={CreateLeague} />
         <Route path="/league/:id" component={LeagueDetail} />
         <Route path="/admin" component={AdminDashboard} />
+        <Route path="/admin/jobs" component={AdminJobs} />
         <Route path="/pay-lps/:token" component={PayLps} />
         <Route path="/pay-dues/:token" component={PayDues} />
+        <Route path="/invite/:token" component={AcceptInvite} />
         <Route component={NotFound} />
       </Switch>
     </Shell>
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AUDIT_ENTITY_LABELS, type AuditEntityType, type AuditEventWithActor } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+function describeActor(event: AuditEventWithActor): string {
+  if (event.actorType === 'webhook') return 'Stripe';
+  if (event.actorType === 'system') return 'LeagueVault';
+  const name = `${event.actor?.firstName || ''} ${event.actor?.lastName || ''}`.trim();
+  return name || event.actor?.email || `User ${event.actorId?.slice(0, 4)}...`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Fields whose value differs between the before and after snapshots
+function getChanges(event: AuditEventWithActor): { field: string; before: unknown; after: unknown }[] {
+  if (!event.before || !event.after) return [];
+  const fields = Array.from(new Set([...Object.keys(event.before), ...Object.keys(event.after)]));
+  return fields
+    .filter(field => JSON.stringify(event.before?.[field]) !== JSON.stringify(event.after?.[field]))
+    .map(field => ({ field, before: event.before?.[field], after: event.after?.[field] }));
+}
+
+function AuditEventRow({ event, leagueName }: { event: AuditEventWithActor; leagueName?: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const changes = getChanges(event);
+  const snapshot = event.after || event.before;
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 space-y-2" data-testid={`audit-event-${event.id}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-sm">
+            <span className="font-medium">{describeActor(event)}</span>
+            {' '}
+            <span className="text-muted-foreground">{event.action.replace(/_/g, ' ')}</span>
+            {' '}
+            <span className="font-medium">
+              {AUDIT_ENTITY_LABELS[event.entityType as AuditEntityType] || event.entityType} #{event.entityId}
+            </span>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(event.createdAt), 'MMM d, yyyy h:mm a')}
+            {leagueName && ` · ${leagueName}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {event.actorType !== 'user' && <Badge variant="outline" className="capitalize">{event.actorType}</Badge>}
+          {snapshot && changes.length === 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setExpanded(!expanded)} data-testid={`button-audit-details-${event.id}`}>
+              {expanded ? 'Hide' : 'Details'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {changes.length > 0 && (
+        <div className="space-y-1 text-xs font-mono">
+          {changes.map(change => (
+            <p key={change.field} className="break-all">
+              <span className="text-muted-foreground">{change.field}:</span>{' '}
+              <span className="text-red-600 line-through">{formatValue(change.before)}</span>{' → '}
+              <span className="text-green-600">{formatValue(change.after)}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {expanded && snapshot && (
+        <pre className="text-xs font-mono bg-background p-2 rounded overflow-x-auto">{JSON.stringify(snapshot, null, 2)}</pre>
+      )}
+    </div>
+  );
+}
+
+export function AuditEventList({
+  events,
+  isLoading,
+  leagueNames
+}: {
+  events: AuditEventWithActor[] | undefined;
+  isLoading: boolean;
+  // Shown next to each event when the list spans leagues
+  leagueNames?: Map<number, string>;
+}) {
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-14 w-full" />
+        <Skeleton className="h-14 w-full" />
+        <Skeleton className="h-14 w-full" />
+      </div>
+    );
+  }
+
+  if (!events || events.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">No activity matches these filters</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {events.map(event => (
+        <AuditEventRow
+          key={event.id}
+          event={event}
+          leagueName={leagueNames && event.leagueId !== null ? leagueNames.get(event.leagueId) || `League #${event.leagueId}` : undefined}
+        />
+      ))}
+    </div>
+  );
+}
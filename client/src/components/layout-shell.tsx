@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "@/components/notification-bell";
 
 export function Shell({ children }: { children: React.ReactNode }) {
   const { user, logout } = useAuth();
@@ -71,6 +72,8 @@ export function Shell({ children }: { children: React.ReactNode }) {
               <p className="text-sm font-medium leading-none">{user.firstName} {user.lastName}</p>
               <p className="text-xs text-muted-foreground mt-1">Fantasy Pro</p>
             </div>
+
+            <NotificationBell />
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -0,0 +1,55 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, Clock } from "lucide-react";
+
+// Errors from the public link endpoints carry a code saying why the link stopped working
+export type LinkFetchError = Error & { code?: string };
+
+const LINK_ERROR_TITLES: Record<string, string> = {
+  EXPIRED: "Link Expired",
+  REVOKED: "Link Turned Off",
+  USED: "Link Already Used",
+  CANCELLED: "Invite Cancelled",
+  ALREADY_ACCEPTED: "Invite Already Used",
+};
+
+export async function fetchLinkData(url: string, fallbackMessage: string) {
+  const res = await fetch(url);
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw Object.assign(new Error(err.message || fallbackMessage), { code: err.code }) as LinkFetchError;
+  }
+  return res.json();
+}
+
+export function LinkErrorCard({ error, fallbackTitle, fallbackDescription }: {
+  error: unknown;
+  fallbackTitle: string;
+  fallbackDescription: string;
+}) {
+  const code = (error as LinkFetchError | null)?.code;
+  const Icon = code === 'EXPIRED' ? Clock : AlertCircle;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Icon className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <CardTitle data-testid="text-link-error-title">{(code && LINK_ERROR_TITLES[code]) || fallbackTitle}</CardTitle>
+          <CardDescription>
+            {(error as LinkFetchError | null)?.message || fallbackDescription}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Link href="/">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Go to Home
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function NotificationBell() {
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: 60000,
+  });
+
+  const markRead = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest('POST', '/api/notifications/read', { ids });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    }
+  });
+
+  const unread = notifications?.filter(n => !n.readAt) || [];
+
+  return (
+    <Popover onOpenChange={(open) => {
+      if (!open && unread.length > 0) markRead.mutate(unread.map(n => n.id));
+    }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="w-5 h-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center" data-testid="badge-unread-notifications">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="px-4 py-3 border-b">
+          <p className="text-sm font-medium">Notifications</p>
+        </div>
+        {!notifications || notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <div key={notification.id} className={`px-4 py-3 ${notification.readAt ? '' : 'bg-primary/5'}`} data-testid={`notification-${notification.id}`}>
+                  <p className="text-sm font-medium">{notification.subject}</p>
+                  <p className="text-sm text-muted-foreground">{notification.body}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
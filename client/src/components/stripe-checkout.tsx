@@ -6,6 +6,7 @@ import {
   useStripe,
   useElements,
 } from "@stripe/react-stripe-js";
+import { api } from "@shared/routes";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 
@@ -100,9 +101,11 @@ interface StripeCheckoutProps {
   leagueId: number;
   onSuccess: () => void;
   onCancel: () => void;
+  // Endpoint that creates the pending payment; defaults to league dues
+  paymentUrl?: string;
 }
 
-export function StripeCheckout({ amount, leagueId, onSuccess, onCancel }: StripeCheckoutProps) {
+export function StripeCheckout({ amount, leagueId, onSuccess, onCancel, paymentUrl = api.payments.create.path }: StripeCheckoutProps) {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [stripeInstance, setStripeInstance] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -114,7 +117,8 @@ export function StripeCheckout({ amount, leagueId, onSuccess, onCancel }: Stripe
         const stripe = await getStripePromise();
         setStripeInstance(stripe);
 
-        const response = await fetch("/api/stripe/create-payment-intent", {
+        // Creates the pending payment and its PaymentIntent
+        const response = await fetch(paymentUrl, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           credentials: "include",
@@ -122,7 +126,8 @@ export function StripeCheckout({ amount, leagueId, onSuccess, onCancel }: Stripe
         });
 
         if (!response.ok) {
-          throw new Error("Failed to create payment");
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.message || "Failed to create payment");
         }
 
         const data = await response.json();
@@ -135,7 +140,7 @@ export function StripeCheckout({ amount, leagueId, onSuccess, onCancel }: Stripe
     }
 
     initialize();
-  }, [amount, leagueId]);
+  }, [amount, leagueId, paymentUrl]);
 
   if (loading) {
     return (
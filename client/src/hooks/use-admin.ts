@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import type { AuditEventWithActor, JobRun } from "@shared/schema";
 
 export function useAdminCheck() {
   return useQuery({
@@ -41,3 +42,46 @@ export function useAdminLeagues(enabled: boolean = true) {
     enabled,
   });
 }
+
+export function useAdminReconciliation(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['/api/admin/reconciliation'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/reconciliation', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to reconcile leagues');
+      return res.json() as Promise<{
+        leaguesChecked: number;
+        mismatched: Array<{ leagueId: number; leagueName: string; mismatchCount: number }>;
+      }>;
+    },
+    enabled,
+  });
+}
+
+export function useAdminAuditEvents(filter: { leagueId?: number; entityType?: string }, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['/api/admin/audit-events', filter.leagueId ?? 'all', filter.entityType || 'all'],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filter.leagueId !== undefined) params.set('leagueId', String(filter.leagueId));
+      if (filter.entityType) params.set('entityType', filter.entityType);
+      const res = await fetch(`/api/admin/audit-events?${params}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch audit events');
+      return res.json() as Promise<AuditEventWithActor[]>;
+    },
+    enabled,
+  });
+}
+
+export function useAdminJobRuns(status: string | undefined, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['/api/admin/jobs/runs', status || 'all'],
+    queryFn: async () => {
+      const query = status ? `?status=${status}` : '';
+      const res = await fetch(`/api/admin/jobs/runs${query}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch job runs');
+      return res.json() as Promise<JobRun[]>;
+    },
+    enabled,
+  });
+}
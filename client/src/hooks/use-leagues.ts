@@ -96,7 +96,7 @@ export function useSyncPlatform() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async (data: { platform: 'espn' | 'yahoo', leagueUrl: string, espnS2?: string, swid?: string }) => {
+    mutationFn: async (data: { platform: 'espn' | 'yahoo' | 'sleeper', leagueUrl: string, espnS2?: string, swid?: string }) => {
       const res = await fetch(api.leagues.syncPlatform.path, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -1,7 +1,5 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import type { InsertPayment } from "@shared/schema";
-import { useToast } from "@/hooks/use-toast";
 
 export function usePayments(leagueId: number) {
   return useQuery({
@@ -15,37 +13,3 @@ export function usePayments(leagueId: number) {
     enabled: !!leagueId,
   });
 }
-
-export function useCreatePayment() {
-  const queryClient = useQueryClient();
-  const { toast } = useToast();
-
-  return useMutation({
-    mutationFn: async (data: { leagueId: number; amount: number }) => {
-      const res = await fetch(api.payments.create.path, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-        credentials: "include",
-      });
-
-      if (!res.ok) throw new Error("Failed to process payment");
-      return api.payments.create.responses[201].parse(await res.json());
-    },
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [api.payments.history.path, variables.leagueId] });
-      queryClient.invalidateQueries({ queryKey: ['/api/leagues', variables.leagueId] });
-      toast({
-        title: "Payment Successful",
-        description: "Your dues have been paid securely.",
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Payment Failed",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  });
-}
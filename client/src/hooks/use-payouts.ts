@@ -29,6 +29,14 @@ export function useCreatePayout() {
     },
     onSuccess: (response, variables) => {
       queryClient.invalidateQueries({ queryKey: [api.payments.history.path, variables.leagueId] });
+      if (response.pendingApproval) {
+        queryClient.invalidateQueries({ queryKey: ['/api/leagues', variables.leagueId, 'approvals'] });
+        toast({
+          title: "Payout Awaiting Approval",
+          description: "This payout is over the league's approval threshold. It will be credited once the approver signs off.",
+        });
+        return;
+      }
       const isInstant = variables.payoutType === 'instant';
       toast({
         title: isInstant ? "Instant Payout Issued" : "Payout Issued",
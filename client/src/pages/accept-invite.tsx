@@ -0,0 +1,184 @@
+import { useParams, Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, CheckCircle2, LogIn, Trophy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { LinkErrorCard, fetchLinkData } from "@/components/link-error-card";
+
+interface InvitePreview {
+  leagueId: number;
+  leagueName: string;
+  seasonYear: number;
+  teamName: string | null;
+  ownerName: string | null;
+  status: string;
+  expiresAt: string;
+  isMember: boolean;
+}
+
+function InviteMessage({ title, description }: { title: string; description: string }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Link href="/">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Go to Home
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const { user, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: ['/api/invites', token],
+    queryFn: () => fetchLinkData(`/api/invites/${token}`, 'Failed to load invite'),
+    enabled: !!token,
+    retry: false
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invites/${token}/accept`);
+      return res.json();
+    },
+    onSuccess: (data: { leagueId: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues'] });
+      toast({
+        title: "Welcome to the League",
+        description: `You've joined ${invite?.leagueName}.`,
+      });
+      setLocation(`/league/${data.leagueId}`);
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Couldn't Accept Invite",
+        description: err.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (isLoading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <Skeleton className="h-8 w-48 mx-auto" />
+            <Skeleton className="h-4 w-32 mx-auto mt-2" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!token || error || !invite) {
+    return <LinkErrorCard error={error} fallbackTitle="Invite Not Found" fallbackDescription="This invite link is invalid." />;
+  }
+
+  if (invite.isMember) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <CardTitle>You're In</CardTitle>
+            <CardDescription>
+              You're already a member of {invite.leagueName}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <Link href={`/league/${invite.leagueId}`}>
+              <Button data-testid="button-go-to-league">
+                Go to League
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (invite.status === 'accepted') {
+    return <InviteMessage title="Invite Already Used" description="This invite has already been accepted." />;
+  }
+
+  if (invite.status === 'cancelled') {
+    return <InviteMessage title="Invite Cancelled" description="This invite was cancelled. Ask your commissioner for a new one." />;
+  }
+
+  if (new Date(invite.expiresAt) <= new Date()) {
+    return <InviteMessage title="Invite Expired" description="This invite has expired. Ask your commissioner for a new one." />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Trophy className="h-12 w-12 text-primary mx-auto mb-4" />
+          <CardTitle>Join {invite.leagueName}</CardTitle>
+          <CardDescription>
+            You've been invited to the {invite.seasonYear} season on LeagueVault
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="bg-muted rounded-lg p-4 text-center">
+            <div className="text-sm text-muted-foreground">Your Team</div>
+            <div className="text-xl font-bold" data-testid="text-invite-team">{invite.teamName || 'Team Member'}</div>
+            {invite.ownerName && (
+              <div className="text-sm text-muted-foreground mt-1">
+                Owner: {invite.ownerName}
+              </div>
+            )}
+          </div>
+
+          <div className="text-center text-muted-foreground text-sm">
+            This invite expires {format(new Date(invite.expiresAt), 'MMM d, yyyy')}
+          </div>
+
+          {user ? (
+            <Button
+              className="w-full"
+              size="lg"
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending}
+              data-testid="button-accept-invite"
+            >
+              {acceptMutation.isPending ? 'Joining...' : 'Accept Invite'}
+            </Button>
+          ) : (
+            <a href={`/api/login?returnTo=${encodeURIComponent(`/invite/${token}`)}`} className="block">
+              <Button className="w-full" size="lg" data-testid="button-login-to-accept">
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign In to Accept
+              </Button>
+            </a>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useAdminCheck, useAdminJobRuns } from "@/hooks/use-admin";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Clock, RefreshCw, ShieldCheck, ArrowLeft, Archive } from "lucide-react";
+import { format } from "date-fns";
+
+const STATUS_FILTERS = [
+  { value: undefined, label: "All" },
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Pending" },
+  { value: "running", label: "Running" },
+  { value: "succeeded", label: "Succeeded" },
+];
+
+function statusVariant(status: string): "destructive" | "secondary" | "outline" | "default" {
+  if (status === 'failed') return 'destructive';
+  if (status === 'succeeded') return 'secondary';
+  if (status === 'running') return 'default';
+  return 'outline';
+}
+
+export default function AdminJobs() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string | undefined>("failed");
+  const { data: adminCheck, isLoading: checkingAdmin } = useAdminCheck();
+  const isAdmin = adminCheck?.isAdmin === true;
+  const { data: runs, isLoading } = useAdminJobRuns(status, isAdmin);
+
+  const retryRun = useMutation({
+    mutationFn: async (runId: number) => {
+      const res = await apiRequest('POST', `/api/admin/jobs/runs/${runId}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/jobs/runs'] });
+      toast({ title: "Run queued", description: "It will be picked up within a minute." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Retry failed", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const purgeExpired = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/leagues/purge-expired');
+      return res.json() as Promise<{ queued: number[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/jobs/runs'] });
+      toast({
+        title: data.queued.length ? `${data.queued.length} purge${data.queued.length === 1 ? '' : 's'} queued` : "Nothing to purge",
+        description: data.queued.length
+          ? "Each league is exported before its records are removed."
+          : "No archived league is past its grace period.",
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Purge failed", description: err.message, variant: "destructive" });
+    }
+  });
+
+  if (checkingAdmin) {
+    return (
+      <div className="p-8">
+        <Skeleton className="h-8 w-64 mb-4" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] p-8">
+        <ShieldCheck className="h-16 w-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Access Denied</h1>
+        <p className="text-muted-foreground text-center">
+          You don't have permission to access the admin dashboard.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-8">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-primary/10 rounded-lg">
+          <Clock className="h-6 w-6 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold">Background Jobs</h1>
+          <p className="text-muted-foreground">Scheduled syncs, weekly awards and reminders across all leagues</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => purgeExpired.mutate()}
+          disabled={purgeExpired.isPending}
+          data-testid="button-purge-expired-leagues"
+        >
+          <Archive className="h-4 w-4 mr-2" />
+          {purgeExpired.isPending ? "Queueing..." : "Purge Expired Archives"}
+        </Button>
+        <Link href="/admin">
+          <Button variant="outline" data-testid="link-admin-dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Admin Dashboard
+          </Button>
+        </Link>
+      </div>
+
+      <Separator />
+
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter.label}
+            size="sm"
+            variant={status === filter.value ? "default" : "outline"}
+            onClick={() => setStatus(filter.value)}
+            data-testid={`filter-job-status-${filter.label.toLowerCase()}`}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Job Runs</CardTitle>
+          <CardDescription>
+            {isLoading ? "Loading..." : `${runs?.length || 0} runs (most recent 200)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : runs?.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No job runs
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {runs?.map((run) => (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50"
+                  data-testid={`admin-job-run-${run.id}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium">
+                      {run.jobType} <span className="text-muted-foreground font-normal">· League #{run.leagueId} · Run #{run.id}</span>
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Attempt {run.attempts}/{run.maxAttempts}
+                      {run.createdAt && ` · Queued ${format(new Date(run.createdAt), 'MMM d, h:mm a')}`}
+                      {run.finishedAt && ` · Finished ${format(new Date(run.finishedAt), 'MMM d, h:mm a')}`}
+                    </p>
+                    {run.lastError && (
+                      <p className="text-sm text-red-600 truncate">{run.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={statusVariant(run.status)} className="capitalize">{run.status}</Badge>
+                    {run.status === 'failed' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={retryRun.isPending}
+                        onClick={() => retryRun.mutate(run.id)}
+                        data-testid={`button-retry-job-run-${run.id}`}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Retry
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
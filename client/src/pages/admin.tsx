@@ -1,8 +1,14 @@
-import { useAdminCheck, useAdminStats, useAdminLeagues } from "@/hooks/use-admin";
+import { useState } from "react";
+import { Link } from "wouter";
+import { useAdminCheck, useAdminStats, useAdminLeagues, useAdminReconciliation, useAdminAuditEvents } from "@/hooks/use-admin";
+import { AUDIT_ENTITY_LABELS, AUDIT_ENTITY_TYPES } from "@shared/schema";
+import { AuditEventList } from "@/components/audit-event-list";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
 import { 
   DollarSign, 
   Users, 
@@ -11,7 +17,9 @@ import {
   ArrowDownLeft,
   ShieldCheck,
   Building2,
-  TrendingUp
+  TrendingUp,
+  Clock,
+  History
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -47,6 +55,13 @@ export default function AdminDashboard() {
   const isAdmin = adminCheck?.isAdmin === true;
   const { data: stats, isLoading: loadingStats } = useAdminStats(isAdmin);
   const { data: leagues, isLoading: loadingLeagues } = useAdminLeagues(isAdmin);
+  const { data: reconciliation, isLoading: loadingReconciliation } = useAdminReconciliation(isAdmin);
+  const [auditLeagueId, setAuditLeagueId] = useState("all");
+  const [auditEntityType, setAuditEntityType] = useState("all");
+  const { data: auditEvents, isLoading: loadingAudit } = useAdminAuditEvents({
+    leagueId: auditLeagueId === 'all' ? undefined : Number(auditLeagueId),
+    entityType: auditEntityType === 'all' ? undefined : auditEntityType
+  }, isAdmin);
 
   if (checkingAdmin) {
     return (
@@ -79,10 +94,16 @@ export default function AdminDashboard() {
         <div className="p-2 bg-primary/10 rounded-lg">
           <ShieldCheck className="h-6 w-6 text-primary" />
         </div>
-        <div>
+        <div className="flex-1">
           <h1 className="text-3xl font-bold">Admin Dashboard</h1>
           <p className="text-muted-foreground">Platform-wide financial overview</p>
         </div>
+        <Link href="/admin/jobs">
+          <Button variant="outline" data-testid="link-admin-jobs">
+            <Clock className="h-4 w-4 mr-2" />
+            Background Jobs
+          </Button>
+        </Link>
       </div>
 
       <Separator />
@@ -168,6 +189,85 @@ export default function AdminDashboard() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger Reconciliation</CardTitle>
+          <CardDescription>
+            {loadingReconciliation
+              ? "Checking..."
+              : `${reconciliation?.mismatched.length || 0} of ${reconciliation?.leaguesChecked || 0} leagues don't match the ledger`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingReconciliation ? (
+            <Skeleton className="h-12 w-full" />
+          ) : reconciliation?.mismatched.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              Every league's ledger agrees with its dues and wallet balances
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {reconciliation?.mismatched.map((report) => (
+                <Link key={report.leagueId} href={`/league/${report.leagueId}`}>
+                  <div
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted cursor-pointer"
+                    data-testid={`admin-reconciliation-${report.leagueId}`}
+                  >
+                    <p className="font-medium">{report.leagueName}</p>
+                    <Badge variant="destructive">
+                      {report.mismatchCount} mismatch{report.mismatchCount === 1 ? '' : 'es'}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>Who changed what, across every league</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={auditLeagueId} onValueChange={setAuditLeagueId}>
+              <SelectTrigger className="w-[180px]" data-testid="select-audit-league">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All leagues</SelectItem>
+                {leagues?.map((league: any) => (
+                  <SelectItem key={league.id} value={String(league.id)}>{league.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={auditEntityType} onValueChange={setAuditEntityType}>
+              <SelectTrigger className="w-[160px]" data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everything</SelectItem>
+                {AUDIT_ENTITY_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <AuditEventList
+            events={auditEvents}
+            isLoading={loadingAudit}
+            leagueNames={new Map((leagues || []).map((league: any) => [league.id, league.name]))}
+          />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>All Leagues</CardTitle>
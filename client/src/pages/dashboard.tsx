@@ -56,13 +56,17 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {leagues.map((league) => (
             <Link key={league.id} href={`/league/${league.id}`} className="group">
-              <Card className="h-full hover:shadow-xl transition-all duration-300 hover:-translate-y-1 border-primary/5">
+              <Card className={`h-full hover:shadow-xl transition-all duration-300 hover:-translate-y-1 border-primary/5 ${league.archivedAt ? 'opacity-60' : ''}`}>
                 <CardHeader className="pb-3">
                   <div className="flex justify-between items-start">
                     <Badge variant="secondary" className="mb-2 font-medium">
                       {league.seasonYear} Season
                     </Badge>
-                    {league.platform !== 'custom' && (
+                    {league.archivedAt ? (
+                      <Badge variant="outline" className="border-amber-500/50 text-amber-600" data-testid={`badge-archived-${league.id}`}>
+                        Archived
+                      </Badge>
+                    ) : league.platform !== 'custom' && (
                       <Badge variant="outline" className="uppercase text-[10px] tracking-wider">
                         {league.platform}
                       </Badge>
@@ -190,7 +194,7 @@ function JoinLeagueDialog() {
 function ImportLeagueDialog() {
   const [isOpen, setIsOpen] = useState(false);
   const sync = useSyncPlatform();
-  const [platform, setPlatform] = useState<'espn' | 'yahoo'>('espn');
+  const [platform, setPlatform] = useState<'espn' | 'yahoo' | 'sleeper'>('espn');
   const [url, setUrl] = useState("");
   const [isPrivate, setIsPrivate] = useState(false);
   const [espnS2, setEspnS2] = useState("");
@@ -202,16 +206,18 @@ function ImportLeagueDialog() {
   const [selectedTeamId, setSelectedTeamId] = useState<string>("");
   const [leagueName, setLeagueName] = useState("");
   const [isFetching, setIsFetching] = useState(false);
+  const [needsYahooAuth, setNeedsYahooAuth] = useState(false);
   const { toast } = useToast();
 
   const handleFetchTeams = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsFetching(true);
     try {
-      const res = await fetch("/api/leagues/preview-espn", {
+      const res = await fetch("/api/leagues/preview", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          platform,
           leagueUrl: url,
           ...(isPrivate && espnS2 && { espnS2 }),
           ...(isPrivate && swid && { swid })
@@ -221,6 +227,9 @@ function ImportLeagueDialog() {
       
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
+        if (error.needsAuth) {
+          setNeedsYahooAuth(true);
+        }
         throw new Error(error.message || "Failed to fetch league data");
       }
       
@@ -293,7 +302,7 @@ function ImportLeagueDialog() {
             <DialogHeader>
               <DialogTitle>Import from Platform</DialogTitle>
               <DialogDescription>
-                Connect your ESPN or Yahoo league to import your team data.
+                Connect your ESPN, Yahoo or Sleeper league to import your team data.
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleFetchTeams} className="space-y-4 py-4">
@@ -306,13 +315,18 @@ function ImportLeagueDialog() {
                   <SelectContent>
                     <SelectItem value="espn">ESPN Fantasy</SelectItem>
                     <SelectItem value="yahoo">Yahoo Fantasy</SelectItem>
+                    <SelectItem value="sleeper">Sleeper</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-2">
                 <Label>League URL</Label>
                 <Input 
-                  placeholder="https://fantasy.espn.com/football/league?leagueId=..." 
+                  placeholder={
+                    platform === 'yahoo' ? "https://football.fantasysports.yahoo.com/f1/..." :
+                    platform === 'sleeper' ? "https://sleeper.com/leagues/... or league ID" :
+                    "https://fantasy.espn.com/football/league?leagueId=..."
+                  }
                   value={url}
                   onChange={(e) => setUrl(e.target.value)}
                   required
@@ -373,6 +387,17 @@ function ImportLeagueDialog() {
                 </>
               )}
               
+              {platform === 'yahoo' && needsYahooAuth && (
+                <div className="space-y-3 p-3 bg-muted/50 rounded-lg">
+                  <p className="text-xs text-muted-foreground leading-relaxed">
+                    Yahoo requires you to sign in and allow access to your fantasy leagues before importing.
+                  </p>
+                  <Button type="button" variant="outline" className="w-full" asChild data-testid="button-connect-yahoo">
+                    <a href="/api/integrations/yahoo/authorize">Connect Yahoo Account</a>
+                  </Button>
+                </div>
+              )}
+              
               <DialogFooter>
                 <Button type="submit" disabled={isFetching} data-testid="button-fetch-teams">
                   {isFetching ? "Fetching Teams..." : "Next: Select Your Team"}
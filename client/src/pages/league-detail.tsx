@@ -1,5 +1,12 @@
 import { useLeague } from "@/hooks/use-leagues";
-import { usePayments, useCreatePayment } from "@/hooks/use-payments";
+import { usePayments } from "@/hooks/use-payments";
+import { api } from "@shared/routes";
+import {
+  AUDIT_ENTITY_LABELS, AUDIT_ENTITY_TYPES, LEAGUE_ARCHIVE_GRACE_DAYS, LEAGUE_ROLES, LEAGUE_ROLE_LABELS, NOTIFICATION_CHANNEL_PREFERENCES,
+  NOTIFICATION_CHANNEL_PREFERENCE_LABELS, NOTIFICATION_EVENTS, NOTIFICATION_EVENT_LABELS, ROLE_PERMISSIONS, SEASON_PRIZE_LABELS,
+  type ApprovalRequest, type AuditEventWithActor, type LeagueHistory, type LeagueMember, type LeaguePermission, type LeagueRole,
+  type Notification, type NotificationChannelPreference, type NotificationEvent, type NotificationPreferences, type SeasonPayoutBatch, type SeasonPrize
+} from "@shared/schema";
 import { useCreatePayout } from "@/hooks/use-payouts";
 import { useUpdateScore } from "@/hooks/use-scores";
 import { useAuth } from "@/hooks/use-auth";
@@ -56,7 +63,12 @@ import {
   Clock,
   DollarSign,
   Crown,
-  ThumbsDown
+  ThumbsDown,
+  Undo2,
+  History,
+  Archive,
+  ArchiveRestore,
+  CalendarPlus
 } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import Icon from '@mdi/react';
@@ -69,6 +81,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StripeCheckout } from "@/components/stripe-checkout";
+import { AuditEventList } from "@/components/audit-event-list";
 
 export default function LeagueDetail() {
   const { id } = useParams<{ id: string }>();
@@ -121,23 +134,41 @@ export default function LeagueDetail() {
   const isCommissioner = isActualCommissioner && !demoMemberView;
   const currentMember = league.members.find(m => m.userId === user?.id);
   const isMember = !!currentMember;
+  const isApprover = !!user && league.settings?.approverUserId === user.id;
+
+  // Same matrix the server enforces; demo member view previews the plain member
+  const memberRole = (LEAGUE_ROLES as readonly string[]).includes(currentMember?.role || '') && currentMember?.role !== 'commissioner'
+    ? currentMember!.role as LeagueRole
+    : 'member';
+  const viewerRole: LeagueRole | null = isActualCommissioner
+    ? (demoMemberView ? 'member' : 'commissioner')
+    : (isMember ? memberRole : null);
+  const can = (permission: LeaguePermission) => !!viewerRole && ROLE_PERMISSIONS[viewerRole].includes(permission);
+  const showTools = can('issue_payouts') || can('sync_scores') || can('view_treasury');
 
   // Calculate stats
-  const totalPaid = league.payments?.reduce((acc: number, p: any) => acc + Number(p.amount), 0) || 0;
-  const totalPayouts = league.payouts?.reduce((acc: number, p: any) => acc + Number(p.amount), 0) || 0;
+  const totalPaid = league.payments?.filter((p: any) => p.status === 'completed').reduce((acc: number, p: any) => acc + Number(p.amount), 0) || 0;
+  const totalPayouts = league.payouts?.filter((p: any) => p.status !== 'pending_approval' && p.status !== 'rejected').reduce((acc: number, p: any) => acc + Number(p.amount), 0) || 0;
   const currentPot = totalPaid - totalPayouts;
   const paidMembersCount = league.members.filter(m => m.paidStatus === 'paid').length;
   const paymentProgress = (paidMembersCount / league.members.length) * 100;
 
   return (
     <div className="space-y-8 pb-12">
+      {league.archivedAt && <ArchivedLeagueBanner league={league} canRestore={can('administer_league')} />}
+
       {/* Header */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
           <div className="flex items-center gap-3 mb-1">
             <h1 className="text-3xl font-bold font-display tracking-tight">{league.name}</h1>
-            {isCommissioner && <EditLeagueNameDialog leagueId={league.id} currentName={league.name} />}
+            {can('manage_league') && <EditLeagueNameDialog leagueId={league.id} currentName={league.name} />}
             <Badge variant="outline" className="font-mono text-xs">{league.seasonYear}</Badge>
+            {league.previousLeagueId && (
+              <Link href={`/league/${league.previousLeagueId}`} className="text-sm text-muted-foreground hover:text-foreground" data-testid="link-previous-season">
+                Previous season
+              </Link>
+            )}
           </div>
           <p className="text-muted-foreground flex items-center gap-2">
             Commissioner: <span className="font-medium text-foreground">{league.commissionerId === user?.id ? "You" : "Commissioner"}</span>
@@ -194,41 +225,32 @@ export default function LeagueDetail() {
           <TabsTrigger value="overview" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium">Overview</TabsTrigger>
           <TabsTrigger value="members" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium">Members</TabsTrigger>
           <TabsTrigger value="my-wallet" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium">My Wallet</TabsTrigger>
-          {isCommissioner && (
-            <>
-              <TabsTrigger value="treasury" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-treasury">Treasury</TabsTrigger>
-              <TabsTrigger value="tools" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium">Commish Tools</TabsTrigger>
-              <TabsTrigger value="settings" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-settings">Settings</TabsTrigger>
-            </>
+          {isMember && (
+            <TabsTrigger value="history" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-history">History</TabsTrigger>
+          )}
+          {can('view_treasury') && (
+            <TabsTrigger value="treasury" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-treasury">Treasury</TabsTrigger>
+          )}
+          {can('view_treasury') && (
+            <TabsTrigger value="activity" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-activity">Activity</TabsTrigger>
+          )}
+          {showTools && (
+            <TabsTrigger value="tools" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium">Commish Tools</TabsTrigger>
+          )}
+          {can('manage_league') && (
+            <TabsTrigger value="settings" className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none px-0 py-3 bg-transparent font-medium" data-testid="tab-settings">Settings</TabsTrigger>
           )}
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
           {/* My Status - Only show when member hasn't paid */}
           {currentMember && currentMember.paidStatus !== 'paid' && (
-            <Card>
-              <CardHeader>
-                <CardTitle>My Status</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between p-4 bg-muted/30 rounded-xl border">
-                  <div className="flex items-center gap-4">
-                    <div className="p-3 rounded-full bg-yellow-100 text-yellow-700">
-                      <AlertCircle className="w-5 h-5" />
-                    </div>
-                    <div>
-                      <p className="font-medium">Team: {currentMember.teamName}</p>
-                      <p className="text-sm text-muted-foreground">
-                        Dues owed: ${league.settings?.entryFee || league.settings?.seasonDues || 0}
-                      </p>
-                    </div>
-                  </div>
-                  <PayDuesDialog league={league} userId={user!.id} amount={league.settings?.entryFee || league.settings?.seasonDues || 0} />
-                </div>
-              </CardContent>
-            </Card>
+            <MyDuesCard league={league} member={currentMember} userId={user!.id} />
           )}
 
+          {/* The approver works the queue from here unless they have it in Commish Tools */}
+          {isApprover && !showTools && <ApprovalQueueCard league={league} />}
+
           {/* Weekly Scores - Show when member has paid */}
           {currentMember && currentMember.paidStatus === 'paid' && (
             <WeeklyScoresWidget leagueId={league.id} members={league.members} numberOfWeeks={league.settings?.numberOfWeeks || 17} />
@@ -285,11 +307,11 @@ export default function LeagueDetail() {
           </div>
 
           {/* Row: Sports Scores + Budget Forecast */}
-          <div className={`grid grid-cols-1 ${isCommissioner ? 'lg:grid-cols-3' : ''} gap-6 items-end`}>
-            <div className={isCommissioner ? 'lg:col-span-2' : ''}>
+          <div className={`grid grid-cols-1 ${can('issue_payouts') ? 'lg:grid-cols-3' : ''} gap-6 items-end`}>
+            <div className={can('issue_payouts') ? 'lg:col-span-2' : ''}>
               <SportsScoresWidget />
             </div>
-            {isCommissioner && <PayoutCalculatorCard league={league} />}
+            {can('issue_payouts') && <PayoutCalculatorCard league={league} />}
           </div>
         </TabsContent>
 
@@ -300,7 +322,7 @@ export default function LeagueDetail() {
                 <CardTitle>League Members</CardTitle>
                 <CardDescription>{league.members.length} teams competing</CardDescription>
               </div>
-              {isCommissioner && <RequestAllPaymentsButton leagueId={league.id} members={league.members} />}
+              {can('send_reminders') && <RequestAllPaymentsButton leagueId={league.id} members={league.members} />}
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="overflow-x-auto">
@@ -311,7 +333,7 @@ export default function LeagueDetail() {
                       <TableHead>Team</TableHead>
                       <TableHead>Role</TableHead>
                       <TableHead>Status</TableHead>
-                      {isCommissioner && <TableHead>Payment Request</TableHead>}
+                      {can('send_reminders') && <TableHead>Payment Request</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -319,14 +341,22 @@ export default function LeagueDetail() {
                       <TableRow key={member.id}>
                         <TableCell className="font-medium">
                           <div className="flex items-center gap-2">
-                            {isCommissioner && <EditMemberDialog leagueId={league.id} member={member} />}
+                            {can('edit_members') && <EditMemberDialog leagueId={league.id} member={member} />}
                             <span className="truncate max-w-[120px]">
                               {member.ownerName || (member.user ? `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim() : `User ${member.userId.slice(0,4)}...`)}
                             </span>
                           </div>
                         </TableCell>
                         <TableCell className="truncate max-w-[100px]">{member.teamName}</TableCell>
-                        <TableCell className="capitalize">{member.role}</TableCell>
+                        <TableCell>
+                          {isCommissioner && member.userId !== league.commissionerId && member.user ? (
+                            <MemberRoleSelect leagueId={league.id} member={member} />
+                          ) : (
+                            member.userId === league.commissionerId
+                              ? LEAGUE_ROLE_LABELS.commissioner
+                              : LEAGUE_ROLE_LABELS[member.role as LeagueRole] || LEAGUE_ROLE_LABELS.member
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Badge 
                             variant={member.paidStatus === 'paid' ? 'default' : 'destructive'} 
@@ -334,8 +364,11 @@ export default function LeagueDetail() {
                           >
                             {member.paidStatus}
                           </Badge>
+                          {member.paidStatus === 'partial' && (
+                            <p className="text-xs text-muted-foreground font-mono mt-1">${Number(member.amountPaid).toFixed(2)} paid</p>
+                          )}
                         </TableCell>
-                        {isCommissioner && (
+                        {can('send_reminders') && (
                           <TableCell>
                             <SendReminderButton leagueId={league.id} member={member} />
                           </TableCell>
@@ -346,24 +379,44 @@ export default function LeagueDetail() {
                 </Table>
               </div>
               
-              {isCommissioner && <PendingInvitesSection leagueId={league.id} />}
+              {can('edit_members') && <PendingInvitesSection leagueId={league.id} />}
+              {can('edit_members') && <SharedLinksSection leagueId={league.id} />}
+              {can('send_reminders') && <NotificationLogSection leagueId={league.id} members={league.members} />}
             </CardContent>
           </Card>
+          {currentMember && (
+            <div className="mt-6">
+              <NotificationPreferencesCard leagueId={league.id} member={currentMember} />
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="my-wallet">
           <MyWalletTab leagueId={leagueId} userId={user!.id} />
         </TabsContent>
 
-        {isCommissioner && (
+        {isMember && (
+          <TabsContent value="history">
+            <HistoryTab league={league} />
+          </TabsContent>
+        )}
+
+        {can('view_treasury') && (
           <TabsContent value="treasury">
-            <TreasuryTab leagueId={leagueId} league={league} />
+            <TreasuryTab leagueId={leagueId} league={league} canRefund={can('issue_payouts')} />
+          </TabsContent>
+        )}
+
+        {can('view_treasury') && (
+          <TabsContent value="activity">
+            <ActivityTab league={league} />
           </TabsContent>
         )}
 
-        {isCommissioner && (
+        {showTools && (
           <TabsContent value="tools">
              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {can('issue_payouts') && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
@@ -375,7 +428,9 @@ export default function LeagueDetail() {
                     <IssuePayoutForm league={league} />
                   </CardContent>
                 </Card>
+                )}
 
+                {can('sync_scores') && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
@@ -387,18 +442,35 @@ export default function LeagueDetail() {
                     <SyncScoresForm league={league} />
                   </CardContent>
                 </Card>
+                )}
+
+                {can('sync_scores') && <WeeklyAwardReviewsCard league={league} />}
+
+                {can('issue_payouts') && <SeasonPayoutsCard league={league} />}
+
+                {(can('view_treasury') || isApprover) && <ApprovalQueueCard league={league} />}
              </div>
           </TabsContent>
         )}
 
-        {isCommissioner && (
+        {can('manage_league') && (
           <TabsContent value="settings">
             <div className="space-y-6">
-              <LeagueSettingsForm league={league} />
-              <EspnSettingsForm league={league} />
-              <EspnTeamMappingForm league={league} />
-              <TransferCommissionerSection league={league} />
-              <DeleteLeagueSection league={league} />
+              <LeagueSettingsForm league={league} canEditApprovals={can('administer_league')} />
+              {league.platform === 'yahoo' ? (
+                <YahooSettingsCard league={league} />
+              ) : (
+                <EspnSettingsForm league={league} />
+              )}
+              <TeamMappingForm league={league} />
+              <ScheduledJobsCard league={league} />
+              {can('administer_league') && (
+                <>
+                  {!league.archivedAt && <StartNewSeasonSection league={league} />}
+                  <TransferCommissionerSection league={league} />
+                  <DeleteLeagueSection league={league} />
+                </>
+              )}
             </div>
           </TabsContent>
         )}
@@ -413,9 +485,12 @@ function PayoutCalculatorCard({ league }: { league: any }) {
   const numberOfWeeks = settings.numberOfWeeks || 17;
   
   const entryFee = Number(settings.entryFee || settings.seasonDues || 0);
-  const firstPlace = Number(settings.firstPlacePayout || 0);
-  const secondPlace = Number(settings.secondPlacePayout || 0);
-  const thirdPlace = Number(settings.thirdPlacePayout || 0);
+  const seasonPrizes = Number(settings.firstPlacePayout || 0)
+    + Number(settings.secondPlacePayout || 0)
+    + Number(settings.thirdPlacePayout || 0)
+    + Number(settings.regularSeasonWinnerPayout || 0)
+    + Number(settings.mostPointsForPayout || 0);
+  const isPercent = settings.seasonPayoutMode === 'percent';
   const weeklyHps = Number(settings.weeklyHighScorePrize || settings.weeklyPayoutAmount || 0);
   const weeklyLps = Number(settings.weeklyLowScoreFee || 0);
   const lpsEnabled = settings.weeklyLowScoreFeeEnabled || false;
@@ -424,8 +499,11 @@ function PayoutCalculatorCard({ league }: { league: any }) {
   const totalWeeklyLpsRevenue = lpsEnabled ? weeklyLps * numberOfWeeks : 0;
   const totalIncome = totalRevenue + totalWeeklyLpsRevenue;
   
-  const seasonPayouts = firstPlace + secondPlace + thirdPlace;
   const totalWeeklyHpsPayouts = weeklyHps * numberOfWeeks;
+  // Percentages apply to what's left in the pot after weekly prizes
+  const seasonPayouts = isPercent
+    ? Math.max(totalIncome - totalWeeklyHpsPayouts, 0) * seasonPrizes / 100
+    : seasonPrizes;
   const totalPayouts = seasonPayouts + totalWeeklyHpsPayouts;
   
   const balance = totalIncome - totalPayouts;
@@ -463,7 +541,7 @@ function PayoutCalculatorCard({ league }: { league: any }) {
         <div className="space-y-2 text-sm border-t pt-3">
           <p className="font-medium text-foreground">Planned Payouts</p>
           <div className="flex justify-between">
-            <span className="text-muted-foreground">Season (1st + 2nd + 3rd)</span>
+            <span className="text-muted-foreground">Season prizes{isPercent ? ` (${seasonPrizes}% of pot)` : ''}</span>
             <span className="font-mono text-red-600">-${seasonPayouts.toFixed(2)}</span>
           </div>
           <div className="flex justify-between">
@@ -492,29 +570,102 @@ function PayoutCalculatorCard({ league }: { league: any }) {
   );
 }
 
-function PayDuesDialog({ league, userId, amount }: { league: any, userId: string, amount: number }) {
+interface MemberDues {
+  owed: string;
+  paid: string;
+  remaining: string;
+  amountDue: string;
+  nextDueWeek: number | null;
+  nextDueDate: string | null;
+  overdue: boolean;
+  installments: Array<{ dueWeek: number; amount: number; dueDate: string | null; paid: boolean }>;
+}
+
+function MyDuesCard({ league, member, userId }: { league: any; member: any; userId: string }) {
+  const { data: duesRows } = useQuery<MemberDues[]>({
+    queryKey: ['/api/leagues', league.id, 'dues'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/dues`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch dues');
+      return res.json();
+    }
+  });
+  const dues = duesRows?.[0];
+  const fallbackAmount = league.settings?.entryFee || league.settings?.seasonDues || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Status</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-4 bg-muted/30 rounded-xl border">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-yellow-100 text-yellow-700">
+              <AlertCircle className="w-5 h-5" />
+            </div>
+            <div>
+              <p className="font-medium">Team: {member.teamName}</p>
+              <p className="text-sm text-muted-foreground" data-testid="text-dues-balance">
+                {dues && Number(dues.paid) > 0
+                  ? `Paid $${dues.paid} of $${dues.owed} - $${dues.remaining} remaining`
+                  : `Dues owed: $${dues?.owed ?? fallbackAmount}`}
+              </p>
+              {dues?.nextDueWeek && dues.installments.length > 1 && (
+                <p className={`text-xs ${dues.overdue ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  ${dues.amountDue} due before Week {dues.nextDueWeek}{dues.overdue ? ' (overdue)' : ''}
+                </p>
+              )}
+            </div>
+          </div>
+          <PayDuesDialog
+            league={league}
+            userId={userId}
+            amount={Number(dues?.amountDue ?? fallbackAmount)}
+            remaining={Number(dues?.remaining ?? fallbackAmount)}
+          />
+        </div>
+        {dues && dues.installments.length > 1 && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {dues.installments.map(installment => (
+              <div key={installment.dueWeek} className="flex items-center justify-between text-sm p-2 rounded-md border" data-testid={`installment-week-${installment.dueWeek}`}>
+                <span className="text-muted-foreground">Before Week {installment.dueWeek}</span>
+                <span className="flex items-center gap-1 font-mono">
+                  {installment.paid && <Check className="w-3 h-3 text-green-600" />}
+                  ${Number(installment.amount).toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// `amount` is what's due now; members can choose to pay off the whole `remaining` balance instead
+function PayDuesDialog({ league, userId, amount, remaining = amount }: { league: any, userId: string, amount: number, remaining?: number }) {
   const [isOpen, setIsOpen] = useState(false);
-  const createPayment = useCreatePayment();
+  const [payInFull, setPayInFull] = useState(false);
   const { toast } = useToast();
+  const checkoutAmount = payInFull ? remaining : amount;
 
+  // The payment stays pending until Stripe's webhook confirms it
   const handleSuccess = () => {
-    createPayment.mutate({
-      leagueId: league.id,
-      userId,
-      amount: amount,
-    }, {
-      onSuccess: () => {
-        setIsOpen(false);
-        toast({
-          title: "Payment Successful",
-          description: "Your dues have been paid. Thank you!",
-        });
-      }
+    setIsOpen(false);
+    queryClient.invalidateQueries({ queryKey: [api.payments.history.path, league.id] });
+    queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+    toast({
+      title: "Payment Submitted",
+      description: "Your balance will update once Stripe confirms the payment.",
     });
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (open) setPayInFull(false);
+    }}>
       <DialogTrigger asChild>
         <Button size="sm">Pay Dues</Button>
       </DialogTrigger>
@@ -524,12 +675,19 @@ function PayDuesDialog({ league, userId, amount }: { league: any, userId: string
           <DialogDescription>Pay your season dues securely via Stripe.</DialogDescription>
         </DialogHeader>
         <div className="py-4 space-y-4">
+          {remaining > amount && (
+            <div className="flex items-center justify-between gap-4 p-3 rounded-md border">
+              <Label htmlFor="payInFull" className="text-sm">Pay the full ${remaining.toFixed(2)} balance</Label>
+              <Switch id="payInFull" checked={payInFull} onCheckedChange={setPayInFull} data-testid="switch-pay-in-full" />
+            </div>
+          )}
           <div className="flex justify-between items-center text-lg font-medium border-b pb-3">
-             <span>Season Dues</span>
-             <span className="text-primary font-bold">${amount}</span>
+             <span>{checkoutAmount < remaining ? 'Next Installment' : 'Season Dues'}</span>
+             <span className="text-primary font-bold">${checkoutAmount}</span>
           </div>
           <StripeCheckout
-            amount={amount}
+            key={checkoutAmount}
+            amount={checkoutAmount}
             leagueId={league.id}
             onSuccess={handleSuccess}
             onCancel={() => setIsOpen(false)}
@@ -884,10 +1042,11 @@ function MyWalletTab({ leagueId, userId }: { leagueId: number; userId: string })
                               variant={
                                 withdrawal.status === 'completed' ? 'default' :
                                 withdrawal.status === 'processing' ? 'secondary' :
-                                withdrawal.status === 'failed' ? 'destructive' : 'outline'
+                                withdrawal.status === 'failed' || withdrawal.status === 'rejected' ? 'destructive' : 'outline'
                               }
+                              className="capitalize"
                             >
-                              {withdrawal.status}
+                              {withdrawal.status.replace(/_/g, " ")}
                             </Badge>
                           </TableCell>
                         </TableRow>
@@ -1010,7 +1169,7 @@ interface TreasuryData {
   leagueName: string;
 }
 
-function TreasuryTab({ leagueId, league }: { leagueId: number; league: any }) {
+function TreasuryTab({ leagueId, league, canRefund }: { leagueId: number; league: any; canRefund: boolean }) {
   const { data: treasury, isLoading: treasuryLoading } = useQuery<TreasuryData>({
     queryKey: ['/api/leagues', leagueId, 'treasury'],
     queryFn: async () => {
@@ -1158,7 +1317,20 @@ function TreasuryTab({ leagueId, league }: { leagueId: number; league: any }) {
                           <p className="font-medium text-sm">{getTeamName(p.userId)}</p>
                           <p className="text-xs text-muted-foreground">{format(new Date(p.createdAt), 'MMM d, yyyy')}</p>
                         </div>
-                        <span className="font-mono font-medium text-green-600">+${Number(p.amount).toFixed(2)}</span>
+                        <div className="flex items-center gap-2">
+                          {p.status !== 'completed' && (
+                            <Badge variant={p.status === 'failed' ? 'destructive' : 'outline'} className="capitalize">{p.status.replace(/_/g, " ")}</Badge>
+                          )}
+                          <div className="text-right">
+                            <span className={`font-mono font-medium ${p.status === 'completed' ? 'text-green-600' : 'text-muted-foreground'}`}>+${Number(p.amount).toFixed(2)}</span>
+                            {Number(p.refundedAmount) > 0 && (
+                              <p className="text-xs font-mono text-red-600" data-testid={`text-refunded-${p.id}`}>-${Number(p.refundedAmount).toFixed(2)} refunded</p>
+                            )}
+                          </div>
+                          {canRefund && (p.status === 'completed' || p.status === 'partially_refunded') && (
+                            <RefundPaymentDialog leagueId={leagueId} payment={p} teamName={getTeamName(p.userId)} />
+                          )}
+                        </div>
                      </div>
                    ))}
                  </div>
@@ -1184,7 +1356,12 @@ function TreasuryTab({ leagueId, league }: { leagueId: number; league: any }) {
                           <p className="font-medium text-sm">{getTeamName(p.userId)}</p>
                           <p className="text-xs text-muted-foreground capitalize">{p.reason.replace(/_/g, " ")} - {format(new Date(p.createdAt), 'MMM d, yyyy')}</p>
                         </div>
-                        <span className="font-mono font-medium text-red-600">-${Number(p.amount).toFixed(2)}</span>
+                        <div className="flex items-center gap-2">
+                          {(p.status === 'pending_approval' || p.status === 'rejected') && (
+                            <Badge variant={p.status === 'rejected' ? 'destructive' : 'outline'} className="capitalize">{p.status.replace(/_/g, " ")}</Badge>
+                          )}
+                          <span className={`font-mono font-medium ${p.status === 'pending_approval' || p.status === 'rejected' ? 'text-muted-foreground' : 'text-red-600'}`}>-${Number(p.amount).toFixed(2)}</span>
+                        </div>
                      </div>
                    ))}
                  </div>
@@ -1193,165 +1370,566 @@ function TreasuryTab({ leagueId, league }: { leagueId: number; league: any }) {
           </CardContent>
         </Card>
       </div>
+
+      <ReconciliationCard leagueId={leagueId} />
     </div>
   );
 }
 
-function SyncScoresForm({ league }: { league: any }) {
-  const [week, setWeek] = useState("1");
-  const [lastResult, setLastResult] = useState<any>(null);
-  const [allWeeksResult, setAllWeeksResult] = useState<any>(null);
+function RefundPaymentDialog({ leagueId, payment, teamName }: { leagueId: number; payment: any; teamName: string }) {
+  const remaining = Number(payment.amount) - Number(payment.refundedAmount || 0);
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(remaining.toFixed(2));
+  const [reason, setReason] = useState('');
   const { toast } = useToast();
-  
-  const syncScores = useMutation({
-    mutationFn: async (data: { week: number }) => {
-      const response = await apiRequest('POST', `/api/leagues/${league.id}/sync-scores`, data);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
-      setLastResult(data);
-      
-      let description = `${data.scoresUpdated} scores updated from ${data.source}`;
-      if (data.automation?.hpsPayoutCreated) {
-        description += ` | HPS payout: $${data.automation.hpsAmount}`;
-      }
-      if (data.automation?.lpsRequestCreated) {
-        description += ` | LPS fee requested: $${data.automation.lpsAmount}`;
-      }
-      
-      // Show warning if ESPN failed
-      if (data.espnError) {
-        toast({
-          title: "ESPN Sync Failed",
-          description: `${data.espnError}. Using mock scores instead.`,
-          variant: "destructive",
-        });
-      } else if (data.unmappedMembers?.length > 0) {
-        toast({
-          title: "Some Members Unmapped",
-          description: `${data.unmappedMembers.length} member(s) don't have ESPN teams linked. Check team mapping in Settings.`,
-        });
-      }
-      
-      toast({
-        title: "Scores Synced",
-        description,
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Sync Failed",
-        description: "Could not sync scores. Please try again.",
-        variant: "destructive",
-      });
-    }
-  });
 
-  const syncAllWeeks = useMutation({
+  const issueRefund = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', `/api/leagues/${league.id}/sync-all-weeks`, {});
-      return response.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
-      setAllWeeksResult(data);
-      
-      toast({
-        title: "All Weeks Synced",
-        description: `Synced ${data.weeksWithScores} weeks with ${data.totalScoresAdded} total scores from ESPN.`,
+      const res = await apiRequest('POST', `/api/leagues/${leagueId}/payments/${payment.id}/refund`, {
+        amount: Number(amount),
+        reason: reason.trim()
       });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.message || 'Failed to issue refund');
+      }
+      return res.json();
     },
-    onError: () => {
-      toast({
-        title: "Sync Failed",
-        description: "Could not sync all weeks. Check ESPN configuration.",
-        variant: "destructive",
-      });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.payments.history.path, leagueId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId] });
+      toast({ title: "Refund issued", description: `$${Number(amount).toFixed(2)} is on its way back to ${teamName}.` });
+      setOpen(false);
+    },
+    onError: (err: any) => {
+      toast({ title: "Refund failed", description: err.message, variant: "destructive" });
     }
   });
 
-  const handleSync = (e: React.FormEvent) => {
-    e.preventDefault();
-    syncScores.mutate({ week: Number(week) });
-  };
+  const amountValue = Number(amount);
+  const isValid = amountValue > 0 && amountValue <= remaining && reason.trim().length > 0;
 
   return (
-    <form onSubmit={handleSync} className="space-y-4">
-      <div className="space-y-2">
-        <Label htmlFor="sync-week">Week Number</Label>
-        <Input 
-          id="sync-week" 
-          type="number" 
-          min="1" 
-          max="18"
-          value={week}
-          onChange={(e) => setWeek(e.target.value)}
-          data-testid="input-sync-week"
-        />
-      </div>
-      {league.settings?.lastScoreSync && (
-        <p className="text-xs text-muted-foreground">
-          Last synced: {format(new Date(league.settings.lastScoreSync), 'MMM d, yyyy h:mm a')}
-        </p>
-      )}
-      <div className="flex gap-2">
-        <Button type="submit" className="flex-1" disabled={syncScores.isPending || syncAllWeeks.isPending} data-testid="button-sync-scores">
-          {syncScores.isPending ? (
-            <>
-              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-              Syncing...
-            </>
-          ) : (
-            <>
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Sync Week {week}
-            </>
-          )}
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen) {
+        setAmount(remaining.toFixed(2));
+        setReason('');
+      }
+    }}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" data-testid={`button-refund-payment-${payment.id}`}>
+          <Undo2 className="w-4 h-4" />
         </Button>
-        
-        {league.platform === 'espn' && league.settings?.espnLeagueId && (
-          <Button 
-            type="button" 
-            variant="outline"
-            className="flex-1" 
-            disabled={syncScores.isPending || syncAllWeeks.isPending}
-            onClick={() => syncAllWeeks.mutate()}
-            data-testid="button-sync-all-weeks"
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            Send money back to {teamName}'s card. Up to ${remaining.toFixed(2)} can still be refunded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <Label>Amount ($)</Label>
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={remaining.toFixed(2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-refund-amount"
+            />
+          </div>
+          <div>
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Member left the league before the draft"
+              data-testid="input-refund-reason"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => issueRefund.mutate()}
+            disabled={!isValid || issueRefund.isPending}
+            data-testid="button-confirm-refund"
           >
-            {syncAllWeeks.isPending ? (
-              <>
-                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                Syncing All...
-              </>
-            ) : (
-              <>
-                <RefreshCw className="w-4 h-4 mr-2" />
-                Sync All Weeks
-              </>
-            )}
+            {issueRefund.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            Refund ${amountValue > 0 ? amountValue.toFixed(2) : '0.00'}
           </Button>
-        )}
-      </div>
-      
-      {allWeeksResult && (
-        <div className="text-xs space-y-1 p-3 bg-muted rounded-lg" data-testid="sync-all-weeks-results">
-          <p className="font-medium">Season Sync Results:</p>
-          <p className="text-green-600">Weeks with scores: {allWeeksResult.weeksWithScores} of 18</p>
-          <p>Total scores added: {allWeeksResult.totalScoresAdded}</p>
-          <div className="max-h-32 overflow-y-auto mt-2 space-y-1">
-            {allWeeksResult.results?.map((r: any) => (
-              <p key={r.week} className={r.scoresUpdated > 0 ? 'text-green-600' : 'text-muted-foreground'}>
-                Week {r.week}: {r.scoresUpdated > 0 ? `${r.scoresUpdated} scores` : (r.error || 'No data')}
-              </p>
-            ))}
-          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReconciliationReport {
+  balances: { leagueTreasury: string; memberWallets: string; platformFees: string; stripeClearing: string };
+  checks: Array<{ name: string; label: string; ledger: string; recorded: string; ok: boolean }>;
+  unbalancedTransactionIds: number[];
+  unpostedPaymentIds: number[];
+  unpostedPayoutIds: number[];
+  mismatchCount: number;
+}
+
+// The league's audit log, newest first
+function ActivityTab({ league }: { league: any }) {
+  const [entityType, setEntityType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+
+  const { data: events, isLoading } = useQuery<AuditEventWithActor[]>({
+    queryKey: ['/api/leagues', league.id, 'audit-events', entityType, actorId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (entityType !== 'all') params.set('entityType', entityType);
+      if (actorId !== 'all') params.set('actorId', actorId);
+      const res = await fetch(`/api/leagues/${league.id}/audit-events?${params}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch league activity');
+      return res.json();
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 flex-wrap">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" /> Activity
+          </CardTitle>
+          <CardDescription>Every change to the league, its members and its money, and who made it.</CardDescription>
         </div>
-      )}
-      
-      {lastResult?.automation && (
-        <div className="text-xs space-y-1 p-3 bg-muted rounded-lg" data-testid="sync-automation-results">
+        <div className="flex items-center gap-2">
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-[160px]" data-testid="select-activity-entity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everything</SelectItem>
+              {AUDIT_ENTITY_TYPES.filter(type => type !== 'user').map(type => (
+                <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actorId} onValueChange={setActorId}>
+            <SelectTrigger className="w-[160px]" data-testid="select-activity-actor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              {league.members
+                .filter((m: any) => m.user)
+                .map((m: any) => (
+                  <SelectItem key={m.userId} value={m.userId}>{m.teamName || m.ownerName || m.user.email}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <AuditEventList events={events} isLoading={isLoading} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function HistoryTab({ league }: { league: any }) {
+  const { data: history, isLoading } = useQuery<LeagueHistory>({
+    queryKey: ['/api/leagues', league.id, 'history'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/history`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch league history');
+      return res.json();
+    }
+  });
+
+  if (isLoading || !history) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const namesByKey = new Map(history.members.map(m => [m.key, m.displayName]));
+  const formatMoney = (amount: string) => `${Number(amount) < 0 ? '-' : ''}$${Math.abs(Number(amount)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-primary" /> Seasons
+          </CardTitle>
+          <CardDescription>
+            {history.seasons.length === 1
+              ? "This is the league's first season on LeagueVault."
+              : `${history.seasons.length} seasons from ${history.seasons[0].seasonYear} to ${history.seasons[history.seasons.length - 1].seasonYear}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          {history.seasons.map(season => (
+            <Link key={season.leagueId} href={`/league/${season.leagueId}`}>
+              <div
+                className={`px-3 py-2 rounded-lg border text-sm hover:bg-muted/50 ${season.leagueId === league.id ? 'border-primary bg-primary/5' : ''}`}
+                data-testid={`history-season-${season.seasonYear}`}
+              >
+                <p className="font-medium">{season.seasonYear}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  {season.championKey
+                    ? <><Crown className="w-3 h-3 text-amber-500" /> {namesByKey.get(season.championKey) || 'Champion'}</>
+                    : `${season.memberCount} members`}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All-Time Standings</CardTitle>
+          <CardDescription>Dues, winnings and weekly awards across every season. Net is winnings less dues and LPS fees.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.members.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No history yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-center">Seasons</TableHead>
+                    <TableHead className="text-center">Titles</TableHead>
+                    <TableHead className="text-center">HPS</TableHead>
+                    <TableHead className="text-center">LPS</TableHead>
+                    <TableHead className="text-right">Paid In</TableHead>
+                    <TableHead className="text-right">Winnings</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead className="text-right">Best Week</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.members.map(member => (
+                    <TableRow key={member.key} data-testid={`history-member-${member.key}`}>
+                      <TableCell>
+                        <p className="font-medium">{member.displayName}</p>
+                        {member.teamName && member.teamName !== member.displayName && (
+                          <p className="text-xs text-muted-foreground">{member.teamName}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">{member.seasonsPlayed}</TableCell>
+                      <TableCell className="text-center">
+                        {member.championships.length > 0 ? (
+                          <span className="inline-flex items-center gap-1" title={member.championships.join(', ')}>
+                            <Crown className="w-4 h-4 text-amber-500" /> {member.championships.length}
+                          </span>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-center">{member.hpsCount}</TableCell>
+                      <TableCell className="text-center">{member.lpsCount}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney((Number(member.duesPaid) + Number(member.lpsFeesPaid)).toFixed(2))}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(member.winnings)}</TableCell>
+                      <TableCell className={`text-right font-mono font-medium ${Number(member.net) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(member.net)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{member.bestWeek ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ReconciliationCard({ leagueId }: { leagueId: number }) {
+  const { data: report, isLoading, refetch, isFetching } = useQuery<ReconciliationReport>({
+    queryKey: ['/api/leagues', leagueId, 'reconciliation'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${leagueId}/reconciliation`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to reconcile league');
+      return res.json();
+    },
+  });
+
+  const mismatchedChecks = report?.checks.filter(c => !c.ok) || [];
+
+  return (
+    <Card data-testid="card-reconciliation">
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            Ledger Reconciliation
+            {report && (
+              <Badge variant={report.mismatchCount === 0 ? 'secondary' : 'destructive'}>
+                {report.mismatchCount === 0 ? 'Balanced' : `${report.mismatchCount} mismatch${report.mismatchCount === 1 ? '' : 'es'}`}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>Compares the double-entry ledger with total dues and member wallet balances</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-reconciliation">
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Treasury</p>
+                <p className="font-mono font-medium">${report.balances.leagueTreasury}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Member Wallets</p>
+                <p className="font-mono font-medium">${report.balances.memberWallets}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Platform Fees</p>
+                <p className="font-mono font-medium">${report.balances.platformFees}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Stripe Clearing</p>
+                <p className="font-mono font-medium">${report.balances.stripeClearing}</p>
+              </div>
+            </div>
+
+            {report.mismatchCount === 0 ? (
+              <p className="text-sm text-muted-foreground">Ledger, total dues and wallet balances all agree.</p>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {mismatchedChecks.map(c => (
+                  <div key={c.name} className="flex justify-between gap-4 p-2 rounded-md bg-destructive/10" data-testid={`reconciliation-check-${c.name}`}>
+                    <span>{c.label}</span>
+                    <span className="font-mono">ledger ${c.ledger} · recorded ${c.recorded}</span>
+                  </div>
+                ))}
+                {report.unpostedPaymentIds.length > 0 && (
+                  <p className="text-destructive">Completed payments missing from the ledger: #{report.unpostedPaymentIds.join(', #')}</p>
+                )}
+                {report.unpostedPayoutIds.length > 0 && (
+                  <p className="text-destructive">Payouts missing from the ledger: #{report.unpostedPayoutIds.join(', #')}</p>
+                )}
+                {report.unbalancedTransactionIds.length > 0 && (
+                  <p className="text-destructive">Unbalanced ledger transactions: #{report.unbalancedTransactionIds.join(', #')}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function getPlatformLabel(platform: string) {
+  if (platform === 'yahoo') return 'Yahoo';
+  if (platform === 'sleeper') return 'Sleeper';
+  return 'ESPN';
+}
+
+// Mirrors isLeagueConfigured on the server's platform providers
+function isPlatformLeagueConfigured(league: any) {
+  const settings = league.settings || {};
+  if (league.platform === 'espn') return !!settings.espnLeagueId;
+  if (league.platform === 'yahoo') return !!settings.yahooLeagueKey;
+  if (league.platform === 'sleeper') return !!settings.sleeperLeagueId;
+  return false;
+}
+
+function SyncScoresForm({ league }: { league: any }) {
+  const [week, setWeek] = useState("1");
+  const [lastResult, setLastResult] = useState<any>(null);
+  const [allWeeksResult, setAllWeeksResult] = useState<any>(null);
+  const [missingTeams, setMissingTeams] = useState<any[]>([]);
+  const { toast } = useToast();
+  const platformLabel = getPlatformLabel(league.platform);
+  
+  const syncScores = useMutation({
+    mutationFn: async (data: { week: number }) => {
+      const res = await fetch(`/api/leagues/${league.id}/sync-scores`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+        credentials: 'include'
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        // The server writes nothing when any team is missing a score
+        setMissingTeams(err.missingTeams || []);
+        throw new Error(err.message || 'Could not sync scores. Please try again.');
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+      setLastResult(data);
+      setMissingTeams([]);
+      
+      let description = `${data.scoresUpdated} scores updated from ${data.source}`;
+      if (data.automation?.hpsPayoutCreated) {
+        description += ` | HPS payout: $${data.automation.hpsAmount}`;
+      }
+      if (data.automation?.lpsRequestCreated) {
+        description += ` | LPS fee requested: $${data.automation.lpsAmount}`;
+      }
+      
+      if (data.automation?.skippedReason === 'non_authoritative_scores') {
+        description += ' | Awards skipped (mock scores)';
+      }
+      
+      toast({
+        title: "Scores Synced",
+        description,
+      });
+    },
+    onError: (err: any) => {
+      setLastResult(null);
+      toast({
+        title: `${platformLabel} Sync Failed`,
+        description: err.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const syncAllWeeks = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/leagues/${league.id}/sync-all-weeks`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+      setAllWeeksResult(data);
+      
+      toast({
+        title: "All Weeks Synced",
+        description: `Synced ${data.weeksWithScores} weeks with ${data.totalScoresAdded} total scores from ${platformLabel}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Sync Failed",
+        description: `Could not sync all weeks. Check ${platformLabel} configuration.`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSync = (e: React.FormEvent) => {
+    e.preventDefault();
+    syncScores.mutate({ week: Number(week) });
+  };
+
+  return (
+    <form onSubmit={handleSync} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sync-week">Week Number</Label>
+        <Input 
+          id="sync-week" 
+          type="number" 
+          min="1" 
+          max="18"
+          value={week}
+          onChange={(e) => setWeek(e.target.value)}
+          data-testid="input-sync-week"
+        />
+      </div>
+      {league.settings?.lastScoreSync && (
+        <p className="text-xs text-muted-foreground">
+          Last synced: {format(new Date(league.settings.lastScoreSync), 'MMM d, yyyy h:mm a')}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" className="flex-1" disabled={syncScores.isPending || syncAllWeeks.isPending} data-testid="button-sync-scores">
+          {syncScores.isPending ? (
+            <>
+              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              Syncing...
+            </>
+          ) : (
+            <>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Sync Week {week}
+            </>
+          )}
+        </Button>
+        
+        {isPlatformLeagueConfigured(league) && (
+          <Button 
+            type="button" 
+            variant="outline"
+            className="flex-1" 
+            disabled={syncScores.isPending || syncAllWeeks.isPending}
+            onClick={() => syncAllWeeks.mutate()}
+            data-testid="button-sync-all-weeks"
+          >
+            {syncAllWeeks.isPending ? (
+              <>
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                Syncing All...
+              </>
+            ) : (
+              <>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Sync All Weeks
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+      
+      {allWeeksResult && (
+        <div className="text-xs space-y-1 p-3 bg-muted rounded-lg" data-testid="sync-all-weeks-results">
+          <p className="font-medium">Season Sync Results:</p>
+          <p className="text-green-600">Weeks with scores: {allWeeksResult.weeksWithScores} of 18</p>
+          <p>Total scores added: {allWeeksResult.totalScoresAdded}</p>
+          <div className="max-h-32 overflow-y-auto mt-2 space-y-1">
+            {allWeeksResult.results?.map((r: any) => (
+              <p key={r.week} className={r.scoresUpdated > 0 ? 'text-green-600' : 'text-muted-foreground'}>
+                Week {r.week}: {r.scoresUpdated > 0 ? `${r.scoresUpdated} scores` : (r.error || 'No data')}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {missingTeams.length > 0 && (
+        <div className="text-xs space-y-1 p-3 bg-muted rounded-lg" data-testid="sync-missing-teams">
+          <p className="font-medium text-red-600">No scores written. Teams without a score:</p>
+          {missingTeams.map((t: any) => (
+            <p key={t.memberId} className="text-muted-foreground">
+              {t.teamName}: {t.reason === 'unmapped' ? `not mapped to a ${platformLabel} team` : t.reason === 'no_platform_score' ? `no ${platformLabel} score this week` : `${platformLabel} unavailable`}
+            </p>
+          ))}
+        </div>
+      )}
+      
+      {lastResult?.automation && (
+        <div className="text-xs space-y-1 p-3 bg-muted rounded-lg" data-testid="sync-automation-results">
           <p className="font-medium">Automation Results:</p>
+          {lastResult.automation.skippedReason === 'non_authoritative_scores' && (
+            <p className="text-yellow-600">Awards skipped: this week contains mock scores</p>
+          )}
+          {(lastResult.automation.hpsNeedsReview || lastResult.automation.lpsNeedsReview) && (
+            <p className="text-yellow-600">Tie found: {[lastResult.automation.hpsNeedsReview && 'HPS', lastResult.automation.lpsNeedsReview && 'LPS'].filter(Boolean).join(' and ')} on hold for your review</p>
+          )}
+          {lastResult.automation.alreadyProcessed && (
+            <p className="text-muted-foreground">Week already awarded; no duplicate payouts or fees were created</p>
+          )}
           {lastResult.automation.hpsPayoutCreated ? (
             <p className="text-green-600">HPS: ${lastResult.automation.hpsAmount} credited to highest scorer</p>
           ) : (
@@ -1363,23 +1941,468 @@ function SyncScoresForm({ league }: { league: any }) {
               {lastResult.automation.lpsSmsStatus === 'sent' && (
                 <p className="text-green-600">SMS notification sent</p>
               )}
+              {lastResult.automation.lpsSmsStatus === 'emailed' && (
+                <p className="text-green-600">Email notification sent</p>
+              )}
+              {lastResult.automation.lpsSmsStatus === 'in_app' && (
+                <p className="text-green-600">In-app notification sent</p>
+              )}
+              {lastResult.automation.lpsSmsStatus === 'scheduled' && (
+                <p className="text-muted-foreground">Notification queued (quiet hours or retrying)</p>
+              )}
               {lastResult.automation.lpsSmsStatus === 'failed' && (
-                <p className="text-red-600">SMS failed to send</p>
+                <p className="text-red-600">Notification failed to send</p>
               )}
-              {lastResult.automation.lpsSmsStatus === 'no_phone' && (
-                <p className="text-muted-foreground">No phone number on file</p>
+              {lastResult.automation.lpsSmsStatus === 'no_contact' && (
+                <p className="text-muted-foreground">No way to reach this member</p>
               )}
             </div>
-          ) : (
-            <p className="text-muted-foreground">LPS: No fee (not enabled)</p>
-          )}
-        </div>
-      )}
-    </form>
+          ) : (
+            <p className="text-muted-foreground">LPS: No fee (not enabled)</p>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
+
+function WeeklyAwardReviewsCard({ league }: { league: any }) {
+  const { toast } = useToast();
+  const { data: events = [] } = useQuery<any[]>({
+    queryKey: ['/api/leagues', league.id, 'weekly-awards'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/weekly-awards`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch weekly awards');
+      return res.json();
+    }
+  });
+
+  const resolveTie = useMutation({
+    mutationFn: async (data: { week: number; award: 'hps' | 'lps'; userIds: string[] }) => {
+      const res = await apiRequest('POST', `/api/leagues/${league.id}/weekly-awards/${data.week}/resolve`, {
+        award: data.award,
+        userIds: data.userIds
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+      toast({ title: "Tie resolved", description: "The award has been issued." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to resolve tie", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const teamName = (userId: string) =>
+    league.members?.find((m: any) => m.userId === userId)?.teamName || userId;
+
+  const pending = events.flatMap((e: any) => [
+    ...(e.hpsNeedsReview ? [{ week: e.week, award: 'hps' as const, tiedUserIds: e.highScoreTiedUserIds || [] }] : []),
+    ...(e.lpsNeedsReview ? [{ week: e.week, award: 'lps' as const, tiedUserIds: e.lowScoreTiedUserIds || [] }] : [])
+  ]);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-yellow-500" /> Ties Needing Review
+        </CardTitle>
+        <CardDescription>These awards are on hold until you pick a winner or split them.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.map((item) => (
+          <div key={`${item.week}-${item.award}`} className="p-3 bg-muted/30 rounded-lg border space-y-2" data-testid={`tie-review-${item.week}-${item.award}`}>
+            <p className="text-sm font-medium">
+              Week {item.week} {item.award === 'hps' ? 'High Point Scorer prize' : 'Lowest Scorer fee'}: {item.tiedUserIds.map(teamName).join(', ')}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {item.tiedUserIds.map((userId: string) => (
+                <Button
+                  key={userId}
+                  size="sm"
+                  variant="outline"
+                  disabled={resolveTie.isPending}
+                  onClick={() => resolveTie.mutate({ week: item.week, award: item.award, userIds: [userId] })}
+                  data-testid={`button-resolve-tie-${item.week}-${item.award}-${userId}`}
+                >
+                  {item.award === 'hps' ? 'Award to' : 'Charge'} {teamName(userId)}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                disabled={resolveTie.isPending}
+                onClick={() => resolveTie.mutate({ week: item.week, award: item.award, userIds: item.tiedUserIds })}
+                data-testid={`button-split-tie-${item.week}-${item.award}`}
+              >
+                Split Evenly
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SeasonPayoutsCard({ league }: { league: any }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const hasPlatform = league.platform !== 'custom';
+  const [source, setSource] = useState<'platform' | 'commissioner'>(hasPlatform ? 'platform' : 'commissioner');
+  const [ranks, setRanks] = useState<Record<string, { finalRank: string; regularSeasonRank: string }>>({});
+
+  const { data } = useQuery<{ seasonYear: number; batch: SeasonPayoutBatch | null }>({
+    queryKey: ['/api/leagues', league.id, 'season-payouts'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/season-payouts`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch season payouts');
+      return res.json();
+    }
+  });
+  const batch = data?.batch;
+
+  const calculate = useMutation({
+    mutationFn: async () => {
+      const standings = source === 'commissioner'
+        ? Object.entries(ranks)
+            .filter(([, r]) => r.finalRank || r.regularSeasonRank)
+            .map(([userId, r]) => ({
+              userId,
+              finalRank: r.finalRank ? Number(r.finalRank) : null,
+              regularSeasonRank: r.regularSeasonRank ? Number(r.regularSeasonRank) : null
+            }))
+        : [];
+      const res = await apiRequest('POST', `/api/leagues/${league.id}/season-payouts/calculate`, { source, standings });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id, 'season-payouts'] });
+      toast({ title: "Payouts calculated", description: "Review the batch below, then approve it to pay winners." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not calculate payouts", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const approve = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/leagues/${league.id}/season-payouts/approve`, {});
+      return res.json();
+    },
+    onSuccess: (result: { heldForApproval: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+      queryClient.invalidateQueries({ queryKey: [api.payments.history.path, league.id] });
+      toast({
+        title: "Season payouts sent",
+        description: result.heldForApproval > 0
+          ? `Winners' wallets have been credited. ${result.heldForApproval} prize${result.heldForApproval === 1 ? ' is' : 's are'} over the approval threshold and waiting for the approver.`
+          : "Winners' wallets have been credited."
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Approval failed", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const teamName = (userId: string) =>
+    league.members?.find((m: any) => m.userId === userId)?.teamName || userId;
+  const isPaid = batch?.status === 'paid';
+  // Two-person control: someone other than whoever calculated the batch approves it
+  const needsSecondApprover = Number(league.settings?.approvalThreshold || 0) > 0 && batch?.createdBy === user?.id;
+
+  return (
+    <Card className="md:col-span-2" data-testid="card-season-payouts">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-500" /> {data?.seasonYear || league.seasonYear} Season Payouts
+        </CardTitle>
+        <CardDescription>
+          Pays the prizes from league settings using final standings. Nothing is paid until you approve the batch.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPaid && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Label>Standings from</Label>
+              <Select value={source} onValueChange={(v) => setSource(v as 'platform' | 'commissioner')}>
+                <SelectTrigger className="w-56" data-testid="select-standings-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {hasPlatform && <SelectItem value="platform">{league.platform.toUpperCase()} final standings</SelectItem>}
+                  <SelectItem value="commissioner">Enter standings manually</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {source === 'commissioner' && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Final Rank</TableHead>
+                    <TableHead>Regular Season Rank</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(league.members || []).map((member: any) => (
+                    <TableRow key={member.userId}>
+                      <TableCell className="font-medium">{member.teamName || member.ownerName}</TableCell>
+                      {(['finalRank', 'regularSeasonRank'] as const).map(field => (
+                        <TableCell key={field}>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="1"
+                            className="w-20 font-mono"
+                            value={ranks[member.userId]?.[field] || ''}
+                            onChange={(e) => setRanks({
+                              ...ranks,
+                              [member.userId]: { ...(ranks[member.userId] || { finalRank: '', regularSeasonRank: '' }), [field]: e.target.value }
+                            })}
+                            data-testid={`input-${field}-${member.id}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <Button
+              variant="outline"
+              onClick={() => calculate.mutate()}
+              disabled={calculate.isPending}
+              data-testid="button-calculate-season-payouts"
+            >
+              {calculate.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Calculator className="w-4 h-4 mr-2" />}
+              {batch ? 'Recalculate' : 'Calculate Payouts'}
+            </Button>
+          </>
+        )}
+
+        {batch && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                ${batch.totalAmount} of ${batch.potAmount} pot - standings from {batch.standingsSource === 'platform' ? 'the platform' : 'commissioner'}
+              </p>
+              <Badge variant={isPaid ? 'default' : 'outline'} className={isPaid ? 'bg-green-600 text-white' : ''}>
+                {isPaid ? 'Paid' : 'Awaiting approval'}
+              </Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Prize</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batch.lines.map((line, index) => (
+                  <TableRow key={`${line.prize}-${line.userId}`} data-testid={`row-season-payout-${index}`}>
+                    <TableCell>{SEASON_PRIZE_LABELS[line.prize as SeasonPrize]}</TableCell>
+                    <TableCell>{teamName(line.userId)}</TableCell>
+                    <TableCell className="text-right font-mono">${line.amount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {isPaid ? (
+              batch.approvedAt && (
+                <p className="text-xs text-muted-foreground">Paid {format(new Date(batch.approvedAt), 'MMM d, yyyy h:mm a')}</p>
+              )
+            ) : needsSecondApprover ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-season-payouts-second-approver">
+                This league requires two-person approval. Another payout manager needs to approve the payouts you calculated.
+              </p>
+            ) : (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={approve.isPending || batch.lines.length === 0} data-testid="button-approve-season-payouts">
+                    <Check className="w-4 h-4 mr-2" />
+                    Approve & Pay ${batch.totalAmount}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Pay season prizes?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This credits ${batch.totalAmount} to {new Set(batch.lines.map(l => l.userId)).size} winners' wallets. It can only be done once per season.
+                      {Number(league.settings?.approvalThreshold || 0) > 0 && ` Prizes over $${league.settings.approvalThreshold} wait for the league's approver.`}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => approve.mutate()}>Approve & Pay</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ApprovalQueueCard({ league }: { league: any }) {
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState<ApprovalRequest | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: requests = [] } = useQuery<(ApprovalRequest & { canDecide: boolean })[]>({
+    queryKey: ['/api/leagues', league.id, 'approvals'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/approvals`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch approvals');
+      return res.json();
+    }
+  });
+
+  const decide = useMutation({
+    mutationFn: async (data: { approvalId: number; decision: 'approve' | 'reject'; note?: string }) => {
+      const res = await apiRequest('POST', `/api/leagues/${league.id}/approvals/${data.approvalId}/${data.decision}`, { note: data.note });
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
+      queryClient.invalidateQueries({ queryKey: [api.payments.history.path, league.id] });
+      toast({ title: variables.decision === 'approve' ? "Request approved" : "Request rejected" });
+      setRejecting(null);
+    },
+    onError: (err: any) => {
+      // A failed withdrawal transfer still records the approval
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id, 'approvals'] });
+      toast({ title: "Couldn't record decision", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const teamName = (userId: string) =>
+    league.members?.find((m: any) => m.userId === userId)?.teamName || 'Unknown Team';
+
+  const pending = requests.filter(r => r.status === 'pending');
+  const decided = requests.filter(r => r.status !== 'pending').slice(0, 5);
+
+  if (!league.settings?.approvalThreshold && requests.length === 0) return null;
+
+  return (
+    <Card className="md:col-span-2" data-testid="card-approval-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Check className="w-5 h-5 text-primary" /> Approval Queue
+        </CardTitle>
+        <CardDescription>
+          Payouts and withdrawals over ${Number(league.settings?.approvalThreshold || 0).toFixed(2)} wait here for {league.settings?.approverUserId ? teamName(league.settings.approverUserId) : 'the approver'} to sign off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nothing is waiting for approval.</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map(request => (
+              <div key={request.id} className="flex justify-between items-center gap-4 p-3 bg-muted/30 rounded-lg border" data-testid={`approval-${request.id}`}>
+                <div>
+                  <p className="text-sm font-medium">
+                    {request.sourceType === 'withdrawal' ? 'Withdrawal' : 'Payout'} to {teamName(request.userId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {request.description} - {request.requestedBy ? `requested by ${request.requestedBy === league.commissionerId ? 'the commissioner' : teamName(request.requestedBy)}` : 'automatic'}
+                    {request.createdAt ? ` - ${format(new Date(request.createdAt), 'MMM d, yyyy')}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-medium">${Number(request.amount).toFixed(2)}</span>
+                  {request.canDecide ? (
+                    <>
+                      <Button
+                        size="sm"
+                        disabled={decide.isPending}
+                        onClick={() => decide.mutate({ approvalId: request.id, decision: 'approve' })}
+                        data-testid={`button-approve-${request.id}`}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={decide.isPending}
+                        onClick={() => { setRejecting(request); setReason(''); }}
+                        data-testid={`button-reject-${request.id}`}
+                      >
+                        Reject
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="outline">Awaiting approver</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {decided.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recent Decisions</p>
+            {decided.map(request => (
+              <div key={request.id} className="flex justify-between items-center text-sm border-b pb-2 last:border-0">
+                <div>
+                  <p>{request.sourceType === 'withdrawal' ? 'Withdrawal' : 'Payout'} to {teamName(request.userId)} - ${Number(request.amount).toFixed(2)}</p>
+                  {request.decisionNote && <p className="text-xs text-muted-foreground">{request.decisionNote}</p>}
+                </div>
+                <Badge variant={request.status === 'approved' ? 'default' : 'destructive'} className="capitalize">{request.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(isOpen) => { if (!isOpen) setRejecting(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Request</DialogTitle>
+            <DialogDescription>
+              {rejecting?.sourceType === 'withdrawal'
+                ? `The $${Number(rejecting?.amount || 0).toFixed(2)} goes back into ${teamName(rejecting?.userId || '')}'s wallet.`
+                : `${teamName(rejecting?.userId || '')} won't be credited the $${Number(rejecting?.amount || 0).toFixed(2)}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Amount doesn't match the league rules"
+              data-testid="input-reject-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || decide.isPending}
+              onClick={() => rejecting && decide.mutate({ approvalId: rejecting.id, decision: 'reject', note: reason.trim() })}
+              data-testid="button-confirm-reject"
+            >
+              {decide.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
   );
 }
 
-function LeagueSettingsForm({ league }: { league: any }) {
+function LeagueSettingsForm({ league, canEditApprovals }: { league: any; canEditApprovals: boolean }) {
   const { toast } = useToast();
   const settings = league.settings || {};
   
@@ -1389,9 +2412,28 @@ function LeagueSettingsForm({ league }: { league: any }) {
   const [firstPlacePayout, setFirstPlacePayout] = useState(String(settings.firstPlacePayout || 0));
   const [secondPlacePayout, setSecondPlacePayout] = useState(String(settings.secondPlacePayout || 0));
   const [thirdPlacePayout, setThirdPlacePayout] = useState(String(settings.thirdPlacePayout || 0));
+  const [regularSeasonWinnerPayout, setRegularSeasonWinnerPayout] = useState(String(settings.regularSeasonWinnerPayout || 0));
+  const [mostPointsForPayout, setMostPointsForPayout] = useState(String(settings.mostPointsForPayout || 0));
+  const [seasonPayoutMode, setSeasonPayoutMode] = useState<'fixed' | 'percent'>(settings.seasonPayoutMode || 'fixed');
   const [weeklyHighScorePrize, setWeeklyHighScorePrize] = useState(String(settings.weeklyHighScorePrize || settings.weeklyPayoutAmount || 0));
   const [weeklyLowScoreFee, setWeeklyLowScoreFee] = useState(String(settings.weeklyLowScoreFee || settings.lowestScorerFee || 0));
   const [weeklyLowScoreFeeEnabled, setWeeklyLowScoreFeeEnabled] = useState(settings.weeklyLowScoreFeeEnabled || settings.lowestScorerFeeEnabled || false);
+  const [sandboxMode, setSandboxMode] = useState(settings.sandboxMode || false);
+  const [tiebreaker, setTiebreaker] = useState(settings.tiebreaker || "commissioner");
+  const [approvalThreshold, setApprovalThreshold] = useState(String(settings.approvalThreshold || 0));
+  const [approverUserId, setApproverUserId] = useState(settings.approverUserId || "");
+  const [installments, setInstallments] = useState<Array<{ dueWeek: string; amount: string }>>(
+    (settings.duesInstallments || []).map((i: any) => ({ dueWeek: String(i.dueWeek), amount: String(i.amount) }))
+  );
+
+  const prizeUnit = seasonPayoutMode === 'percent' ? '%' : '$';
+
+  const installmentsTotal = installments.reduce((sum, i) => sum + (Number(i.amount) || 0), 0);
+  const installmentsMismatch = installments.length > 0 && Math.round(installmentsTotal * 100) !== Math.round(Number(entryFee) * 100);
+
+  const updateInstallment = (index: number, field: 'dueWeek' | 'amount', value: string) => {
+    setInstallments(installments.map((i, idx) => idx === index ? { ...i, [field]: value } : i));
+  };
 
   const updateSettings = useMutation({
     mutationFn: async (data: any) => {
@@ -1423,9 +2465,17 @@ function LeagueSettingsForm({ league }: { league: any }) {
       firstPlacePayout: isFreeLeague ? 0 : Number(firstPlacePayout),
       secondPlacePayout: isFreeLeague ? 0 : Number(secondPlacePayout),
       thirdPlacePayout: isFreeLeague ? 0 : Number(thirdPlacePayout),
+      regularSeasonWinnerPayout: isFreeLeague ? 0 : Number(regularSeasonWinnerPayout),
+      mostPointsForPayout: isFreeLeague ? 0 : Number(mostPointsForPayout),
+      seasonPayoutMode,
       weeklyHighScorePrize: isFreeLeague ? 0 : Number(weeklyHighScorePrize),
       weeklyLowScoreFee: isFreeLeague ? 0 : Number(weeklyLowScoreFee),
       weeklyLowScoreFeeEnabled: isFreeLeague ? false : weeklyLowScoreFeeEnabled,
+      sandboxMode,
+      tiebreaker,
+      approvalThreshold: isFreeLeague ? 0 : Number(approvalThreshold),
+      approverUserId: approverUserId || undefined,
+      duesInstallments: isFreeLeague ? [] : installments.map(i => ({ dueWeek: Number(i.dueWeek), amount: Number(i.amount) })),
     });
   };
 
@@ -1454,6 +2504,19 @@ function LeagueSettingsForm({ league }: { league: any }) {
               />
             </div>
 
+            <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg border">
+              <div className="space-y-0.5">
+                <Label htmlFor="sandboxMode" className="text-base font-medium">Sandbox Mode</Label>
+                <p className="text-sm text-muted-foreground">Demo league: score sync fills in random mock scores. Weeks with mock scores never pay out.</p>
+              </div>
+              <Switch 
+                id="sandboxMode"
+                checked={sandboxMode}
+                onCheckedChange={setSandboxMode}
+                data-testid="switch-sandbox-mode"
+              />
+            </div>
+
             {!isFreeLeague && (
             <>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1493,16 +2556,87 @@ function LeagueSettingsForm({ league }: { league: any }) {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label className="text-base font-semibold">Installment Plan</Label>
+                  <p className="text-xs text-muted-foreground">Let members split the entry fee into payments due before given weeks.</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setInstallments([...installments, { dueWeek: String((Number(installments[installments.length - 1]?.dueWeek) || 0) + 1), amount: "0" }])}
+                  data-testid="button-add-installment"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Installment
+                </Button>
+              </div>
+              {installments.map((installment, index) => (
+                <div key={index} className="flex items-center gap-3" data-testid={`row-installment-${index}`}>
+                  <span className="text-sm text-muted-foreground w-24">Before week</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    className="w-20 font-mono"
+                    value={installment.dueWeek}
+                    onChange={(e) => updateInstallment(index, 'dueWeek', e.target.value)}
+                    data-testid={`input-installment-week-${index}`}
+                  />
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">$</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="pl-8 font-mono"
+                      value={installment.amount}
+                      onChange={(e) => updateInstallment(index, 'amount', e.target.value)}
+                      data-testid={`input-installment-amount-${index}`}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setInstallments(installments.filter((_, idx) => idx !== index))}
+                    data-testid={`button-remove-installment-${index}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {installmentsMismatch && (
+                <p className="text-xs text-destructive">
+                  Installments add up to ${installmentsTotal.toFixed(2)}; they need to match the ${Number(entryFee).toFixed(2)} entry fee.
+                </p>
+              )}
+            </div>
+
             <Separator />
 
             <div className="space-y-4">
               <Label className="text-base font-semibold">Season Payouts</Label>
-              <p className="text-xs text-muted-foreground">Set the total payout amounts for end-of-season winners.</p>
+              <p className="text-xs text-muted-foreground">End-of-season prizes, paid from Commish Tools once final standings are in.</p>
+              <div className="space-y-2">
+                <Label htmlFor="seasonPayoutMode">Prize Amounts</Label>
+                <Select onValueChange={(v) => setSeasonPayoutMode(v as 'fixed' | 'percent')} value={seasonPayoutMode}>
+                  <SelectTrigger id="seasonPayoutMode" className="w-56" data-testid="select-settings-season-payout-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">Fixed dollar amounts</SelectItem>
+                    <SelectItem value="percent">Percent of the pot</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="firstPlacePayout">1st Place</Label>
                   <div className="relative">
-                    <span className="absolute left-3 top-2.5 text-muted-foreground">$</span>
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">{prizeUnit}</span>
                     <Input 
                       id="firstPlacePayout" 
                       type="number" 
@@ -1517,7 +2651,7 @@ function LeagueSettingsForm({ league }: { league: any }) {
                 <div className="space-y-2">
                   <Label htmlFor="secondPlacePayout">2nd Place</Label>
                   <div className="relative">
-                    <span className="absolute left-3 top-2.5 text-muted-foreground">$</span>
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">{prizeUnit}</span>
                     <Input 
                       id="secondPlacePayout" 
                       type="number" 
@@ -1532,7 +2666,7 @@ function LeagueSettingsForm({ league }: { league: any }) {
                 <div className="space-y-2">
                   <Label htmlFor="thirdPlacePayout">3rd Place</Label>
                   <div className="relative">
-                    <span className="absolute left-3 top-2.5 text-muted-foreground">$</span>
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">{prizeUnit}</span>
                     <Input 
                       id="thirdPlacePayout" 
                       type="number" 
@@ -1545,6 +2679,38 @@ function LeagueSettingsForm({ league }: { league: any }) {
                   </div>
                 </div>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="regularSeasonWinnerPayout">Regular Season Winner</Label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">{prizeUnit}</span>
+                    <Input 
+                      id="regularSeasonWinnerPayout" 
+                      type="number" 
+                      min="0"
+                      className="pl-8 font-mono"
+                      value={regularSeasonWinnerPayout}
+                      onChange={(e) => setRegularSeasonWinnerPayout(e.target.value)}
+                      data-testid="input-settings-regular-season-winner"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mostPointsForPayout">Most Points For</Label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2.5 text-muted-foreground">{prizeUnit}</span>
+                    <Input 
+                      id="mostPointsForPayout" 
+                      type="number" 
+                      min="0"
+                      className="pl-8 font-mono"
+                      value={mostPointsForPayout}
+                      onChange={(e) => setMostPointsForPayout(e.target.value)}
+                      data-testid="input-settings-most-points-for"
+                    />
+                  </div>
+                </div>
+              </div>
             </div>
 
             <Separator />
@@ -1604,11 +2770,66 @@ function LeagueSettingsForm({ league }: { league: any }) {
                 </div>
               )}
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tiebreaker">Weekly Tiebreaker</Label>
+              <Select onValueChange={setTiebreaker} value={tiebreaker}>
+                <SelectTrigger id="tiebreaker" data-testid="select-settings-tiebreaker">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="commissioner">Commissioner decides</SelectItem>
+                  <SelectItem value="split">Split the prize or fee</SelectItem>
+                  <SelectItem value="bench_points">Bench points</SelectItem>
+                  <SelectItem value="season_points">Season points-for</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">How tied high or low scores are settled. Ties the rule can't break wait for your review.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="approvalThreshold">Approval Threshold</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-2.5 text-muted-foreground">$</span>
+                  <Input
+                    id="approvalThreshold"
+                    type="number"
+                    min="0"
+                    className="pl-8 font-mono"
+                    value={approvalThreshold}
+                    onChange={(e) => setApprovalThreshold(e.target.value)}
+                    disabled={!canEditApprovals}
+                    data-testid="input-settings-approval-threshold"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">Payouts, HPS prizes and withdrawals above this need a second person's sign-off. 0 turns approvals off.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approver">Approver</Label>
+                <Select onValueChange={setApproverUserId} value={approverUserId} disabled={!canEditApprovals}>
+                  <SelectTrigger id="approver" data-testid="select-settings-approver">
+                    <SelectValue placeholder="Select member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {league.members
+                      .filter((m: any) => m.userId !== league.commissionerId)
+                      .map((m: any) => (
+                        <SelectItem key={m.userId} value={m.userId}>{m.teamName || m.ownerName}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  The member who signs off on held requests. Nobody can approve their own request.
+                  {!canEditApprovals && " Only the commissioner can change approval settings."}
+                </p>
+              </div>
+            </div>
             </>
             )}
 
             <div className="flex justify-end pt-4">
-              <Button type="submit" disabled={updateSettings.isPending} data-testid="button-save-settings">
+              <Button type="submit" disabled={updateSettings.isPending || (!isFreeLeague && installmentsMismatch)} data-testid="button-save-settings">
                 {updateSettings.isPending ? (
                   "Saving..."
                 ) : (
@@ -1626,6 +2847,126 @@ function LeagueSettingsForm({ league }: { league: any }) {
   );
 }
 
+const JOB_LABELS: Record<string, { title: string; description: string }> = {
+  sync_scores: { title: "Auto-Sync Scores", description: "Pulls last week's scores from your platform and issues weekly awards." },
+  finalize_week: { title: "Finalize Week", description: "Issues HPS/LPS awards for last week, including manually entered scores." },
+  preseason_reminders: { title: "Pre-Season Reminders", description: "Texts unpaid members 7 days and 1 day before the start date." },
+};
+
+function ScheduledJobRow({ league, schedule }: { league: any; schedule: any }) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState<boolean>(schedule.enabled);
+  const [cronExpression, setCronExpression] = useState<string>(schedule.cronExpression);
+  const label = JOB_LABELS[schedule.jobType] || { title: schedule.jobType, description: "" };
+
+  const saveJob = useMutation({
+    mutationFn: async (data: { enabled: boolean; cronExpression: string }) => {
+      const res = await apiRequest('PUT', `/api/leagues/${league.id}/jobs/${schedule.jobType}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id, 'jobs'] });
+      toast({ title: "Schedule saved", description: `${label.title} ${enabled ? 'is on' : 'is off'}.` });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to save schedule", description: err.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="p-4 bg-muted/30 rounded-lg border space-y-3" data-testid={`scheduled-job-${schedule.jobType}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-base font-medium">{label.title}</Label>
+          <p className="text-xs text-muted-foreground">{label.description}</p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          data-testid={`switch-job-${schedule.jobType}`}
+        />
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs">Schedule (cron, UTC)</Label>
+          <Input
+            className="font-mono"
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            data-testid={`input-job-cron-${schedule.jobType}`}
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={saveJob.isPending}
+          onClick={() => saveJob.mutate({ enabled, cronExpression })}
+          data-testid={`button-save-job-${schedule.jobType}`}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </div>
+      {schedule.nextRunAt && (
+        <p className="text-xs text-muted-foreground">Next run: {format(new Date(schedule.nextRunAt), 'MMM d, yyyy h:mm a')}</p>
+      )}
+    </div>
+  );
+}
+
+function ScheduledJobsCard({ league }: { league: any }) {
+  const { data, isLoading } = useQuery<{ schedules: any[]; runs: any[] }>({
+    queryKey: ['/api/leagues', league.id, 'jobs'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/jobs`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch scheduled jobs');
+      return res.json();
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Scheduled Automation
+        </CardTitle>
+        <CardDescription>
+          Run score syncs, weekly awards and reminders automatically. Weeks are counted from the league start date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {data?.schedules.map((schedule) => (
+              <ScheduledJobRow key={schedule.jobType} league={league} schedule={schedule} />
+            ))}
+            {data && data.runs.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">Recent Runs</Label>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {data.runs.map((run) => (
+                    <div key={run.id} className="flex items-center justify-between gap-2 text-xs p-2 bg-muted/30 rounded-md" data-testid={`job-run-${run.id}`}>
+                      <span>{JOB_LABELS[run.jobType]?.title || run.jobType}</span>
+                      <span className="text-muted-foreground truncate flex-1 text-right">
+                        {run.lastError || (run.finishedAt ? format(new Date(run.finishedAt), 'MMM d, h:mm a') : '')}
+                      </span>
+                      <Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'succeeded' ? 'secondary' : 'outline'} className="capitalize">
+                        {run.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function EspnSettingsForm({ league }: { league: any }) {
   const { toast } = useToast();
   const settings = league.settings || {};
@@ -1774,40 +3115,77 @@ function EspnSettingsForm({ league }: { league: any }) {
               {updateSettings.isPending ? "Saving..." : "Save ESPN Settings"}
             </Button>
           </div>
-        </form>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function YahooSettingsCard({ league }: { league: any }) {
+  const settings = league.settings || {};
+  const isConnected = !!league.yahooConnected;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Yahoo Integration
+        </CardTitle>
+        <CardDescription>Scores sync from your Yahoo Fantasy league using your Yahoo account.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <p className="text-sm font-medium">League Key</p>
+            <p className="text-xs text-muted-foreground font-mono">{settings.yahooLeagueKey || 'Not set'}</p>
+          </div>
+          <Badge variant={isConnected ? 'default' : 'destructive'} data-testid="badge-yahoo-status">
+            {isConnected ? 'Connected' : 'Not Connected'}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          If score syncs start failing with an authentication error, reconnect your Yahoo account.
+        </p>
+        <div className="flex justify-end">
+          <Button variant="outline" asChild data-testid="button-reconnect-yahoo">
+            <a href={`/api/integrations/yahoo/authorize?leagueId=${league.id}`}>Reconnect Yahoo</a>
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
 }
 
-function EspnTeamMappingForm({ league }: { league: any }) {
+function TeamMappingForm({ league }: { league: any }) {
   const { toast } = useToast();
-  const settings = league.settings || {};
+  const platformLabel = getPlatformLabel(league.platform);
+  const isPlatformConfigured = isPlatformLeagueConfigured(league);
   
-  const { data: espnTeams, isLoading, error, refetch } = useQuery<{ teams: any[] }>({
-    queryKey: ['/api/leagues', league.id, 'espn-teams'],
+  const { data: platformTeams, isLoading, error, refetch } = useQuery<{ teams: any[] }>({
+    queryKey: ['/api/leagues', league.id, 'platform-teams'],
     queryFn: async () => {
-      const res = await fetch(`/api/leagues/${league.id}/espn-teams`, { credentials: 'include' });
+      const res = await fetch(`/api/leagues/${league.id}/platform-teams`, { credentials: 'include' });
       if (!res.ok) {
         const err = await res.json();
-        throw new Error(err.message || 'Failed to fetch ESPN teams');
+        throw new Error(err.message || `Failed to fetch ${platformLabel} teams`);
       }
       return res.json();
     },
-    enabled: league.platform === 'espn' && !!settings.espnLeagueId,
+    enabled: isPlatformConfigured,
     retry: false,
   });
 
   const updateMapping = useMutation({
-    mutationFn: async ({ memberId, espnTeamId }: { memberId: number; espnTeamId: string }) => {
-      const response = await apiRequest('PATCH', `/api/leagues/${league.id}/members/${memberId}/espn-team`, { espnTeamId });
+    mutationFn: async ({ memberId, externalTeamId }: { memberId: number; externalTeamId: string }) => {
+      const response = await apiRequest('PATCH', `/api/leagues/${league.id}/members/${memberId}/platform-team`, { externalTeamId });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/leagues', league.id] });
       toast({
         title: "Team Mapped",
-        description: "ESPN team mapping updated successfully.",
+        description: `${platformLabel} team mapping updated successfully.`,
       });
     },
     onError: () => {
@@ -1819,7 +3197,7 @@ function EspnTeamMappingForm({ league }: { league: any }) {
     }
   });
 
-  if (league.platform !== 'espn' || !settings.espnLeagueId) {
+  if (!isPlatformConfigured) {
     return null;
   }
 
@@ -1828,9 +3206,9 @@ function EspnTeamMappingForm({ league }: { league: any }) {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Users className="w-5 h-5" />
-          ESPN Team Mapping
+          {platformLabel} Team Mapping
         </CardTitle>
-        <CardDescription>Link your league members to their ESPN teams for score syncing.</CardDescription>
+        <CardDescription>Link your league members to their {platformLabel} teams for score syncing.</CardDescription>
       </CardHeader>
       <CardContent>
         {isLoading ? (
@@ -1845,20 +3223,20 @@ function EspnTeamMappingForm({ league }: { league: any }) {
         ) : (
           <div className="space-y-3">
             {league.members?.map((member: any) => (
-              <div key={member.id} className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg" data-testid={`espn-mapping-${member.id}`}>
+              <div key={member.id} className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg" data-testid={`team-mapping-${member.id}`}>
                 <div>
                   <p className="font-medium text-sm">{member.teamName}</p>
                   <p className="text-xs text-muted-foreground">User {member.userId.slice(0, 8)}...</p>
                 </div>
                 <Select 
                   value={member.externalTeamId || ""} 
-                  onValueChange={(value) => updateMapping.mutate({ memberId: member.id, espnTeamId: value })}
+                  onValueChange={(value) => updateMapping.mutate({ memberId: member.id, externalTeamId: value })}
                 >
-                  <SelectTrigger className="w-[200px]" data-testid={`select-espn-team-${member.id}`}>
-                    <SelectValue placeholder="Select ESPN Team" />
+                  <SelectTrigger className="w-[200px]" data-testid={`select-platform-team-${member.id}`}>
+                    <SelectValue placeholder={`Select ${platformLabel} Team`} />
                   </SelectTrigger>
                   <SelectContent>
-                    {espnTeams?.teams?.map((team: any) => (
+                    {platformTeams?.teams?.map((team: any) => (
                       <SelectItem key={team.id} value={String(team.id)}>
                         {team.name || team.abbrev}
                       </SelectItem>
@@ -1880,6 +3258,7 @@ function SendRemindersForm({ league }: { league: any }) {
 
   const unpaidMembers = league.members?.filter((m: any) => m.paidStatus === 'unpaid') || [];
   const membersWithPhone = unpaidMembers.filter((m: any) => m.phoneNumber);
+  const membersWithContact = unpaidMembers.filter((m: any) => m.phoneNumber || m.email);
 
   const sendReminders = useMutation({
     mutationFn: async (type: string) => {
@@ -1888,12 +3267,18 @@ function SendRemindersForm({ league }: { league: any }) {
     },
     onSuccess: (data) => {
       let description = '';
-      if (data.twilioConfigured && data.smsSent > 0) {
-        description = `Sent ${data.smsSent} SMS reminder(s) to unpaid members.`;
-      } else if (data.twilioConfigured && data.smsSent === 0) {
-        description = `Created ${data.remindersCreated} reminder(s). No SMS sent (no phone numbers on file).`;
+      if (data.smsSent > 0 || data.emailsSent > 0 || data.inAppSent > 0) {
+        const sent = [
+          data.smsSent > 0 ? `${data.smsSent} SMS` : null,
+          data.emailsSent > 0 ? `${data.emailsSent} email` : null,
+          data.inAppSent > 0 ? `${data.inAppSent} in-app` : null
+        ].filter(Boolean).join(' and ');
+        description = `Sent ${sent} reminder(s) to unpaid members.`;
+        if (data.scheduled > 0) description += ` ${data.scheduled} more will go out after quiet hours.`;
+      } else if (data.twilioConfigured || data.emailConfigured) {
+        description = `Created ${data.remindersCreated} reminder(s). None sent (no phone numbers or emails on file).`;
       } else {
-        description = `Created ${data.remindersCreated} reminder(s). SMS requires Twilio setup.`;
+        description = `Created ${data.remindersCreated} reminder(s). Sending requires Twilio or email setup.`;
       }
       toast({
         title: "Reminders Processed",
@@ -1945,11 +3330,15 @@ function SendRemindersForm({ league }: { league: any }) {
           <Phone className="w-4 h-4" />
           <span><strong>{membersWithPhone.length}</strong> with phone numbers</span>
         </p>
+        <p className="flex items-center gap-2">
+          <Mail className="w-4 h-4" />
+          <span><strong>{membersWithContact.length - membersWithPhone.length}</strong> more by email only</span>
+        </p>
       </div>
 
-      {membersWithPhone.length === 0 && unpaidMembers.length > 0 && (
+      {membersWithContact.length === 0 && unpaidMembers.length > 0 && (
         <p className="text-xs text-yellow-600">
-          No phone numbers on file. Add phone numbers to members to send SMS reminders.
+          No phone numbers or emails on file. Add contact details to members to send reminders.
         </p>
       )}
 
@@ -1976,6 +3365,170 @@ function SendRemindersForm({ league }: { league: any }) {
   );
 }
 
+function StartNewSeasonSection({ league }: { league: any }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [seasonYear, setSeasonYear] = useState(String(league.seasonYear + 1));
+  const [startDate, setStartDate] = useState("");
+  const [carryOverBalances, setCarryOverBalances] = useState(true);
+  const [platformLeagueId, setPlatformLeagueId] = useState("");
+
+  const { data: preview } = useQuery<{ nextSeasonYear: number; nextLeague: any | null; walletsWithBalance: number; carryoverTotal: string }>({
+    queryKey: ['/api/leagues', league.id, 'rollover'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${league.id}/rollover`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch season rollover');
+      return res.json();
+    }
+  });
+
+  const startSeason = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/leagues/${league.id}/rollover`, {
+        seasonYear: Number(seasonYear),
+        startDate: startDate || null,
+        carryOverBalances,
+        yahooLeagueKey: league.platform === 'yahoo' ? platformLeagueId : undefined,
+        sleeperLeagueId: league.platform === 'sleeper' ? platformLeagueId : undefined
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues'] });
+      const carried = data.carriedOver?.length || 0;
+      toast({
+        title: `${data.league.seasonYear} Season Started`,
+        description: carried > 0
+          ? `${carried} wallet balance${carried === 1 ? ' was' : 's were'} carried over.`
+          : "Members, settings and platform links were copied over.",
+      });
+      setIsOpen(false);
+      navigate(`/league/${data.league.id}`);
+    },
+    onError: (err: any) => {
+      toast({ title: "Couldn't start the new season", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const needsPlatformId = league.platform === 'yahoo' || league.platform === 'sleeper';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="w-5 h-5" />
+          Start New Season
+        </CardTitle>
+        <CardDescription>
+          Carry this league into next year with the same settings, members, contact details and team mappings. Everyone's dues start over.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {preview?.nextLeague ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              The {preview.nextLeague.seasonYear} season has already been started.
+            </p>
+            <Link href={`/league/${preview.nextLeague.id}`}>
+              <Button variant="outline" data-testid="link-next-season">Go to {preview.nextLeague.seasonYear} Season</Button>
+            </Link>
+          </div>
+        ) : (
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-start-new-season">
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                Start {league.seasonYear + 1} Season
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Start a New Season</DialogTitle>
+                <DialogDescription>
+                  Creates a new league for the season linked to this one. This season stays as it is.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="rolloverSeasonYear">Season</Label>
+                    <Input
+                      id="rolloverSeasonYear"
+                      type="number"
+                      value={seasonYear}
+                      onChange={(e) => setSeasonYear(e.target.value)}
+                      data-testid="input-rollover-season-year"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rolloverStartDate">Start Date (optional)</Label>
+                    <Input
+                      id="rolloverStartDate"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      data-testid="input-rollover-start-date"
+                    />
+                  </div>
+                </div>
+                {needsPlatformId && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rolloverPlatformId">
+                      {league.platform === 'yahoo' ? 'New Yahoo League Key' : 'New Sleeper League ID'}
+                    </Label>
+                    <Input
+                      id="rolloverPlatformId"
+                      value={platformLeagueId}
+                      onChange={(e) => setPlatformLeagueId(e.target.value)}
+                      placeholder={league.platform === 'yahoo' ? 'e.g. 449.l.123456' : 'e.g. 1048576123456789'}
+                      data-testid="input-rollover-platform-id"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {league.platform === 'yahoo' ? 'Yahoo' : 'Sleeper'} gives your league a new ID each season once it's renewed.
+                    </p>
+                  </div>
+                )}
+                {league.platform === 'espn' && (
+                  <p className="text-sm text-muted-foreground">
+                    Score sync will switch to ESPN's {seasonYear || league.seasonYear + 1} season for the same league ID.
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+                  <div>
+                    <p className="text-sm font-medium">Carry over wallet balances</p>
+                    <p className="text-xs text-muted-foreground">
+                      {preview && preview.walletsWithBalance > 0
+                        ? `$${preview.carryoverTotal} across ${preview.walletsWithBalance} member wallet${preview.walletsWithBalance === 1 ? '' : 's'} moves to the new season`
+                        : 'No member has an unwithdrawn balance'}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={carryOverBalances}
+                    onCheckedChange={setCarryOverBalances}
+                    disabled={!preview || preview.walletsWithBalance === 0}
+                    data-testid="switch-carry-over-balances"
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+                <Button
+                  onClick={() => startSeason.mutate()}
+                  disabled={startSeason.isPending || !seasonYear || (needsPlatformId && !platformLeagueId.trim())}
+                  data-testid="button-confirm-start-season"
+                >
+                  {startSeason.isPending ? "Starting..." : `Start ${seasonYear} Season`}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function TransferCommissionerSection({ league }: { league: any }) {
   const { toast } = useToast();
   const [selectedMemberId, setSelectedMemberId] = useState<string>("");
@@ -2072,13 +3625,57 @@ function TransferCommissionerSection({ league }: { league: any }) {
   );
 }
 
+function getPurgeDate(archivedAt: string | Date): Date {
+  return new Date(new Date(archivedAt).getTime() + LEAGUE_ARCHIVE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function ArchivedLeagueBanner({ league, canRestore }: { league: any; canRestore: boolean }) {
+  const { toast } = useToast();
+  const purgeDate = getPurgeDate(league.archivedAt);
+
+  const restoreLeague = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/leagues/${league.id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues'] });
+      toast({ title: "League Restored", description: `${league.name} is active again.` });
+    },
+    onError: (err: any) => {
+      toast({ title: "Restore failed", description: err.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 rounded-lg border border-amber-500/50 bg-amber-500/10" data-testid="banner-league-archived">
+      <div className="flex items-start gap-3">
+        <Archive className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+        <div>
+          <p className="font-medium">This league is archived</p>
+          <p className="text-sm text-muted-foreground">
+            Archived {format(new Date(league.archivedAt), 'MMM d, yyyy')}. It's read-only, and its records will be
+            exported and permanently removed after {format(purgeDate, 'MMM d, yyyy')}.
+          </p>
+        </div>
+      </div>
+      {canRestore && purgeDate > new Date() && (
+        <Button variant="outline" onClick={() => restoreLeague.mutate()} disabled={restoreLeague.isPending} data-testid="button-restore-league">
+          <ArchiveRestore className="w-4 h-4 mr-2" />
+          {restoreLeague.isPending ? "Restoring..." : "Restore League"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
 function DeleteLeagueSection({ league }: { league: any }) {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [confirmName, setConfirmName] = useState("");
   const [isOpen, setIsOpen] = useState(false);
 
-  const deleteLeague = useMutation({
+  const archiveLeague = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('DELETE', `/api/leagues/${league.id}`);
       return response.json();
@@ -2086,61 +3683,67 @@ function DeleteLeagueSection({ league }: { league: any }) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/leagues'] });
       toast({
-        title: "League Deleted",
-        description: "The league has been permanently deleted.",
+        title: "League Archived",
+        description: `You can restore it from the dashboard for the next ${LEAGUE_ARCHIVE_GRACE_DAYS} days.`,
       });
       navigate('/dashboard');
     },
-    onError: () => {
+    onError: (err: any) => {
+      setIsOpen(false);
       toast({
-        title: "Delete Failed",
-        description: "Could not delete the league. Please try again.",
+        title: "Archive Failed",
+        description: err.message,
         variant: "destructive",
       });
     }
   });
 
-  const handleDelete = () => {
+  const handleArchive = () => {
     if (confirmName === league.name) {
-      deleteLeague.mutate();
+      archiveLeague.mutate();
     }
   };
 
   const isNameMatch = confirmName === league.name;
 
+  if (league.archivedAt) return null;
+
   return (
     <Card className="border-destructive/50">
       <CardHeader>
         <CardTitle className="flex items-center gap-2 text-destructive">
-          <Trash2 className="w-5 h-5" />
+          <Archive className="w-5 h-5" />
           Danger Zone
         </CardTitle>
         <CardDescription>
-          Permanently delete this league and all its data. This action cannot be undone.
+          Archive this league. It becomes read-only and can be restored for {LEAGUE_ARCHIVE_GRACE_DAYS} days, after which its records are exported and removed.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
           <AlertDialogTrigger asChild>
             <Button variant="destructive" data-testid="button-delete-league">
-              <Trash2 className="w-4 h-4 mr-2" />
-              Delete League
+              <Archive className="w-4 h-4 mr-2" />
+              Archive League
             </Button>
           </AlertDialogTrigger>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogTitle>Archive this league?</AlertDialogTitle>
               <AlertDialogDescription className="space-y-3">
                 <p>
-                  This will permanently delete <strong>{league.name}</strong> and all associated data including:
+                  <strong>{league.name}</strong> will be archived:
                 </p>
                 <ul className="list-disc list-inside text-sm space-y-1">
-                  <li>All member records and wallet balances</li>
-                  <li>All payment and payout history</li>
-                  <li>All weekly scores and transactions</li>
+                  <li>Members can no longer pay dues or receive payouts</li>
+                  <li>Scores, settings and members can't be changed</li>
+                  <li>Payment and payout history is kept</li>
                 </ul>
+                <p>
+                  Every member wallet must be empty and no withdrawals can be in progress.
+                </p>
                 <p className="font-medium text-destructive">
-                  This action cannot be undone.
+                  After {LEAGUE_ARCHIVE_GRACE_DAYS} days the league can no longer be restored.
                 </p>
               </AlertDialogDescription>
             </AlertDialogHeader>
@@ -2160,11 +3763,11 @@ function DeleteLeagueSection({ league }: { league: any }) {
               <AlertDialogCancel onClick={() => setConfirmName("")}>Cancel</AlertDialogCancel>
               <Button
                 variant="destructive"
-                onClick={handleDelete}
-                disabled={!isNameMatch || deleteLeague.isPending}
+                onClick={handleArchive}
+                disabled={!isNameMatch || archiveLeague.isPending}
                 data-testid="button-confirm-delete"
               >
-                {deleteLeague.isPending ? "Deleting..." : "Delete Forever"}
+                {archiveLeague.isPending ? "Archiving..." : "Archive League"}
               </Button>
             </AlertDialogFooter>
           </AlertDialogContent>
@@ -2339,6 +3942,7 @@ function EditMemberDialog({ leagueId, member }: { leagueId: number; member: any
   const [ownerName, setOwnerName] = useState(member.ownerName || '');
   const [phoneNumber, setPhoneNumber] = useState(member.phoneNumber || '');
   const [email, setEmail] = useState(member.email || '');
+  const [amountOwed, setAmountOwed] = useState(member.amountOwed ?? '');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const { toast } = useToast();
 
@@ -2348,7 +3952,8 @@ function EditMemberDialog({ leagueId, member }: { leagueId: number; member: any
         teamName: teamName.trim() || null,
         ownerName: ownerName.trim() || null,
         phoneNumber: phoneNumber.trim() || null,
-        email: email.trim() || null
+        email: email.trim() || null,
+        amountOwed: String(amountOwed).trim() === '' ? null : Number(amountOwed)
       });
       if (!res.ok) {
         const data = await res.json();
@@ -2395,6 +4000,7 @@ function EditMemberDialog({ leagueId, member }: { leagueId: number; member: any
         setOwnerName(member.ownerName || '');
         setPhoneNumber(member.phoneNumber || '');
         setEmail(member.email || '');
+        setAmountOwed(member.amountOwed ?? '');
         setShowDeleteConfirm(false);
       }
     }}>
@@ -2450,6 +4056,21 @@ function EditMemberDialog({ leagueId, member }: { leagueId: number; member: any
               />
             </div>
           </div>
+          <div>
+            <Label>Dues Owed</Label>
+            <Input
+              value={amountOwed}
+              onChange={(e) => setAmountOwed(e.target.value)}
+              placeholder="League entry fee"
+              type="number"
+              min="0"
+              step="0.01"
+              data-testid="input-edit-amount-owed"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Leave blank to use the league entry fee. ${Number(member.amountPaid || 0).toFixed(2)} paid so far.
+            </p>
+          </div>
         </div>
         <DialogFooter className="flex justify-between gap-2">
           <div>
@@ -2501,6 +4122,41 @@ function EditMemberDialog({ leagueId, member }: { leagueId: number; member: any
   );
 }
 
+function MemberRoleSelect({ leagueId, member }: { leagueId: number; member: any }) {
+  const { toast } = useToast();
+
+  const updateRole = useMutation({
+    mutationFn: async (role: string) => {
+      const res = await apiRequest('PATCH', `/api/leagues/${leagueId}/members/${member.id}/role`, { role });
+      return res.json();
+    },
+    onSuccess: (_data, role) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId] });
+      toast({ title: "Role updated", description: `${member.teamName || member.ownerName || 'Member'} is now ${LEAGUE_ROLE_LABELS[role as LeagueRole]}.` });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update role", description: err.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Select
+      value={member.role === 'commissioner' ? 'member' : member.role}
+      onValueChange={(role) => updateRole.mutate(role)}
+      disabled={updateRole.isPending}
+    >
+      <SelectTrigger className="h-8 w-[150px]" data-testid={`select-member-role-${member.id}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LEAGUE_ROLES.filter(role => role !== 'commissioner').map(role => (
+          <SelectItem key={role} value={role}>{LEAGUE_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 function EditLeagueNameDialog({ leagueId, currentName }: { leagueId: number; currentName: string }) {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState(currentName);
@@ -2597,7 +4253,11 @@ function SendReminderButton({ leagueId, member }: { leagueId: number; member: an
       setOpen(false);
       setSendMethod(null);
       queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId] });
-      toast({ title: "Reminder sent!", description: `Payment reminder sent via ${data.method === 'sms' ? 'SMS' : 'Email'}` });
+      if (data.scheduled) {
+        toast({ title: "Reminder queued", description: data.message });
+      } else {
+        toast({ title: "Reminder sent!", description: `Payment reminder sent via ${data.method === 'sms' ? 'SMS' : 'Email'}` });
+      }
     },
     onError: (err: any) => {
       toast({ title: "Failed", description: err.message, variant: "destructive" });
@@ -2761,6 +4421,7 @@ function PendingInvitesSection({ leagueId }: { leagueId: number }) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId, 'invites'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId, 'links'] });
       toast({ title: "Invite cancelled" });
     },
     onError: (err: any) => {
@@ -2805,6 +4466,267 @@ function PendingInvitesSection({ leagueId }: { leagueId: number }) {
   );
 }
 
+interface SharedLink {
+  id: number;
+  purpose: 'invite' | 'dues' | 'lps';
+  label: string;
+  status: 'active' | 'expired' | 'revoked' | 'used';
+  createdAt: string;
+  expiresAt: string;
+  useCount: number;
+  lastUsedAt: string | null;
+}
+
+// Invite, dues and LPS links that still work, so a link sent to the wrong
+// person can be turned off
+function SharedLinksSection({ leagueId }: { leagueId: number }) {
+  const { toast } = useToast();
+  const { data: links, isLoading } = useQuery<SharedLink[]>({
+    queryKey: ['/api/leagues', leagueId, 'links'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${leagueId}/links`);
+      if (!res.ok) throw new Error('Failed to fetch links');
+      return res.json();
+    }
+  });
+
+  const revokeLink = useMutation({
+    mutationFn: async (linkId: number) => {
+      const res = await apiRequest('POST', `/api/leagues/${leagueId}/links/${linkId}/revoke`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId, 'links'] });
+      toast({ title: "Link turned off", description: "Anyone opening it will be asked to request a new one." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to revoke link", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const activeLinks = links?.filter(l => l.status === 'active') || [];
+
+  if (isLoading || activeLinks.length === 0) return null;
+
+  return (
+    <div className="pt-4 border-t">
+      <h4 className="font-medium mb-3">Active Links</h4>
+      <div className="space-y-2">
+        {activeLinks.map(link => (
+          <div key={link.id} className="flex items-center justify-between gap-2 p-2 bg-muted/30 rounded-md" data-testid={`row-link-${link.id}`}>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">{link.label}</p>
+              <p className="text-xs text-muted-foreground">
+                Sent {format(new Date(link.createdAt), 'MMM d')} · expires {format(new Date(link.expiresAt), 'MMM d')}
+                {link.useCount > 0 && ` · used ${link.useCount} time${link.useCount === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => revokeLink.mutate(link.id)}
+              disabled={revokeLink.isPending}
+              data-testid={`button-revoke-link-${link.id}`}
+            >
+              Revoke
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type LoggedNotification = Omit<Notification, 'body' | 'html'>;
+
+const NOTIFICATION_CHANNEL_LABELS: Record<string, string> = {
+  sms: 'SMS',
+  email: 'Email',
+  in_app: 'In-app'
+};
+
+function NotificationStatusBadge({ notification }: { notification: LoggedNotification }) {
+  if (notification.status === 'delivered' || notification.status === 'sent') {
+    return <Badge className="bg-green-600 hover:bg-green-700 text-white capitalize">{notification.status}</Badge>;
+  }
+  if (notification.status === 'failed') {
+    return <Badge variant="destructive">Failed</Badge>;
+  }
+  if (notification.status === 'skipped') {
+    return <Badge variant="outline">Not sent</Badge>;
+  }
+  return <Badge variant="secondary">{notification.attempts > 0 ? 'Retrying' : 'Scheduled'}</Badge>;
+}
+
+// Who was sent what, for the commissioner
+function NotificationLogSection({ leagueId, members }: { leagueId: number; members: any[] }) {
+  const [showAll, setShowAll] = useState(false);
+  const { data: notifications, isLoading } = useQuery<LoggedNotification[]>({
+    queryKey: ['/api/leagues', leagueId, 'notifications'],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${leagueId}/notifications`);
+      if (!res.ok) throw new Error('Failed to fetch notifications');
+      return res.json();
+    }
+  });
+
+  if (isLoading || !notifications || notifications.length === 0) return null;
+
+  const memberName = (userId: string) => {
+    const member = members.find(m => m.userId === userId);
+    return member?.ownerName || member?.teamName || `User ${userId.slice(0, 4)}...`;
+  };
+  const visible = showAll ? notifications : notifications.slice(0, 10);
+
+  return (
+    <div className="pt-4 border-t">
+      <h4 className="font-medium mb-3">Notification Log</h4>
+      <div className="space-y-2">
+        {visible.map(notification => (
+          <div key={notification.id} className="flex items-center justify-between gap-2 p-2 bg-muted/30 rounded-md" data-testid={`row-notification-${notification.id}`}>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">
+                {memberName(notification.userId)} · {NOTIFICATION_EVENT_LABELS[notification.event as NotificationEvent] || notification.event}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {notification.channel ? NOTIFICATION_CHANNEL_LABELS[notification.channel] || notification.channel : 'No channel'}
+                {' · '}{format(new Date(notification.createdAt), 'MMM d, h:mm a')}
+                {notification.status === 'pending' && notification.sendAfter && ` · sends ${format(new Date(notification.sendAfter), 'MMM d, h:mm a')}`}
+                {notification.lastError && ` · ${notification.lastError}`}
+              </p>
+            </div>
+            <NotificationStatusBadge notification={notification} />
+          </div>
+        ))}
+      </div>
+      {notifications.length > 10 && (
+        <Button variant="ghost" size="sm" className="mt-2" onClick={() => setShowAll(!showAll)} data-testid="button-toggle-notification-log">
+          {showAll ? 'Show less' : `Show all ${notifications.length}`}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+const QUIET_HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: format(new Date(2000, 0, 1, hour), 'h a')
+}));
+
+function NotificationPreferencesCard({ leagueId, member }: { leagueId: number; member: LeagueMember }) {
+  const { toast } = useToast();
+  const saved = member.notificationPreferences || {};
+  const [channel, setChannel] = useState<NotificationChannelPreference>(saved.channel || 'auto');
+  const [events, setEvents] = useState<NonNullable<NotificationPreferences['events']>>(saved.events || {});
+  const [quietHours, setQuietHours] = useState<NotificationPreferences['quietHours']>(saved.quietHours || null);
+
+  const savePreferences = useMutation({
+    mutationFn: async (preferences: NotificationPreferences) => {
+      const res = await apiRequest('PUT', `/api/leagues/${leagueId}/members/${member.id}/notification-preferences`, preferences);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues', leagueId] });
+      toast({ title: "Notification settings saved" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to save settings", description: err.message, variant: "destructive" });
+    }
+  });
+
+  const setEventPreference = (event: NotificationEvent, value: string) => {
+    const next = { ...events };
+    if (value === 'default') {
+      delete next[event];
+    } else {
+      next[event] = value as NotificationChannelPreference;
+    }
+    setEvents(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Bell className="w-5 h-5" /> My Notifications</CardTitle>
+        <CardDescription>Choose how this league reaches you. Automatic tries text, then email, then the app.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Send me notifications by</Label>
+          <Select value={channel} onValueChange={(value) => setChannel(value as NotificationChannelPreference)}>
+            <SelectTrigger data-testid="select-notification-channel"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {NOTIFICATION_CHANNEL_PREFERENCES.map(pref => (
+                <SelectItem key={pref} value={pref}>{NOTIFICATION_CHANNEL_PREFERENCE_LABELS[pref]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {NOTIFICATION_EVENTS.map(event => (
+            <div key={event} className="flex items-center justify-between gap-4">
+              <span className="text-sm">{NOTIFICATION_EVENT_LABELS[event]}</span>
+              <Select value={events[event] || 'default'} onValueChange={(value) => setEventPreference(event, value)}>
+                <SelectTrigger className="w-[160px]" data-testid={`select-notification-event-${event}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Same as above</SelectItem>
+                  {NOTIFICATION_CHANNEL_PREFERENCES.map(pref => (
+                    <SelectItem key={pref} value={pref}>{NOTIFICATION_CHANNEL_PREFERENCE_LABELS[pref]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="quietHours">Quiet hours</Label>
+              <p className="text-xs text-muted-foreground">Texts are held until quiet hours end. Email and in-app aren't affected.</p>
+            </div>
+            <Switch
+              id="quietHours"
+              checked={!!quietHours}
+              onCheckedChange={(checked) => setQuietHours(checked
+                ? { start: 22, end: 8, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+                : null)}
+              data-testid="switch-quiet-hours"
+            />
+          </div>
+          {quietHours && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select value={String(quietHours.start)} onValueChange={(value) => setQuietHours({ ...quietHours, start: Number(value) })}>
+                <SelectTrigger className="w-[100px]" data-testid="select-quiet-start"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {QUIET_HOUR_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">to</span>
+              <Select value={String(quietHours.end)} onValueChange={(value) => setQuietHours({ ...quietHours, end: Number(value) })}>
+                <SelectTrigger className="w-[100px]" data-testid="select-quiet-end"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {QUIET_HOUR_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">{quietHours.timeZone}</span>
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={() => savePreferences.mutate({ channel, events, quietHours })}
+          disabled={savePreferences.isPending}
+          data-testid="button-save-notification-preferences"
+        >
+          {savePreferences.isPending ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
 function MessageBoard({ leagueId }: { leagueId: number }) {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -47,6 +47,7 @@ interface WithdrawalRequest {
   feeAmount: string;
   netAmount: string;
   status: string;
+  failureReason: string | null;
   requestedAt: string;
 }
 
@@ -120,14 +121,21 @@ export default function MyWallet() {
       const res = await apiRequest("POST", `/api/wallets/${walletId}/withdraw`, { amount, payoutType });
       return res.json();
     },
-    onSuccess: () => {
-      toast({ title: "Withdrawal initiated", description: "Your funds are on their way!" });
+    onSuccess: (data) => {
+      if (data.pendingApproval) {
+        toast({ title: "Withdrawal awaiting approval", description: "This amount needs sign-off from your league's approver. The funds are on hold until then." });
+      } else {
+        toast({ title: "Withdrawal initiated", description: "Your funds are on their way! We'll update the status once Stripe confirms the transfer." });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/wallets/me'] });
       queryClient.invalidateQueries({ queryKey: ['/api/withdrawals/me'] });
       setWithdrawDialogOpen(false);
       setWithdrawAmount("");
     },
     onError: (err: any) => {
+      // A failed transfer refunds the wallet, so refresh balances either way
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets/me'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/withdrawals/me'] });
       toast({ title: "Withdrawal failed", description: err.message, variant: "destructive" });
     }
   });
@@ -246,7 +254,8 @@ export default function MyWallet() {
                       <DialogTrigger asChild>
                         <Button 
                           variant="default"
-                          disabled={Number(wallet.availableBalance) <= 0}
+                          disabled={Number(wallet.availableBalance) <= 0 || !connectStatus?.isOnboarded}
+                          title={!connectStatus?.isOnboarded ? "Connect your bank account to withdraw" : undefined}
                           data-testid={`button-withdraw-${wallet.id}`}
                         >
                           Withdraw Funds
@@ -413,11 +422,15 @@ export default function MyWallet() {
                               variant={
                                 withdrawal.status === 'completed' ? 'default' :
                                 withdrawal.status === 'processing' ? 'secondary' :
-                                withdrawal.status === 'failed' ? 'destructive' : 'outline'
+                                withdrawal.status === 'failed' || withdrawal.status === 'rejected' ? 'destructive' : 'outline'
                               }
+                              className="capitalize"
                             >
-                              {withdrawal.status}
+                              {withdrawal.status.replace(/_/g, " ")}
                             </Badge>
+                            {(withdrawal.status === 'failed' || withdrawal.status === 'rejected') && withdrawal.failureReason && (
+                              <p className="text-xs text-muted-foreground mt-1">{withdrawal.failureReason} · Refunded to wallet</p>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
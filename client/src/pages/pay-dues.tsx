@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/use-auth";
 import { StripeCheckout } from "@/components/stripe-checkout";
+import { LinkErrorCard, fetchLinkData } from "@/components/link-error-card";
 import { useState } from "react";
 
 export default function PayDues() {
@@ -19,14 +20,7 @@ export default function PayDues() {
 
   const { data: paymentData, isLoading, error, refetch } = useQuery({
     queryKey: ['/api/pay-dues', token],
-    queryFn: async () => {
-      const res = await fetch(`/api/pay-dues/${token}`);
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.message || 'Failed to load payment details');
-      }
-      return res.json();
-    },
+    queryFn: () => fetchLinkData(`/api/pay-dues/${token}`, 'Failed to load payment details'),
     enabled: !!token,
     retry: false
   });
@@ -89,25 +83,11 @@ export default function PayDues() {
 
   if (error || !paymentData) {
     return (
-      <div className="min-h-screen flex items-center justify-center p-4">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
-            <CardTitle>Payment Not Found</CardTitle>
-            <CardDescription>
-              {(error as any)?.message || "This payment request was not found or has expired."}
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <Link href="/">
-              <Button variant="outline">
-                <ArrowLeft className="w-4 h-4 mr-2" />
-                Go to Home
-              </Button>
-            </Link>
-          </CardContent>
-        </Card>
-      </div>
+      <LinkErrorCard
+        error={error}
+        fallbackTitle="Payment Not Found"
+        fallbackDescription="This payment request was not found or has expired."
+      />
     );
   }
 
@@ -140,9 +120,9 @@ export default function PayDues() {
         <Card className="w-full max-w-md">
           <CardHeader className="text-center">
             <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
-            <CardTitle>Payment Complete</CardTitle>
+            <CardTitle>Payment Submitted</CardTitle>
             <CardDescription>
-              Your dues for {paymentData.leagueName} have been paid successfully.
+              Your dues for {paymentData.leagueName} will show as paid as soon as Stripe confirms the payment.
             </CardDescription>
           </CardHeader>
           <CardContent className="text-center">
@@ -181,7 +161,7 @@ export default function PayDues() {
               Sign in or create an account to make your payment
             </div>
             
-            <a href="/api/login" className="block">
+            <a href={`/api/login?returnTo=${encodeURIComponent(`/pay-dues/${token}`)}`} className="block">
               <Button className="w-full" size="lg" data-testid="button-login-to-pay">
                 <LogIn className="w-4 h-4 mr-2" />
                 Sign In to Pay
@@ -248,6 +228,11 @@ export default function PayDues() {
           <div className="bg-muted rounded-lg p-4 text-center">
             <div className="text-sm text-muted-foreground">Amount Due</div>
             <div className="text-3xl font-bold text-primary">${paymentData.amount}</div>
+            {paymentData.dues && paymentData.dues.remaining !== paymentData.amount && (
+              <div className="text-sm text-muted-foreground mt-1" data-testid="text-dues-remaining">
+                {paymentData.dues.nextDueWeek ? `Due before Week ${paymentData.dues.nextDueWeek} - ` : ''}${paymentData.dues.remaining} left this season
+              </div>
+            )}
             <div className="text-sm text-muted-foreground mt-1">
               Team: {paymentData.teamName || 'Your Team'}
             </div>
@@ -255,7 +240,7 @@ export default function PayDues() {
           
           <StripeCheckout 
             leagueId={paymentData.leagueId}
-            amount={paymentData.amount}
+            amount={Number(paymentData.amount)}
             leagueName={paymentData.leagueName}
             onSuccess={() => {
               setPaymentSuccess(true);
@@ -1,11 +1,13 @@
 import { useParams, Link } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AlertCircle, CheckCircle2, CreditCard, Trophy, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import { StripeCheckout } from "@/components/stripe-checkout";
+import { LinkErrorCard, fetchLinkData } from "@/components/link-error-card";
 
 export default function PayLps() {
   const { token } = useParams<{ token: string }>();
@@ -13,41 +15,13 @@ export default function PayLps() {
 
   const { data: lpsPayment, isLoading, error } = useQuery({
     queryKey: ['/api/lps-payment', token],
-    queryFn: async () => {
-      const res = await fetch(`/api/lps-payment/${token}`);
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.message || 'Failed to load payment details');
-      }
-      return res.json();
-    },
+    queryFn: () => fetchLinkData(`/api/lps-payment/${token}`, 'Failed to load payment details'),
     enabled: !!token,
     retry: false
   });
 
-  const payMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', `/api/lps-payment/${token}/pay`, {});
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({ message: 'Payment failed' }));
-        throw new Error(errorData.message || 'Could not process payment');
-      }
-      return res.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Payment Successful",
-        description: "Your lowest scorer fee has been paid.",
-      });
-    },
-    onError: (err: Error) => {
-      toast({
-        title: "Payment Failed",
-        description: err.message || "Could not process payment. Please try again.",
-        variant: "destructive",
-      });
-    }
-  });
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [paymentSubmitted, setPaymentSubmitted] = useState(false);
 
   if (!token) {
     return (
@@ -82,37 +56,23 @@ export default function PayLps() {
 
   if (error || !lpsPayment) {
     return (
-      <div className="min-h-screen flex items-center justify-center p-4">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
-            <CardTitle>Payment Not Found</CardTitle>
-            <CardDescription>
-              {(error as any)?.message || "This payment request was not found or has already been completed."}
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <Link href="/">
-              <Button variant="outline">
-                <ArrowLeft className="w-4 h-4 mr-2" />
-                Go to Home
-              </Button>
-            </Link>
-          </CardContent>
-        </Card>
-      </div>
+      <LinkErrorCard
+        error={error}
+        fallbackTitle="Payment Not Found"
+        fallbackDescription="This payment request was not found or has already been completed."
+      />
     );
   }
 
-  if (payMutation.isSuccess) {
+  if (paymentSubmitted) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
           <CardHeader className="text-center">
             <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
-            <CardTitle>Payment Complete</CardTitle>
+            <CardTitle>Payment Submitted</CardTitle>
             <CardDescription>
-              Your Week {lpsPayment.week} lowest scorer fee has been paid successfully.
+              Your Week {lpsPayment.week} lowest scorer fee will show as paid once Stripe confirms it.
             </CardDescription>
           </CardHeader>
           <CardContent className="text-center">
@@ -153,15 +113,30 @@ export default function PayLps() {
             </div>
           </div>
 
-          <Button 
-            className="w-full" 
-            size="lg"
-            onClick={() => payMutation.mutate()}
-            disabled={payMutation.isPending}
-            data-testid="button-pay-lps"
-          >
-            {payMutation.isPending ? "Processing..." : `Pay $${Number(lpsPayment.amount).toFixed(2)}`}
-          </Button>
+          {showCheckout ? (
+            <StripeCheckout
+              amount={Number(lpsPayment.amount)}
+              leagueId={lpsPayment.leagueId}
+              paymentUrl={`/api/lps-payment/${token}/pay`}
+              onSuccess={() => {
+                setPaymentSubmitted(true);
+                toast({
+                  title: "Payment Submitted",
+                  description: "We'll mark your fee paid as soon as Stripe confirms it.",
+                });
+              }}
+              onCancel={() => setShowCheckout(false)}
+            />
+          ) : (
+            <Button 
+              className="w-full" 
+              size="lg"
+              onClick={() => setShowCheckout(true)}
+              data-testid="button-pay-lps"
+            >
+              {`Pay $${Number(lpsPayment.amount).toFixed(2)}`}
+            </Button>
+          )}
 
           <p className="text-xs text-center text-muted-foreground">
             By paying, you acknowledge you had the lowest score for Week {lpsPayment.week}.
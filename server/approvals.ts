@@ -0,0 +1,145 @@
+import type { ApprovalRequest, League, LeagueWithMembers, Payout } from "@shared/schema";
+import { storage } from "./storage";
+import { sendPayoutNotice } from "./payout-notices";
+import { startWithdrawalTransfer } from "./withdrawals";
+
+// Two-person control over money leaving the league. When a league sets an
+// approvalThreshold, manual payouts, automated HPS prizes, season prizes and
+// wallet withdrawals above it are held in 'pending_approval' until the member
+// the commissioner designated as approver signs off. Nobody can decide a
+// request they made or that pays them.
+
+export type ApprovalErrorCode = 'NOT_FOUND' | 'NOT_APPROVER' | 'ALREADY_DECIDED' | 'TRANSFER_FAILED';
+
+export interface ApprovalResult {
+  success: boolean;
+  approval?: ApprovalRequest;
+  error?: string;
+  code?: ApprovalErrorCode;
+}
+
+export function getApprovalThreshold(league: Pick<League, 'settings'>): number {
+  return Number(league.settings?.approvalThreshold || 0);
+}
+
+export function requiresApproval(league: Pick<League, 'settings'>, amount: number): boolean {
+  const threshold = getApprovalThreshold(league);
+  return threshold > 0 && amount > threshold;
+}
+
+// The commissioner stands in when the approver is a party to the request
+export function canDecideApproval(
+  league: Pick<League, 'settings' | 'commissionerId'>,
+  approval: ApprovalRequest,
+  userId: string
+): boolean {
+  if (userId === approval.requestedBy || userId === approval.userId) return false;
+
+  const approverId = league.settings?.approverUserId;
+  if (userId === approverId) return true;
+  return userId === league.commissionerId
+    && (approverId === approval.requestedBy || approverId === approval.userId);
+}
+
+// Instant payouts keep their fee as platform revenue
+export async function recordInstantPayoutFee(payout: Payout): Promise<void> {
+  if (payout.payoutType !== 'instant' || !(Number(payout.feeAmount) > 0)) return;
+
+  const platformFee = await storage.createPlatformFee({
+    payoutId: payout.id,
+    leagueId: payout.leagueId,
+    amount: payout.feeAmount || "0",
+    feeType: 'instant_payout'
+  });
+
+  // In production, this would trigger a Stripe transfer to the business account
+  // For now, mark as transferred (simulated)
+  await storage.updatePlatformFeeStatus(platformFee.id, 'transferred');
+}
+
+async function loadPendingApproval(
+  league: League,
+  approvalId: number,
+  userId: string
+): Promise<ApprovalResult> {
+  const approval = await storage.getApprovalRequest(approvalId);
+  if (!approval || approval.leagueId !== league.id) {
+    return { success: false, code: 'NOT_FOUND', error: "Approval request not found" };
+  }
+  if (approval.status !== 'pending') {
+    return { success: false, code: 'ALREADY_DECIDED', approval, error: `This request was already ${approval.status}` };
+  }
+  if (!canDecideApproval(league, approval, userId)) {
+    return { success: false, code: 'NOT_APPROVER', approval, error: "Only the league's designated approver can decide this request" };
+  }
+  return { success: true, approval };
+}
+
+// Payouts are credited to the wallet; withdrawals go on to Stripe
+export async function approveRequest(
+  league: LeagueWithMembers,
+  approvalId: number,
+  userId: string,
+  note: string | null
+): Promise<ApprovalResult> {
+  const pending = await loadPendingApproval(league, approvalId, userId);
+  if (!pending.success || !pending.approval) return pending;
+
+  const alreadyDecided: ApprovalResult = { success: false, code: 'ALREADY_DECIDED', error: "This request was already decided" };
+
+  if (pending.approval.sourceType === 'payout') {
+    const approved = await storage.approvePayoutRequest(approvalId, userId, note);
+    if (!approved) return alreadyDecided;
+
+    await recordInstantPayoutFee(approved.payout);
+    await sendPayoutNotice(league, approved.payout.userId, approved.payout.amount, approved.approval.description, approved.payout.id);
+    console.log(`[Approvals] Payout ${approved.payout.id} of $${approved.payout.amount} approved by ${userId}`);
+    return { success: true, approval: approved.approval };
+  }
+
+  const approved = await storage.approveWithdrawalRequest(approvalId, userId, note);
+  if (!approved) return alreadyDecided;
+
+  const member = await storage.getUser(approved.withdrawal.userId);
+  if (!member?.stripeConnectAccountId || !member.stripeConnectOnboarded) {
+    await storage.failWithdrawalAndRefund(approved.withdrawal.id, 'Payout account is no longer set up');
+    return {
+      success: false,
+      code: 'TRANSFER_FAILED',
+      approval: approved.approval,
+      error: "Approved, but the member's payout account isn't set up. Their balance was restored."
+    };
+  }
+
+  // Completion (or reversal and refund) is reconciled from Stripe webhooks
+  const transfer = await startWithdrawalTransfer(approved.withdrawal, member.stripeConnectAccountId);
+  if (!transfer.success) {
+    return {
+      success: false,
+      code: 'TRANSFER_FAILED',
+      approval: approved.approval,
+      error: `Approved, but the transfer failed and the member's balance was restored: ${transfer.error}`
+    };
+  }
+
+  console.log(`[Approvals] Withdrawal ${approved.withdrawal.id} of $${approved.withdrawal.amount} approved by ${userId}`);
+  return { success: true, approval: approved.approval };
+}
+
+export async function rejectRequest(
+  league: League,
+  approvalId: number,
+  userId: string,
+  reason: string
+): Promise<ApprovalResult> {
+  const pending = await loadPendingApproval(league, approvalId, userId);
+  if (!pending.success) return pending;
+
+  const rejected = await storage.rejectApprovalRequest(approvalId, userId, reason);
+  if (!rejected) {
+    return { success: false, code: 'ALREADY_DECIDED', error: "This request was already decided" };
+  }
+
+  console.log(`[Approvals] ${rejected.sourceType} ${rejected.sourceId} of $${rejected.amount} rejected by ${userId}`);
+  return { success: true, approval: rejected };
+}
@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import type { AuditActorType } from "@shared/schema";
+
+// Storage writes an audit event for every change it makes, so it needs to know
+// who is acting without each method taking an actor argument. Requests carry
+// the signed-in user; background jobs default to 'system' and Stripe webhooks
+// run as 'webhook'.
+
+export interface AuditActor {
+  actorType: AuditActorType;
+  actorId: string | null;
+}
+
+const SYSTEM_ACTOR: AuditActor = { actorType: 'system', actorId: null };
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+export function getAuditActor(): AuditActor {
+  return actorContext.getStore() || SYSTEM_ACTOR;
+}
+
+export function runAsActor<T>(actor: AuditActor, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+// Registered after the session middleware so req.user is populated
+export function auditActorMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  const userId = req.user?.claims?.sub;
+  if (!userId) return next();
+  runAsActor({ actorType: 'user', actorId: userId }, next);
+}
+
+// Credentials and link tokens never go into the log
+const REDACTED_KEYS = new Set([
+  'paymentToken', 'inviteToken', 'tokenHash', 'espnS2', 'espnSwid', 'yahooTokens',
+  'stripeConnectAccountId', 'stripeCustomerId'
+]);
+
+export function toAuditSnapshot(value: Record<string, any> | null | undefined): Record<string, any> | null {
+  if (!value) return null;
+  const snapshot: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (REDACTED_KEYS.has(key)) {
+      snapshot[key] = field ? '[redacted]' : field;
+    } else if (field && typeof field === 'object' && !Array.isArray(field) && !(field instanceof Date)) {
+      snapshot[key] = toAuditSnapshot(field);
+    } else {
+      snapshot[key] = field;
+    }
+  }
+  return snapshot;
+}
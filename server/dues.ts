@@ -0,0 +1,146 @@
+import type { DuesInstallment, League, LeagueMember } from "@shared/schema";
+import { toCents } from "./ledger";
+
+// What each member owes and has paid toward their season dues. A member owes
+// the league entry fee unless the commissioner set amountOwed for them, and
+// leagues can split it into installments due before given weeks (week 1
+// starts on leagues.startDate).
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type DuesStatus = 'paid' | 'partial' | 'unpaid';
+
+export interface ScheduledInstallment extends DuesInstallment {
+  dueDate: string | null;
+  paid: boolean;
+}
+
+export interface MemberDues {
+  owed: string;
+  paid: string;
+  remaining: string;
+  status: DuesStatus;
+  // What has to be in by the next installment's deadline
+  amountDue: string;
+  nextDueWeek: number | null;
+  nextDueDate: string | null;
+  overdue: boolean;
+  installments: ScheduledInstallment[];
+}
+
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function getEntryFee(league: Pick<League, 'settings'>): number {
+  return Number(league.settings?.entryFee || league.settings?.seasonDues || 0);
+}
+
+export function getAmountOwed(league: Pick<League, 'settings'>, member: Pick<LeagueMember, 'amountOwed'>): number {
+  return member.amountOwed !== null && member.amountOwed !== undefined
+    ? Number(member.amountOwed)
+    : getEntryFee(league);
+}
+
+export function getDuesStatus(paidCents: number, owedCents: number): DuesStatus {
+  if (paidCents > 0 && paidCents >= owedCents) return 'paid';
+  return paidCents > 0 ? 'partial' : 'unpaid';
+}
+
+// Returns a message describing what's wrong with the plan, or null if it's valid
+export function validateInstallments(installments: DuesInstallment[], entryFee: number): string | null {
+  if (installments.length === 0) return null;
+
+  let lastWeek = 0;
+  for (const installment of installments) {
+    if (!Number.isInteger(installment.dueWeek) || installment.dueWeek < 1) {
+      return "Each installment needs a due week of 1 or later";
+    }
+    if (installment.dueWeek <= lastWeek) {
+      return "Installments must be due in different weeks, in order";
+    }
+    if (!(toCents(installment.amount) > 0)) {
+      return "Each installment amount must be greater than zero";
+    }
+    lastWeek = installment.dueWeek;
+  }
+
+  const totalCents = installments.reduce((sum, i) => sum + toCents(i.amount), 0);
+  if (totalCents !== toCents(entryFee)) {
+    return `Installments add up to $${dollars(totalCents)} but the entry fee is $${dollars(toCents(entryFee))}`;
+  }
+  return null;
+}
+
+function getInstallmentDueDate(league: Pick<League, 'startDate'>, dueWeek: number): Date | null {
+  if (!league.startDate) return null;
+  return new Date(new Date(league.startDate).getTime() + (dueWeek - 1) * WEEK_MS);
+}
+
+// The league plan scaled to what this member owes; the last installment takes
+// any rounding. Without a plan everything is due before week 1.
+function getMemberInstallments(league: League, owedCents: number): DuesInstallment[] {
+  const plan = league.settings?.duesInstallments || [];
+  const entryFeeCents = toCents(getEntryFee(league));
+  if (plan.length === 0 || entryFeeCents <= 0) {
+    return [{ dueWeek: 1, amount: owedCents / 100 }];
+  }
+
+  let allocatedCents = 0;
+  return plan.map((installment, index) => {
+    const cents = index === plan.length - 1
+      ? owedCents - allocatedCents
+      : Math.round(toCents(installment.amount) * owedCents / entryFeeCents);
+    allocatedCents += cents;
+    return { dueWeek: installment.dueWeek, amount: cents / 100 };
+  });
+}
+
+export function summarizeMemberDues(league: League, member: LeagueMember, now: Date = new Date()): MemberDues {
+  const owedCents = toCents(getAmountOwed(league, member));
+  const paidCents = toCents(member.amountPaid);
+  const remainingCents = Math.max(owedCents - paidCents, 0);
+
+  // Payments fill installments in order
+  let cumulativeCents = 0;
+  let next: ScheduledInstallment | undefined;
+  let nextCumulativeCents = 0;
+  const installments = getMemberInstallments(league, owedCents).map(installment => {
+    cumulativeCents += toCents(installment.amount);
+    const dueDate = getInstallmentDueDate(league, installment.dueWeek);
+    const scheduled: ScheduledInstallment = {
+      ...installment,
+      dueDate: dueDate ? dueDate.toISOString() : null,
+      paid: paidCents >= cumulativeCents
+    };
+    if (!scheduled.paid && !next) {
+      next = scheduled;
+      nextCumulativeCents = cumulativeCents;
+    }
+    return scheduled;
+  });
+
+  return {
+    owed: dollars(owedCents),
+    paid: dollars(paidCents),
+    remaining: dollars(remainingCents),
+    status: getDuesStatus(paidCents, owedCents),
+    amountDue: dollars(next ? Math.min(nextCumulativeCents - paidCents, remainingCents) : 0),
+    nextDueWeek: next?.dueWeek ?? null,
+    nextDueDate: next?.dueDate ?? null,
+    overdue: !!next?.dueDate && new Date(next.dueDate) < now,
+    installments
+  };
+}
+
+// "$50.00 of your $150.00 dues" plus the next installment when there's a plan
+export function describeDuesBalance(league: League, dues: MemberDues): string {
+  const balance = Number(dues.paid) > 0
+    ? `$${dues.remaining} of your $${dues.owed} dues`
+    : `your $${dues.owed} dues`;
+  const hasPlan = (league.settings?.duesInstallments?.length || 0) > 1;
+  if (!hasPlan || !dues.nextDueWeek || dues.amountDue === dues.remaining) {
+    return balance;
+  }
+  return `${balance} ($${dues.amountDue} due before Week ${dues.nextDueWeek})`;
+}
@@ -0,0 +1,168 @@
+// HTML and plain-text bodies for every email LeagueVault sends. League and
+// team names come from users, so everything interpolated into HTML is escaped.
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export type DuesReminderKind = 'pre_season' | 'weekly' | 'final' | 'individual';
+
+interface EmailLayout {
+  heading: string;
+  accent: string;
+  paragraphs: string[]; // Already-escaped HTML
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+const BRAND_BLUE = '#2563eb';
+const ALERT_RED = '#dc2626';
+const SUCCESS_GREEN = '#16a34a';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderLayout({ heading, accent, paragraphs, action, footnote }: EmailLayout): string {
+  const button = action ? `
+      <p style="margin: 24px 0;">
+        <a href="${escapeHtml(action.url)}" style="background-color: ${accent}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          ${escapeHtml(action.label)}
+        </a>
+      </p>
+      <p style="color: #666; font-size: 14px;">Or copy this link: ${escapeHtml(action.url)}</p>` : '';
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: ${accent};">${escapeHtml(heading)}</h2>
+      ${paragraphs.map(p => `<p>${p}</p>`).join('\n      ')}${button}
+      ${footnote ? `<p style="color: #666; font-size: 14px;">${escapeHtml(footnote)}</p>` : ''}
+      <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;">
+      <p style="color: #999; font-size: 12px;">LeagueVault - Fantasy Sports Payment Management</p>
+    </div>
+  `;
+}
+
+function renderText(lines: string[]): string {
+  return [...lines, '', 'Thanks,', 'LeagueVault Team'].join('\n');
+}
+
+export function inviteEmail({ leagueName, teamName, inviteUrl, expiresAt }: {
+  leagueName: string;
+  teamName: string | null;
+  inviteUrl: string;
+  expiresAt: Date | null;
+}): EmailContent {
+  const expiry = expiresAt
+    ? `This invite expires ${expiresAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.`
+    : undefined;
+  const team = teamName ? ` as ${teamName}` : '';
+  return {
+    subject: `You're invited to ${leagueName} on LeagueVault!`,
+    text: renderText([
+      `You've been invited to join ${leagueName}${team} on LeagueVault!`,
+      '',
+      'Accept your invite to claim your team and pay your dues:',
+      inviteUrl,
+      ...(expiry ? ['', expiry] : [])
+    ]),
+    html: renderLayout({
+      heading: `You're invited to ${leagueName}!`,
+      accent: BRAND_BLUE,
+      paragraphs: [
+        `You've been invited to join <strong>${escapeHtml(leagueName)}</strong>${escapeHtml(team)} on LeagueVault.`,
+        'Accept your invite to claim your team and pay your dues.'
+      ],
+      action: { label: 'Accept Invite', url: inviteUrl },
+      footnote: expiry
+    })
+  };
+}
+
+// Sent when a commissioner resends an invite to a member already on the roster
+export function duesInviteEmail({ leagueName, paymentUrl }: {
+  leagueName: string;
+  paymentUrl: string;
+}): EmailContent {
+  const message = `You've been invited to pay your dues for ${leagueName} on LeagueVault!`;
+  return {
+    subject: `You're invited to ${leagueName} on LeagueVault!`,
+    text: renderText([message, '', 'Click here to pay your dues now:', paymentUrl]),
+    html: renderLayout({
+      heading: `You're invited to ${leagueName}!`,
+      accent: BRAND_BLUE,
+      paragraphs: [`You've been invited to pay your dues for <strong>${escapeHtml(leagueName)}</strong> on LeagueVault.`],
+      action: { label: 'Pay Your Dues Now', url: paymentUrl }
+    })
+  };
+}
+
+// `balance` describes what's left to pay, e.g. "$50.00 of your $150.00 dues"
+export function duesReminderEmail({ leagueName, balance, paymentUrl, kind }: {
+  leagueName: string;
+  balance: string;
+  paymentUrl: string;
+  kind: DuesReminderKind;
+}): EmailContent {
+  const copy = kind === 'pre_season'
+    ? { subject: `${leagueName} starts soon: secure your spot`, heading: 'Secure Your Spot', message: `${leagueName} is starting soon. Please pay ${balance} to secure your spot.` }
+    : kind === 'final'
+    ? { subject: `Final notice: dues for ${leagueName}`, heading: 'Final Notice', message: `You still owe ${balance} for ${leagueName}. Please pay immediately to avoid removal.` }
+    : { subject: `Reminder: Pay your dues for ${leagueName}`, heading: 'Payment Reminder', message: `Hey, nerd. You still owe ${balance} for ${leagueName}. Pay up or shut up.` };
+
+  return {
+    subject: copy.subject,
+    text: renderText([copy.message, '', 'Click here to pay now:', paymentUrl]),
+    html: renderLayout({
+      heading: copy.heading,
+      accent: ALERT_RED,
+      paragraphs: [escapeHtml(copy.message)],
+      action: { label: 'Pay Now', url: paymentUrl }
+    })
+  };
+}
+
+export function lpsNoticeEmail({ leagueName, week, amount, paymentUrl }: {
+  leagueName: string;
+  week: number;
+  amount: string;
+  paymentUrl: string;
+}): EmailContent {
+  const message = `You had the lowest score in ${leagueName} in Week ${week}. Your lowest scorer fee is $${amount}.`;
+  return {
+    subject: `Week ${week} lowest scorer fee for ${leagueName}`,
+    text: renderText([message, '', 'Pay your fee here:', paymentUrl]),
+    html: renderLayout({
+      heading: `Week ${week} Lowest Scorer`,
+      accent: ALERT_RED,
+      paragraphs: [escapeHtml(message)],
+      action: { label: `Pay $${amount}`, url: paymentUrl }
+    })
+  };
+}
+
+export function payoutEmail({ leagueName, amount, description, walletUrl }: {
+  leagueName: string;
+  amount: string;
+  description: string;
+  walletUrl: string;
+}): EmailContent {
+  const message = `$${amount} from ${leagueName} has been added to your LeagueVault wallet (${description}).`;
+  return {
+    subject: `You've been paid $${amount} from ${leagueName}`,
+    text: renderText([message, '', 'View your wallet or withdraw:', walletUrl]),
+    html: renderLayout({
+      heading: 'You Got Paid!',
+      accent: SUCCESS_GREEN,
+      paragraphs: [escapeHtml(message)],
+      action: { label: 'View Wallet', url: walletUrl }
+    })
+  };
+}
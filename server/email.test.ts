@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { clearCapturedEmails, getCapturedEmails, getEmailTransport } from "./email";
+import { resolveLinkToken } from "./link-tokens";
+import { notificationService } from "./notifications";
+import { WeeklyAwardService } from "./weekly-awards";
+import { resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+const WEEK = 3;
+
+// Members reachable by email only, so every notice goes through the transport
+async function leagueWithEmails(settings: Parameters<typeof createTestLeague>[0]['settings'] = {}): Promise<LeagueWithMembers> {
+  const league = await createTestLeague({ settings, memberIds: ["alice", "bob"] });
+  for (const member of league.members) {
+    await storage.updateMemberDetails(member.id, { email: `${member.userId}@example.com` });
+  }
+  return (await storage.getLeague(league.id))!;
+}
+
+function emailTo(address: string) {
+  const emails = getCapturedEmails().filter(e => e.to === address);
+  expect(emails).toHaveLength(1);
+  return emails[0];
+}
+
+describe("captured email", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    clearCapturedEmails();
+  });
+
+  afterEach(() => {
+    delete process.env.EMAIL_CAPTURE_DIR;
+  });
+
+  it("uses the capture transport under test", () => {
+    expect(getEmailTransport().name).toBe("capture");
+  });
+
+  it("sends the weekly HPS and LPS notices with working links", async () => {
+    const league = await leagueWithEmails({ weeklyHighScorePrize: 25, weeklyLowScoreFeeEnabled: true, weeklyLowScoreFee: 10 });
+    for (const [userId, score] of [["commissioner", "110.00"], ["alice", "140.50"], ["bob", "72.25"]]) {
+      await storage.addWeeklyScore({ leagueId: league.id, userId, week: WEEK, score, source: "manual" });
+    }
+
+    await new WeeklyAwardService().processWeek(league, WEEK);
+
+    const hps = emailTo("alice@example.com");
+    expect(hps.subject).toBe("You've been paid $25.00 from Test League");
+    expect(hps.text).toContain("$25.00 from Test League has been added to your LeagueVault wallet (Week 3 High Point Scorer Prize).");
+    expect(hps.html).toContain('href="https://your-app.replit.app/wallet"');
+
+    const lps = emailTo("bob@example.com");
+    expect(lps.subject).toBe("Week 3 lowest scorer fee for Test League");
+    expect(lps.text).toContain("Your lowest scorer fee is $10.00.");
+    const link = lps.text.match(/https:\/\/your-app\.replit\.app\/pay-lps\/(\S+)/);
+    expect(link).not.toBeNull();
+    expect(lps.html).toContain(`/pay-lps/${link![1]}`);
+    expect(lps.html).toContain("Pay $10.00");
+    const resolved = await resolveLinkToken(link![1], "lps");
+    expect(resolved.success).toBe(true);
+    const [request] = await storage.getPendingLpsPaymentRequests(league.id, "bob");
+    expect(resolved.link?.subjectId).toBe(request.id);
+
+    expect(getCapturedEmails()).toHaveLength(2);
+    const notifications = await storage.getLeagueNotifications(league.id, 10);
+    expect(notifications.map(n => n.channel)).toEqual(["email", "email"]);
+    const captured = getCapturedEmails().map(e => e.messageId).sort();
+    expect(notifications.map(n => n.providerMessageId).sort()).toEqual(captured);
+  });
+
+  it("escapes league names in HTML but not in plain text", async () => {
+    const league = await leagueWithEmails();
+    const alice = league.members.find(m => m.userId === "alice")!;
+
+    await notificationService.notify(alice, "dues_due", {
+      leagueName: `<b>Sharks</b> & "Minnows"`,
+      balance: "$50.00 of your $100.00 dues",
+      paymentUrl: "https://your-app.replit.app/pay-dues/abc?x=1&y=2",
+      kind: "final"
+    });
+
+    const email = emailTo("alice@example.com");
+    expect(email.subject).toBe(`Final notice: dues for <b>Sharks</b> & "Minnows"`);
+    expect(email.text).toContain(`You still owe $50.00 of your $100.00 dues for <b>Sharks</b> & "Minnows".`);
+    expect(email.html).toContain("&lt;b&gt;Sharks&lt;/b&gt; &amp; &quot;Minnows&quot;");
+    expect(email.html).not.toContain("<b>Sharks</b>");
+    expect(email.html).toContain('href="https://your-app.replit.app/pay-dues/abc?x=1&amp;y=2"');
+  });
+
+  it("renders invites with the team and expiry", async () => {
+    const league = await leagueWithEmails();
+    const bob = league.members.find(m => m.userId === "bob")!;
+
+    await notificationService.notify(bob, "invite", {
+      leagueName: "Test League",
+      url: "https://your-app.replit.app/invite/xyz",
+      purpose: "join",
+      teamName: "Bob's Burgers",
+      expiresAt: new Date(2026, 8, 30, 12)
+    });
+
+    const email = emailTo("bob@example.com");
+    expect(email.subject).toBe("You're invited to Test League on LeagueVault!");
+    expect(email.text).toContain("You've been invited to join Test League as Bob's Burgers on LeagueVault!");
+    expect(email.text).toContain("This invite expires Sep 30, 2026.");
+    expect(email.html).toContain(" as Bob&#39;s Burgers");
+    expect(email.html).toContain("Accept Invite");
+  });
+
+  it("writes captured email to EMAIL_CAPTURE_DIR", async () => {
+    const captureDir = await fs.mkdtemp(path.join(os.tmpdir(), "leaguevault-email-"));
+    process.env.EMAIL_CAPTURE_DIR = captureDir;
+    try {
+      const league = await leagueWithEmails();
+      const alice = league.members.find(m => m.userId === "alice")!;
+      await notificationService.notify(alice, "payout_sent", { leagueName: "Test League", amount: "40.00", description: "Second Place" });
+
+      const email = emailTo("alice@example.com");
+      const written = JSON.parse(await fs.readFile(path.join(captureDir, `${email.messageId}.json`), "utf8"));
+      expect(written).toMatchObject({ to: "alice@example.com", subject: email.subject, text: email.text, html: email.html });
+    } finally {
+      await fs.rm(captureDir, { recursive: true, force: true });
+    }
+  });
+});
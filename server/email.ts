@@ -0,0 +1,81 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { sendgridTransport } from "./sendgrid";
+import type { EmailContent } from "./email-templates";
+
+// Outgoing email goes through one transport. SendGrid is the default; with
+// EMAIL_TRANSPORT=capture (or NODE_ENV=test) mail is kept in memory instead,
+// and also written to EMAIL_CAPTURE_DIR as JSON when that's set, so flows
+// can be exercised without sending anything.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  isConfigured(): Promise<boolean>;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface CapturedEmail extends EmailMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+// Keeps memory bounded if capture is left on in a long-running dev server
+const MAX_CAPTURED_EMAILS = 500;
+
+const capturedEmails: CapturedEmail[] = [];
+
+const captureTransport: EmailTransport = {
+  name: 'capture',
+  isConfigured: async () => true,
+  async send(message) {
+    const captured: CapturedEmail = { ...message, messageId: `captured-${crypto.randomUUID()}`, sentAt: new Date() };
+    capturedEmails.push(captured);
+    if (capturedEmails.length > MAX_CAPTURED_EMAILS) capturedEmails.shift();
+
+    const captureDir = process.env.EMAIL_CAPTURE_DIR;
+    if (captureDir) {
+      await fs.mkdir(captureDir, { recursive: true });
+      await fs.writeFile(path.join(captureDir, `${captured.messageId}.json`), JSON.stringify(captured, null, 2));
+    }
+    console.log(`[Email] Captured "${message.subject}" to ${message.to}`);
+    return { success: true, messageId: captured.messageId };
+  }
+};
+
+export function getEmailTransport(): EmailTransport {
+  if (process.env.EMAIL_TRANSPORT === 'capture' || process.env.NODE_ENV === 'test') {
+    return captureTransport;
+  }
+  return sendgridTransport;
+}
+
+export async function isEmailConfigured(): Promise<boolean> {
+  return await getEmailTransport().isConfigured();
+}
+
+export async function sendEmail(to: string, content: EmailContent): Promise<EmailSendResult> {
+  return await getEmailTransport().send({ to, ...content });
+}
+
+// Oldest first
+export function getCapturedEmails(): CapturedEmail[] {
+  return [...capturedEmails];
+}
+
+export function clearCapturedEmails(): void {
+  capturedEmails.length = 0;
+}
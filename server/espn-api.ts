@@ -1,3 +1,6 @@
+// Roster lineupSlotId for bench players
+const ESPN_BENCH_SLOT_ID = 20;
+
 interface EspnTeam {
   id: number;
   abbrev: string;
@@ -22,9 +25,17 @@ interface EspnMatchup {
   };
 }
 
+export interface EspnScheduleMatchup {
+  week: number;
+  teams: Array<{ teamId: number; points: number }>;
+}
+
 interface EspnScoreData {
   teams: EspnTeam[];
   weeklyScores: Map<number, number>;
+  // Points scored by players left on the bench, for tiebreakers
+  benchScores: Map<number, number>;
+  matchups: EspnScheduleMatchup[];
 }
 
 export async function fetchEspnScores(
@@ -36,7 +47,7 @@ export async function fetchEspnScores(
   try {
     // ESPN changed their API endpoint in April 2024
     const baseUrl = `https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl/seasons/${seasonId}/segments/0/leagues/${leagueId}`;
-    const url = `${baseUrl}?view=mTeam&view=mMatchupScore&scoringPeriodId=${week}`;
+    const url = `${baseUrl}?view=mTeam&view=mMatchupScore&view=mBoxscore&scoringPeriodId=${week}`;
     
     const headers: Record<string, string> = {
       'Accept': 'application/json',
@@ -78,22 +89,37 @@ export async function fetchEspnScores(
     }));
 
     const weeklyScores = new Map<number, number>();
+    const benchScores = new Map<number, number>();
+    const matchups: EspnScheduleMatchup[] = [];
     
     const schedule = data.schedule || [];
     for (const matchup of schedule) {
       if (matchup.matchupPeriodId === week) {
-        if (matchup.home) {
-          weeklyScores.set(matchup.home.teamId, matchup.home.totalPoints || 0);
-        }
-        if (matchup.away) {
-          weeklyScores.set(matchup.away.teamId, matchup.away.totalPoints || 0);
+        for (const side of [matchup.home, matchup.away]) {
+          if (!side) continue;
+          weeklyScores.set(side.teamId, side.totalPoints || 0);
+
+          // Box score rosters are only present once the week has been played; slot 20 is the bench
+          const entries = side.rosterForCurrentScoringPeriod?.entries;
+          if (Array.isArray(entries)) {
+            const benchPoints = entries
+              .filter((e: any) => e.lineupSlotId === ESPN_BENCH_SLOT_ID)
+              .reduce((sum: number, e: any) => sum + (e.playerPoolEntry?.appliedStatTotal || 0), 0);
+            benchScores.set(side.teamId, Math.round(benchPoints * 100) / 100);
+          }
         }
+        matchups.push({
+          week,
+          teams: [matchup.home, matchup.away]
+            .filter(Boolean)
+            .map((side: any) => ({ teamId: side.teamId, points: side.totalPoints || 0 }))
+        });
       }
     }
 
     return {
       success: true,
-      data: { teams, weeklyScores }
+      data: { teams, weeklyScores, benchScores, matchups }
     };
   } catch (error) {
     console.error('ESPN API fetch error:', error);
@@ -163,6 +189,130 @@ export async function fetchEspnTeams(
   }
 }
 
+// Full season schedule (every matchup period) in a single request
+export async function fetchEspnSchedule(
+  leagueId: string,
+  seasonId: string,
+  cookies?: { espnS2?: string; swid?: string }
+): Promise<{ success: boolean; matchups?: EspnScheduleMatchup[]; error?: string }> {
+  try {
+    // ESPN changed their API endpoint in April 2024
+    const baseUrl = `https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl/seasons/${seasonId}/segments/0/leagues/${leagueId}`;
+    const url = `${baseUrl}?view=mMatchupScore`;
+    
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+    
+    if (cookies?.espnS2 && cookies?.swid) {
+      headers['Cookie'] = `espn_s2=${cookies.espnS2}; SWID=${cookies.swid}`;
+    }
+
+    const response = await fetch(url, { headers });
+    
+    if (!response.ok) {
+      if (response.status === 401) {
+        return { success: false, error: 'ESPN API authentication failed. Check your cookies for private leagues.' };
+      }
+      if (response.status === 404) {
+        return { success: false, error: 'ESPN league not found. Check your League ID and Season.' };
+      }
+      return { success: false, error: `ESPN API error: ${response.status}` };
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      return { success: false, error: 'ESPN returned an invalid response. The league may not exist or requires authentication.' };
+    }
+
+    const data = await response.json();
+
+    const matchups: EspnScheduleMatchup[] = (data.schedule || []).map((matchup: any) => ({
+      week: matchup.matchupPeriodId,
+      teams: [matchup.home, matchup.away]
+        .filter(Boolean)
+        .map((side: any) => ({ teamId: side.teamId, points: side.totalPoints || 0 }))
+    }));
+
+    return { success: true, matchups };
+  } catch (error) {
+    console.error('ESPN API fetch error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to fetch ESPN schedule' 
+    };
+  }
+}
+
+export interface EspnStanding {
+  teamId: number;
+  finalRank: number | null;
+  regularSeasonRank: number | null;
+  pointsFor: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// rankCalculatedFinal stays 0 until the playoffs finish; playoffSeed is the
+// regular-season finish
+export async function fetchEspnStandings(
+  leagueId: string,
+  seasonId: string,
+  cookies?: { espnS2?: string; swid?: string }
+): Promise<{ success: boolean; standings?: EspnStanding[]; error?: string }> {
+  try {
+    // ESPN changed their API endpoint in April 2024
+    const baseUrl = `https://lm-api-reads.fantasy.espn.com/apis/v3/games/ffl/seasons/${seasonId}/segments/0/leagues/${leagueId}`;
+    const url = `${baseUrl}?view=mTeam&view=mStandings`;
+    
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+    
+    if (cookies?.espnS2 && cookies?.swid) {
+      headers['Cookie'] = `espn_s2=${cookies.espnS2}; SWID=${cookies.swid}`;
+    }
+
+    const response = await fetch(url, { headers });
+    
+    if (!response.ok) {
+      if (response.status === 401) {
+        return { success: false, error: 'ESPN API authentication failed. Check your cookies for private leagues.' };
+      }
+      if (response.status === 404) {
+        return { success: false, error: 'ESPN league not found. Check your League ID and Season.' };
+      }
+      return { success: false, error: `ESPN API error: ${response.status}` };
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      return { success: false, error: 'ESPN returned an invalid response. The league may not exist or requires authentication.' };
+    }
+
+    const data = await response.json();
+
+    const standings: EspnStanding[] = (data.teams || []).map((team: any) => ({
+      teamId: team.id,
+      finalRank: team.rankCalculatedFinal || null,
+      regularSeasonRank: team.playoffSeed || null,
+      pointsFor: team.record?.overall?.pointsFor ?? team.points ?? 0,
+      wins: team.record?.overall?.wins || 0,
+      losses: team.record?.overall?.losses || 0,
+      ties: team.record?.overall?.ties || 0
+    }));
+
+    return { success: true, standings };
+  } catch (error) {
+    console.error('ESPN API fetch error:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to fetch ESPN standings' 
+    };
+  }
+}
+
 export interface EspnLeagueInfo {
   name: string;
   seasonId: number;
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { startJobScheduler } from "./jobs";
+import { storage } from "./storage";
 
 const app = express();
 const httpServer = createServer(app);
@@ -60,6 +62,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Leagues connected to Yahoo before league_credentials existed
+  await storage.moveLegacyYahooTokens()
+    .then(moved => moved > 0 && log(`moved Yahoo tokens out of settings for ${moved} league(s)`))
+    .catch(err => console.error("Failed to move legacy Yahoo tokens:", err));
+
+  // Payments and payouts recorded before the ledger existed
+  await storage.postLegacyLedgerEntries()
+    .then(posted => posted > 0 && log(`posted ${posted} legacy payment(s) and payout(s) to the ledger`))
+    .catch(err => console.error("Failed to post legacy payments and payouts to the ledger:", err));
+
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -93,6 +105,7 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startJobScheduler();
     },
   );
 })();
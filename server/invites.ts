@@ -0,0 +1,137 @@
+import { LEAGUE_INVITE_EXPIRY_DAYS, type LeagueInvite, type LeagueMember } from "@shared/schema";
+import { storage } from "./storage";
+import { consumeLinkToken, resolveLinkToken, type LinkTokenErrorCode, type ResolvedLink } from "./link-tokens";
+
+// Inviting someone creates a placeholder member keyed "invite_{inviteId}" so
+// the commissioner can track dues before they sign up. Accepting the invite
+// hands that member, and everything recorded against it, to the signed-in
+// user. Invite links are single-use link tokens that expire with the invite,
+// after LEAGUE_INVITE_EXPIRY_DAYS.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InviteErrorCode =
+  | 'NOT_FOUND'
+  | 'EXPIRED'
+  | 'ALREADY_ACCEPTED'
+  | 'CANCELLED'
+  | 'ALREADY_MEMBER'
+  | 'LEAGUE_ARCHIVED';
+
+export interface InvitePreview {
+  leagueId: number;
+  leagueName: string;
+  seasonYear: number;
+  teamName: string | null;
+  ownerName: string | null;
+  status: string;
+  expiresAt: Date;
+  isMember: boolean;
+}
+
+export interface InvitePreviewResult {
+  success: boolean;
+  preview?: InvitePreview;
+  error?: string;
+  code?: InviteErrorCode;
+}
+
+export interface AcceptInviteResult {
+  success: boolean;
+  invite?: LeagueInvite;
+  member?: LeagueMember;
+  error?: string;
+  code?: InviteErrorCode;
+}
+
+export function getInvitePlaceholderUserId(inviteId: number): string {
+  return `invite_${inviteId}`;
+}
+
+// Invites sent before expiry was recorded run from when they were created
+export function getInviteExpiresAt(invite: Pick<LeagueInvite, 'expiresAt' | 'createdAt'>): Date {
+  if (invite.expiresAt) return new Date(invite.expiresAt);
+  return new Date(new Date(invite.createdAt!).getTime() + LEAGUE_INVITE_EXPIRY_DAYS * DAY_MS);
+}
+
+const LINK_ERROR_CODES: Record<LinkTokenErrorCode, InviteErrorCode> = {
+  INVALID: 'NOT_FOUND',
+  EXPIRED: 'EXPIRED',
+  USED: 'ALREADY_ACCEPTED',
+  REVOKED: 'CANCELLED'
+};
+
+async function getInviteByToken(token: string): Promise<{ invite?: LeagueInvite; link?: ResolvedLink; error?: string; code?: InviteErrorCode }> {
+  const resolved = await resolveLinkToken(token, 'invite');
+  if (!resolved.success || !resolved.link) {
+    return { code: LINK_ERROR_CODES[resolved.code!], error: resolved.error };
+  }
+  const invite = await storage.getLeagueInvite(resolved.link.subjectId);
+  if (!invite) return { code: 'NOT_FOUND', error: "Invite not found" };
+  return { invite, link: resolved.link };
+}
+
+// Why an invite can't be accepted right now, if anything
+function getInviteBlocker(invite: LeagueInvite): { code: InviteErrorCode; error: string } | null {
+  if (invite.status === 'accepted') {
+    return { code: 'ALREADY_ACCEPTED', error: "This invite has already been used" };
+  }
+  if (invite.status === 'cancelled') {
+    return { code: 'CANCELLED', error: "This invite was cancelled. Ask your commissioner for a new one." };
+  }
+  if (getInviteExpiresAt(invite) <= new Date()) {
+    return { code: 'EXPIRED', error: "This invite has expired. Ask your commissioner for a new one." };
+  }
+  return null;
+}
+
+export async function getInvitePreview(token: string, userId?: string): Promise<InvitePreviewResult> {
+  const { invite, error, code } = await getInviteByToken(token);
+  if (!invite) return { success: false, code, error };
+  const league = await storage.getLeague(invite.leagueId);
+  if (!league) return { success: false, code: 'NOT_FOUND', error: "Invite not found" };
+
+  return {
+    success: true,
+    preview: {
+      leagueId: league.id,
+      leagueName: league.name,
+      seasonYear: league.seasonYear,
+      teamName: invite.teamName,
+      ownerName: invite.ownerName,
+      status: invite.status!,
+      expiresAt: getInviteExpiresAt(invite),
+      isMember: !!userId && league.members.some(m => m.userId === userId)
+    }
+  };
+}
+
+export async function acceptInvite(token: string, userId: string): Promise<AcceptInviteResult> {
+  const { invite, link, error, code } = await getInviteByToken(token);
+  if (!invite || !link) return { success: false, code, error };
+
+  const blocker = getInviteBlocker(invite);
+  if (blocker) return { success: false, ...blocker };
+
+  const league = await storage.getLeague(invite.leagueId);
+  if (!league) {
+    return { success: false, code: 'NOT_FOUND', error: "Invite not found" };
+  }
+  if (league.archivedAt) {
+    return { success: false, code: 'LEAGUE_ARCHIVED', error: "This league has been archived" };
+  }
+  if (league.members.some(m => m.userId === userId)) {
+    return { success: false, code: 'ALREADY_MEMBER', error: "You're already a member of this league" };
+  }
+
+  const accepted = await storage.acceptLeagueInvite(invite.id, getInvitePlaceholderUserId(invite.id), userId);
+  if (!accepted) {
+    // Accepted, cancelled or joined from another tab since the checks above
+    return { success: false, code: 'ALREADY_ACCEPTED', error: "This invite is no longer available" };
+  }
+  // The invite's status already stops a second acceptance; this records which link was used
+  await consumeLinkToken(link, userId);
+
+  console.log(`[Invites] Invite ${invite.id} accepted by ${userId} in league ${invite.leagueId}`);
+  return { success: true, invite: accepted.invite, member: accepted.member };
+}
@@ -0,0 +1,115 @@
+// Minimal 5-field cron ("minute hour day-of-month month day-of-week"),
+// evaluated in UTC. Fields support *, lists, ranges and steps, e.g.
+// "*/15 * * * *", "0 9 * * 2", "0 12 1-7 * 1,3".
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): CronFields | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const minutes = parseField(parts[0], 0, 59);
+  const hours = parseField(parts[1], 0, 23);
+  const daysOfMonth = parseField(parts[2], 1, 31);
+  const months = parseField(parts[3], 1, 12);
+  // 0 and 7 are both Sunday
+  const daysOfWeek = parseField(parts[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*'
+  };
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = fields.daysOfWeek.has(date.getUTCDay());
+  if (fields.daysOfMonthRestricted && fields.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+export function isValidCron(expression: string): boolean {
+  return parseCron(expression) !== null;
+}
+
+// Next time strictly after `after` that the expression fires, or null if it
+// never fires within a year (e.g. "0 0 31 2 *")
+export function getNextCronRun(expression: string, after: Date): Date | null {
+  const fields = parseCron(expression);
+  if (!fields) return null;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!fields.months.has(next.getUTCMonth() + 1) || !matchesDay(fields, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+}
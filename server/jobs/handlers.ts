@@ -0,0 +1,104 @@
+import type { JobRun, JobType, LeagueWithMembers, SchedulableJobType } from "@shared/schema";
+import { storage } from "../storage";
+import { syncLeagueWeekScores } from "../score-sync";
+import { weeklyAwardService } from "../weekly-awards";
+import { sendDuesReminders } from "../reminders";
+import { purgeArchivedLeague } from "../league-archive";
+
+// Handlers throw to fail the run; the scheduler retries with backoff.
+// Whatever they return is saved as the run's result.
+export type JobHandler = (league: LeagueWithMembers, run: JobRun) => Promise<Record<string, any>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Days before leagues.startDate when unpaid members get a pre-season text
+const PRESEASON_REMINDER_DAYS = [7, 1];
+
+// Weeks are counted from leagues.startDate; a week is complete 7 days after it starts
+function getLastCompletedWeek(league: LeagueWithMembers): number {
+  if (!league.startDate) {
+    throw new Error("League start date isn't set, so the current week is unknown");
+  }
+  const weeksElapsed = Math.floor((Date.now() - new Date(league.startDate).getTime()) / WEEK_MS);
+  return Math.min(weeksElapsed, league.settings?.numberOfWeeks || 17);
+}
+
+function getJobWeek(league: LeagueWithMembers, run: JobRun): number {
+  return run.payload.week ? Number(run.payload.week) : getLastCompletedWeek(league);
+}
+
+const syncScores: JobHandler = async (league, run) => {
+  const week = getJobWeek(league, run);
+  if (week < 1) return { skipped: 'season_not_started' };
+
+  const result = await syncLeagueWeekScores(league, week);
+  if (!result.success) {
+    const missing = result.missingTeams?.map(t => t.teamName).join(', ');
+    throw new Error(missing ? `${result.error} Missing: ${missing}` : result.error);
+  }
+  return { week, scoresUpdated: result.scoresUpdated, source: result.source, automation: result.automation };
+};
+
+const finalizeWeek: JobHandler = async (league, run) => {
+  const week = getJobWeek(league, run);
+  if (week < 1) return { skipped: 'season_not_started' };
+
+  const { event, ...result } = await weeklyAwardService.processWeek(league, week);
+  if (result.skippedReason === 'no_scores') {
+    throw new Error(`No scores recorded for week ${week}`);
+  }
+  if (result.skippedReason === 'non_authoritative_scores') {
+    throw new Error(`Week ${week} contains mock scores; awards were not issued`);
+  }
+  return { week, ...result };
+};
+
+const preseasonReminders: JobHandler = async (league) => {
+  if (!league.startDate) {
+    throw new Error("League start date isn't set");
+  }
+
+  const daysUntilStart = Math.ceil((new Date(league.startDate).getTime() - Date.now()) / DAY_MS);
+  const remindersDue = PRESEASON_REMINDER_DAYS.filter(days => daysUntilStart <= days).length;
+  if (daysUntilStart <= 0 || remindersDue === 0) {
+    return { skipped: 'outside_reminder_window', daysUntilStart };
+  }
+
+  // Skip members who've already had every reminder due so far this preseason
+  const windowStart = new Date(league.startDate).getTime() - (Math.max(...PRESEASON_REMINDER_DAYS) + 1) * DAY_MS;
+  const sentCounts = new Map<string, number>();
+  for (const reminder of await storage.getLeagueReminders(league.id)) {
+    if (reminder.type !== 'pre_season' || !reminder.createdAt || reminder.createdAt.getTime() < windowStart) continue;
+    sentCounts.set(reminder.userId, (sentCounts.get(reminder.userId) || 0) + 1);
+  }
+  const alreadyReminded = Array.from(sentCounts.entries())
+    .filter(([, count]) => count >= remindersDue)
+    .map(([userId]) => userId);
+
+  const result = await sendDuesReminders(league, 'pre_season', alreadyReminded);
+  return { daysUntilStart, remindersCreated: result.remindersCreated, smsSent: result.smsSent, emailsSent: result.emailsSent, inAppSent: result.inAppSent };
+};
+
+const purgeLeague: JobHandler = async (league) => {
+  const result = await purgeArchivedLeague(league);
+  if (!result.success || !result.export) {
+    throw new Error(result.error);
+  }
+  return { exportId: result.export.id };
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  sync_scores: syncScores,
+  finalize_week: finalizeWeek,
+  preseason_reminders: preseasonReminders,
+  purge_league: purgeLeague
+};
+
+// Used when a league first turns a job on: Tuesday after the Monday night game
+// for scores, and mid-morning daily for reminders (UTC)
+export const DEFAULT_JOB_SCHEDULES: Record<SchedulableJobType, string> = {
+  sync_scores: '0 10 * * 2',
+  finalize_week: '0 16 * * 2',
+  preseason_reminders: '0 15 * * *'
+};
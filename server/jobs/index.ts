@@ -0,0 +1,3 @@
+export { isValidCron, getNextCronRun } from "./cron";
+export { DEFAULT_JOB_SCHEDULES } from "./handlers";
+export { enqueueJob, isJobType, isSchedulableJobType, runSchedulerTick, startJobScheduler, stopJobScheduler } from "./scheduler";
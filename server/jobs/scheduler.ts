@@ -0,0 +1,123 @@
+import { JOB_TYPES, SCHEDULABLE_JOB_TYPES, type JobRun, type JobType, type SchedulableJobType } from "@shared/schema";
+import { storage } from "../storage";
+import { getNextCronRun } from "./cron";
+import { jobHandlers } from "./handlers";
+import { notificationService } from "../notifications";
+
+const TICK_MS = 60 * 1000;
+// Cap on runs executed per tick so one backlog can't starve the next tick
+const MAX_RUNS_PER_TICK = 20;
+// A run still 'running' after this long is assumed lost with its process
+const STALE_RUN_MS = 15 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+export function isJobType(value: string): value is JobType {
+  return (JOB_TYPES as readonly string[]).includes(value);
+}
+
+export function isSchedulableJobType(value: string): value is SchedulableJobType {
+  return (SCHEDULABLE_JOB_TYPES as readonly string[]).includes(value);
+}
+
+// 5 min, 10 min, 20 min, ... after each failed attempt
+export function getRetryDelayMs(attempt: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+}
+
+export async function enqueueJob(
+  leagueId: number,
+  jobType: JobType,
+  payload: Record<string, any> = {},
+  scheduledJobId: number | null = null
+): Promise<JobRun> {
+  return await storage.createJobRun({ leagueId, jobType, payload, scheduledJobId, runAt: new Date() });
+}
+
+async function enqueueDueScheduledJobs(now: Date): Promise<void> {
+  const dueJobs = await storage.getDueScheduledJobs(now);
+  for (const job of dueJobs) {
+    const nextRunAt = getNextCronRun(job.cronExpression, now);
+    if (!job.nextRunAt || !nextRunAt) continue;
+
+    // Another instance may have queued this slot already
+    const claimed = await storage.advanceScheduledJob(job.id, job.nextRunAt, nextRunAt);
+    if (claimed && isJobType(job.jobType)) {
+      await enqueueJob(job.leagueId, job.jobType, {}, job.id);
+    }
+  }
+}
+
+async function executeRun(run: JobRun): Promise<void> {
+  try {
+    const handler = isJobType(run.jobType) ? jobHandlers[run.jobType] : undefined;
+    if (!handler) {
+      throw new Error(`Unknown job type: ${run.jobType}`);
+    }
+
+    const league = await storage.getLeague(run.leagueId);
+    if (!league) {
+      throw new Error(`League ${run.leagueId} not found`);
+    }
+
+    // Runs queued before the league was archived have nothing left to do
+    if (league.archivedAt && run.jobType !== 'purge_league') {
+      await storage.completeJobRun(run.id, { skipped: 'league_archived' });
+      return;
+    }
+
+    const result = await handler(league, run);
+    await storage.completeJobRun(run.id, result);
+    console.log(`[Jobs] ${run.jobType} for league ${run.leagueId} succeeded (run ${run.id})`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const retryAt = run.attempts < run.maxAttempts
+      ? new Date(Date.now() + getRetryDelayMs(run.attempts))
+      : null;
+    await storage.failJobRun(run.id, message, retryAt);
+    console.error(`[Jobs] ${run.jobType} for league ${run.leagueId} failed (run ${run.id}, attempt ${run.attempts}/${run.maxAttempts}): ${message}`);
+  }
+}
+
+export async function runSchedulerTick(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+  try {
+    const now = new Date();
+    const requeued = await storage.requeueStaleJobRuns(new Date(now.getTime() - STALE_RUN_MS));
+    if (requeued > 0) {
+      console.log(`[Jobs] Requeued ${requeued} interrupted run(s)`);
+    }
+
+    await enqueueDueScheduledJobs(now);
+
+    for (let i = 0; i < MAX_RUNS_PER_TICK; i++) {
+      const run = await storage.claimNextJobRun(new Date());
+      if (!run) break;
+      await executeRun(run);
+    }
+
+    // Texts held for quiet hours and retries of failed sends
+    await notificationService.deliverDue(new Date());
+  } catch (err) {
+    console.error("[Jobs] Scheduler tick failed:", err);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+// Runs in the web process; set DISABLE_JOB_SCHEDULER=true to turn it off
+export function startJobScheduler(): void {
+  if (timer || process.env.DISABLE_JOB_SCHEDULER === 'true') return;
+  timer = setInterval(runSchedulerTick, TICK_MS);
+  console.log(`[Jobs] Scheduler started (every ${TICK_MS / 1000}s)`);
+}
+
+export function stopJobScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,103 @@
+import { LEAGUE_ARCHIVE_GRACE_DAYS, type League, type LeagueExport } from "@shared/schema";
+import { storage } from "./storage";
+
+// Deleting a league archives it: everything stays in place, writes are
+// refused, and the commissioner can restore it for LEAGUE_ARCHIVE_GRACE_DAYS.
+// After that an admin can queue purge jobs, which export the league's records
+// to league_exports before removing them.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LeagueArchiveErrorCode =
+  | 'HAS_BALANCES'
+  | 'WITHDRAWALS_IN_FLIGHT'
+  | 'ALREADY_ARCHIVED'
+  | 'NOT_ARCHIVED'
+  | 'GRACE_PERIOD_OVER'
+  | 'GRACE_PERIOD_ACTIVE';
+
+export interface LeagueArchiveResult {
+  success: boolean;
+  league?: League;
+  export?: LeagueExport;
+  error?: string;
+  code?: LeagueArchiveErrorCode;
+}
+
+export function getPurgeEligibleAt(league: Pick<League, 'archivedAt'>): Date | null {
+  if (!league.archivedAt) return null;
+  return new Date(new Date(league.archivedAt).getTime() + LEAGUE_ARCHIVE_GRACE_DAYS * DAY_MS);
+}
+
+function getGraceCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - LEAGUE_ARCHIVE_GRACE_DAYS * DAY_MS);
+}
+
+export async function archiveLeague(league: League, userId: string): Promise<LeagueArchiveResult> {
+  if (league.archivedAt) {
+    return { success: false, code: 'ALREADY_ARCHIVED', error: "This league is already archived" };
+  }
+
+  const blockers = await storage.getLeagueArchiveBlockers(league.id);
+  if (blockers.walletsWithBalance > 0) {
+    return {
+      success: false,
+      code: 'HAS_BALANCES',
+      error: `${blockers.walletsWithBalance} member wallet${blockers.walletsWithBalance === 1 ? ' still holds' : 's still hold'} money. Members need to withdraw their balances first.`
+    };
+  }
+  if (blockers.withdrawalsInFlight > 0) {
+    return {
+      success: false,
+      code: 'WITHDRAWALS_IN_FLIGHT',
+      error: `${blockers.withdrawalsInFlight} withdrawal${blockers.withdrawalsInFlight === 1 ? ' is' : 's are'} still being processed. Try again once they settle.`
+    };
+  }
+
+  const archived = await storage.archiveLeague(league.id, userId);
+  if (!archived) {
+    // Money moved, or someone else archived it, since the checks above
+    return { success: false, code: 'HAS_BALANCES', error: "The league's balances changed. Check wallets and withdrawals and try again." };
+  }
+
+  console.log(`[Archive] League ${league.id} archived by ${userId}`);
+  return { success: true, league: archived };
+}
+
+export async function restoreLeague(league: League): Promise<LeagueArchiveResult> {
+  const purgeEligibleAt = getPurgeEligibleAt(league);
+  if (!purgeEligibleAt) {
+    return { success: false, code: 'NOT_ARCHIVED', error: "This league isn't archived" };
+  }
+  if (purgeEligibleAt <= new Date()) {
+    return { success: false, code: 'GRACE_PERIOD_OVER', error: `Archived leagues can only be restored within ${LEAGUE_ARCHIVE_GRACE_DAYS} days` };
+  }
+
+  const restored = await storage.restoreLeague(league.id);
+  if (!restored) {
+    return { success: false, code: 'NOT_ARCHIVED', error: "This league isn't archived" };
+  }
+
+  console.log(`[Archive] League ${league.id} restored`);
+  return { success: true, league: restored };
+}
+
+// Runs as the purge_league job
+export async function purgeArchivedLeague(league: League): Promise<LeagueArchiveResult> {
+  if (!league.archivedAt) {
+    return { success: false, code: 'NOT_ARCHIVED', error: "Only archived leagues can be purged" };
+  }
+
+  const exported = await storage.purgeLeague(league.id, getGraceCutoff());
+  if (!exported) {
+    return { success: false, code: 'GRACE_PERIOD_ACTIVE', error: `League ${league.id} is still within its ${LEAGUE_ARCHIVE_GRACE_DAYS}-day grace period` };
+  }
+
+  console.log(`[Archive] League ${league.id} exported (export ${exported.id}) and purged`);
+  return { success: true, export: exported };
+}
+
+// Archived leagues whose grace period has ended
+export async function getPurgeableLeagues(): Promise<League[]> {
+  return await storage.getArchivedLeaguesBefore(getGraceCutoff());
+}
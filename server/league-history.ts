@@ -0,0 +1,157 @@
+import type { FranchiseMemberHistory, FranchiseSeason, League, LeagueHistory, LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { getAuthoritativeScoreSources, isPlaceholderUserId } from "./platforms";
+import { toCents } from "./ledger";
+
+// All-time standings for a league that has been recreated season after
+// season. Money comes from payments and payouts, awards from
+// weeklyAwardEvents and points from weeklyScores, for every season
+// getFranchiseLeagues links to this one.
+
+// Payout reasons that mean the member won the season
+const CHAMPIONSHIP_REASONS = ['championship', 'first_place'];
+
+// Money handed back rather than won
+const NON_WINNING_REASONS = ['refund'];
+
+type HistoryMember = LeagueWithMembers['members'][number];
+
+interface MemberTotals {
+  key: string;
+  latest: HistoryMember | null;
+  latestSeasonYear: number;
+  userId: string;
+  leagueIds: Set<number>;
+  duesCents: number;
+  lpsCents: number;
+  winningsCents: number;
+  hpsCount: number;
+  lpsCount: number;
+  championships: Set<number>;
+  pointsCents: number;
+  bestWeekCents: number | null;
+}
+
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Real users are the same person in every season; unclaimed teams are
+// matched by their platform team ID instead of the per-league placeholder
+function getMemberKey(league: League, member: Pick<HistoryMember, 'userId' | 'externalTeamId'>): string {
+  if (isPlaceholderUserId(member.userId) && member.externalTeamId) {
+    return `${league.platform}-team:${member.externalTeamId}`;
+  }
+  return member.userId;
+}
+
+function getDisplayName(member: HistoryMember | null, userId: string): string {
+  if (!member) return `User ${userId.slice(0, 4)}...`;
+  const name = `${member.user?.firstName || ''} ${member.user?.lastName || ''}`.trim();
+  return name || member.ownerName || member.teamName || member.user?.email || `User ${userId.slice(0, 4)}...`;
+}
+
+export async function getLeagueHistory(league: League): Promise<LeagueHistory> {
+  const seasons = await storage.getFranchiseLeagues(league);
+  const leagueIds = seasons.map(s => s.id);
+  const seasonsById = new Map(seasons.map(s => [s.id, s]));
+
+  const [members, paymentTotals, payoutTotals, scoreTotals, awardEvents] = await Promise.all([
+    storage.getMembersForLeagues(leagueIds),
+    storage.getPaymentTotalsByMember(leagueIds),
+    storage.getPayoutTotalsByMember(leagueIds),
+    storage.getScoreTotalsByMember(leagueIds, getAuthoritativeScoreSources()),
+    storage.getWeeklyAwardEventsForLeagues(leagueIds)
+  ]);
+
+  const keysByLeagueUser = new Map<string, string>();
+  const totals = new Map<string, MemberTotals>();
+
+  const getTotals = (leagueId: number, userId: string): MemberTotals => {
+    const key = keysByLeagueUser.get(`${leagueId}:${userId}`) || userId;
+    let entry = totals.get(key);
+    if (!entry) {
+      entry = {
+        key, latest: null, latestSeasonYear: -Infinity, userId, leagueIds: new Set(),
+        duesCents: 0, lpsCents: 0, winningsCents: 0, hpsCount: 0, lpsCount: 0,
+        championships: new Set(), pointsCents: 0, bestWeekCents: null
+      };
+      totals.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const member of members) {
+    const season = seasonsById.get(member.leagueId)!;
+    keysByLeagueUser.set(`${member.leagueId}:${member.userId}`, getMemberKey(season, member));
+
+    const entry = getTotals(member.leagueId, member.userId);
+    entry.leagueIds.add(member.leagueId);
+    if (season.seasonYear > entry.latestSeasonYear) {
+      entry.latest = member;
+      entry.latestSeasonYear = season.seasonYear;
+      entry.userId = member.userId;
+    }
+  }
+
+  for (const row of paymentTotals) {
+    const entry = getTotals(row.leagueId, row.userId);
+    if (row.kind === 'lps') entry.lpsCents += toCents(row.total);
+    else entry.duesCents += toCents(row.total);
+  }
+
+  const championsBySeason = new Map<number, string>();
+  for (const row of payoutTotals) {
+    if (NON_WINNING_REASONS.includes(row.reason)) continue;
+    const entry = getTotals(row.leagueId, row.userId);
+    entry.winningsCents += toCents(row.total);
+    if (CHAMPIONSHIP_REASONS.includes(row.reason)) {
+      entry.championships.add(seasonsById.get(row.leagueId)!.seasonYear);
+      if (!championsBySeason.has(row.leagueId)) championsBySeason.set(row.leagueId, entry.key);
+    }
+  }
+
+  for (const row of scoreTotals) {
+    const entry = getTotals(row.leagueId, row.userId);
+    entry.pointsCents += toCents(row.totalPoints);
+    const bestCents = toCents(row.bestWeek);
+    if (entry.bestWeekCents === null || bestCents > entry.bestWeekCents) entry.bestWeekCents = bestCents;
+  }
+
+  for (const event of awardEvents) {
+    for (const userId of event.hpsRecipientIds) getTotals(event.leagueId, userId).hpsCount++;
+    for (const userId of event.lpsRecipientIds) getTotals(event.leagueId, userId).lpsCount++;
+  }
+
+  const memberHistory: FranchiseMemberHistory[] = Array.from(totals.values()).map(entry => ({
+    key: entry.key,
+    userId: entry.userId,
+    displayName: getDisplayName(entry.latest, entry.userId),
+    teamName: entry.latest?.teamName || null,
+    seasonsPlayed: entry.leagueIds.size,
+    duesPaid: dollars(entry.duesCents),
+    lpsFeesPaid: dollars(entry.lpsCents),
+    winnings: dollars(entry.winningsCents),
+    net: dollars(entry.winningsCents - entry.duesCents - entry.lpsCents),
+    hpsCount: entry.hpsCount,
+    lpsCount: entry.lpsCount,
+    championships: Array.from(entry.championships).sort((a, b) => a - b),
+    totalPoints: dollars(entry.pointsCents),
+    bestWeek: entry.bestWeekCents === null ? null : dollars(entry.bestWeekCents)
+  }));
+
+  memberHistory.sort((a, b) =>
+    b.championships.length - a.championships.length
+    || toCents(b.net) - toCents(a.net)
+    || a.displayName.localeCompare(b.displayName));
+
+  const seasonSummaries: FranchiseSeason[] = seasons.map(season => ({
+    leagueId: season.id,
+    name: season.name,
+    seasonYear: season.seasonYear,
+    memberCount: members.filter(m => m.leagueId === season.id).length,
+    championKey: championsBySeason.get(season.id) || null
+  }));
+
+  return { seasons: seasonSummaries, members: memberHistory };
+}
@@ -0,0 +1,166 @@
+import type { LedgerAccount, MemberWallet, Payment, Payout, Refund, WithdrawalRequest } from "@shared/schema";
+
+// Builders for the balanced postings behind each kind of money movement.
+// Storage writes them in the same database transaction as the movement itself.
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  walletId?: number | null;
+  amount: string; // Positive debits, negative credits
+}
+
+export interface LedgerPosting {
+  leagueId: number;
+  key: string;
+  sourceType: string;
+  sourceId: number | null;
+  description: string;
+  lines: LedgerLine[];
+}
+
+export function toCents(amount: string | number | null | undefined): number {
+  return Math.round(Number(amount || 0) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function isBalanced(lines: LedgerLine[]): boolean {
+  return lines.reduce((sum, line) => sum + toCents(line.amount), 0) === 0;
+}
+
+function line(account: LedgerAccount, cents: number, walletId: number | null = null): LedgerLine {
+  return { account, walletId, amount: fromCents(cents) };
+}
+
+// Dues or LPS fee confirmed: cash arrives in Stripe, owed to the league
+export function paymentPosting(payment: Payment): LedgerPosting {
+  const cents = toCents(payment.amount);
+  return {
+    leagueId: payment.leagueId,
+    key: `payment:${payment.id}`,
+    sourceType: 'payment',
+    sourceId: payment.id,
+    description: `Payment #${payment.id}`,
+    lines: [
+      line('stripe_clearing', cents),
+      line('league_treasury', -cents)
+    ]
+  };
+}
+
+// Refund to the member's card: the league gives the money back through Stripe
+export function refundPosting(refund: Refund): LedgerPosting {
+  const cents = toCents(refund.amount);
+  return {
+    leagueId: refund.leagueId,
+    key: `refund:${refund.id}`,
+    sourceType: 'refund',
+    sourceId: refund.id,
+    description: `Refund #${refund.id} of payment #${refund.paymentId}`,
+    lines: [
+      line('league_treasury', cents),
+      line('stripe_clearing', -cents)
+    ]
+  };
+}
+
+// A refund Stripe reported as failed after we'd already applied it
+export function refundReversalPosting(refund: Refund): LedgerPosting {
+  const original = refundPosting(refund);
+  return {
+    ...original,
+    key: `refund_reversal:${refund.id}`,
+    sourceType: 'refund_reversal',
+    description: `Refund #${refund.id} failed - reversed`,
+    lines: original.lines.map(l => ({ ...l, amount: fromCents(-toCents(l.amount)) }))
+  };
+}
+
+// Payout to a member's wallet. `payout.amount` is net of the instant fee,
+// so the treasury gives up amount + fee.
+export function payoutPosting(payout: Payout, walletId: number): LedgerPosting {
+  const netCents = toCents(payout.amount);
+  const feeCents = toCents(payout.feeAmount);
+  const lines = [
+    line('league_treasury', netCents + feeCents),
+    line('member_wallet', -netCents, walletId)
+  ];
+  if (feeCents > 0) lines.push(line('platform_fees', -feeCents));
+
+  return {
+    leagueId: payout.leagueId,
+    key: `payout:${payout.id}`,
+    sourceType: 'payout',
+    sourceId: payout.id,
+    description: `Payout #${payout.id} (${payout.reason})`,
+    lines
+  };
+}
+
+// Wallet withdrawal: the net leaves through Stripe, the fee stays with the platform
+export function withdrawalPosting(withdrawal: WithdrawalRequest): LedgerPosting {
+  const amountCents = toCents(withdrawal.amount);
+  const feeCents = toCents(withdrawal.feeAmount);
+  const lines = [
+    line('member_wallet', amountCents, withdrawal.walletId),
+    line('stripe_clearing', -(amountCents - feeCents))
+  ];
+  if (feeCents > 0) lines.push(line('platform_fees', -feeCents));
+
+  return {
+    leagueId: withdrawal.leagueId,
+    key: `withdrawal:${withdrawal.id}`,
+    sourceType: 'withdrawal',
+    sourceId: withdrawal.id,
+    description: `Withdrawal #${withdrawal.id}`,
+    lines
+  };
+}
+
+export function withdrawalRefundPosting(withdrawal: WithdrawalRequest): LedgerPosting {
+  const original = withdrawalPosting(withdrawal);
+  return {
+    ...original,
+    key: `withdrawal_refund:${withdrawal.id}`,
+    sourceType: 'withdrawal_refund',
+    description: `Withdrawal #${withdrawal.id} failed - funds returned`,
+    lines: original.lines.map(l => ({ ...l, amount: fromCents(-toCents(l.amount)) }))
+  };
+}
+
+// Season rollover moves a wallet balance into the next season's league. Each
+// league's books balance on their own: the money leaves the old league through
+// stripe_clearing and arrives in the new one the same way.
+export function carryoverPostings(
+  fromWallet: MemberWallet,
+  toWallet: MemberWallet,
+  amount: string
+): [LedgerPosting, LedgerPosting] {
+  const cents = toCents(amount);
+  return [
+    {
+      leagueId: fromWallet.leagueId,
+      key: `carryover_out:${fromWallet.id}`,
+      sourceType: 'carryover_out',
+      sourceId: toWallet.leagueId,
+      description: `Balance carried over to league #${toWallet.leagueId}`,
+      lines: [
+        line('member_wallet', cents, fromWallet.id),
+        line('stripe_clearing', -cents)
+      ]
+    },
+    {
+      leagueId: toWallet.leagueId,
+      key: `carryover_in:${toWallet.id}`,
+      sourceType: 'carryover_in',
+      sourceId: fromWallet.leagueId,
+      description: `Balance carried over from league #${fromWallet.leagueId}`,
+      lines: [
+        line('stripe_clearing', cents),
+        line('member_wallet', -cents, toWallet.id)
+      ]
+    }
+  ];
+}
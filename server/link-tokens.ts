@@ -0,0 +1,225 @@
+import crypto from "crypto";
+import { LINK_TOKEN_EXPIRY_DAYS, type LeagueWithMembers, type LinkToken, type LinkTokenPurpose } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every link we text or email (invites, dues, LPS fees) carries a token of the
+// form "{nonce}.{signature}". The HMAC ties a token to its purpose, so a forged
+// or mangled token, or a dues token pasted into an LPS link, is rejected
+// without a lookup. Each token has its own link_tokens row with an expiry,
+// optional single use, revocation and a use count. Sending a new link never
+// invalidates the ones sent before it.
+//
+// Links sent before link_tokens existed have no signature; they still resolve
+// from the old token columns until they expire.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Spent once the action they grant is done; the rest last until they expire
+const SINGLE_USE_PURPOSES: LinkTokenPurpose[] = ['invite'];
+
+export type LinkTokenErrorCode = 'INVALID' | 'EXPIRED' | 'REVOKED' | 'USED';
+
+export type LinkTokenStatus = 'active' | 'expired' | 'revoked' | 'used';
+
+export interface ResolvedLink {
+  tokenId: number | null; // Null for legacy links
+  purpose: LinkTokenPurpose;
+  leagueId: number;
+  subjectId: number;
+  expiresAt: Date;
+}
+
+export interface LinkTokenResult {
+  success: boolean;
+  link?: ResolvedLink;
+  error?: string;
+  code?: LinkTokenErrorCode;
+}
+
+export interface LeagueLink {
+  id: number;
+  purpose: LinkTokenPurpose;
+  subjectId: number;
+  label: string;
+  status: LinkTokenStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  useCount: number;
+  lastUsedAt: Date | null;
+  revokedReason: string | null;
+}
+
+const INVALID_LINK: LinkTokenResult = {
+  success: false,
+  code: 'INVALID',
+  error: "This link isn't valid. Check that you copied the whole link."
+};
+
+const INACTIVE_LINKS: Record<Exclude<LinkTokenStatus, 'active'>, LinkTokenResult> = {
+  expired: { success: false, code: 'EXPIRED', error: "This link has expired. Ask your commissioner to send you a new one." },
+  revoked: { success: false, code: 'REVOKED', error: "This link has been turned off. Ask your commissioner to send you a new one." },
+  used: { success: false, code: 'USED', error: "This link has already been used." }
+};
+
+function getSigningSecret(): string {
+  const secret = process.env.LINK_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("LINK_TOKEN_SECRET or SESSION_SECRET must be set to sign links");
+  }
+  return secret;
+}
+
+function sign(purpose: LinkTokenPurpose, nonce: string): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(`${purpose}:${nonce}`).digest('base64url');
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function hasValidSignature(token: string, purpose: LinkTokenPurpose): boolean {
+  const [nonce, signature, ...rest] = token.split('.');
+  if (!nonce || !signature || rest.length > 0) return false;
+  const expected = Buffer.from(sign(purpose, nonce));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function addDays(date: Date | string | null, days: number): Date {
+  return new Date(new Date(date || 0).getTime() + days * DAY_MS);
+}
+
+// Absolute URL for links in texts and emails
+export function getAppUrl(pathname: string): string {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : 'https://your-app.replit.app';
+  return `${baseUrl}${pathname}`;
+}
+
+export function getLinkTokenStatus(token: LinkToken, now: Date = new Date()): LinkTokenStatus {
+  if (token.revokedAt) return 'revoked';
+  if (token.consumedAt) return 'used';
+  if (new Date(token.expiresAt) <= now) return 'expired';
+  return 'active';
+}
+
+// Returns the token to put in the URL; only its hash is stored
+export async function issueLinkToken(options: {
+  purpose: LinkTokenPurpose;
+  leagueId: number;
+  subjectId: number;
+  createdBy?: string | null;
+  expiresAt?: Date | null;
+}): Promise<string> {
+  const nonce = crypto.randomBytes(24).toString('base64url');
+  const token = `${nonce}.${sign(options.purpose, nonce)}`;
+  await storage.createLinkToken({
+    purpose: options.purpose,
+    leagueId: options.leagueId,
+    subjectId: options.subjectId,
+    tokenHash: hashToken(token),
+    singleUse: SINGLE_USE_PURPOSES.includes(options.purpose),
+    expiresAt: options.expiresAt || addDays(new Date(), LINK_TOKEN_EXPIRY_DAYS[options.purpose]),
+    createdBy: options.createdBy || null
+  });
+  return token;
+}
+
+// Links issued before link_tokens, looked up by the plain token columns
+async function resolveLegacyLink(token: string, purpose: LinkTokenPurpose): Promise<LinkTokenResult> {
+  let link: ResolvedLink | undefined;
+  if (purpose === 'dues') {
+    const member = await storage.getMemberByPaymentToken(token);
+    if (member) {
+      link = { tokenId: null, purpose, leagueId: member.leagueId, subjectId: member.id, expiresAt: new Date(member.paymentTokenExpiresAt || 0) };
+    }
+  } else if (purpose === 'lps') {
+    const request = await storage.getLpsPaymentByToken(token);
+    if (request) {
+      link = { tokenId: null, purpose, leagueId: request.leagueId, subjectId: request.id, expiresAt: addDays(request.createdAt, LINK_TOKEN_EXPIRY_DAYS.lps) };
+    }
+  } else {
+    const invite = await storage.getLeagueInviteByToken(token);
+    if (invite) {
+      link = { tokenId: null, purpose, leagueId: invite.leagueId, subjectId: invite.id, expiresAt: invite.expiresAt || addDays(invite.createdAt, LINK_TOKEN_EXPIRY_DAYS.invite) };
+    }
+  }
+
+  if (!link) return INVALID_LINK;
+  if (link.expiresAt <= new Date()) return INACTIVE_LINKS.expired;
+  return { success: true, link };
+}
+
+export async function resolveLinkToken(token: string, purpose: LinkTokenPurpose): Promise<LinkTokenResult> {
+  if (!token) return INVALID_LINK;
+  if (!token.includes('.')) return await resolveLegacyLink(token, purpose);
+  if (!hasValidSignature(token, purpose)) return INVALID_LINK;
+
+  const linkToken = await storage.getLinkTokenByHash(hashToken(token));
+  if (!linkToken || linkToken.purpose !== purpose) return INVALID_LINK;
+
+  const status = getLinkTokenStatus(linkToken);
+  if (status !== 'active') return INACTIVE_LINKS[status];
+
+  await storage.recordLinkTokenUse(linkToken.id);
+  return {
+    success: true,
+    link: {
+      tokenId: linkToken.id,
+      purpose,
+      leagueId: linkToken.leagueId,
+      subjectId: linkToken.subjectId,
+      expiresAt: new Date(linkToken.expiresAt)
+    }
+  };
+}
+
+// Marks a single-use link spent. False if it was spent or revoked in the
+// meantime; legacy links have no row and are spent by their subject's status.
+export async function consumeLinkToken(link: ResolvedLink, userId: string | null): Promise<boolean> {
+  if (link.tokenId === null) return true;
+  return !!(await storage.consumeLinkToken(link.tokenId, userId));
+}
+
+// What each link in a league points at, for the commissioner's list
+export async function getLeagueLinks(league: LeagueWithMembers): Promise<LeagueLink[]> {
+  const tokens = await storage.getLeagueLinkTokens(league.id);
+  const lpsIds = Array.from(new Set(tokens.filter(t => t.purpose === 'lps').map(t => t.subjectId)));
+  const [invites, lpsRequests] = await Promise.all([
+    tokens.some(t => t.purpose === 'invite') ? storage.getLeagueInvites(league.id) : Promise.resolve([]),
+    storage.getLpsPaymentRequestsByIds(lpsIds)
+  ]);
+
+  const memberName = (match: (m: LeagueWithMembers['members'][number]) => boolean) => {
+    const member = league.members.find(match);
+    return member?.teamName || member?.ownerName || null;
+  };
+
+  const describe = (token: LinkToken): string => {
+    if (token.purpose === 'dues') {
+      return `Dues · ${memberName(m => m.id === token.subjectId) || `Member #${token.subjectId}`}`;
+    }
+    if (token.purpose === 'lps') {
+      const request = lpsRequests.find(r => r.id === token.subjectId);
+      if (!request) return `LPS fee #${token.subjectId}`;
+      return `LPS fee · Week ${request.week} · ${memberName(m => m.userId === request.userId) || 'Unknown member'}`;
+    }
+    const invite = invites.find(i => i.id === token.subjectId);
+    return `Invite · ${invite?.contactValue || `#${token.subjectId}`}`;
+  };
+
+  const now = new Date();
+  return tokens.map(token => ({
+    id: token.id,
+    purpose: token.purpose as LinkTokenPurpose,
+    subjectId: token.subjectId,
+    label: describe(token),
+    status: getLinkTokenStatus(token, now),
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    useCount: token.useCount,
+    lastUsedAt: token.lastUsedAt,
+    revokedReason: token.revokedReason
+  }));
+}
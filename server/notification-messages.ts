@@ -0,0 +1,94 @@
+import type { NotificationEvent } from "@shared/schema";
+import {
+  duesInviteEmail, duesReminderEmail, inviteEmail, lpsNoticeEmail, payoutEmail,
+  type DuesReminderKind, type EmailContent
+} from "./email-templates";
+import { getAppUrl } from "./link-tokens";
+
+// What each notification event says on every channel. Callers pass the facts;
+// the wording lives here and in email-templates.ts.
+
+export interface NotificationPayloads {
+  dues_due: { leagueName: string; balance: string; paymentUrl: string; kind: DuesReminderKind };
+  lps_owed: { leagueName: string; week: number; amount: string; paymentUrl: string };
+  hps_won: { leagueName: string; week: number; amount: string; description: string };
+  payout_sent: { leagueName: string; amount: string; description: string };
+  // 'join' links to the invite page; 'dues' to a dues payment page for a member already on the roster
+  invite: { leagueName: string; url: string; purpose: 'join' | 'dues'; teamName?: string | null; expiresAt?: Date | null };
+}
+
+export interface NotificationContent {
+  sms: string;
+  email: EmailContent;
+  inApp: { subject: string; body: string };
+}
+
+function renderDuesDue({ leagueName, balance, paymentUrl, kind }: NotificationPayloads['dues_due']): NotificationContent {
+  const sms = kind === 'pre_season'
+    ? `Hey! Your fantasy league "${leagueName}" is starting soon. Please pay ${balance} to secure your spot. - LeagueVault`
+    : kind === 'final'
+    ? `FINAL NOTICE: You still owe ${balance} for "${leagueName}". Please pay immediately to avoid removal. - LeagueVault`
+    : kind === 'weekly'
+    ? `Reminder: You still owe ${balance} for "${leagueName}". Please pay at your earliest convenience. - LeagueVault`
+    : `Hey, nerd. You still owe ${balance} for ${leagueName}. Pay up or shut up.`;
+  const email = duesReminderEmail({ leagueName, balance, paymentUrl, kind });
+  return {
+    sms: `${sms}\n\nPay here: ${paymentUrl}`,
+    email,
+    inApp: { subject: email.subject, body: `You still owe ${balance} for ${leagueName}.` }
+  };
+}
+
+function renderLpsOwed({ leagueName, week, amount, paymentUrl }: NotificationPayloads['lps_owed']): NotificationContent {
+  const email = lpsNoticeEmail({ leagueName, week, amount, paymentUrl });
+  return {
+    sms: `You had the lowest score in "${leagueName}" Week ${week}. Pay your $${amount} LPS fee here: ${paymentUrl}`,
+    email,
+    inApp: { subject: email.subject, body: `You had the lowest score in Week ${week}. Your fee is $${amount}.` }
+  };
+}
+
+function renderHpsWon({ leagueName, week, amount, description }: NotificationPayloads['hps_won']): NotificationContent {
+  const walletUrl = getAppUrl('/wallet');
+  return {
+    sms: `Congrats! You had the high score in "${leagueName}" Week ${week}. $${amount} has been added to your LeagueVault wallet: ${walletUrl}`,
+    email: payoutEmail({ leagueName, amount, description, walletUrl }),
+    inApp: { subject: `Week ${week} high score`, body: `You had the high score in Week ${week}. $${amount} has been added to your wallet.` }
+  };
+}
+
+function renderPayoutSent({ leagueName, amount, description }: NotificationPayloads['payout_sent']): NotificationContent {
+  const walletUrl = getAppUrl('/wallet');
+  return {
+    sms: `$${amount} from "${leagueName}" has been added to your LeagueVault wallet (${description}): ${walletUrl}`,
+    email: payoutEmail({ leagueName, amount, description, walletUrl }),
+    inApp: { subject: `You've been paid $${amount}`, body: `$${amount} has been added to your wallet (${description}).` }
+  };
+}
+
+function renderInvite({ leagueName, url, purpose, teamName, expiresAt }: NotificationPayloads['invite']): NotificationContent {
+  if (purpose === 'dues') {
+    return {
+      sms: `You've been invited to pay your dues for ${leagueName} on LeagueVault! Click here to pay your dues now.\n\n${url}`,
+      email: duesInviteEmail({ leagueName, paymentUrl: url }),
+      inApp: { subject: `Pay your dues for ${leagueName}`, body: `You've been invited to pay your dues for ${leagueName}.` }
+    };
+  }
+  return {
+    sms: `You've been invited to join ${leagueName} on LeagueVault! Tap the link to accept and claim your team.\n\n${url}`,
+    email: inviteEmail({ leagueName, teamName: teamName || null, inviteUrl: url, expiresAt: expiresAt || null }),
+    inApp: { subject: `You're invited to ${leagueName}`, body: `You've been invited to join ${leagueName}.` }
+  };
+}
+
+const RENDERERS: { [E in NotificationEvent]: (payload: NotificationPayloads[E]) => NotificationContent } = {
+  dues_due: renderDuesDue,
+  lps_owed: renderLpsOwed,
+  hps_won: renderHpsWon,
+  payout_sent: renderPayoutSent,
+  invite: renderInvite
+};
+
+export function renderNotification<E extends NotificationEvent>(event: E, payload: NotificationPayloads[E]): NotificationContent {
+  return RENDERERS[event](payload);
+}
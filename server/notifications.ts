@@ -0,0 +1,254 @@
+import type {
+  LeagueMember, Notification, NotificationChannel, NotificationChannelPreference,
+  NotificationEvent, NotificationPreferences, User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { renderNotification, type NotificationPayloads } from "./notification-messages";
+import { getAppUrl } from "./link-tokens";
+
+// Every SMS, email and in-app message to a member goes through here. The
+// service picks a channel from the member's preferences and contact details,
+// holds texts during their quiet hours, never texts a number that replied
+// STOP, records each send in `notifications` and retries failed sends from
+// the scheduler tick.
+
+export type NotifiableMember = Pick<LeagueMember, 'leagueId' | 'userId' | 'phoneNumber' | 'email' | 'notificationPreferences'>
+  & { user?: User | null };
+
+export interface NotifyOptions {
+  // Send on this channel only, e.g. when the commissioner picked "send by email"
+  channel?: NotificationChannel;
+  sourceType?: string;
+  sourceId?: number;
+}
+
+const AUTO_CHANNEL_ORDER: NotificationChannel[] = ['sms', 'email', 'in_app'];
+// Provider setup is looked up over the network, so it's reused for a minute
+const READINESS_TTL_MS = 60 * 1000;
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_DELIVERIES_PER_TICK = 50;
+const OPTED_OUT_REASON = 'Replied STOP to texts';
+
+export function getChannelPreference(
+  preferences: NotificationPreferences | null | undefined,
+  event: NotificationEvent
+): NotificationChannelPreference {
+  return preferences?.events?.[event] || preferences?.channel || 'auto';
+}
+
+// Local hour and minute in the member's time zone
+function getLocalTime(now: Date, timeZone: string): { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' }).formatToParts(now);
+  return {
+    hour: Number(parts.find(p => p.type === 'hour')?.value || 0),
+    minute: Number(parts.find(p => p.type === 'minute')?.value || 0)
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// When quiet hours end, or null if `now` isn't inside them. Windows may wrap
+// midnight (e.g. 22 to 8).
+export function getQuietHoursEnd(quietHours: NotificationPreferences['quietHours'], now: Date = new Date()): Date | null {
+  if (!quietHours || quietHours.start === quietHours.end || !isValidTimeZone(quietHours.timeZone)) return null;
+
+  const { start, end, timeZone } = quietHours;
+  const { hour, minute } = getLocalTime(now, timeZone);
+  const inQuietHours = start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  if (!inQuietHours) return null;
+
+  const minutesLeft = ((end * 60 - (hour * 60 + minute)) + 24 * 60) % (24 * 60);
+  return new Date(now.getTime() + minutesLeft * 60 * 1000);
+}
+
+// 5 min, 10 min, 20 min, ... after each failed attempt
+function getRetryDelayMs(attempt: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+}
+
+export function isNotificationSent(notification: Notification): boolean {
+  return notification.status === 'sent' || notification.status === 'delivered';
+}
+
+async function isOptedOut(phoneNumber: string): Promise<boolean> {
+  const { normalizePhoneNumber } = await import('./twilio');
+  const normalized = normalizePhoneNumber(phoneNumber);
+  return !!normalized && await storage.isPhoneNumberOptedOut(normalized);
+}
+
+export class NotificationService {
+  private readiness: { sms: boolean; email: boolean; checkedAt: number } | null = null;
+
+  async getChannelReadiness(): Promise<{ sms: boolean; email: boolean }> {
+    if (!this.readiness || Date.now() - this.readiness.checkedAt > READINESS_TTL_MS) {
+      const { isTwilioConfigured } = await import('./twilio');
+      const { isEmailConfigured } = await import('./email');
+      const [sms, email] = await Promise.all([isTwilioConfigured(), isEmailConfigured()]);
+      this.readiness = { sms, email, checkedAt: Date.now() };
+    }
+    return { sms: this.readiness.sms, email: this.readiness.email };
+  }
+
+  // Records the notification and sends it unless quiet hours hold it. Returns
+  // the row as it stands afterwards: 'skipped' when the member can't be
+  // reached (or turned the event off), 'pending' when held or retrying.
+  async notify<E extends NotificationEvent>(
+    member: NotifiableMember,
+    event: E,
+    payload: NotificationPayloads[E],
+    options: NotifyOptions = {}
+  ): Promise<Notification> {
+    const content = renderNotification(event, payload);
+    const base = {
+      leagueId: member.leagueId,
+      userId: member.userId,
+      event,
+      sourceType: options.sourceType || null,
+      sourceId: options.sourceId ?? null
+    };
+
+    const route = await this.chooseChannel(member, event, options.channel);
+    if ('skipReason' in route) {
+      return await storage.createNotification({
+        ...base,
+        channel: route.channel,
+        subject: content.inApp.subject,
+        body: content.inApp.body,
+        status: 'skipped',
+        lastError: route.skipReason
+      });
+    }
+
+    const now = new Date();
+    if (route.channel === 'in_app') {
+      return await storage.createNotification({
+        ...base,
+        channel: 'in_app',
+        subject: content.inApp.subject,
+        body: content.inApp.body,
+        status: 'delivered',
+        attempts: 1,
+        sentAt: now,
+        deliveredAt: now
+      });
+    }
+
+    // Only texts wait out quiet hours; email doesn't buzz anyone's phone
+    const quietUntil = route.channel === 'sms'
+      ? getQuietHoursEnd(member.notificationPreferences?.quietHours, now)
+      : null;
+    const notification = await storage.createNotification({
+      ...base,
+      channel: route.channel,
+      recipient: route.recipient,
+      subject: route.channel === 'email' ? content.email.subject : null,
+      body: route.channel === 'email' ? content.email.text : content.sms,
+      html: route.channel === 'email' ? content.email.html : null,
+      sendAfter: quietUntil || now
+    });
+    if (quietUntil) {
+      console.log(`[Notifications] ${event} to ${member.userId} held for quiet hours until ${quietUntil.toISOString()}`);
+      return notification;
+    }
+    return await this.deliver(notification);
+  }
+
+  // Sends everything that's come due: quiet-hours holds and retries
+  async deliverDue(now: Date = new Date()): Promise<number> {
+    let delivered = 0;
+    for (let i = 0; i < MAX_DELIVERIES_PER_TICK; i++) {
+      const claimed = await storage.claimNextNotification(now);
+      if (!claimed) break;
+      await this.send(claimed);
+      delivered++;
+    }
+    return delivered;
+  }
+
+  private async deliver(notification: Notification): Promise<Notification> {
+    const claimed = await storage.claimNotification(notification.id, new Date());
+    return claimed ? await this.send(claimed) : notification;
+  }
+
+  // A row left in 'sending' by a crash is not retried: the provider may
+  // already have sent it, and a duplicate text is worse than a missing one
+  private async send(notification: Notification): Promise<Notification> {
+    // The member may have replied STOP while a text was held or waiting on a retry
+    if (notification.channel === 'sms' && notification.recipient && await isOptedOut(notification.recipient)) {
+      return await storage.failNotification(notification.id, OPTED_OUT_REASON, null);
+    }
+
+    let result: { success: boolean; messageId?: string; error?: string };
+    try {
+      if (!notification.recipient) {
+        result = { success: false, error: 'No recipient' };
+      } else if (notification.channel === 'sms') {
+        const { sendSMS } = await import('./twilio');
+        result = await sendSMS(notification.recipient, notification.body, { statusCallback: getAppUrl('/api/twilio/status') });
+      } else {
+        const { sendEmail } = await import('./email');
+        result = await sendEmail(notification.recipient, {
+          subject: notification.subject || '',
+          text: notification.body,
+          html: notification.html || notification.body
+        });
+      }
+    } catch (err) {
+      result = { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    if (result.success) {
+      return await storage.markNotificationSent(notification.id, result.messageId || null);
+    }
+
+    const error = result.error || `Failed to send ${notification.channel}`;
+    const retryAt = notification.attempts < notification.maxAttempts
+      ? new Date(Date.now() + getRetryDelayMs(notification.attempts))
+      : null;
+    console.error(`[Notifications] ${notification.event} ${notification.channel} to ${notification.userId} failed (attempt ${notification.attempts}/${notification.maxAttempts}): ${error}`);
+    return await storage.failNotification(notification.id, error, retryAt);
+  }
+
+  private async chooseChannel(
+    member: NotifiableMember,
+    event: NotificationEvent,
+    requested?: NotificationChannel
+  ): Promise<{ channel: NotificationChannel; recipient: string | null } | { channel: NotificationChannel | null; skipReason: string }> {
+    const preference = getChannelPreference(member.notificationPreferences, event);
+    if (preference === 'none') {
+      return { channel: requested || null, skipReason: 'Turned off by the member' };
+    }
+
+    const candidates = requested ? [requested]
+      : preference === 'auto' ? AUTO_CHANNEL_ORDER
+      : [preference, ...AUTO_CHANNEL_ORDER.filter(c => c !== preference)];
+    const ready = await this.getChannelReadiness();
+    const user = member.user !== undefined ? member.user : await storage.getUser(member.userId);
+    const email = member.email || user?.email || null;
+
+    const unavailable: string[] = [];
+    for (const channel of candidates) {
+      if (channel === 'sms') {
+        const optedOut = !!member.phoneNumber && await isOptedOut(member.phoneNumber);
+        if (member.phoneNumber && ready.sms && !optedOut) return { channel, recipient: member.phoneNumber };
+        unavailable.push(!member.phoneNumber ? 'No phone number on file' : optedOut ? OPTED_OUT_REASON : "SMS isn't set up");
+      } else if (channel === 'email') {
+        if (email && ready.email) return { channel, recipient: email };
+        unavailable.push(email ? "Email isn't set up" : 'No email on file');
+      } else {
+        if (user) return { channel, recipient: null };
+        unavailable.push('No LeagueVault account yet');
+      }
+    }
+    return { channel: requested || null, skipReason: unavailable.join('; ') };
+  }
+}
+
+export const notificationService = new NotificationService();
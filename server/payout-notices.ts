@@ -0,0 +1,46 @@
+import type { LeagueWithMembers } from "@shared/schema";
+import { notificationService } from "./notifications";
+
+// Tells members when a payout lands in their wallet. Best effort: a notice
+// that can't be sent is logged and never fails the payout.
+
+async function notifyPayee(league: LeagueWithMembers, userId: string, send: (member: LeagueWithMembers['members'][number]) => Promise<unknown>): Promise<void> {
+  const member = league.members.find(m => m.userId === userId);
+  if (!member) return;
+
+  try {
+    await send(member);
+  } catch (err) {
+    console.error(`[Payout Notices] Notice to ${userId} failed:`, err);
+  }
+}
+
+export async function sendPayoutNotice(
+  league: LeagueWithMembers,
+  userId: string,
+  amount: string,
+  description: string,
+  payoutId?: number
+): Promise<void> {
+  await notifyPayee(league, userId, member => notificationService.notify(member, 'payout_sent', {
+    leagueName: league.name,
+    amount: Number(amount).toFixed(2),
+    description
+  }, { sourceType: 'payout', sourceId: payoutId }));
+}
+
+export async function sendHighScoreNotice(
+  league: LeagueWithMembers,
+  userId: string,
+  week: number,
+  amount: string,
+  description: string,
+  payoutId: number
+): Promise<void> {
+  await notifyPayee(league, userId, member => notificationService.notify(member, 'hps_won', {
+    leagueName: league.name,
+    week,
+    amount: Number(amount).toFixed(2),
+    description
+  }, { sourceType: 'payout', sourceId: payoutId }));
+}
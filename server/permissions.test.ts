@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  LEAGUE_PERMISSIONS, LEAGUE_ROLES, ROLE_PERMISSIONS,
+  type LeagueMember, type LeaguePermission, type LeagueRole, type LeagueWithMembers
+} from "@shared/schema";
+import { getLeagueRole, hasLeaguePermission, isAssignableRole, isLeagueMember } from "./permissions";
+
+type TestLeague = Pick<LeagueWithMembers, 'commissionerId' | 'members'>;
+
+// Spelled out rather than read from ROLE_PERMISSIONS, so widening a role
+// has to change this table too
+const EXPECTED: Record<LeagueRole, LeaguePermission[]> = {
+  commissioner: ['manage_league', 'sync_scores', 'issue_payouts', 'edit_members', 'view_treasury', 'send_reminders', 'administer_league'],
+  co_commissioner: ['manage_league', 'sync_scores', 'issue_payouts', 'edit_members', 'view_treasury', 'send_reminders'],
+  treasurer: ['issue_payouts', 'view_treasury', 'send_reminders'],
+  auditor: ['view_treasury'],
+  member: [],
+};
+
+function member(userId: string, role: string): LeagueMember {
+  return { userId, role } as LeagueMember;
+}
+
+// The commissioner comes from leagues.commissionerId; everyone else from their member row
+function leagueWith(role: LeagueRole): { league: TestLeague; userId: string } {
+  if (role === 'commissioner') {
+    return { league: { commissionerId: 'owner', members: [member('owner', 'commissioner')] }, userId: 'owner' };
+  }
+  return { league: { commissionerId: 'owner', members: [member('owner', 'commissioner'), member('user', role)] }, userId: 'user' };
+}
+
+describe("ROLE_PERMISSIONS", () => {
+  it("covers every role", () => {
+    expect(Object.keys(ROLE_PERMISSIONS).sort()).toEqual([...LEAGUE_ROLES].sort());
+  });
+
+  it("only grants known permissions", () => {
+    for (const permissions of Object.values(ROLE_PERMISSIONS)) {
+      for (const permission of permissions) {
+        expect(LEAGUE_PERMISSIONS).toContain(permission);
+      }
+    }
+  });
+});
+
+describe("hasLeaguePermission", () => {
+  const cases = LEAGUE_ROLES.flatMap(role =>
+    LEAGUE_PERMISSIONS.map(permission => ({ role, permission, granted: EXPECTED[role].includes(permission) }))
+  );
+
+  it.each(cases)("$role has $permission: $granted", ({ role, permission, granted }) => {
+    const { league, userId } = leagueWith(role);
+    expect(hasLeaguePermission(league, userId, permission)).toBe(granted);
+  });
+
+  it("grants nothing to users outside the league", () => {
+    const { league } = leagueWith('treasurer');
+    for (const permission of LEAGUE_PERMISSIONS) {
+      expect(hasLeaguePermission(league, 'stranger', permission)).toBe(false);
+    }
+  });
+
+  it("treats leagues.commissionerId as the commissioner even without a member row", () => {
+    const league: TestLeague = { commissionerId: 'owner', members: [] };
+    for (const permission of LEAGUE_PERMISSIONS) {
+      expect(hasLeaguePermission(league, 'owner', permission)).toBe(true);
+    }
+  });
+
+  it("gives a stale commissioner role on a member row only member permissions", () => {
+    const league: TestLeague = { commissionerId: 'new-owner', members: [member('old-owner', 'commissioner')] };
+    expect(getLeagueRole(league, 'old-owner')).toBe('member');
+    for (const permission of LEAGUE_PERMISSIONS) {
+      expect(hasLeaguePermission(league, 'old-owner', permission)).toBe(false);
+    }
+  });
+
+  it("treats an unknown role as member", () => {
+    const league: TestLeague = { commissionerId: 'owner', members: [member('user', 'superuser')] };
+    expect(getLeagueRole(league, 'user')).toBe('member');
+    expect(hasLeaguePermission(league, 'user', 'view_treasury')).toBe(false);
+  });
+});
+
+describe("isLeagueMember", () => {
+  it("includes the commissioner and every member row, and no one else", () => {
+    const { league } = leagueWith('auditor');
+    expect(isLeagueMember(league, 'owner')).toBe(true);
+    expect(isLeagueMember(league, 'user')).toBe(true);
+    expect(isLeagueMember(league, 'stranger')).toBe(false);
+  });
+});
+
+describe("isAssignableRole", () => {
+  it("allows every role but commissioner", () => {
+    expect(LEAGUE_ROLES.filter(isAssignableRole)).toEqual(LEAGUE_ROLES.filter(role => role !== 'commissioner'));
+    expect(isAssignableRole('owner')).toBe(false);
+    expect(isAssignableRole(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  LEAGUE_ROLES, ROLE_PERMISSIONS,
+  type LeaguePermission, type LeagueRole, type LeagueWithMembers
+} from "@shared/schema";
+
+// Every league-scoped route authorizes through here rather than comparing
+// against commissionerId itself. See ROLE_PERMISSIONS for the matrix.
+
+function isLeagueRole(role: string): role is LeagueRole {
+  return (LEAGUE_ROLES as readonly string[]).includes(role);
+}
+
+// Null for users who aren't in the league. commissionerId wins over the
+// member row, so a stale 'commissioner' role left on a member grants nothing.
+export function getLeagueRole(
+  league: Pick<LeagueWithMembers, 'commissionerId' | 'members'>,
+  userId: string
+): LeagueRole | null {
+  if (league.commissionerId === userId) return 'commissioner';
+
+  const member = league.members.find(m => m.userId === userId);
+  if (!member) return null;
+  if (member.role === 'commissioner' || !isLeagueRole(member.role)) return 'member';
+  return member.role;
+}
+
+export function isLeagueMember(league: Pick<LeagueWithMembers, 'commissionerId' | 'members'>, userId: string): boolean {
+  return getLeagueRole(league, userId) !== null;
+}
+
+export function hasLeaguePermission(
+  league: Pick<LeagueWithMembers, 'commissionerId' | 'members'>,
+  userId: string,
+  permission: LeaguePermission
+): boolean {
+  const role = getLeagueRole(league, userId);
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Roles the commissioner can hand out; the commissioner role itself moves
+// only through a commissioner transfer
+export function isAssignableRole(role: unknown): role is Exclude<LeagueRole, 'commissioner'> {
+  return typeof role === 'string' && isLeagueRole(role) && role !== 'commissioner';
+}
@@ -0,0 +1,110 @@
+import type { League } from "@shared/schema";
+import { fetchEspnLeagueInfo, fetchEspnScores, fetchEspnSchedule, fetchEspnStandings, fetchEspnTeams } from "../espn-api";
+import type { FantasyPlatformProvider, PlatformImportRequest, PlatformLeagueImport, PlatformResult } from "./types";
+
+function getCookies(league: League) {
+  const settings = league.settings;
+  return settings?.espnPrivateLeague ? {
+    espnS2: settings.espnS2,
+    swid: settings.espnSwid
+  } : undefined;
+}
+
+function getSeasonId(league: League): string {
+  return league.settings?.espnSeasonId || new Date().getFullYear().toString();
+}
+
+async function loadLeague(request: PlatformImportRequest): Promise<PlatformResult<PlatformLeagueImport>> {
+  const { espnS2, swid } = request.body;
+
+  const urlMatch = request.leagueUrl.match(/leagueId=(\d+)/);
+  if (!urlMatch) {
+    return { success: false, error: "Could not parse ESPN league ID from URL. Expected format: https://fantasy.espn.com/football/league?leagueId=XXXXXX" };
+  }
+  const espnLeagueId = urlMatch[1];
+
+  // ESPN seasons run Aug-Feb, so Jan-July uses previous calendar year
+  const now = new Date();
+  const currentYear = now.getMonth() < 7
+    ? (now.getFullYear() - 1).toString()
+    : now.getFullYear().toString();
+
+  const cookies = espnS2 && swid ? { espnS2, swid } : undefined;
+  const result = await fetchEspnLeagueInfo(espnLeagueId, currentYear, cookies);
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error || "Failed to fetch ESPN league data. If this is a private league, you may need to provide ESPN cookies."
+    };
+  }
+
+  // Use the actual season from ESPN response
+  const seasonId = result.data.seasonId || parseInt(currentYear);
+
+  return {
+    success: true,
+    data: {
+      name: result.data.name,
+      seasonId,
+      teams: result.data.teams,
+      externalLeagueId: espnLeagueId,
+      settings: {
+        espnLeagueId,
+        espnSeasonId: seasonId.toString(),
+        espnPrivateLeague: !!cookies,
+        ...(espnS2 && { espnS2 }),
+        ...(swid && { espnSwid: swid })
+      }
+    }
+  };
+}
+
+export const espnProvider: FantasyPlatformProvider = {
+  platform: 'espn',
+  displayName: 'ESPN',
+
+  previewLeague: loadLeague,
+  importLeague: loadLeague,
+
+  isLeagueConfigured(league) {
+    return !!league.settings?.espnLeagueId;
+  },
+
+  async listTeams(league) {
+    const result = await fetchEspnTeams(league.settings!.espnLeagueId!, getSeasonId(league), getCookies(league));
+    if (!result.success || !result.teams) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.teams.map(t => ({ id: t.id, name: t.name, abbrev: t.abbrev }))
+    };
+  },
+
+  async fetchWeekScores(league, week) {
+    const result = await fetchEspnScores(league.settings!.espnLeagueId!, getSeasonId(league), week, getCookies(league));
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch ESPN scores' };
+    }
+    return {
+      success: true,
+      data: { weeklyScores: result.data.weeklyScores, benchScores: result.data.benchScores, matchups: result.data.matchups }
+    };
+  },
+
+  async fetchSchedule(league) {
+    const result = await fetchEspnSchedule(league.settings!.espnLeagueId!, getSeasonId(league), getCookies(league));
+    if (!result.success || !result.matchups) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.matchups };
+  },
+
+  async fetchStandings(league) {
+    const result = await fetchEspnStandings(league.settings!.espnLeagueId!, getSeasonId(league), getCookies(league));
+    if (!result.success || !result.standings) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.standings };
+  }
+};
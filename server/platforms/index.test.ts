@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { League, LeagueSettings } from "@shared/schema";
+import { storage } from "../storage";
+import { syncLeagueWeekScores } from "../score-sync";
+import { draftSeasonPayouts } from "../season-payouts";
+import { resetDatabase } from "../testing/db";
+import { createTestLeague } from "../testing/fixtures";
+import {
+  getAuthoritativeScoreSources, getPlaceholderUserId, getPlatformProvider, isPlaceholderUserId, listPlatformProviders,
+  movePlaceholderUserId, registerPlatformProvider,
+  type FantasyPlatformProvider, type PlatformResult, type PlatformStanding, type PlatformWeekScores
+} from "./index";
+
+// A platform that only exists here. Scores and standings are whatever the
+// test sets; `failing` makes every call fail the way a platform outage would.
+const fake = {
+  scores: new Map<number, number>(),
+  standings: [] as PlatformStanding[],
+  failing: false,
+  calls: [] as string[]
+};
+
+function outage<T>(): PlatformResult<T> {
+  return { success: false, error: "Fakeball is down", needsAuth: true };
+}
+
+const fakeProvider: FantasyPlatformProvider = {
+  platform: "fakeball",
+  displayName: "Fakeball",
+
+  async previewLeague() {
+    return { success: true, data: { name: "Fake League", seasonId: 2026, teams: [{ id: 1, name: "Ones" }, { id: 2, name: "Twos" }] } };
+  },
+  async importLeague() {
+    return {
+      success: true,
+      data: { name: "Fake League", seasonId: 2026, teams: [], externalLeagueId: "fake-1", settings: {} }
+    };
+  },
+  // Fakeball needs nothing beyond the league's ID on the platform
+  isLeagueConfigured(league: League) {
+    return !!league.externalLeagueId;
+  },
+  async listTeams() {
+    return { success: true, data: [{ id: 1, name: "Ones" }, { id: 2, name: "Twos" }] };
+  },
+  async fetchWeekScores(_league, week): Promise<PlatformResult<PlatformWeekScores>> {
+    fake.calls.push(`scores:${week}`);
+    if (fake.failing) return outage();
+    return { success: true, data: { weeklyScores: fake.scores, matchups: [] } };
+  },
+  async fetchSchedule() {
+    return { success: true, data: [] };
+  },
+  async fetchStandings() {
+    fake.calls.push("standings");
+    if (fake.failing) return outage();
+    return { success: true, data: fake.standings };
+  }
+};
+
+registerPlatformProvider(fakeProvider);
+
+async function fakeballLeague(settings: Partial<LeagueSettings> = {}) {
+  return await createTestLeague({
+    platform: "fakeball",
+    externalLeagueId: "fake-1",
+    settings,
+    memberIds: ["alice"],
+    externalTeamIds: { commissioner: "1", alice: "2" }
+  });
+}
+
+describe("platform provider registry", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    fake.scores = new Map();
+    fake.standings = [];
+    fake.failing = false;
+    fake.calls = [];
+  });
+
+  it("looks providers up by leagues.platform", () => {
+    expect(getPlatformProvider("fakeball")).toBe(fakeProvider);
+    expect(getPlatformProvider("custom")).toBeUndefined();
+    expect(listPlatformProviders().map(p => p.platform)).toEqual(["espn", "yahoo", "sleeper", "fakeball"]);
+  });
+
+  it("recognizes placeholder users for every registered platform", () => {
+    const placeholder = getPlaceholderUserId("fakeball", 7, 3);
+    expect(placeholder).toBe("fakeball-team-7-3");
+    expect(isPlaceholderUserId(placeholder)).toBe(true);
+    expect(isPlaceholderUserId("unknownball-team-7-3")).toBe(false);
+    expect(isPlaceholderUserId("user-123")).toBe(false);
+    expect(movePlaceholderUserId(placeholder, 9)).toBe("fakeball-team-9-3");
+  });
+
+  it("syncs scores through the registered provider", async () => {
+    fake.scores = new Map([[1, 90.5], [2, 120.25]]);
+    const league = await fakeballLeague();
+
+    const result = await syncLeagueWeekScores(league, 2);
+
+    expect(result).toMatchObject({ success: true, scoresUpdated: 2, source: "fakeball" });
+    expect(fake.calls).toEqual(["scores:2"]);
+    const scores = await storage.getWeeklyScores(league.id, 2);
+    expect(scores.map(s => [s.userId, s.score])).toEqual(expect.arrayContaining([["commissioner", "90.50"], ["alice", "120.25"]]));
+  });
+
+  it("awards weeks scored by the registered provider", async () => {
+    fake.scores = new Map([[1, 90.5], [2, 120.25]]);
+    const league = await fakeballLeague({ weeklyHighScorePrize: 25 });
+
+    const result = await syncLeagueWeekScores(league, 2);
+
+    expect(getAuthoritativeScoreSources()).toContain("fakeball");
+    expect(result.automation?.skippedReason).toBeUndefined();
+    expect(result.automation).toMatchObject({ hpsPayoutCreated: true, hpsRecipients: ["alice"] });
+    expect((await storage.getMemberWallet(league.id, "alice"))?.availableBalance).toBe("25.00");
+  });
+
+  it("passes a provider outage through score sync without writing", async () => {
+    fake.failing = true;
+    const league = await fakeballLeague();
+
+    const result = await syncLeagueWeekScores(league, 2);
+
+    expect(result).toMatchObject({ success: false, code: "PLATFORM_SYNC_FAILED", platformError: "Fakeball is down", needsAuth: true });
+    expect(await storage.getWeeklyScores(league.id, 2)).toHaveLength(0);
+  });
+
+  it("skips the provider for leagues it isn't configured for", async () => {
+    const league = await createTestLeague({ platform: "fakeball", memberIds: ["alice"] });
+
+    const result = await syncLeagueWeekScores(league, 2);
+
+    expect(result).toMatchObject({ success: false, code: "PLATFORM_NOT_CONFIGURED" });
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("drafts season payouts from the provider's standings", async () => {
+    fake.standings = [
+      { teamId: 1, finalRank: 2, regularSeasonRank: 1, pointsFor: 1500, wins: 10, losses: 4, ties: 0 },
+      { teamId: 2, finalRank: 1, regularSeasonRank: 2, pointsFor: 1450, wins: 9, losses: 5, ties: 0 },
+      // Not mapped to a member, so ignored
+      { teamId: 3, finalRank: 3, regularSeasonRank: 3, pointsFor: 1200, wins: 4, losses: 10, ties: 0 }
+    ];
+    const league = await fakeballLeague({ firstPlacePayout: 60, regularSeasonWinnerPayout: 40 });
+    await storage.createPayment({ leagueId: league.id, userId: "alice", amount: "100.00", kind: "dues", status: "pending", stripePaymentIntentId: "pi_dues" });
+    await storage.completePayment("pi_dues");
+
+    const result = await draftSeasonPayouts(league, "platform", [], "commissioner");
+
+    expect(fake.calls).toEqual(["standings"]);
+    expect(result.success).toBe(true);
+    expect(result.batch?.lines).toEqual([
+      { prize: "first_place", userId: "alice", amount: "60.00" },
+      { prize: "regular_season_winner", userId: "commissioner", amount: "40.00" }
+    ]);
+  });
+
+  it("reports a provider outage when drafting season payouts", async () => {
+    fake.failing = true;
+    const league = await fakeballLeague({ firstPlacePayout: 60 });
+
+    const result = await draftSeasonPayouts(league, "platform", [], "commissioner");
+
+    expect(result).toMatchObject({ success: false, code: "STANDINGS_UNAVAILABLE", error: "Fakeball is down", needsAuth: true });
+    expect(await storage.getSeasonPayoutBatch(league.id, league.seasonYear)).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { espnProvider } from "./espn";
+import { yahooProvider } from "./yahoo";
+import { sleeperProvider } from "./sleeper";
+import type { FantasyPlatformProvider } from "./types";
+
+export * from "./types";
+
+// Registry keyed by leagues.platform
+const providers = new Map<string, FantasyPlatformProvider>();
+
+export function registerPlatformProvider(provider: FantasyPlatformProvider): void {
+  providers.set(provider.platform, provider);
+}
+
+export function getPlatformProvider(platform: string): FantasyPlatformProvider | undefined {
+  return providers.get(platform);
+}
+
+export function listPlatformProviders(): FantasyPlatformProvider[] {
+  return Array.from(providers.values());
+}
+
+// Scores trusted to drive payouts and fees: entered by the commissioner or
+// synced from a registered platform. Anything else (e.g. 'mock') blocks weekly awards.
+export function getAuthoritativeScoreSources(): string[] {
+  return ['manual', ...listPlatformProviders().map(p => p.platform)];
+}
+
+// Imported teams without a linked user get IDs like "espn-team-{leagueId}-{teamId}"
+export function getPlaceholderUserId(platform: string, leagueId: number, teamId: number): string {
+  return `${platform}-team-${leagueId}-${teamId}`;
+}
+
+export function isPlaceholderUserId(userId: string | null | undefined): boolean {
+  if (!userId) return false;
+  return listPlatformProviders().some(p => userId.startsWith(`${p.platform}-team-`));
+}
+
+// Placeholder IDs embed the league, so an unclaimed team carried into another
+// league needs a new one
+export function movePlaceholderUserId(userId: string, leagueId: number): string {
+  const match = userId.match(/^(.+)-team-\d+-(\d+)$/);
+  return match ? getPlaceholderUserId(match[1], leagueId, Number(match[2])) : userId;
+}
+
+registerPlatformProvider(espnProvider);
+registerPlatformProvider(yahooProvider);
+registerPlatformProvider(sleeperProvider);
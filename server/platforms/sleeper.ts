@@ -0,0 +1,73 @@
+import { fetchSleeperLeagueInfo, fetchSleeperSchedule, fetchSleeperScores, fetchSleeperStandings, parseSleeperLeagueId } from "../sleeper-api";
+import type { FantasyPlatformProvider, PlatformImportRequest, PlatformLeagueImport, PlatformResult } from "./types";
+
+async function loadLeague(request: PlatformImportRequest): Promise<PlatformResult<PlatformLeagueImport>> {
+  const sleeperLeagueId = parseSleeperLeagueId(request.leagueUrl);
+  if (!sleeperLeagueId) {
+    return { success: false, error: "Could not parse Sleeper league ID. Expected a league ID or a URL like https://sleeper.com/leagues/XXXXXX" };
+  }
+
+  const result = await fetchSleeperLeagueInfo(sleeperLeagueId);
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error || "Failed to fetch Sleeper league data." };
+  }
+
+  return {
+    success: true,
+    data: {
+      name: result.data.name,
+      seasonId: result.data.seasonId,
+      teams: result.data.teams,
+      externalLeagueId: sleeperLeagueId,
+      settings: { sleeperLeagueId }
+    }
+  };
+}
+
+// Sleeper teams are rosters; the roster ID is used as the team ID
+export const sleeperProvider: FantasyPlatformProvider = {
+  platform: 'sleeper',
+  displayName: 'Sleeper',
+
+  previewLeague: loadLeague,
+  importLeague: loadLeague,
+
+  isLeagueConfigured(league) {
+    return !!league.settings?.sleeperLeagueId;
+  },
+
+  async listTeams(league) {
+    const result = await fetchSleeperLeagueInfo(league.settings!.sleeperLeagueId!);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.teams };
+  },
+
+  async fetchWeekScores(league, week) {
+    const result = await fetchSleeperScores(league.settings!.sleeperLeagueId!, week);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch Sleeper scores' };
+    }
+    return {
+      success: true,
+      data: { weeklyScores: result.data.weeklyScores, benchScores: result.data.benchScores, matchups: result.data.matchups }
+    };
+  },
+
+  async fetchSchedule(league) {
+    const result = await fetchSleeperSchedule(league.settings!.sleeperLeagueId!);
+    if (!result.success || !result.matchups) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.matchups };
+  },
+
+  async fetchStandings(league) {
+    const result = await fetchSleeperStandings(league.settings!.sleeperLeagueId!);
+    if (!result.success || !result.standings) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.standings };
+  }
+};
@@ -0,0 +1,78 @@
+import type { League, YahooTokens } from "@shared/schema";
+
+export interface PlatformTeam {
+  id: number;
+  name: string;
+  abbrev?: string;
+  ownerName?: string;
+}
+
+export interface PlatformMatchup {
+  week: number;
+  teams: Array<{ teamId: number; points: number }>;
+}
+
+export interface PlatformWeekScores {
+  // Keyed by platform team ID, matching leagueMembers.externalTeamId
+  weeklyScores: Map<number, number>;
+  // Bench points by team ID, when the platform reports them (used for tiebreakers)
+  benchScores?: Map<number, number>;
+  matchups: PlatformMatchup[];
+}
+
+// Season standings for one team. finalRank is null until the playoffs are decided.
+export interface PlatformStanding {
+  teamId: number;
+  finalRank: number | null;
+  regularSeasonRank: number | null;
+  pointsFor: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface PlatformLeaguePreview {
+  name: string;
+  seasonId: number;
+  teams: PlatformTeam[];
+}
+
+export interface PlatformLeagueImport extends PlatformLeaguePreview {
+  externalLeagueId: string;
+  // Platform-specific settings merged into leagues.settings (league IDs, ESPN cookies)
+  settings: Record<string, unknown>;
+  // OAuth tokens, saved to league_credentials rather than settings
+  credentials?: { yahooTokens?: YahooTokens };
+}
+
+export interface PlatformImportRequest {
+  leagueUrl: string;
+  // Raw request body, for platform-specific credentials such as ESPN cookies
+  body: Record<string, any>;
+  // Session, for OAuth platforms that hold tokens there until the league exists
+  session: Record<string, any>;
+}
+
+export interface PlatformResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  // Set when the user must connect their platform account before retrying
+  needsAuth?: boolean;
+}
+
+export interface FantasyPlatformProvider {
+  // Matches leagues.platform
+  platform: string;
+  displayName: string;
+
+  previewLeague(request: PlatformImportRequest): Promise<PlatformResult<PlatformLeaguePreview>>;
+  importLeague(request: PlatformImportRequest): Promise<PlatformResult<PlatformLeagueImport>>;
+
+  // Whether the league's settings carry enough to talk to the platform
+  isLeagueConfigured(league: League): boolean;
+  listTeams(league: League): Promise<PlatformResult<PlatformTeam[]>>;
+  fetchWeekScores(league: League, week: number): Promise<PlatformResult<PlatformWeekScores>>;
+  fetchSchedule(league: League): Promise<PlatformResult<PlatformMatchup[]>>;
+  fetchStandings(league: League): Promise<PlatformResult<PlatformStanding[]>>;
+}
@@ -0,0 +1,137 @@
+import type { League } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  fetchYahooLeagueInfo,
+  fetchYahooSchedule,
+  fetchYahooScores,
+  fetchYahooStandings,
+  parseYahooLeagueId,
+  refreshYahooTokensIfNeeded
+} from "../yahoo-api";
+import type { FantasyPlatformProvider, PlatformImportRequest, PlatformLeagueImport, PlatformResult } from "./types";
+
+// Returns a usable access token for the league, refreshing and persisting the
+// stored tokens when they've expired
+async function getLeagueAccessToken(league: League): Promise<PlatformResult<string>> {
+  const yahooTokens = await storage.getYahooTokens(league.id);
+  if (!yahooTokens) {
+    return { success: false, error: "Yahoo account not connected for this league", needsAuth: true };
+  }
+
+  const tokenResult = await refreshYahooTokensIfNeeded(yahooTokens);
+  if (!tokenResult.success || !tokenResult.tokens) {
+    return { success: false, error: tokenResult.error, needsAuth: true };
+  }
+
+  if (tokenResult.refreshed) {
+    await storage.saveYahooTokens(league.id, tokenResult.tokens);
+  }
+
+  return { success: true, data: tokenResult.tokens.accessToken };
+}
+
+// Before import, tokens from the OAuth callback are held on the session
+async function loadLeague(request: PlatformImportRequest): Promise<PlatformResult<PlatformLeagueImport>> {
+  const yahooLeagueId = parseYahooLeagueId(request.leagueUrl);
+  if (!yahooLeagueId) {
+    return { success: false, error: "Could not parse Yahoo league ID from URL. Expected format: https://football.fantasysports.yahoo.com/f1/XXXXXX" };
+  }
+
+  if (!request.session.yahooTokens) {
+    return { success: false, error: "Connect your Yahoo account first.", needsAuth: true };
+  }
+
+  const tokenResult = await refreshYahooTokensIfNeeded(request.session.yahooTokens);
+  if (!tokenResult.success || !tokenResult.tokens) {
+    delete request.session.yahooTokens;
+    return { success: false, error: tokenResult.error, needsAuth: true };
+  }
+  const yahooTokens = tokenResult.tokens;
+  request.session.yahooTokens = yahooTokens;
+
+  const result = await fetchYahooLeagueInfo(`nfl.l.${yahooLeagueId}`, yahooTokens.accessToken);
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error || "Failed to fetch Yahoo league data." };
+  }
+
+  return {
+    success: true,
+    data: {
+      name: result.data.name,
+      seasonId: result.data.seasonId,
+      teams: result.data.teams,
+      externalLeagueId: yahooLeagueId,
+      settings: {
+        yahooLeagueKey: result.data.leagueKey
+      },
+      credentials: { yahooTokens }
+    }
+  };
+}
+
+export const yahooProvider: FantasyPlatformProvider = {
+  platform: 'yahoo',
+  displayName: 'Yahoo',
+
+  previewLeague: loadLeague,
+  importLeague: loadLeague,
+
+  isLeagueConfigured(league) {
+    return !!league.settings?.yahooLeagueKey;
+  },
+
+  async listTeams(league) {
+    const token = await getLeagueAccessToken(league);
+    if (!token.success || !token.data) {
+      return { success: false, error: token.error, needsAuth: token.needsAuth };
+    }
+
+    const result = await fetchYahooLeagueInfo(league.settings!.yahooLeagueKey!, token.data);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.teams };
+  },
+
+  async fetchWeekScores(league, week) {
+    const token = await getLeagueAccessToken(league);
+    if (!token.success || !token.data) {
+      return { success: false, error: token.error, needsAuth: token.needsAuth };
+    }
+
+    const result = await fetchYahooScores(league.settings!.yahooLeagueKey!, week, token.data);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch Yahoo scores' };
+    }
+    return {
+      success: true,
+      data: { weeklyScores: result.data.weeklyScores, matchups: result.data.matchups }
+    };
+  },
+
+  async fetchSchedule(league) {
+    const token = await getLeagueAccessToken(league);
+    if (!token.success || !token.data) {
+      return { success: false, error: token.error, needsAuth: token.needsAuth };
+    }
+
+    const result = await fetchYahooSchedule(league.settings!.yahooLeagueKey!, token.data);
+    if (!result.success || !result.matchups) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.matchups };
+  },
+
+  async fetchStandings(league) {
+    const token = await getLeagueAccessToken(league);
+    if (!token.success || !token.data) {
+      return { success: false, error: token.error, needsAuth: token.needsAuth };
+    }
+
+    const result = await fetchYahooStandings(league.settings!.yahooLeagueKey!, token.data);
+    if (!result.success || !result.standings) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.standings };
+  }
+};
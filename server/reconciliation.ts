@@ -0,0 +1,98 @@
+import type { League } from "@shared/schema";
+import { storage } from "./storage";
+import { toCents } from "./ledger";
+
+export interface ReconciliationCheck {
+  name: string;
+  label: string;
+  // What the ledger says vs. what the operational table says
+  ledger: string;
+  recorded: string;
+  ok: boolean;
+}
+
+export interface ReconciliationReport {
+  leagueId: number;
+  generatedAt: string;
+  balances: {
+    leagueTreasury: string;
+    memberWallets: string;
+    platformFees: string;
+    stripeClearing: string;
+  };
+  checks: ReconciliationCheck[];
+  unbalancedTransactionIds: number[];
+  unpostedPaymentIds: number[];
+  unpostedPayoutIds: number[];
+  mismatchCount: number;
+}
+
+const DUES_SOURCE_TYPES = ['payment', 'refund', 'refund_reversal'];
+
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function check(name: string, label: string, ledgerCents: number, recordedCents: number): ReconciliationCheck {
+  return {
+    name,
+    label,
+    ledger: dollars(ledgerCents),
+    recorded: dollars(recordedCents),
+    ok: ledgerCents === recordedCents
+  };
+}
+
+// Compares the ledger against leagues.totalDues and every member wallet's
+// availableBalance, and lists movements that never reached the ledger.
+export async function reconcileLeague(league: League): Promise<ReconciliationReport> {
+  const [balances, sourceTotals, unbalancedTransactionIds, unpostedPaymentIds, unpostedPayoutIds, wallets] = await Promise.all([
+    storage.getLedgerBalances(league.id),
+    storage.getLedgerSourceTotals(league.id),
+    storage.getUnbalancedLedgerTransactionIds(league.id),
+    storage.getUnpostedPaymentIds(league.id),
+    storage.getUnpostedPayoutIds(league.id),
+    storage.getLeagueWallets(league.id)
+  ]);
+
+  // Credit-normal accounts are reported as credits minus debits
+  const accountCents = (account: string) => balances
+    .filter(b => b.account === account)
+    .reduce((sum, b) => sum + toCents(b.balance), 0);
+  const walletCents = (walletId: number) => -balances
+    .filter(b => b.account === 'member_wallet' && b.walletId === walletId)
+    .reduce((sum, b) => sum + toCents(b.balance), 0);
+
+  // totalDues is payments in, less refunds out
+  const paymentCreditsCents = -sourceTotals
+    .filter(t => DUES_SOURCE_TYPES.includes(t.sourceType) && t.account === 'league_treasury')
+    .reduce((sum, t) => sum + toCents(t.total), 0);
+
+  const checks: ReconciliationCheck[] = [
+    check('total_dues', 'Total dues collected', paymentCreditsCents, toCents(league.totalDues))
+  ];
+  for (const wallet of wallets) {
+    checks.push(check(`wallet:${wallet.id}`, `Wallet #${wallet.id} balance`, walletCents(wallet.id), toCents(wallet.availableBalance)));
+  }
+
+  const mismatchCount = checks.filter(c => !c.ok).length
+    + unbalancedTransactionIds.length
+    + unpostedPaymentIds.length
+    + unpostedPayoutIds.length;
+
+  return {
+    leagueId: league.id,
+    generatedAt: new Date().toISOString(),
+    balances: {
+      leagueTreasury: dollars(-accountCents('league_treasury')),
+      memberWallets: dollars(-accountCents('member_wallet')),
+      platformFees: dollars(-accountCents('platform_fees')),
+      stripeClearing: dollars(accountCents('stripe_clearing'))
+    },
+    checks,
+    unbalancedTransactionIds,
+    unpostedPaymentIds,
+    unpostedPayoutIds,
+    mismatchCount
+  };
+}
@@ -0,0 +1,103 @@
+import type Stripe from "stripe";
+import type { Payment, Refund } from "@shared/schema";
+import { storage } from "./storage";
+import { getUncachableStripeClient } from "./stripeClient";
+import { toCents } from "./ledger";
+
+export type RefundErrorCode = 'NOT_REFUNDABLE' | 'INVALID_AMOUNT' | 'INSUFFICIENT_TREASURY' | 'STRIPE_REFUND_FAILED';
+
+export interface RefundResult {
+  success: boolean;
+  refund?: Refund;
+  error?: string;
+  code?: RefundErrorCode;
+}
+
+const REFUNDABLE_STATUSES = ['completed', 'partially_refunded'];
+
+// What's left to refund, counting refunds Stripe hasn't settled yet
+async function getRefundableCents(payment: Payment): Promise<number> {
+  const existing = await storage.getPaymentRefunds(payment.id);
+  const pendingCents = existing
+    .filter(r => r.status === 'pending')
+    .reduce((sum, r) => sum + toCents(r.amount), 0);
+  return toCents(payment.amount) - toCents(payment.refundedAmount) - pendingCents;
+}
+
+// Refunds all or part of a payment to the card behind its PaymentIntent.
+// `amount` defaults to everything not yet refunded.
+export async function issueRefund(
+  payment: Payment,
+  amount: number | undefined,
+  reason: string,
+  issuedBy: string
+): Promise<RefundResult> {
+  if (!REFUNDABLE_STATUSES.includes(payment.status) || !payment.stripePaymentIntentId) {
+    return { success: false, code: 'NOT_REFUNDABLE', error: "Only completed card payments can be refunded" };
+  }
+
+  const refundableCents = await getRefundableCents(payment);
+  const cents = amount === undefined ? refundableCents : toCents(amount);
+  if (cents <= 0 || cents > refundableCents) {
+    return {
+      success: false,
+      code: 'INVALID_AMOUNT',
+      error: `Refund must be between $0.01 and $${(refundableCents / 100).toFixed(2)}`
+    };
+  }
+
+  const treasury = await storage.getLeagueTreasury(payment.leagueId);
+  if (toCents(treasury.availableBalance) < cents) {
+    return {
+      success: false,
+      code: 'INSUFFICIENT_TREASURY',
+      error: `The league treasury only holds $${treasury.availableBalance}`
+    };
+  }
+
+  const refund = await storage.createRefund({
+    paymentId: payment.id,
+    leagueId: payment.leagueId,
+    userId: payment.userId,
+    amount: (cents / 100).toFixed(2),
+    reason,
+    issuedBy
+  });
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    const stripe = await getUncachableStripeClient();
+    stripeRefund = await stripe.refunds.create({
+      payment_intent: payment.stripePaymentIntentId,
+      amount: cents,
+      metadata: { refundId: String(refund.id), paymentId: String(payment.id) }
+    }, { idempotencyKey: `refund-${refund.id}` });
+  } catch (err: any) {
+    const failed = await storage.failRefund(refund.id, err.message || 'Stripe refund failed');
+    return { success: false, refund: failed || refund, code: 'STRIPE_REFUND_FAILED', error: err.message || 'Stripe refund failed' };
+  }
+
+  if (stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+    const failed = await storage.failRefund(refund.id, stripeRefund.failure_reason || `Refund ${stripeRefund.status}`, stripeRefund.id);
+    return { success: false, refund: failed || refund, code: 'STRIPE_REFUND_FAILED', error: `Stripe refund ${stripeRefund.status}` };
+  }
+
+  // Pending refunds are committed on Stripe's side; a later failure is handled by the webhook
+  const applied = await storage.applyRefund(refund.id, stripeRefund.id);
+  return { success: true, refund: applied || refund };
+}
+
+// refund.updated / refund.failed
+export async function handleRefundEvent(event: Stripe.Event): Promise<void> {
+  const stripeRefund = event.data.object as Stripe.Refund;
+  if (stripeRefund.status !== 'failed' && stripeRefund.status !== 'canceled') return;
+
+  const refund = await storage.getRefundByStripeId(stripeRefund.id)
+    ?? (stripeRefund.metadata?.refundId ? { id: Number(stripeRefund.metadata.refundId) } : undefined);
+  if (!refund) return;
+
+  const failed = await storage.failRefund(refund.id, stripeRefund.failure_reason || `Refund ${stripeRefund.status}`, stripeRefund.id);
+  if (failed) {
+    console.log(`Refund ${failed.id} of payment ${failed.paymentId} marked failed (${stripeRefund.status})`);
+  }
+}
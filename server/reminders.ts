@@ -0,0 +1,89 @@
+import type { League } from "@shared/schema";
+import { storage } from "./storage";
+import { describeDuesBalance, summarizeMemberDues, type MemberDues } from "./dues";
+import { getAppUrl, issueLinkToken } from "./link-tokens";
+import { notificationService, isNotificationSent } from "./notifications";
+
+export type ReminderType = 'pre_season' | 'weekly' | 'final';
+
+export interface ReminderSendResult {
+  remindersCreated: number;
+  smsSent: number;
+  emailsSent: number;
+  inAppSent: number;
+  scheduled: number; // Held for quiet hours or waiting on a retry
+  twilioConfigured: boolean;
+  emailConfigured: boolean;
+  results: any[];
+}
+
+const WEEKLY_REMINDER_LEAD_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Members on an installment plan only get weekly reminders once their next
+// installment is overdue or due within a week
+function isReminderDue(type: ReminderType, dues: MemberDues): boolean {
+  if (type !== 'weekly' || dues.overdue || !dues.nextDueDate) return true;
+  return new Date(dues.nextDueDate).getTime() - Date.now() <= WEEKLY_REMINDER_LEAD_MS;
+}
+
+// Logs a reminder for every member with dues outstanding and notifies them
+// on their preferred channel. Members in skipUserIds (e.g. already reminded)
+// are left out.
+export async function sendDuesReminders(
+  league: League,
+  type: ReminderType,
+  skipUserIds: string[] = []
+): Promise<ReminderSendResult> {
+  const unpaidMembers = (await storage.getUnpaidMembers(league.id))
+    .filter(m => !skipUserIds.includes(m.userId))
+    .map(member => ({ member, dues: summarizeMemberDues(league, member) }))
+    .filter(({ dues }) => Number(dues.remaining) > 0 && isReminderDue(type, dues));
+  const results: any[] = [];
+
+  for (const { member, dues } of unpaidMembers) {
+    const paymentToken = await issueLinkToken({ purpose: 'dues', leagueId: league.id, subjectId: member.id });
+    const notification = await notificationService.notify(member, 'dues_due', {
+      leagueName: league.name,
+      balance: describeDuesBalance(league, dues),
+      paymentUrl: getAppUrl(`/pay-dues/${paymentToken}`),
+      kind: type
+    }, { sourceType: 'member', sourceId: member.id });
+
+    const reminder = await storage.createPaymentReminder({
+      leagueId: league.id,
+      userId: member.userId,
+      type,
+      channel: notification.channel,
+      phoneNumber: member.phoneNumber || null,
+      email: member.email || null,
+      notificationId: notification.id
+    });
+    if (isNotificationSent(notification)) {
+      await storage.updateReminderStatus(reminder.id, 'sent');
+    } else if (notification.status === 'failed') {
+      await storage.updateReminderStatus(reminder.id, 'failed');
+    }
+
+    results.push({
+      memberId: member.id,
+      userId: member.userId,
+      notificationId: notification.id,
+      channel: notification.channel,
+      status: notification.status,
+      error: notification.lastError || undefined
+    });
+  }
+
+  const sent = results.filter(r => r.status === 'sent' || r.status === 'delivered');
+  const readiness = await notificationService.getChannelReadiness();
+  return {
+    remindersCreated: results.length,
+    smsSent: sent.filter(r => r.channel === 'sms').length,
+    emailsSent: sent.filter(r => r.channel === 'email').length,
+    inAppSent: sent.filter(r => r.channel === 'in_app').length,
+    scheduled: results.filter(r => r.status === 'pending').length,
+    twilioConfigured: readiness.sms,
+    emailConfigured: readiness.email,
+    results
+  };
+}
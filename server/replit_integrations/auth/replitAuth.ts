@@ -8,6 +8,27 @@ import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { authStorage } from "./storage";
 
+// What passport keeps on the session for a signed-in user
+export interface AuthUser {
+  claims?: { sub: string; exp?: number; [claim: string]: unknown };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number;
+}
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Same-site path to land on after signing in; read by passport's successReturnToOrRedirect
+    returnTo?: string;
+  }
+}
+
 const getOidcConfig = memoize(
   async () => {
     return await client.discovery(
@@ -104,6 +125,11 @@ export async function setupAuth(app: Express) {
 
   app.get("/api/login", (req, res, next) => {
     ensureStrategy(req.hostname);
+    // Send the user back to the page that asked them to sign in (same-site paths only)
+    const returnTo = req.query.returnTo;
+    if (typeof returnTo === "string" && returnTo.startsWith("/") && !returnTo.startsWith("//")) {
+      req.session.returnTo = returnTo;
+    }
     passport.authenticate(`replitauth:${req.hostname}`, {
       prompt: "login consent",
       scope: ["openid", "email", "profile", "offline_access"],
@@ -115,6 +141,7 @@ export async function setupAuth(app: Express) {
     passport.authenticate(`replitauth:${req.hostname}`, {
       successReturnToOrRedirect: "/",
       failureRedirect: "/api/login",
+      keepSessionInfo: true,
     })(req, res, next);
   });
 
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+// Requests sign in as whoever the x-test-user header names
+vi.mock("./replit_integrations/auth", () => ({
+  setupAuth: async () => {},
+  registerAuthRoutes: () => {},
+  isAuthenticated: (req: any, res: any, next: any) => {
+    const userId = req.headers["x-test-user"];
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    req.user = { claims: { sub: userId } };
+    next();
+  }
+}));
+
+vi.mock("./stripeClient", () => ({
+  getStripePublishableKey: async () => "pk_test",
+  getUncachableStripeClient: async () => { throw new Error("No Stripe in tests"); }
+}));
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function send(method: "POST" | "PATCH", path: string, userId: string, body: unknown) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", "x-test-user": userId },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+const post = (path: string, userId: string, body: unknown) => send("POST", path, userId, body);
+
+describe("POST /api/payouts", () => {
+  let league: LeagueWithMembers;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    league = await createTestLeague({ memberIds: ["alice"] });
+  });
+
+  function issuePayout(body: Record<string, unknown>) {
+    return post("/api/payouts", "commissioner", { leagueId: league.id, userId: "alice", amount: "25.00", reason: "other", ...body });
+  }
+
+  async function expectNothingMoved() {
+    const { payouts } = await storage.getLeagueTransactions(league.id);
+    expect(payouts).toHaveLength(0);
+    expect(await storage.getMemberWallet(league.id, "alice")).toBeUndefined();
+  }
+
+  it("credits a member's wallet", async () => {
+    const res = await issuePayout({});
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ amount: "25.00", walletCredited: true });
+    expect((await storage.getMemberWallet(league.id, "alice"))?.availableBalance).toBe("25.00");
+  });
+
+  it.each([
+    ["a negative amount", { amount: "-50" }, "amount"],
+    ["a NaN amount", { amount: "NaN" }, "amount"],
+    ["a non-numeric amount", { amount: "lots" }, "amount"],
+    ["a zero amount", { amount: 0 }, "amount"],
+    ["an amount under a cent", { amount: "0.004" }, "amount"],
+    ["an unknown payout type", { payoutType: "wire" }, "payoutType"],
+    ["a recipient outside the league", { userId: "mallory" }, "userId"]
+  ])("rejects %s with 400 before moving money", async (_case, body, field) => {
+    const res = await issuePayout(body);
+
+    expect(res.status).toBe(400);
+    expect(res.body.field).toBe(field);
+    await expectNothingMoved();
+  });
+
+  it("rejects a negative amount even when the league holds payouts for approval", async () => {
+    await storage.updateLeagueSettings(league.id, { ...league.settings!, approvalThreshold: 10, approverUserId: "alice" });
+
+    const res = await issuePayout({ amount: -500 });
+
+    expect(res.status).toBe(400);
+    await expectNothingMoved();
+    expect(await storage.getLeagueApprovalRequests(league.id)).toHaveLength(0);
+  });
+});
+
+describe("PATCH /api/leagues/:id/settings", () => {
+  let league: LeagueWithMembers;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    league = await createTestLeague({ memberIds: ["alice"] });
+  });
+
+  it("rejects percentage prizes that add up to more than the pot", async () => {
+    const res = await send("PATCH", `/api/leagues/${league.id}/settings`, "commissioner", {
+      seasonPayoutMode: "percent", firstPlacePayout: 60, secondPlacePayout: 30, mostPointsForPayout: 15
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({ message: "Season prizes add up to 105% of the pot", field: "seasonPayoutMode" });
+    expect((await storage.getLeague(league.id))?.settings?.seasonPayoutMode).toBeUndefined();
+  });
+
+  it("saves percentage prizes within the pot", async () => {
+    const res = await send("PATCH", `/api/leagues/${league.id}/settings`, "commissioner", {
+      seasonPayoutMode: "percent", firstPlacePayout: 60, secondPlacePayout: 30, mostPointsForPayout: 10
+    });
+
+    expect(res.status).toBe(200);
+    expect((await storage.getLeague(league.id))?.settings).toMatchObject({ seasonPayoutMode: "percent", firstPlacePayout: 60 });
+  });
+});
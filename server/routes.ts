@@ -1,12 +1,34 @@
 import type { Express } from "express";
 import type { Server } from "http";
 import crypto from "crypto";
-import { storage } from "./storage";
+import { storage, InsufficientBalanceError } from "./storage";
+import { getPlatformProvider, getPlaceholderUserId, isPlaceholderUserId } from "./platforms";
+import { weeklyAwardService } from "./weekly-awards";
+import { syncLeagueWeekScores } from "./score-sync";
+import { sendDuesReminders } from "./reminders";
+import { startWithdrawalTransfer } from "./withdrawals";
+import { payoutPosting, toCents } from "./ledger";
+import { reconcileLeague } from "./reconciliation";
+import { issueRefund } from "./refunds";
+import { approveSeasonPayouts, draftSeasonPayouts } from "./season-payouts";
+import { hasLeaguePermission, isAssignableRole, isLeagueMember } from "./permissions";
+import { auditActorMiddleware } from "./audit";
+import { sendPayoutNotice } from "./payout-notices";
+import { approveRequest, canDecideApproval, getApprovalThreshold, recordInstantPayoutFee, rejectRequest, requiresApproval, type ApprovalErrorCode } from "./approvals";
+import { describeDuesBalance, getEntryFee, summarizeMemberDues, validateInstallments } from "./dues";
+import { DEFAULT_JOB_SCHEDULES, enqueueJob, getNextCronRun, isJobType, isSchedulableJobType, isValidCron } from "./jobs";
+import { getLeagueHistory } from "./league-history";
+import { getSeasonRolloverPreview, startNextSeason, type SeasonRolloverErrorCode } from "./season-rollover";
+import { archiveLeague, getPurgeableLeagues, getPurgeEligibleAt, restoreLeague, type LeagueArchiveErrorCode } from "./league-archive";
+import { acceptInvite, getInvitePlaceholderUserId, getInvitePreview, type InviteErrorCode } from "./invites";
+import { getAppUrl, getLeagueLinks, issueLinkToken, resolveLinkToken, type LinkTokenErrorCode } from "./link-tokens";
+import { isNotificationSent, isValidTimeZone, notificationService } from "./notifications";
+import { NOTIFICATION_CHANNEL_PREFERENCES, NOTIFICATION_EVENTS, PAYOUT_TYPES, SEASON_PRIZES, SEASON_PRIZE_SETTINGS, type LeagueSettings, type Notification } from "@shared/schema";
 import { api } from "@shared/routes";
 import { z } from "zod";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./replit_integrations/auth";
 import { getStripePublishableKey, getUncachableStripeClient } from "./stripeClient";
-import { sendSMS } from "./twilio";
+import { WebhookHandlers, WebhookSignatureError } from "./webhookHandlers";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -16,13 +38,31 @@ export async function registerRoutes(
   // Initialize Auth
   await setupAuth(app);
   registerAuthRoutes(app);
+  app.use(auditActorMiddleware);
+
+  // Archived leagues are read-only until restored
+  app.use("/api/leagues/:id", async (req, res, next) => {
+    const leagueId = Number(req.params.id);
+    if (req.method === 'GET' || !Number.isInteger(leagueId) || req.path === '/restore') {
+      return next();
+    }
+    try {
+      if (await storage.isLeagueArchived(leagueId)) {
+        return res.status(409).json({ message: "This league is archived. Restore it to make changes.", code: 'LEAGUE_ARCHIVED' });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
 
   // === LEAGUES ===
   app.get(api.leagues.list.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const leagues = await storage.getUserLeagues(userId);
-      res.json(leagues);
+      // Only the commissioner still sees an archived league, so they can restore it
+      res.json(leagues.filter(league => !league.archivedAt || league.commissionerId === userId));
     } catch (err) {
       console.error("Error fetching leagues:", err);
       res.status(500).json({ message: "Failed to fetch leagues" });
@@ -59,16 +99,21 @@ export async function registerRoutes(
     }
   });
 
-  app.get(api.leagues.get.path, isAuthenticated, async (req, res) => {
+  app.get(api.leagues.get.path, isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const league = await storage.getLeague(Number(req.params.id));
       if (!league) return res.status(404).json({ message: "League not found" });
+      if (!isLeagueMember(league, userId)) {
+        return res.status(403).json({ message: "You are not a member of this league" });
+      }
       
       // Get transaction history for the league as well
       const transactions = await storage.getLeagueTransactions(league.id);
       
       res.json({
         ...league,
+        yahooConnected: league.platform === 'yahoo' && !!(await storage.getYahooTokens(league.id)),
         payments: transactions.payments,
         payouts: transactions.payouts
       });
@@ -105,31 +150,23 @@ export async function registerRoutes(
     }
   });
 
-  // === INTEGRATIONS (ESPN/Yahoo) ===
+  // === INTEGRATIONS (ESPN/Yahoo/Sleeper) ===
   
-  // Preview ESPN league data without creating (for team selection)
-  app.post("/api/leagues/preview-espn", isAuthenticated, async (req: any, res) => {
+  // Preview platform league data without creating (for team selection)
+  app.post("/api/leagues/preview", isAuthenticated, async (req: any, res) => {
     try {
-      const { leagueUrl, espnS2, swid } = req.body;
-      
-      const urlMatch = leagueUrl.match(/leagueId=(\d+)/);
-      if (!urlMatch) {
-        return res.status(400).json({ message: "Could not parse ESPN league ID from URL." });
+      const { platform, leagueUrl } = req.body;
+
+      const provider = getPlatformProvider(platform);
+      if (!provider) {
+        return res.status(400).json({ message: "Unsupported platform" });
       }
-      const espnLeagueId = urlMatch[1];
-      
-      const now = new Date();
-      const currentYear = now.getMonth() < 7 
-        ? (now.getFullYear() - 1).toString() 
-        : now.getFullYear().toString();
-      
-      const { fetchEspnLeagueInfo } = await import('./espn-api');
-      const cookies = espnS2 && swid ? { espnS2, swid } : undefined;
-      const result = await fetchEspnLeagueInfo(espnLeagueId, currentYear, cookies);
-      
+
+      const result = await provider.previewLeague({ leagueUrl: leagueUrl || '', body: req.body, session: req.session });
       if (!result.success || !result.data) {
-        return res.status(400).json({ 
-          message: result.error || "Failed to fetch ESPN league data." 
+        return res.status(result.needsAuth ? 401 : 400).json({
+          message: result.error || `Failed to fetch ${provider.displayName} league data.`,
+          needsAuth: result.needsAuth
         });
       }
       
@@ -144,159 +181,167 @@ export async function registerRoutes(
         }))
       });
     } catch (err) {
-      console.error("Error previewing ESPN league:", err);
-      res.status(500).json({ message: "Failed to preview ESPN league" });
+      console.error("Error previewing platform league:", err);
+      res.status(500).json({ message: "Failed to preview league" });
     }
   });
-  
-  app.post(api.leagues.syncPlatform.path, isAuthenticated, async (req: any, res) => {
+
+  // Start Yahoo OAuth. Pass ?leagueId= to reconnect an already imported league.
+  app.get("/api/integrations/yahoo/authorize", isAuthenticated, async (req: any, res) => {
+    try {
+      const { isYahooConfigured, getYahooAuthorizeUrl } = await import('./yahoo-api');
+      if (!isYahooConfigured()) {
+        return res.status(400).json({ message: "Yahoo Fantasy is not configured" });
+      }
+
+      const state = crypto.randomBytes(16).toString('hex');
+      req.session.yahooOAuth = {
+        state,
+        leagueId: req.query.leagueId ? Number(req.query.leagueId) : null
+      };
+
+      res.redirect(getYahooAuthorizeUrl(state));
+    } catch (err) {
+      console.error("Error starting Yahoo authorization:", err);
+      res.status(500).json({ message: "Failed to start Yahoo authorization" });
+    }
+  });
+
+  app.get("/api/integrations/yahoo/callback", isAuthenticated, async (req: any, res) => {
     try {
-      const { platform, leagueUrl, espnS2, swid, selectedTeamId } = req.body;
       const userId = req.user.claims.sub;
-      
-      if (platform === 'espn') {
-        // Parse league ID from ESPN URL
-        const urlMatch = leagueUrl.match(/leagueId=(\d+)/);
-        if (!urlMatch) {
-          return res.status(400).json({ message: "Could not parse ESPN league ID from URL. Expected format: https://fantasy.espn.com/football/league?leagueId=XXXXXX" });
-        }
-        const espnLeagueId = urlMatch[1];
-        // ESPN seasons run Aug-Feb, so Jan-July uses previous calendar year
-        const now = new Date();
-        const currentYear = now.getMonth() < 7 
-          ? (now.getFullYear() - 1).toString() 
-          : now.getFullYear().toString();
-        
-        console.log(`ESPN Import: League ID ${espnLeagueId}, Season ${currentYear}, Cookies provided: ${!!(espnS2 && swid)}, Selected Team: ${selectedTeamId}`);
-        
-        // Fetch real league info from ESPN API
-        const { fetchEspnLeagueInfo } = await import('./espn-api');
-        const cookies = espnS2 && swid ? { espnS2, swid } : undefined;
-        const result = await fetchEspnLeagueInfo(espnLeagueId, currentYear, cookies);
-        
-        console.log(`ESPN Import Result:`, result.success ? `Success - ${result.data?.teams?.length || 0} teams` : `Error - ${result.error}`);
-        
-        if (!result.success || !result.data) {
-          return res.status(400).json({ 
-            message: result.error || "Failed to fetch ESPN league data. If this is a private league, you may need to provide ESPN cookies." 
-          });
-        }
-        
-        const espnData = result.data;
-        
-        // Use the actual season from ESPN response
-        const actualSeasonId = espnData.seasonId || parseInt(currentYear);
-        
-        // Create the league with real ESPN data
-        const league = await storage.createLeague({
-          name: espnData.name,
-          commissionerId: userId,
-          platform: platform,
-          externalLeagueId: espnLeagueId,
-          seasonYear: actualSeasonId,
-          totalDues: "0",
-          settings: {
-            weeklyPayoutAmount: 0,
-            seasonDues: 100,
-            payoutRules: "Standard payout rules",
-            lowestScorerFee: 0,
-            lowestScorerFeeEnabled: false,
-            espnLeagueId: espnLeagueId,
-            espnSeasonId: actualSeasonId.toString(),
-            espnPrivateLeague: !!(espnS2 && swid),
-            ...(espnS2 && { espnS2 }),
-            ...(swid && { espnSwid: swid })
-          }
-        });
+      const { code, state } = req.query;
+      const pending = req.session.yahooOAuth;
+      delete req.session.yahooOAuth;
 
-        // Create members for each ESPN team
-        // The user's selected team uses their real user ID, others are placeholders
-        let commissionerAssigned = false;
-        
-        for (const team of espnData.teams) {
-          try {
-            // Check if this is the user's selected team
-            const isCommissionerTeam = selectedTeamId ? 
-              team.id.toString() === selectedTeamId.toString() : 
-              false;
-            
-            await storage.addLeagueMember({
-              leagueId: league.id,
-              userId: isCommissionerTeam ? userId : `espn-team-${league.id}-${team.id}`,
-              role: isCommissionerTeam ? 'commissioner' : 'member',
-              teamName: team.name,
-              ownerName: team.ownerName || null,
-              externalTeamId: team.id.toString(),
-              paidStatus: 'unpaid',
-              email: isCommissionerTeam ? req.user.claims.email : null
-            });
-            
-            if (isCommissionerTeam) {
-              commissionerAssigned = true;
-            }
-          } catch (err) {
-            // Skip if there's a constraint violation (shouldn't happen with unique IDs)
-            console.warn(`Could not add placeholder for team ${team.id}:`, err);
-          }
+      if (!pending || !code || state !== pending.state) {
+        return res.status(400).json({ message: "Invalid Yahoo authorization response" });
+      }
+
+      const { exchangeYahooCode } = await import('./yahoo-api');
+      const result = await exchangeYahooCode(String(code));
+      if (!result.success || !result.tokens) {
+        return res.status(400).json({ message: result.error || "Failed to connect Yahoo account" });
+      }
+
+      if (pending.leagueId) {
+        const league = await storage.getLeague(pending.leagueId);
+        if (!league) {
+          return res.status(404).json({ message: "League not found" });
         }
-        
-        // If no team was selected or found, add commissioner as a basic member
-        if (!commissionerAssigned) {
-          await storage.addLeagueMember({
-            leagueId: league.id,
-            userId,
-            role: 'commissioner',
-            teamName: 'Commissioner',
-            paidStatus: 'unpaid',
-            email: req.user.claims.email || null
-          });
+        if (!hasLeaguePermission(league, userId, 'manage_league')) {
+          return res.status(403).json({ message: "You don't have permission to connect Yahoo" });
         }
 
-        return res.json({
-          success: true,
-          data: {
-            name: espnData.name,
-            seasonYear: espnData.seasonId,
-            externalId: espnLeagueId,
-            teamsImported: espnData.teams.length
-          }
+        await storage.saveYahooTokens(league.id, result.tokens);
+        return res.redirect(`/league/${league.id}`);
+      }
+
+      // Held on the session until the league is imported, then moved onto the league
+      req.session.yahooTokens = result.tokens;
+      res.redirect('/dashboard?yahoo=connected');
+    } catch (err) {
+      console.error("Error completing Yahoo authorization:", err);
+      res.status(500).json({ message: "Failed to connect Yahoo account" });
+    }
+  });
+
+  app.post(api.leagues.syncPlatform.path, isAuthenticated, async (req: any, res) => {
+    try {
+      const { platform, leagueUrl, selectedTeamId } = req.body;
+      const userId = req.user.claims.sub;
+
+      const provider = getPlatformProvider(platform);
+      if (!provider) {
+        return res.status(400).json({ message: "Unsupported platform" });
+      }
+
+      console.log(`${provider.displayName} Import: ${leagueUrl}, Selected Team: ${selectedTeamId}`);
+
+      const result = await provider.importLeague({ leagueUrl: leagueUrl || '', body: req.body, session: req.session });
+
+      console.log(`${provider.displayName} Import Result:`, result.success ? `Success - ${result.data?.teams?.length || 0} teams` : `Error - ${result.error}`);
+
+      if (!result.success || !result.data) {
+        return res.status(result.needsAuth ? 401 : 400).json({
+          message: result.error || `Failed to fetch ${provider.displayName} league data.`,
+          needsAuth: result.needsAuth
         });
       }
-      
-      // Fallback for other platforms (mock data)
-      const mockData = {
-        name: `${platform.toUpperCase()} Fantasy League 2025`,
-        seasonYear: 2025,
-        externalId: `mock-${platform}-${Date.now()}`
-      };
 
+      const imported = result.data;
+
+      // Create the league with real platform data
       const league = await storage.createLeague({
-        name: mockData.name,
+        name: imported.name,
         commissionerId: userId,
-        platform: platform,
-        externalLeagueId: mockData.externalId,
-        seasonYear: mockData.seasonYear,
-        totalDues: "0",
+        platform: provider.platform,
+        externalLeagueId: imported.externalLeagueId,
+        seasonYear: imported.seasonId,
         settings: {
-          weeklyPayoutAmount: 0,
-          seasonDues: 100,
+          entryFee: 100,
+          weeklyHighScorePrize: 0,
+          weeklyLowScoreFee: 0,
+          weeklyLowScoreFeeEnabled: false,
           payoutRules: "Standard payout rules",
-          lowestScorerFee: 0,
-          lowestScorerFeeEnabled: false
+          ...imported.settings
         }
       });
+      if (imported.credentials?.yahooTokens) {
+        await storage.saveYahooTokens(league.id, imported.credentials.yahooTokens);
+      }
 
-      await storage.addLeagueMember({
-        leagueId: league.id,
-        userId,
-        role: 'commissioner',
-        teamName: 'Commissioner Team',
-        paidStatus: 'unpaid'
-      });
+      // Create members for each platform team
+      // The user's selected team uses their real user ID, others are placeholders
+      let commissionerAssigned = false;
+      
+      for (const team of imported.teams) {
+        try {
+          // Check if this is the user's selected team
+          const isCommissionerTeam = selectedTeamId ? 
+            team.id.toString() === selectedTeamId.toString() : 
+            false;
+          
+          await storage.addLeagueMember({
+            leagueId: league.id,
+            userId: isCommissionerTeam ? userId : getPlaceholderUserId(provider.platform, league.id, team.id),
+            role: isCommissionerTeam ? 'commissioner' : 'member',
+            teamName: team.name,
+            ownerName: team.ownerName || null,
+            externalTeamId: team.id.toString(),
+            paidStatus: 'unpaid',
+            email: isCommissionerTeam ? req.user.claims.email : null
+          });
+          
+          if (isCommissionerTeam) {
+            commissionerAssigned = true;
+          }
+        } catch (err) {
+          // Skip if there's a constraint violation (shouldn't happen with unique IDs)
+          console.warn(`Could not add placeholder for team ${team.id}:`, err);
+        }
+      }
+      
+      // If no team was selected or found, add commissioner as a basic member
+      if (!commissionerAssigned) {
+        await storage.addLeagueMember({
+          leagueId: league.id,
+          userId,
+          role: 'commissioner',
+          teamName: 'Commissioner',
+          paidStatus: 'unpaid',
+          email: req.user.claims.email || null
+        });
+      }
 
       res.json({
         success: true,
-        data: mockData
+        data: {
+          name: imported.name,
+          seasonYear: imported.seasonId,
+          externalId: imported.externalLeagueId,
+          teamsImported: imported.teams.length
+        }
       });
     } catch (err) {
       console.error("Error syncing platform:", err);
@@ -304,7 +349,7 @@ export async function registerRoutes(
     }
   });
 
-  // Update league settings (commissioner only)
+  // Update league settings (manage_league)
   app.patch(api.leagues.updateSettings.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -316,15 +361,54 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can update settings" });
+      if (!hasLeaguePermission(league, userId, 'manage_league')) {
+        return res.status(403).json({ message: "You don't have permission to update settings" });
       }
 
       // Merge new settings with existing settings
       const currentSettings = league.settings || {};
-      const newSettings = { ...currentSettings, ...settingsUpdate };
+      const newSettings: LeagueSettings = { ...currentSettings, ...settingsUpdate };
+
+      const installmentError = validateInstallments(newSettings.duesInstallments || [], getEntryFee({ settings: newSettings }));
+      if (installmentError) {
+        return res.status(400).json({ message: installmentError, field: "duesInstallments" });
+      }
+
+      if (newSettings.seasonPayoutMode === 'percent') {
+        const totalPercent = SEASON_PRIZES
+          .reduce((sum, prize) => sum + Number(newSettings[SEASON_PRIZE_SETTINGS[prize]] || 0), 0);
+        if (totalPercent > 100) {
+          return res.status(400).json({ message: `Season prizes add up to ${totalPercent}% of the pot`, field: "seasonPayoutMode" });
+        }
+      }
+
+      // Two-person control is the commissioner's to configure
+      const approvalSettingsChanged = getApprovalThreshold({ settings: newSettings }) !== getApprovalThreshold(league)
+        || (newSettings.approverUserId || null) !== (league.settings?.approverUserId || null);
+      if (approvalSettingsChanged && !hasLeaguePermission(league, userId, 'administer_league')) {
+        return res.status(403).json({ message: "Only the commissioner can change approval settings", field: "approvalThreshold" });
+      }
+
+      const approvalThreshold = Number(newSettings.approvalThreshold || 0);
+      if (!Number.isFinite(approvalThreshold) || approvalThreshold < 0) {
+        return res.status(400).json({ message: "Approval threshold can't be negative", field: "approvalThreshold" });
+      }
+      if (approvalThreshold > 0) {
+        const approverId = newSettings.approverUserId;
+        if (!approverId || !league.members.some(m => m.userId === approverId)) {
+          return res.status(400).json({ message: "Choose a league member to approve payouts above the threshold", field: "approverUserId" });
+        }
+        if (approverId === league.commissionerId) {
+          return res.status(400).json({ message: "The approver must be someone other than the commissioner", field: "approverUserId" });
+        }
+      }
       
       await storage.updateLeagueSettings(leagueId, newSettings);
+
+      // A new entry fee can move members between paid and partial
+      if (getEntryFee({ settings: newSettings }) !== getEntryFee(league)) {
+        await storage.refreshLeagueDues(leagueId);
+      }
       
       res.json({ success: true });
     } catch (err) {
@@ -333,7 +417,17 @@ export async function registerRoutes(
     }
   });
 
-  // Delete league (commissioner only)
+  const ARCHIVE_ERROR_STATUS: Record<LeagueArchiveErrorCode, number> = {
+    HAS_BALANCES: 409,
+    WITHDRAWALS_IN_FLIGHT: 409,
+    ALREADY_ARCHIVED: 400,
+    NOT_ARCHIVED: 400,
+    GRACE_PERIOD_OVER: 409,
+    GRACE_PERIOD_ACTIVE: 409
+  };
+
+  // Delete league (commissioner only, via administer_league). The league is
+  // archived rather than removed; see server/league-archive.ts
   app.delete(api.leagues.delete.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -344,20 +438,134 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can delete a league" });
+      if (!hasLeaguePermission(league, userId, 'administer_league')) {
+        return res.status(403).json({ message: "Only the commissioner can delete a league" });
       }
 
-      await storage.deleteLeague(leagueId);
-      
-      res.json({ success: true });
+      const result = await archiveLeague(league, userId);
+      if (!result.success || !result.league) {
+        return res.status(result.code ? ARCHIVE_ERROR_STATUS[result.code] : 500).json({ message: result.error, code: result.code });
+      }
+
+      res.json({ success: true, league: result.league, purgeEligibleAt: getPurgeEligibleAt(result.league) });
     } catch (err) {
       console.error("Error deleting league:", err);
       res.status(500).json({ message: "Failed to delete league" });
     }
   });
 
-  // Sync ALL weeks from ESPN (season bulk sync)
+  // Bring an archived league back within the grace period
+  app.post("/api/leagues/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'administer_league')) {
+        return res.status(403).json({ message: "Only the commissioner can restore a league" });
+      }
+
+      const result = await restoreLeague(league);
+      if (!result.success || !result.league) {
+        return res.status(result.code ? ARCHIVE_ERROR_STATUS[result.code] : 500).json({ message: result.error, code: result.code });
+      }
+
+      res.json({ success: true, league: result.league });
+    } catch (err) {
+      console.error("Error restoring league:", err);
+      res.status(500).json({ message: "Failed to restore league" });
+    }
+  });
+
+  // What "Start new season" would carry over, and the next season if it already exists
+  app.get("/api/leagues/:id/rollover", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const league = await storage.getLeague(Number(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!isLeagueMember(league, userId)) {
+        return res.status(403).json({ message: "You are not a member of this league" });
+      }
+
+      res.json(await getSeasonRolloverPreview(league));
+    } catch (err) {
+      console.error("Error fetching season rollover:", err);
+      res.status(500).json({ message: "Failed to fetch season rollover" });
+    }
+  });
+
+  // All-time standings across every season of this league
+  app.get("/api/leagues/:id/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const league = await storage.getLeague(Number(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!isLeagueMember(league, userId)) {
+        return res.status(403).json({ message: "You are not a member of this league" });
+      }
+
+      res.json(await getLeagueHistory(league));
+    } catch (err) {
+      console.error("Error fetching league history:", err);
+      res.status(500).json({ message: "Failed to fetch league history" });
+    }
+  });
+
+  const ROLLOVER_ERROR_STATUS: Record<SeasonRolloverErrorCode, number> = {
+    INVALID_SEASON: 400,
+    PLATFORM_ID_REQUIRED: 400,
+    ALREADY_ROLLED_OVER: 409
+  };
+
+  // Start next season: clone settings and roster into a new league linked to this one
+  app.post("/api/leagues/:id/rollover", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const league = await storage.getLeague(Number(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'administer_league')) {
+        return res.status(403).json({ message: "Only the commissioner can start a new season" });
+      }
+
+      const { seasonYear, name, startDate, carryOverBalances, yahooLeagueKey, sleeperLeagueId } = req.body;
+      const parsedStartDate = startDate ? new Date(startDate) : null;
+      if (parsedStartDate && isNaN(parsedStartDate.getTime())) {
+        return res.status(400).json({ message: "Invalid start date", field: "startDate" });
+      }
+
+      const result = await startNextSeason(league, {
+        seasonYear: seasonYear !== undefined && seasonYear !== '' ? Number(seasonYear) : undefined,
+        name: typeof name === 'string' ? name : undefined,
+        startDate: parsedStartDate,
+        carryOverBalances: carryOverBalances === true,
+        yahooLeagueKey: typeof yahooLeagueKey === 'string' ? yahooLeagueKey : undefined,
+        sleeperLeagueId: typeof sleeperLeagueId === 'string' ? sleeperLeagueId : undefined
+      });
+      if (!result.success || !result.league) {
+        return res.status(result.code ? ROLLOVER_ERROR_STATUS[result.code] : 500).json({ message: result.error, code: result.code });
+      }
+
+      res.status(201).json({ league: result.league, carriedOver: result.carriedOver });
+    } catch (err) {
+      console.error("Error starting new season:", err);
+      res.status(500).json({ message: "Failed to start new season" });
+    }
+  });
+
+  // Sync ALL weeks from the league's platform (season bulk sync)
   app.post("/api/leagues/:id/sync-all-weeks", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -368,23 +576,17 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can sync scores" });
+      if (!hasLeaguePermission(league, userId, 'sync_scores')) {
+        return res.status(403).json({ message: "You don't have permission to sync scores" });
       }
 
       const settings = league.settings || {};
+      const provider = getPlatformProvider(league.platform);
       
-      if (league.platform !== 'espn' || !settings.espnLeagueId) {
-        return res.status(400).json({ message: "ESPN integration not configured for this league" });
+      if (!provider || !provider.isLeagueConfigured(league)) {
+        return res.status(400).json({ message: "Platform integration not configured for this league" });
       }
 
-      const { fetchEspnScores } = await import('./espn-api');
-      const seasonId = settings.espnSeasonId || '2025';
-      const cookies = settings.espnPrivateLeague ? {
-        espnS2: settings.espnS2,
-        swid: settings.espnSwid
-      } : undefined;
-
       const members = league.members || [];
       const results: Array<{ week: number; success: boolean; scoresUpdated: number; error?: string }> = [];
       
@@ -396,10 +598,10 @@ export async function registerRoutes(
             await new Promise(resolve => setTimeout(resolve, 500));
           }
 
-          const espnResult = await fetchEspnScores(settings.espnLeagueId, seasonId, week, cookies);
+          const weekResult = await provider.fetchWeekScores(league, week);
           
-          if (!espnResult.success || !espnResult.data) {
-            results.push({ week, success: false, scoresUpdated: 0, error: espnResult.error });
+          if (!weekResult.success || !weekResult.data) {
+            results.push({ week, success: false, scoresUpdated: 0, error: weekResult.error });
             continue;
           }
 
@@ -409,22 +611,25 @@ export async function registerRoutes(
 
           for (const member of members) {
             if (member.externalTeamId) {
-              const espnScore = espnResult.data.weeklyScores.get(Number(member.externalTeamId));
-              if (espnScore !== undefined && espnScore > 0) {
+              const platformScore = weekResult.data.weeklyScores.get(Number(member.externalTeamId));
+              if (platformScore !== undefined && platformScore > 0) {
                 const existing = existingScores.find(s => s.userId === member.userId);
                 
+                const benchScore = weekResult.data.benchScores?.get(Number(member.externalTeamId));
+                
                 if (!existing) {
                   await storage.addWeeklyScore({
                     leagueId,
                     userId: member.userId,
                     week,
-                    score: String(espnScore.toFixed(2)),
-                    source: 'espn'
+                    score: String(platformScore.toFixed(2)),
+                    benchScore: benchScore !== undefined ? benchScore.toFixed(2) : null,
+                    source: provider.platform
                   });
                   scoresUpdated++;
-                } else if (Number(existing.score) !== espnScore) {
+                } else if (Number(existing.score) !== platformScore) {
                   // Update if score changed
-                  await storage.updateWeeklyScore(existing.id, String(espnScore.toFixed(2)));
+                  await storage.updateWeeklyScore(existing.id, String(platformScore.toFixed(2)));
                   scoresUpdated++;
                 }
               }
@@ -460,7 +665,7 @@ export async function registerRoutes(
     }
   });
 
-  // Sync scores from platform (ESPN API or mock)
+  // Sync scores from the league's platform (fails closed; see score-sync.ts)
   app.post(api.leagues.syncScores.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -472,190 +677,29 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can sync scores" });
+      if (!hasLeaguePermission(league, userId, 'sync_scores')) {
+        return res.status(403).json({ message: "You don't have permission to sync scores" });
       }
 
-      const members = league.members || [];
-      let scoresUpdated = 0;
-      const settings = league.settings || {};
-      let dataSource = 'mock';
-      let espnError = '';
-      let espnSuccess = false;
-      let unmappedMembers: string[] = [];
-
-      // Check if ESPN is configured
-      if (league.platform === 'espn' && settings.espnLeagueId) {
-        const { fetchEspnScores } = await import('./espn-api');
-        const seasonId = settings.espnSeasonId || new Date().getFullYear().toString();
-        const cookies = settings.espnPrivateLeague ? {
-          espnS2: settings.espnS2,
-          swid: settings.espnSwid
-        } : undefined;
-
-        const espnResult = await fetchEspnScores(settings.espnLeagueId, seasonId, week, cookies);
-        
-        if (espnResult.success && espnResult.data) {
-          dataSource = 'espn';
-          espnSuccess = true;
-          
-          // Get existing scores once for efficiency
-          const existingScores = await storage.getWeeklyScores(leagueId, week);
-          
-          for (const member of members) {
-            if (member.externalTeamId) {
-              const espnScore = espnResult.data.weeklyScores.get(Number(member.externalTeamId));
-              if (espnScore !== undefined) {
-                const hasExisting = existingScores.some(s => s.userId === member.userId);
-                
-                if (!hasExisting) {
-                  await storage.addWeeklyScore({
-                    leagueId,
-                    userId: member.userId,
-                    week,
-                    score: String(espnScore.toFixed(2)),
-                    source: 'espn'
-                  });
-                  scoresUpdated++;
-                }
-              }
-            } else {
-              unmappedMembers.push(member.teamName || member.userId);
-            }
-          }
-        } else {
-          espnError = espnResult.error || 'Failed to fetch ESPN scores';
-          console.log(`[ESPN] Error fetching scores: ${espnError}, falling back to mock data`);
-        }
-      }
-
-      // Fall back to mock scores if ESPN not configured or failed
-      if (!espnSuccess) {
-        const existingScores = await storage.getWeeklyScores(leagueId, week);
-        
-        for (const member of members) {
-          const mockScore = (80 + Math.random() * 100).toFixed(2);
-          const hasExisting = existingScores.some(s => s.userId === member.userId);
-          
-          if (!hasExisting) {
-            await storage.addWeeklyScore({
-              leagueId,
-              userId: member.userId,
-              week,
-              score: mockScore,
-              source: 'mock'
-            });
-            scoresUpdated++;
-          }
-        }
-      }
-
-      // Get league settings for automated payouts
-      const hpsPrize = settings.weeklyHighScorePrize || settings.weeklyPayoutAmount || 0;
-      const lpsEnabled = settings.weeklyLowScoreFeeEnabled || settings.lowestScorerFeeEnabled || false;
-      const lpsFee = settings.weeklyLowScoreFee || settings.lowestScorerFee || 0;
-
-      let hpsPayoutCreated = false;
-      let lpsRequestCreated = false;
-      let highScorer: any = null;
-      let lowScorer: any = null;
-
-      // Automatically issue HPS (Highest Point Scorer) payout
-      if (hpsPrize > 0) {
-        highScorer = await storage.getHighestScorerForWeek(leagueId, week);
-        if (highScorer) {
-          // Create payout to highest scorer's wallet
-          const payout = await storage.createPayout({
-            leagueId,
-            userId: highScorer.userId,
-            amount: String(hpsPrize),
-            reason: 'weekly_high_score',
-            week,
-            payoutType: 'standard',
-            status: 'approved'
-          });
-
-          // Credit to member wallet
-          const wallet = await storage.getOrCreateWallet(leagueId, highScorer.userId);
-          await storage.creditWallet(
-            wallet.id, 
-            String(hpsPrize), 
-            'payout', 
-            payout.id, 
-            `Week ${week} High Point Scorer Prize`
-          );
-          hpsPayoutCreated = true;
-        }
-      }
-
-      // Create LPS (Lowest Point Scorer) payment request
-      let lpsSmsStatus = '';
-      if (lpsEnabled && lpsFee > 0) {
-        lowScorer = await storage.getLowestScorerForWeek(leagueId, week);
-        if (lowScorer) {
-          // Generate unique payment token
-          const paymentToken = `lps_${leagueId}_${week}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-          
-          // Get member phone number
-          const member = await storage.getLeagueMember(leagueId, lowScorer.userId);
-          
-          // Create LPS payment request
-          const lpsRequest = await storage.createLpsPaymentRequest({
-            leagueId,
-            userId: lowScorer.userId,
-            week,
-            amount: String(lpsFee),
-            paymentToken,
-            phoneNumber: member?.phoneNumber || null
-          });
-          lpsRequestCreated = true;
-          
-          // Send SMS notification via Twilio if configured
-          const { sendSMS, isTwilioConfigured } = await import('./twilio');
-          if (member?.phoneNumber && await isTwilioConfigured()) {
-            const baseUrl = process.env.REPLIT_DEV_DOMAIN 
-              ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
-              : 'https://your-app.replit.app';
-            const paymentLink = `${baseUrl}/pay-lps/${paymentToken}`;
-            const message = `You had the lowest score in "${league.name}" Week ${week}. Pay your $${lpsFee} LPS fee here: ${paymentLink}`;
-            
-            const smsResult = await sendSMS(member.phoneNumber, message);
-            if (smsResult.success) {
-              await storage.markLpsSmsAsSent(lpsRequest.id);
-              lpsSmsStatus = 'sent';
-            } else {
-              lpsSmsStatus = 'failed';
-            }
-          } else {
-            lpsSmsStatus = member?.phoneNumber ? 'twilio_not_configured' : 'no_phone';
-          }
-          
-          console.log(`[LPS] Payment request created for user ${lowScorer.userId} - Week ${week} - $${lpsFee} - SMS: ${lpsSmsStatus}`);
-        }
+      const result = await syncLeagueWeekScores(league, week);
+      if (!result.success) {
+        const status = result.code === 'PLATFORM_SYNC_FAILED' ? 502
+          : result.code === 'INCOMPLETE_SCORES' ? 422
+          : 400;
+        return res.status(status).json({
+          message: result.error,
+          code: result.code,
+          platformError: result.platformError,
+          needsAuth: result.needsAuth,
+          missingTeams: result.missingTeams
+        });
       }
-
-      // Update lastScoreSync timestamp
-      const currentSettings = league.settings || {};
-      await storage.updateLeagueSettings(leagueId, {
-        ...currentSettings,
-        lastScoreSync: new Date().toISOString()
-      });
       
       res.json({ 
         success: true, 
-        scoresUpdated,
-        source: dataSource,
-        espnError: espnError || undefined,
-        unmappedMembers: unmappedMembers.length > 0 ? unmappedMembers : undefined,
-        automation: {
-          hpsPayoutCreated,
-          hpsRecipient: highScorer?.userId,
-          hpsAmount: hpsPrize,
-          lpsRequestCreated,
-          lpsRecipient: lowScorer?.userId,
-          lpsAmount: lpsFee,
-          lpsSmsStatus
-        }
+        scoresUpdated: result.scoresUpdated,
+        source: result.source,
+        automation: result.automation
       });
     } catch (err) {
       console.error("Error syncing scores:", err);
@@ -664,33 +708,60 @@ export async function registerRoutes(
   });
 
   // === PAYMENTS ===
+  // Dues start out pending against a PaymentIntent; only the Stripe webhook
+  // marks them completed (and the member paid) or failed
   app.post(api.payments.create.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { leagueId, amount } = req.body;
-      
-      // Create payment record
-      const payment = await storage.createPayment({
-        leagueId: Number(leagueId),
-        userId,
-        amount: String(amount),
-        status: 'completed',
-        stripePaymentIntentId: null
-      });
+      const leagueId = Number(req.body.leagueId);
+      const amount = Number(req.body.amount);
+
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return res.status(400).json({ message: "Amount must be greater than zero", field: "amount" });
+      }
 
-      // Update member status to paid
-      const member = await storage.getLeagueMember(Number(leagueId), userId);
-      if (member) {
-        await storage.updateMemberStatus(member.id, 'paid');
+      const league = await storage.getLeague(leagueId);
+      const member = await storage.getLeagueMember(leagueId, userId);
+      if (!league || !member) {
+        return res.status(403).json({ message: "You are not a member of this league" });
       }
+      if (league.archivedAt) {
+        return res.status(409).json({ message: "This league is archived", code: 'LEAGUE_ARCHIVED' });
+      }
+      if (member.paidStatus === 'paid') {
+        return res.status(400).json({ message: "Your dues are already paid" });
+      }
+
+      // Any amount up to the remaining balance; installments are a schedule, not a minimum
+      const dues = summarizeMemberDues(league, member);
+      if (Number(dues.remaining) > 0 && amount > Number(dues.remaining)) {
+        return res.status(400).json({ message: `You only owe $${dues.remaining}`, field: "amount" });
+      }
+
+      const stripe = await getUncachableStripeClient();
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(amount * 100), // Convert to cents
+        currency: 'usd',
+        payment_method_types: ['card', 'us_bank_account'],
+        metadata: {
+          type: 'dues',
+          leagueId: String(leagueId),
+          userId
+        }
+      });
 
-      // Update league total funds
-      await storage.updateLeagueTotalDues(Number(leagueId), Number(amount));
+      const payment = await storage.createPayment({
+        leagueId,
+        userId,
+        amount: amount.toFixed(2),
+        status: 'pending',
+        stripePaymentIntentId: paymentIntent.id
+      });
 
-      res.status(201).json(payment);
+      res.status(201).json({ ...payment, clientSecret: paymentIntent.client_secret });
     } catch (err) {
       console.error("Error creating payment:", err);
-      res.status(500).json({ message: "Payment failed" });
+      res.status(500).json({ message: "Failed to create payment" });
     }
   });
 
@@ -704,14 +775,25 @@ export async function registerRoutes(
     }
   });
 
+  // Expired, revoked and spent links are gone for good; the code tells the page which
+  const LINK_ERROR_STATUS: Record<LinkTokenErrorCode, number> = {
+    INVALID: 404,
+    EXPIRED: 410,
+    REVOKED: 410,
+    USED: 410
+  };
+
   // === LPS PAYMENT (Public endpoint for lowest scorer fee payment) ===
   app.get("/api/lps-payment/:token", async (req, res) => {
     try {
-      const { token } = req.params;
-      const lpsRequest = await storage.getLpsPaymentByToken(token);
-      
+      const resolved = await resolveLinkToken(req.params.token, 'lps');
+      if (!resolved.success || !resolved.link) {
+        return res.status(LINK_ERROR_STATUS[resolved.code!]).json({ message: resolved.error, code: resolved.code });
+      }
+
+      const lpsRequest = await storage.getLpsPaymentRequest(resolved.link.subjectId);
       if (!lpsRequest) {
-        return res.status(404).json({ message: "Payment request not found or expired" });
+        return res.status(404).json({ message: "Payment request not found", code: 'INVALID' });
       }
       
       if (lpsRequest.status === 'paid') {
@@ -737,36 +819,51 @@ export async function registerRoutes(
 
   app.post("/api/lps-payment/:token/pay", async (req, res) => {
     try {
-      const { token } = req.params;
-      const lpsRequest = await storage.getLpsPaymentByToken(token);
-      
+      const resolved = await resolveLinkToken(req.params.token, 'lps');
+      if (!resolved.success || !resolved.link) {
+        return res.status(LINK_ERROR_STATUS[resolved.code!]).json({ message: resolved.error, code: resolved.code });
+      }
+
+      const lpsRequest = await storage.getLpsPaymentRequest(resolved.link.subjectId);
       if (!lpsRequest) {
-        return res.status(404).json({ message: "Payment request not found or expired" });
+        return res.status(404).json({ message: "Payment request not found", code: 'INVALID' });
       }
       
       if (lpsRequest.status === 'paid') {
         return res.status(400).json({ message: "This payment has already been completed" });
       }
 
-      // Create payment record
+      if (await storage.isLeagueArchived(lpsRequest.leagueId)) {
+        return res.status(409).json({ message: "This league is archived", code: 'LEAGUE_ARCHIVED' });
+      }
+
+      // Like dues, the fee stays pending until the Stripe webhook confirms it
+      const stripe = await getUncachableStripeClient();
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(Number(lpsRequest.amount) * 100), // Convert to cents
+        currency: 'usd',
+        payment_method_types: ['card', 'us_bank_account'],
+        metadata: {
+          type: 'lps',
+          leagueId: String(lpsRequest.leagueId),
+          userId: lpsRequest.userId,
+          lpsPaymentRequestId: String(lpsRequest.id)
+        }
+      });
+
       const payment = await storage.createPayment({
         leagueId: lpsRequest.leagueId,
         userId: lpsRequest.userId,
         amount: lpsRequest.amount,
-        status: 'completed',
-        stripePaymentIntentId: null
+        status: 'pending',
+        stripePaymentIntentId: paymentIntent.id,
+        kind: 'lps',
+        lpsPaymentRequestId: lpsRequest.id
       });
-
-      // Update LPS request status
-      await storage.updateLpsPaymentStatus(lpsRequest.id, 'paid');
-
-      // Add to league treasury
-      await storage.updateLeagueTotalDues(lpsRequest.leagueId, Number(lpsRequest.amount));
       
       res.json({ 
-        success: true, 
-        message: "Payment completed successfully",
-        paymentId: payment.id
+        paymentId: payment.id,
+        clientSecret: paymentIntent.client_secret
       });
     } catch (err) {
       console.error("Error processing LPS payment:", err);
@@ -774,19 +871,113 @@ export async function registerRoutes(
     }
   });
 
+  // === DUES BALANCES ===
+  // Commissioners see every member; members only see their own balance
+  app.get("/api/leagues/:id/dues", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!isLeagueMember(league, userId)) {
+        return res.status(403).json({ message: "You are not a member of this league" });
+      }
+
+      const members = hasLeaguePermission(league, userId, 'view_treasury')
+        ? league.members
+        : league.members.filter(m => m.userId === userId);
+      res.json(members.map(member => ({
+        memberId: member.id,
+        userId: member.userId,
+        teamName: member.teamName,
+        ...summarizeMemberDues(league, member)
+      })));
+    } catch (err) {
+      console.error("Error fetching dues:", err);
+      res.status(500).json({ message: "Failed to fetch dues" });
+    }
+  });
+
+  // === REFUNDS (view_treasury to list, issue_payouts to refund) ===
+  app.get("/api/leagues/:id/refunds", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'view_treasury')) {
+        return res.status(403).json({ message: "You don't have permission to view refunds" });
+      }
+
+      res.json(await storage.getLeagueRefunds(leagueId));
+    } catch (err) {
+      console.error("Error fetching refunds:", err);
+      res.status(500).json({ message: "Failed to fetch refunds" });
+    }
+  });
+
+  app.post("/api/leagues/:id/payments/:paymentId/refund", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const paymentId = Number(req.params.paymentId);
+      const { amount, reason } = req.body;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'issue_payouts')) {
+        return res.status(403).json({ message: "You don't have permission to issue refunds" });
+      }
+
+      const payment = await storage.getPayment(paymentId);
+      if (!payment || payment.leagueId !== leagueId) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (typeof reason !== 'string' || !reason.trim()) {
+        return res.status(400).json({ message: "A reason is required", field: "reason" });
+      }
+
+      const refundAmount = amount === undefined || amount === null || amount === '' ? undefined : Number(amount);
+      if (refundAmount !== undefined && !Number.isFinite(refundAmount)) {
+        return res.status(400).json({ message: "Invalid refund amount", field: "amount" });
+      }
+
+      const result = await issueRefund(payment, refundAmount, reason.trim(), userId);
+      if (!result.success) {
+        const status = result.code === 'STRIPE_REFUND_FAILED' ? 502 : 400;
+        return res.status(status).json({ message: result.error, code: result.code, refund: result.refund });
+      }
+
+      res.status(201).json({ refund: result.refund, payment: await storage.getPayment(paymentId) });
+    } catch (err) {
+      console.error("Error issuing refund:", err);
+      res.status(500).json({ message: "Failed to issue refund" });
+    }
+  });
+
   // === MEMBER DUES PAYMENT (Public endpoint for payment token) ===
   app.get("/api/pay-dues/:token", async (req: any, res) => {
     try {
-      const { token } = req.params;
-      const member = await storage.getMemberByPaymentToken(token);
-      
-      if (!member) {
-        return res.status(404).json({ message: "Payment link not found or expired" });
+      const resolved = await resolveLinkToken(req.params.token, 'dues');
+      if (!resolved.success || !resolved.link) {
+        return res.status(LINK_ERROR_STATUS[resolved.code!]).json({ message: resolved.error, code: resolved.code });
       }
-      
-      // Check if token has expired
-      if (member.paymentTokenExpiresAt && new Date(member.paymentTokenExpiresAt) < new Date()) {
-        return res.status(400).json({ message: "This payment link has expired" });
+
+      const member = await storage.getLeagueMemberById(resolved.link.subjectId);
+      if (!member) {
+        return res.status(404).json({ message: "Payment link not found", code: 'INVALID' });
       }
       
       // Check if already paid
@@ -804,11 +995,15 @@ export async function registerRoutes(
       const currentUserId = req.user?.claims?.sub;
       const isLinked = currentUserId && member.userId === currentUserId;
       
+      const dues = league ? summarizeMemberDues(league, member) : undefined;
+      
       res.json({
         memberId: member.id,
         leagueId: member.leagueId,
         leagueName: league?.name || 'Unknown League',
-        amount: league?.entryFee || '0',
+        // Defaults the checkout to what's due for the next installment
+        amount: dues?.amountDue || '0',
+        dues,
         teamName: member.teamName,
         ownerName: member.ownerName,
         isLinked: isLinked,
@@ -822,34 +1017,30 @@ export async function registerRoutes(
 
   app.post("/api/pay-dues/:token/link-account", isAuthenticated, async (req: any, res) => {
     try {
-      const { token } = req.params;
       const userId = req.user.claims.sub;
-      
-      const member = await storage.getMemberByPaymentToken(token);
-      
-      if (!member) {
-        return res.status(404).json({ message: "Payment link not found" });
+
+      const resolved = await resolveLinkToken(req.params.token, 'dues');
+      if (!resolved.success || !resolved.link) {
+        return res.status(LINK_ERROR_STATUS[resolved.code!]).json({ message: resolved.error, code: resolved.code });
       }
-      
-      // Check if token has expired
-      if (member.paymentTokenExpiresAt && new Date(member.paymentTokenExpiresAt) < new Date()) {
-        return res.status(400).json({ message: "This payment link has expired" });
+
+      const member = await storage.getLeagueMemberById(resolved.link.subjectId);
+      if (!member) {
+        return res.status(404).json({ message: "Payment link not found", code: 'INVALID' });
       }
       
       // Security check: Only allow linking if member is unclaimed (placeholder ID) or already belongs to this user
-      const isPlaceholder = member.userId?.startsWith('espn-team-') || member.userId?.startsWith('yahoo-team-');
+      const isPlaceholder = isPlaceholderUserId(member.userId);
       const isAlreadyLinked = member.userId === userId;
       
       if (!isPlaceholder && !isAlreadyLinked) {
         return res.status(403).json({ message: "This team membership is already linked to another account" });
       }
       
-      // Link the member to this user's account
+      // Link the member to this user's account. The link keeps working for
+      // payments; the check above stops anyone else claiming the team with it.
       await storage.linkMemberToUser(member.id, userId);
       
-      // Clear the payment token after successful linking to prevent reuse
-      await storage.setMemberPaymentToken(member.id, '');
-      
       res.json({ success: true, message: "Account linked successfully" });
     } catch (err) {
       console.error("Error linking account:", err);
@@ -861,75 +1052,275 @@ export async function registerRoutes(
   // Instant payout fee percentage (e.g., 2.5% for instant payouts)
   const INSTANT_PAYOUT_FEE_PERCENT = 2.5;
 
-  app.post(api.payouts.create.path, isAuthenticated, async (req: any, res) => {
+  app.post(api.payouts.create.path, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { leagueId, userId: recipientId, amount, reason, week, payoutType = 'standard' } = req.body;
+
+      // A negative or NaN amount would slip under the approval threshold and
+      // move money the wrong way
+      const payoutAmount = Number(amount);
+      if (typeof amount === 'boolean' || !Number.isFinite(payoutAmount) || toCents(payoutAmount) <= 0) {
+        return res.status(400).json({ message: "Amount must be greater than zero", field: "amount" });
+      }
+      if (!PAYOUT_TYPES.includes(payoutType)) {
+        return res.status(400).json({ message: "Payout type must be standard or instant", field: "payoutType" });
+      }
+      
+      // Authorization check
+      const league = await storage.getLeague(Number(leagueId));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+      
+      if (!hasLeaguePermission(league, userId, 'issue_payouts')) {
+        return res.status(403).json({ message: "You don't have permission to issue payouts" });
+      }
+      if (league.archivedAt) {
+        return res.status(409).json({ message: "This league is archived", code: 'LEAGUE_ARCHIVED' });
+      }
+      if (typeof recipientId !== 'string' || !isLeagueMember(league, recipientId)) {
+        return res.status(400).json({ message: "Payouts can only go to members of this league", field: "userId" });
+      }
+
+      // Calculate fee for instant payouts
+      let feeAmount = "0";
+      let netAmount = payoutAmount.toFixed(2);
+      
+      if (payoutType === 'instant') {
+        const fee = (payoutAmount * INSTANT_PAYOUT_FEE_PERCENT / 100);
+        feeAmount = fee.toFixed(2);
+        netAmount = (payoutAmount - Number(feeAmount)).toFixed(2);
+      }
+
+      const description = `${reason === 'weekly_high_score' ? 'Weekly High Score' : reason === 'championship' ? 'Championship Prize' : reason === 'refund' ? 'Refund' : 'Payout'} - Week ${week || 'N/A'}`;
+      const payoutData = {
+        leagueId: Number(leagueId),
+        userId: recipientId,
+        amount: netAmount,
+        reason,
+        week: week || null,
+        payoutType,
+        feeAmount
+      };
+
+      // Above the league's approval threshold the payout waits for the approver
+      if (requiresApproval(league, payoutAmount)) {
+        const held = await storage.createPayoutForApproval(payoutData, { requestedBy: userId, description });
+        return res.status(202).json({
+          ...held,
+          feeCharged: feeAmount,
+          pendingApproval: true,
+          walletCredited: false
+        });
+      }
+
+      const payout = await storage.createPayout({
+        ...payoutData,
+        status: payoutType === 'instant' ? 'paid' : 'approved'
+      });
+
+      // Credit the recipient's wallet
+      const recipientWallet = await storage.getOrCreateWallet(Number(leagueId), recipientId);
+      await storage.creditWallet(
+        recipientWallet.id,
+        netAmount,
+        'payout',
+        payout.id,
+        description,
+        payoutPosting(payout, recipientWallet.id)
+      );
+
+      await recordInstantPayoutFee(payout);
+      await sendPayoutNotice(league, recipientId, netAmount, description, payout.id);
+      
+      res.status(201).json({ 
+        ...payout, 
+        feeCharged: feeAmount,
+        estimatedArrival: payoutType === 'instant' ? 'Immediate' : '3-5 business days',
+        walletCredited: true
+      });
+    } catch (err) {
+      console.error("Error creating payout:", err);
+      res.status(500).json({ message: "Failed to create payout" });
+    }
+  });
+
+  // === SEASON PAYOUTS (view_treasury to view, issue_payouts to calculate and approve) ===
+  app.get("/api/leagues/:id/season-payouts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'view_treasury')) {
+        return res.status(403).json({ message: "You don't have permission to view season payouts" });
+      }
+
+      const batch = await storage.getSeasonPayoutBatch(leagueId, league.seasonYear);
+      res.json({ seasonYear: league.seasonYear, batch: batch || null });
+    } catch (err) {
+      console.error("Error fetching season payouts:", err);
+      res.status(500).json({ message: "Failed to fetch season payouts" });
+    }
+  });
+
+  const seasonStandingsSchema = z.object({
+    source: z.enum(['platform', 'commissioner']),
+    standings: z.array(z.object({
+      userId: z.string(),
+      finalRank: z.number().int().min(1).nullable(),
+      regularSeasonRank: z.number().int().min(1).nullable().optional(),
+      pointsFor: z.number().min(0).nullable().optional()
+    })).default([])
+  });
+
+  app.post("/api/leagues/:id/season-payouts/calculate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const parseResult = seasonStandingsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid request data", errors: parseResult.error.flatten() });
+      }
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'issue_payouts')) {
+        return res.status(403).json({ message: "You don't have permission to calculate season payouts" });
+      }
+
+      const { source, standings } = parseResult.data;
+      const result = await draftSeasonPayouts(league, source, standings, userId);
+      if (!result.success) {
+        const status = result.code === 'STANDINGS_UNAVAILABLE' ? (result.needsAuth ? 401 : 502)
+          : result.code === 'ALREADY_PAID' ? 409
+          : 400;
+        return res.status(status).json({ message: result.error, code: result.code, needsAuth: result.needsAuth });
+      }
+
+      res.json(result.batch);
+    } catch (err) {
+      console.error("Error calculating season payouts:", err);
+      res.status(500).json({ message: "Failed to calculate season payouts" });
+    }
+  });
+
+  app.post("/api/leagues/:id/season-payouts/approve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'issue_payouts')) {
+        return res.status(403).json({ message: "You don't have permission to approve season payouts" });
+      }
+
+      const result = await approveSeasonPayouts(league, userId);
+      if (!result.success) {
+        const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'SELF_APPROVAL' ? 403 : 400;
+        return res.status(status).json({ message: result.error, code: result.code });
+      }
+
+      res.json({ batch: result.batch, alreadyPaid: !!result.alreadyPaid, heldForApproval: result.heldForApproval || 0 });
+    } catch (err) {
+      console.error("Error approving season payouts:", err);
+      res.status(500).json({ message: "Failed to approve season payouts" });
+    }
+  });
+
+  // === APPROVAL QUEUE (view_treasury and the designated approver) ===
+  const approvalErrorStatus = (code?: ApprovalErrorCode) =>
+    code === 'NOT_FOUND' ? 404
+      : code === 'NOT_APPROVER' ? 403
+      : code === 'ALREADY_DECIDED' ? 409
+      : 502;
+
+  app.get("/api/leagues/:id/approvals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'view_treasury') && league.settings?.approverUserId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to view the approval queue" });
+      }
+
+      const requests = await storage.getLeagueApprovalRequests(leagueId);
+      res.json(requests.map(request => ({
+        ...request,
+        canDecide: request.status === 'pending' && canDecideApproval(league, request, userId)
+      })));
+    } catch (err) {
+      console.error("Error fetching approvals:", err);
+      res.status(500).json({ message: "Failed to fetch approvals" });
+    }
+  });
+
+  app.post("/api/leagues/:id/approvals/:approvalId/approve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const { note } = req.body;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const trimmedNote = typeof note === 'string' && note.trim() ? note.trim() : null;
+      const result = await approveRequest(league, Number(req.params.approvalId), userId, trimmedNote);
+      if (!result.success) {
+        return res.status(approvalErrorStatus(result.code)).json({ message: result.error, code: result.code, approval: result.approval });
+      }
+
+      res.json(result.approval);
+    } catch (err) {
+      console.error("Error approving request:", err);
+      res.status(500).json({ message: "Failed to approve request" });
+    }
+  });
+
+  app.post("/api/leagues/:id/approvals/:approvalId/reject", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { leagueId, userId: recipientId, amount, reason, week, payoutType = 'standard' } = req.body;
-      
-      // Authorization check (only commissioner)
-      const league = await storage.getLeague(Number(leagueId));
+      const leagueId = Number(req.params.id);
+      const { note } = req.body;
+
+      const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
-      
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can issue payouts" });
-      }
 
-      // Calculate fee for instant payouts
-      let feeAmount = "0";
-      let netAmount = String(amount);
-      
-      if (payoutType === 'instant') {
-        const fee = (Number(amount) * INSTANT_PAYOUT_FEE_PERCENT / 100);
-        feeAmount = fee.toFixed(2);
-        netAmount = (Number(amount) - fee).toFixed(2);
+      if (typeof note !== 'string' || !note.trim()) {
+        return res.status(400).json({ message: "A reason is required", field: "note" });
       }
 
-      const payout = await storage.createPayout({
-        leagueId: Number(leagueId),
-        userId: recipientId,
-        amount: netAmount,
-        reason,
-        week: week || null,
-        status: payoutType === 'instant' ? 'paid' : 'approved',
-        payoutType,
-        feeAmount
-      });
-
-      // Credit the recipient's wallet
-      const recipientWallet = await storage.getOrCreateWallet(Number(leagueId), recipientId);
-      await storage.creditWallet(
-        recipientWallet.id,
-        netAmount,
-        'payout',
-        payout.id,
-        `${reason === 'weekly_high_score' ? 'Weekly High Score' : reason === 'championship' ? 'Championship Prize' : reason === 'refund' ? 'Refund' : 'Payout'} - Week ${week || 'N/A'}`
-      );
-
-      // If instant payout with fee, record the platform fee
-      if (payoutType === 'instant' && Number(feeAmount) > 0) {
-        const platformFee = await storage.createPlatformFee({
-          payoutId: payout.id,
-          leagueId: Number(leagueId),
-          amount: feeAmount,
-          feeType: 'instant_payout'
-        });
-
-        // In production, this would trigger a Stripe transfer to the business account
-        // For now, mark as transferred (simulated)
-        await storage.updatePlatformFeeStatus(platformFee.id, 'transferred');
+      const result = await rejectRequest(league, Number(req.params.approvalId), userId, note.trim());
+      if (!result.success) {
+        return res.status(approvalErrorStatus(result.code)).json({ message: result.error, code: result.code, approval: result.approval });
       }
-      
-      res.status(201).json({ 
-        ...payout, 
-        feeCharged: feeAmount,
-        estimatedArrival: payoutType === 'instant' ? 'Immediate' : '3-5 business days',
-        walletCredited: true
-      });
+
+      res.json(result.approval);
     } catch (err) {
-      console.error("Error creating payout:", err);
-      res.status(500).json({ message: "Failed to create payout" });
+      console.error("Error rejecting request:", err);
+      res.status(500).json({ message: "Failed to reject request" });
     }
   });
 
@@ -940,14 +1331,14 @@ export async function registerRoutes(
       const leagueId = Number(req.params.id);
       const { userId: memberId, week, score } = req.body;
       
-      // Authorization check (only commissioner)
+      // Authorization check
       const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can update scores" });
+      if (!hasLeaguePermission(league, userId, 'sync_scores')) {
+        return res.status(403).json({ message: "You don't have permission to update scores" });
       }
 
       const newScore = await storage.addWeeklyScore({
@@ -971,60 +1362,90 @@ export async function registerRoutes(
       const leagueId = Number(req.params.id);
       const { week } = req.body;
       
-      // Authorization check (only commissioner)
+      // Authorization check
       const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
       
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can finalize weeks" });
+      if (!hasLeaguePermission(league, userId, 'sync_scores')) {
+        return res.status(403).json({ message: "You don't have permission to finalize weeks" });
       }
 
-      const scores = await storage.getWeeklyScores(leagueId, Number(week));
-      if (scores.length === 0) {
+      const result = await weeklyAwardService.processWeek(league, Number(week));
+      if (result.skippedReason === 'no_scores') {
         return res.status(400).json({ message: "No scores recorded for this week" });
       }
-
-      const results: any = { week: Number(week), processed: [] };
-
-      // Process highest scorer payout if enabled
-      const weeklyPrize = league.settings?.weeklyHighScorePrize || league.settings?.weeklyPayoutAmount || 0;
-      if (weeklyPrize > 0) {
-        const highestScorer = scores[0];
-        const payout = await storage.createPayout({
-          leagueId,
-          userId: highestScorer.userId,
-          amount: String(weeklyPrize),
-          reason: 'weekly_high_score',
-          week: Number(week),
-          status: 'approved'
+      if (result.skippedReason === 'non_authoritative_scores') {
+        return res.status(409).json({
+          message: "This week contains mock scores. Replace them with real scores before finalizing.",
+          code: 'NON_AUTHORITATIVE_SCORES'
         });
-        results.processed.push({ type: 'payout', userId: highestScorer.userId, amount: weeklyPrize });
       }
 
-      // Process lowest scorer penalty if enabled
-      const lpsEnabled = league.settings?.weeklyLowScoreFeeEnabled || league.settings?.lowestScorerFeeEnabled || false;
-      const lpsFee = league.settings?.weeklyLowScoreFee || league.settings?.lowestScorerFee || 0;
-      if (lpsEnabled && lpsFee > 0) {
-        const lowestScorer = scores[scores.length - 1];
-        const payment = await storage.createPayment({
-          leagueId,
-          userId: lowestScorer.userId,
-          amount: String(lpsFee),
-          status: 'pending',
-          stripePaymentIntentId: null
-        });
-        results.processed.push({ type: 'penalty', userId: lowestScorer.userId, amount: lpsFee });
-      }
-      
-      res.json({ success: true, results });
+      res.json({ success: true, results: { week: Number(week), ...result } });
     } catch (err) {
       console.error("Error finalizing week:", err);
       res.status(500).json({ message: "Failed to finalize week" });
     }
   });
 
+  // Weekly award history, including ties waiting on the commissioner
+  app.get("/api/leagues/:id/weekly-awards", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!isLeagueMember(league, userId)) {
+        return res.status(403).json({ message: "You must be a member of this league" });
+      }
+
+      const events = await storage.getWeeklyAwardEvents(leagueId);
+      res.json(events);
+    } catch (err) {
+      console.error("Error fetching weekly awards:", err);
+      res.status(500).json({ message: "Failed to fetch weekly awards" });
+    }
+  });
+
+  // Commissioner settles a tied HPS/LPS award; several userIds split it
+  app.post("/api/leagues/:id/weekly-awards/:week/resolve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const week = Number(req.params.week);
+      const { award, userIds } = req.body;
+
+      if ((award !== 'hps' && award !== 'lps') || !Array.isArray(userIds)) {
+        return res.status(400).json({ message: "award ('hps' or 'lps') and userIds are required" });
+      }
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'sync_scores')) {
+        return res.status(403).json({ message: "You don't have permission to resolve ties" });
+      }
+
+      const resolution = await weeklyAwardService.resolveTie(league, week, award, userIds, userId);
+      if (!resolution.success) {
+        return res.status(400).json({ message: resolution.error });
+      }
+
+      res.json({ success: true, results: resolution.result });
+    } catch (err) {
+      console.error("Error resolving weekly award tie:", err);
+      res.status(500).json({ message: "Failed to resolve tie" });
+    }
+  });
+
   // Get weekly scores for a league
   app.get("/api/leagues/:id/scores/:week", isAuthenticated, async (req, res) => {
     try {
@@ -1118,7 +1539,7 @@ export async function registerRoutes(
     }
   });
 
-  // Get league treasury (commissioner only)
+  // Get league treasury (view_treasury)
   app.get(api.wallets.treasury.path, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -1129,11 +1550,11 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
       
-      // Only commissioner can view treasury
-      if (league.commissionerId !== userId) {
+      // Admins can view any league's treasury
+      if (!hasLeaguePermission(league, userId, 'view_treasury')) {
         const isAdmin = await storage.isUserAdmin(userId);
         if (!isAdmin) {
-          return res.status(403).json({ message: "Only commissioner can view treasury" });
+          return res.status(403).json({ message: "You don't have permission to view the treasury" });
         }
       }
       
@@ -1161,6 +1582,60 @@ export async function registerRoutes(
     }
   });
 
+  const parseAuditFilter = (query: any) => ({
+    entityType: typeof query.entityType === 'string' && query.entityType ? query.entityType : undefined,
+    actorId: typeof query.actorId === 'string' && query.actorId ? query.actorId : undefined,
+    action: typeof query.action === 'string' && query.action ? query.action : undefined,
+    limit: Math.min(Math.max(Number(query.limit) || 100, 1), 500)
+  });
+
+  // League activity: the audit log filtered by entity, actor or action (view_treasury)
+  app.get("/api/leagues/:id/audit-events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'view_treasury')) {
+        return res.status(403).json({ message: "You don't have permission to view league activity" });
+      }
+
+      res.json(await storage.getAuditEvents({ ...parseAuditFilter(req.query), leagueId }));
+    } catch (err) {
+      console.error("Error fetching audit events:", err);
+      res.status(500).json({ message: "Failed to fetch league activity" });
+    }
+  });
+
+  // Reconcile the ledger against totalDues and wallet balances (view_treasury)
+  app.get("/api/leagues/:id/reconciliation", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'view_treasury')) {
+        const isAdmin = await storage.isUserAdmin(userId);
+        if (!isAdmin) {
+          return res.status(403).json({ message: "You don't have permission to view reconciliation" });
+        }
+      }
+
+      res.json(await reconcileLeague(league));
+    } catch (err) {
+      console.error("Error reconciling league:", err);
+      res.status(500).json({ message: "Failed to reconcile league" });
+    }
+  });
+
   // Withdraw funds from wallet
   const WITHDRAWAL_INSTANT_FEE_PERCENT = 2.5;
   
@@ -1174,14 +1649,23 @@ export async function registerRoutes(
       if (!wallet || wallet.userId !== userId) {
         return res.status(403).json({ message: "Access denied" });
       }
-      
-      if (Number(wallet.availableBalance) < amount) {
-        return res.status(400).json({ message: "Insufficient balance" });
+
+      // Money can only go to a Connect account that has finished onboarding
+      const user = await storage.getUser(userId);
+      if (!user?.stripeConnectAccountId || !user.stripeConnectOnboarded) {
+        return res.status(400).json({
+          message: "Set up your payout account before withdrawing",
+          code: 'CONNECT_NOT_ONBOARDED'
+        });
+      }
+
+      if (!(Number(amount) > 0)) {
+        return res.status(400).json({ message: "Amount must be greater than zero", field: "amount" });
       }
       
       // Calculate fee for instant withdrawals
       let feeAmount = "0";
-      let netAmount = String(amount);
+      let netAmount = Number(amount).toFixed(2);
       
       if (payoutType === 'instant') {
         const fee = (Number(amount) * WITHDRAWAL_INSTANT_FEE_PERCENT / 100);
@@ -1189,38 +1673,46 @@ export async function registerRoutes(
         netAmount = (Number(amount) - Number(feeAmount)).toFixed(2);
       }
       
-      // Create withdrawal request
-      const withdrawalRequest = await storage.createWithdrawalRequest({
-        walletId,
-        leagueId: wallet.leagueId,
-        userId,
-        amount: String(amount),
-        payoutType,
-        feeAmount,
-        netAmount
-      });
-      
-      // Debit wallet
-      await storage.debitWallet(
-        walletId,
-        String(amount),
-        'withdrawal',
-        withdrawalRequest.id,
-        `Withdrawal request - ${payoutType === 'instant' ? 'Instant' : 'Standard'}`
-      );
+      const league = await storage.getLeague(wallet.leagueId);
+      const needsApproval = !!league && requiresApproval(league, Number(amount));
+
+      // Create the withdrawal request and debit the wallet; the balance is
+      // checked under a row lock so parallel withdrawals can't overdraw it
+      let withdrawalRequest;
+      try {
+        withdrawalRequest = await storage.createWithdrawalRequest({
+          walletId,
+          leagueId: wallet.leagueId,
+          userId,
+          amount: Number(amount).toFixed(2),
+          payoutType,
+          feeAmount,
+          netAmount
+        }, `Withdrawal request - ${payoutType === 'instant' ? 'Instant' : 'Standard'}`, needsApproval);
+      } catch (err) {
+        if (err instanceof InsufficientBalanceError) {
+          return res.status(400).json({ message: "Insufficient balance" });
+        }
+        throw err;
+      }
+
+      // The funds stay on hold until the league's approver signs off
+      if (needsApproval) {
+        return res.status(202).json({ ...withdrawalRequest, pendingApproval: true });
+      }
       
-      // For instant, auto-complete (simulated). For standard, leave as pending
-      if (payoutType === 'instant') {
-        await storage.updateWithdrawalStatus(withdrawalRequest.id, 'completed', 'simulated_transfer_' + Date.now());
-      } else {
-        await storage.updateWithdrawalStatus(withdrawalRequest.id, 'processing');
+      // Completion (or reversal and refund) is reconciled from Stripe webhooks
+      const transfer = await startWithdrawalTransfer(withdrawalRequest, user.stripeConnectAccountId);
+      if (!transfer.success) {
+        return res.status(502).json({
+          message: `Withdrawal failed and your balance was restored: ${transfer.error}`,
+          withdrawal: transfer.withdrawal
+        });
       }
       
       res.status(201).json({
-        ...withdrawalRequest,
-        feeAmount,
-        netAmount,
-        estimatedArrival: payoutType === 'instant' ? 'Immediate' : '3-5 business days'
+        ...transfer.withdrawal,
+        estimatedArrival: payoutType === 'instant' ? 'Within 30 minutes' : '2-3 business days'
       });
     } catch (err: any) {
       console.error("Error processing withdrawal:", err);
@@ -1319,6 +1811,102 @@ export async function registerRoutes(
     }
   });
 
+  // Job run history across all leagues, optionally filtered by status
+  // Leagues whose ledger doesn't agree with their operational tables
+  app.get("/api/admin/reconciliation", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const leagues = await storage.getAllLeagues();
+      const reports = [];
+      for (const league of leagues) {
+        const report = await reconcileLeague(league);
+        if (report.mismatchCount > 0) {
+          reports.push({ ...report, leagueName: league.name });
+        }
+      }
+      res.json({ leaguesChecked: leagues.length, mismatched: reports });
+    } catch (err) {
+      console.error("Error reconciling leagues:", err);
+      res.status(500).json({ message: "Failed to reconcile leagues" });
+    }
+  });
+
+  app.get("/api/admin/jobs/runs", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const runs = await storage.getJobRuns({ status, limit: 200 });
+      res.json(runs);
+    } catch (err) {
+      console.error("Error fetching job runs:", err);
+      res.status(500).json({ message: "Failed to fetch job runs" });
+    }
+  });
+
+  // Audit log across all leagues, optionally narrowed to one
+  app.get("/api/admin/audit-events", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const filter = parseAuditFilter(req.query);
+      const leagueId = typeof req.query.leagueId === 'string' && req.query.leagueId
+        ? Number(req.query.leagueId)
+        : undefined;
+      if (leagueId !== undefined && !Number.isInteger(leagueId)) {
+        return res.status(400).json({ message: "leagueId must be a number", field: "leagueId" });
+      }
+      res.json(await storage.getAuditEvents({ ...filter, leagueId }));
+    } catch (err) {
+      console.error("Error fetching audit events:", err);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Queue purge jobs for archived leagues past their grace period
+  app.post("/api/admin/leagues/purge-expired", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const leagues = await getPurgeableLeagues();
+      for (const league of leagues) {
+        await enqueueJob(league.id, 'purge_league');
+      }
+      res.json({ queued: leagues.map(league => league.id) });
+    } catch (err) {
+      console.error("Error queueing league purges:", err);
+      res.status(500).json({ message: "Failed to queue league purges" });
+    }
+  });
+
+  // Queue a failed run again with a fresh set of attempts
+  app.post("/api/admin/jobs/runs/:id/retry", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const run = await storage.getJobRun(Number(req.params.id));
+      if (!run) {
+        return res.status(404).json({ message: "Job run not found" });
+      }
+      if (run.status !== 'failed') {
+        return res.status(400).json({ message: "Only failed runs can be retried" });
+      }
+
+      await storage.retryJobRun(run.id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error retrying job run:", err);
+      res.status(500).json({ message: "Failed to retry job run" });
+    }
+  });
+
+  // Queue a job for a league right away, e.g. { leagueId, jobType: 'finalize_week', payload: { week: 3 } }
+  app.post("/api/admin/jobs/run", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { leagueId, jobType, payload } = req.body;
+      if (!leagueId || !isJobType(jobType)) {
+        return res.status(400).json({ message: "leagueId and a valid jobType are required" });
+      }
+
+      const run = await enqueueJob(Number(leagueId), jobType, payload || {});
+      res.json(run);
+    } catch (err) {
+      console.error("Error queueing job:", err);
+      res.status(500).json({ message: "Failed to queue job" });
+    }
+  });
+
   // Make a user an admin (super_admin only - for initial setup, use database directly)
   app.post("/api/admin/promote", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
@@ -1351,25 +1939,59 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/stripe/create-payment-intent", isAuthenticated, async (req: any, res) => {
+  // Signature is checked against the raw body captured by express.json's verify hook
+  app.post("/api/stripe/webhook", async (req: any, res) => {
+    const signature = req.headers['stripe-signature'];
+    if (!signature) {
+      return res.status(400).json({ message: "Missing stripe-signature header" });
+    }
+
     try {
-      const { amount, leagueId } = req.body;
-      const stripe = await getUncachableStripeClient();
-      
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(Number(amount) * 100), // Convert to cents
-        currency: 'usd',
-        payment_method_types: ['card', 'us_bank_account'],
-        metadata: {
-          leagueId: String(leagueId),
-          userId: req.user.claims.sub
-        }
-      });
+      await WebhookHandlers.processWebhook(req.rawBody, String(signature));
+      res.json({ received: true });
+    } catch (err) {
+      if (err instanceof WebhookSignatureError) {
+        return res.status(400).json({ message: "Invalid webhook signature" });
+      }
+      // A 5xx makes Stripe redeliver the event later
+      console.error("Error processing Stripe webhook:", err);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // === TWILIO WEBHOOKS (delivery reports and inbound texts) ===
+  // Twilio signs the full URL it called, so it's rebuilt as seen from outside the proxy
+  const getTwilioWebhookUrl = (req: any) => {
+    const protocol = String(req.headers['x-forwarded-proto'] || req.protocol).split(',')[0];
+    return `${protocol}://${req.get('host')}${req.originalUrl}`;
+  };
 
-      res.json({ clientSecret: paymentIntent.client_secret });
+  app.post("/api/twilio/status", async (req: any, res) => {
+    try {
+      const { isValidTwilioRequest, handleStatusCallback } = await import('./twilio-webhooks');
+      if (!await isValidTwilioRequest(getTwilioWebhookUrl(req), req.body, req.headers['x-twilio-signature'])) {
+        return res.status(403).json({ message: "Invalid Twilio signature" });
+      }
+      await handleStatusCallback(req.body);
+      res.status(204).end();
     } catch (err) {
-      console.error("Error creating payment intent:", err);
-      res.status(500).json({ message: "Failed to create payment" });
+      console.error("Error processing Twilio status callback:", err);
+      res.status(500).json({ message: "Failed to process status callback" });
+    }
+  });
+
+  // Configured as the number's "A message comes in" webhook; replies with TwiML
+  app.post("/api/twilio/inbound", async (req: any, res) => {
+    try {
+      const { isValidTwilioRequest, handleInboundSms, toTwimlResponse } = await import('./twilio-webhooks');
+      if (!await isValidTwilioRequest(getTwilioWebhookUrl(req), req.body, req.headers['x-twilio-signature'])) {
+        return res.status(403).json({ message: "Invalid Twilio signature" });
+      }
+      const reply = await handleInboundSms(req.body);
+      res.type('text/xml').send(toTwimlResponse(reply));
+    } catch (err) {
+      console.error("Error processing inbound SMS:", err);
+      res.status(500).json({ message: "Failed to process inbound SMS" });
     }
   });
 
@@ -1473,9 +2095,9 @@ export async function registerRoutes(
     }
   });
 
-  // === ESPN INTEGRATION ===
-  // Fetch ESPN teams for mapping
-  app.get("/api/leagues/:id/espn-teams", isAuthenticated, async (req: any, res) => {
+  // === PLATFORM TEAM MAPPING ===
+  // Fetch platform teams for mapping
+  app.get("/api/leagues/:id/platform-teams", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const leagueId = Number(req.params.id);
@@ -1485,50 +2107,43 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can manage ESPN integration" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to manage team mappings" });
       }
 
-      const settings = league.settings || {};
-      if (!settings.espnLeagueId) {
-        return res.status(400).json({ message: "ESPN League ID not configured" });
+      const provider = getPlatformProvider(league.platform);
+      if (!provider || !provider.isLeagueConfigured(league)) {
+        return res.status(400).json({ message: "Platform integration not configured" });
       }
 
-      const { fetchEspnTeams } = await import('./espn-api');
-      const seasonId = settings.espnSeasonId || new Date().getFullYear().toString();
-      const cookies = settings.espnPrivateLeague ? {
-        espnS2: settings.espnS2,
-        swid: settings.espnSwid
-      } : undefined;
-
-      const result = await fetchEspnTeams(settings.espnLeagueId, seasonId, cookies);
+      const result = await provider.listTeams(league);
       
       if (!result.success) {
         return res.status(400).json({ message: result.error });
       }
 
-      res.json({ teams: result.teams });
+      res.json({ teams: result.data });
     } catch (err) {
-      console.error("Error fetching ESPN teams:", err);
-      res.status(500).json({ message: "Failed to fetch ESPN teams" });
+      console.error("Error fetching platform teams:", err);
+      res.status(500).json({ message: "Failed to fetch platform teams" });
     }
   });
 
-  // Update member's ESPN team mapping
-  app.patch("/api/leagues/:id/members/:memberId/espn-team", isAuthenticated, async (req: any, res) => {
+  // Update member's platform team mapping
+  app.patch("/api/leagues/:id/members/:memberId/platform-team", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const leagueId = Number(req.params.id);
       const memberId = Number(req.params.memberId);
-      const { espnTeamId } = req.body;
+      const { externalTeamId } = req.body;
 
       const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can update ESPN mappings" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to update team mappings" });
       }
 
       // Verify member belongs to this league
@@ -1537,11 +2152,11 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Member not found in this league" });
       }
 
-      await storage.updateMemberEspnTeamId(memberId, espnTeamId);
+      await storage.updateMemberExternalTeamId(memberId, externalTeamId);
       res.json({ success: true });
     } catch (err) {
-      console.error("Error updating ESPN team mapping:", err);
-      res.status(500).json({ message: "Failed to update ESPN team mapping" });
+      console.error("Error updating team mapping:", err);
+      res.status(500).json({ message: "Failed to update team mapping" });
     }
   });
 
@@ -1551,125 +2166,129 @@ export async function registerRoutes(
     try {
       const userId = req.user.claims.sub;
       const leagueId = Number(req.params.id);
-      const memberId = Number(req.params.memberId);
-      const { phoneNumber } = req.body;
+      const memberId = Number(req.params.memberId);
+      const { phoneNumber } = req.body;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to update member info" });
+      }
+
+      // Verify member belongs to this league
+      const member = league.members?.find((m: any) => m.id === memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found in this league" });
+      }
+
+      await storage.updateMemberPhoneNumber(memberId, phoneNumber);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error updating phone number:", err);
+      res.status(500).json({ message: "Failed to update phone number" });
+    }
+  });
+
+  // Send payment reminders to all unpaid members
+  app.post("/api/leagues/:id/send-reminders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const { type } = req.body; // 'pre_season', 'weekly', 'final'
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'send_reminders')) {
+        return res.status(403).json({ message: "You don't have permission to send reminders" });
+      }
+
+      const result = await sendDuesReminders(league, type || 'weekly');
+      res.json({ success: true, ...result });
+    } catch (err) {
+      console.error("Error sending reminders:", err);
+      res.status(500).json({ message: "Failed to send reminders" });
+    }
+  });
+
+  // Scheduled automation for a league: one entry per job type plus recent runs
+  app.get("/api/leagues/:id/jobs", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
 
       const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can update member info" });
+      if (!hasLeaguePermission(league, userId, 'manage_league')) {
+        return res.status(403).json({ message: "You don't have permission to view scheduled jobs" });
       }
 
-      // Verify member belongs to this league
-      const member = league.members?.find((m: any) => m.id === memberId);
-      if (!member) {
-        return res.status(404).json({ message: "Member not found in this league" });
-      }
+      const scheduled = await storage.getScheduledJobs(leagueId);
+      const schedules = Object.entries(DEFAULT_JOB_SCHEDULES).map(([jobType, defaultCron]) => {
+        const job = scheduled.find(j => j.jobType === jobType);
+        return {
+          jobType,
+          enabled: job?.enabled || false,
+          cronExpression: job?.cronExpression || defaultCron,
+          nextRunAt: job?.enabled ? job.nextRunAt : null,
+          lastRunAt: job?.lastRunAt || null
+        };
+      });
+      const runs = await storage.getJobRuns({ leagueId, limit: 20 });
 
-      await storage.updateMemberPhoneNumber(memberId, phoneNumber);
-      res.json({ success: true });
+      res.json({ schedules, runs });
     } catch (err) {
-      console.error("Error updating phone number:", err);
-      res.status(500).json({ message: "Failed to update phone number" });
+      console.error("Error fetching scheduled jobs:", err);
+      res.status(500).json({ message: "Failed to fetch scheduled jobs" });
     }
   });
 
-  // Send payment reminders to all unpaid members
-  app.post("/api/leagues/:id/send-reminders", isAuthenticated, async (req: any, res) => {
+  // Turn a scheduled job on/off or change its cron expression (UTC)
+  app.put("/api/leagues/:id/jobs/:jobType", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const leagueId = Number(req.params.id);
-      const { type } = req.body; // 'pre_season', 'weekly', 'final'
+      const { jobType } = req.params;
+      const { enabled, cronExpression } = req.body;
 
-      const league = await storage.getLeague(leagueId);
-      if (!league) {
-        return res.status(404).json({ message: "League not found" });
+      if (!isSchedulableJobType(jobType)) {
+        return res.status(400).json({ message: "Unknown job type" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can send reminders" });
+      const cron = cronExpression || DEFAULT_JOB_SCHEDULES[jobType];
+      const nextRunAt = isValidCron(cron) ? getNextCronRun(cron, new Date()) : null;
+      if (!nextRunAt) {
+        return res.status(400).json({ message: "Invalid cron expression", field: "cronExpression" });
       }
 
-      const unpaidMembers = await storage.getUnpaidMembersWithPhone(leagueId);
-      const results: any[] = [];
-      const entryFee = league.settings?.entryFee || league.settings?.seasonDues || 0;
-
-      // Import Twilio helper
-      const { sendSMS, isTwilioConfigured } = await import('./twilio');
-      const twilioReady = await isTwilioConfigured();
-
-      for (const member of unpaidMembers) {
-        const reminder = await storage.createPaymentReminder({
-          leagueId,
-          userId: member.userId,
-          type: type || 'weekly',
-          phoneNumber: member.phoneNumber || null
-        });
-
-        if (member.phoneNumber && twilioReady) {
-          // Build reminder message
-          let message = '';
-          if (type === 'pre_season') {
-            message = `Hey! Your fantasy league "${league.name}" is starting soon. Please pay your $${entryFee} entry fee to secure your spot. - LeagueVault`;
-          } else if (type === 'final') {
-            message = `FINAL NOTICE: Your $${entryFee} dues for "${league.name}" are overdue. Please pay immediately to avoid removal. - LeagueVault`;
-          } else {
-            message = `Reminder: Your $${entryFee} dues for "${league.name}" are still unpaid. Please pay at your earliest convenience. - LeagueVault`;
-          }
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
 
-          const smsResult = await sendSMS(member.phoneNumber, message);
-          
-          if (smsResult.success) {
-            await storage.updateReminderStatus(reminder.id, 'sent');
-            results.push({
-              memberId: member.id,
-              userId: member.userId,
-              phoneNumber: member.phoneNumber,
-              status: 'sent',
-              messageId: smsResult.messageId
-            });
-          } else {
-            await storage.updateReminderStatus(reminder.id, 'failed');
-            results.push({
-              memberId: member.id,
-              userId: member.userId,
-              phoneNumber: member.phoneNumber,
-              status: 'failed',
-              error: smsResult.error
-            });
-          }
-        } else if (member.phoneNumber && !twilioReady) {
-          results.push({
-            memberId: member.id,
-            userId: member.userId,
-            phoneNumber: member.phoneNumber,
-            status: 'pending',
-            message: 'Twilio not configured - reminder logged'
-          });
-        } else {
-          results.push({
-            memberId: member.id,
-            userId: member.userId,
-            status: 'no_phone',
-            message: 'No phone number on file'
-          });
-        }
+      if (!hasLeaguePermission(league, userId, 'manage_league')) {
+        return res.status(403).json({ message: "You don't have permission to schedule jobs" });
       }
 
-      const sentCount = results.filter(r => r.status === 'sent').length;
-      res.json({
-        success: true,
-        remindersCreated: results.length,
-        smsSent: sentCount,
-        twilioConfigured: twilioReady,
-        results
+      const job = await storage.upsertScheduledJob({
+        leagueId,
+        jobType,
+        cronExpression: cron,
+        enabled: enabled !== false,
+        nextRunAt
       });
+      res.json(job);
     } catch (err) {
-      console.error("Error sending reminders:", err);
-      res.status(500).json({ message: "Failed to send reminders" });
+      console.error("Error updating scheduled job:", err);
+      res.status(500).json({ message: "Failed to update scheduled job" });
     }
   });
 
@@ -1685,8 +2304,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can update league" });
+      if (!hasLeaguePermission(league, userId, 'manage_league')) {
+        return res.status(403).json({ message: "You don't have permission to update this league" });
       }
 
       await storage.updateLeagueStartDate(leagueId, new Date(startDate));
@@ -1708,8 +2327,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioner can view reminders" });
+      if (!hasLeaguePermission(league, userId, 'send_reminders')) {
+        return res.status(403).json({ message: "You don't have permission to view reminders" });
       }
 
       const reminders = await storage.getLeagueReminders(leagueId);
@@ -1732,8 +2351,7 @@ export async function registerRoutes(
       }
 
       // Check if user is a member of the league
-      const member = await storage.getLeagueMember(leagueId, userId);
-      if (!member && league.commissionerId !== userId) {
+      if (!isLeagueMember(league, userId)) {
         return res.status(403).json({ message: "You must be a member of this league" });
       }
 
@@ -1765,8 +2383,7 @@ export async function registerRoutes(
       }
 
       // Check if user is a member of the league
-      const member = await storage.getLeagueMember(leagueId, userId);
-      if (!member && league.commissionerId !== userId) {
+      if (!isLeagueMember(league, userId)) {
         return res.status(403).json({ message: "You must be a member of this league to post messages" });
       }
 
@@ -1794,8 +2411,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Message not found" });
       }
 
-      // Only the author or commissioner can delete
-      if (message.userId !== userId && league.commissionerId !== userId) {
+      // Only the author or someone who moderates the league can delete
+      if (message.userId !== userId && !hasLeaguePermission(league, userId, 'manage_league')) {
         return res.status(403).json({ message: "You can only delete your own messages" });
       }
 
@@ -1827,24 +2444,30 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can invite members" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to invite members" });
       }
 
-      const inviteToken = crypto.randomUUID();
       const invite = await storage.createLeagueInvite({
         leagueId,
         invitedBy: userId,
         contactType,
         contactValue,
-        inviteToken,
         teamName: teamName || null,
         ownerName: ownerName || null
       });
+      const inviteToken = await issueLinkToken({
+        purpose: 'invite',
+        leagueId,
+        subjectId: invite.id,
+        createdBy: userId,
+        expiresAt: invite.expiresAt
+      });
+      const inviteUrl = getAppUrl(`/invite/${inviteToken}`);
 
       // Create a placeholder league member immediately with contact info
-      const placeholderUserId = `invite_${invite.id}`;
-      await storage.addLeagueMember({
+      const placeholderUserId = getInvitePlaceholderUserId(invite.id);
+      const placeholder = await storage.addLeagueMember({
         leagueId,
         userId: placeholderUserId,
         role: 'member',
@@ -1855,62 +2478,26 @@ export async function registerRoutes(
         paidStatus: 'unpaid'
       });
 
-      let inviteSent = false;
-      let inviteMethod = '';
-      
-      console.log('=== INVITE DEBUG START ===');
-      console.log('Contact type:', contactType);
-      console.log('Contact value:', contactValue);
-      
-      if (contactType === 'phone') {
-        console.log('Attempting to send SMS invite...');
-        const { sendSMS, isTwilioConfigured, getTwilioFromPhoneNumber } = await import('./twilio');
-        
-        try {
-          const twilioReady = await isTwilioConfigured();
-          console.log('Twilio configured:', twilioReady);
-          
-          if (twilioReady) {
-            const fromNumber = await getTwilioFromPhoneNumber();
-            console.log('Twilio from number:', fromNumber);
-            
-            const baseUrl = process.env.REPLIT_DEV_DOMAIN 
-              ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
-              : 'https://your-app.replit.app';
-            const leagueUrl = `${baseUrl}/leagues/${leagueId}`;
-            const message = `You've been invited to pay your dues for ${league.name} on LeagueVault! Click here to pay your dues now.\n\n${leagueUrl}`;
-            
-            console.log('Sending invite SMS to:', contactValue);
-            console.log('Message:', message);
-            const smsResult = await sendSMS(contactValue, message);
-            console.log('SMS result:', JSON.stringify(smsResult));
-            
-            if (smsResult.success) {
-              await storage.updateInviteStatus(invite.id, 'sent');
-              inviteSent = true;
-              inviteMethod = 'sms';
-              console.log('Invite status updated to sent');
-            } else {
-              console.error('Failed to send invite SMS:', smsResult.error);
-            }
-          } else {
-            console.warn('Twilio not configured - invite SMS not sent');
-          }
-        } catch (smsError: any) {
-          console.error('SMS sending error:', smsError.message, smsError.stack);
-        }
-      } else if (contactType === 'email') {
-        // Email sending not configured - would require SendGrid/Resend setup
-        console.log('Email invite requested - email service not configured');
-        // Member is created but email not sent - show appropriate message
+      const notification = await notificationService.notify(placeholder, 'invite', {
+        leagueName: league.name,
+        url: inviteUrl,
+        purpose: 'join',
+        teamName: teamName || null,
+        expiresAt: invite.expiresAt
+      }, { channel: contactType === 'phone' ? 'sms' : 'email', sourceType: 'invite', sourceId: invite.id });
+
+      const inviteSent = isNotificationSent(notification);
+      if (inviteSent) {
+        await storage.updateInviteStatus(invite.id, 'sent');
       }
-      
-      console.log('=== INVITE DEBUG END ===');
+
       res.status(201).json({ 
         ...invite, 
         inviteSent, 
-        inviteMethod,
-        emailNotConfigured: contactType === 'email'
+        inviteMethod: inviteSent ? notification.channel : '',
+        notificationStatus: notification.status,
+        notificationError: notification.lastError,
+        emailNotConfigured: contactType === 'email' && notification.status === 'skipped'
       });
     } catch (err) {
       console.error("Error creating invite:", err);
@@ -1923,10 +2510,10 @@ export async function registerRoutes(
       const userId = req.user.claims.sub;
       const leagueId = Number(req.params.id);
       
-      // Authorization: Only commissioner can view invites
+      // Authorization: invites are managed with edit_members
       const league = await storage.getLeague(leagueId);
-      if (!league || league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can view invites" });
+      if (!league || !hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to view invites" });
       }
       
       const invites = await storage.getLeagueInvites(leagueId);
@@ -1945,11 +2532,12 @@ export async function registerRoutes(
       const inviteId = Number(req.params.inviteId);
       
       const league = await storage.getLeague(leagueId);
-      if (!league || league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can cancel invites" });
+      if (!league || !hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to cancel invites" });
       }
       
       await storage.updateInviteStatus(inviteId, 'cancelled');
+      await storage.revokeLinkTokensForSubject('invite', inviteId, 'Invite cancelled');
       res.json({ success: true, message: "Invite cancelled" });
     } catch (err) {
       console.error("Error cancelling invite:", err);
@@ -1962,7 +2550,9 @@ export async function registerRoutes(
     teamName: z.string().max(100).nullable().optional(),
     ownerName: z.string().max(100).nullable().optional(),
     phoneNumber: z.string().max(20).nullable().optional(),
-    email: z.string().email().max(255).nullable().optional().or(z.literal('').transform(() => null))
+    email: z.string().email().max(255).nullable().optional().or(z.literal('').transform(() => null)),
+    // null goes back to the league entry fee
+    amountOwed: z.coerce.number().min(0).nullable().optional()
   });
 
   app.patch("/api/leagues/:id/members/:memberId", isAuthenticated, async (req: any, res) => {
@@ -1975,16 +2565,16 @@ export async function registerRoutes(
       if (!parseResult.success) {
         return res.status(400).json({ message: "Invalid request data", errors: parseResult.error.flatten() });
       }
-      const { teamName, ownerName, phoneNumber, email } = parseResult.data;
+      const { teamName, ownerName, phoneNumber, email, amountOwed } = parseResult.data;
 
-      // Verify league exists and user is commissioner
+      // Verify league exists and user can edit members
       const league = await storage.getLeague(leagueId);
       if (!league) {
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can update member details" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to update member details" });
       }
 
       // Fetch fresh member data directly from database
@@ -1998,10 +2588,15 @@ export async function registerRoutes(
         teamName: teamName !== undefined ? (teamName || null) : member.teamName,
         ownerName: ownerName !== undefined ? (ownerName || null) : member.ownerName,
         phoneNumber: phoneNumber !== undefined ? (phoneNumber || null) : member.phoneNumber,
-        email: email !== undefined ? (email || null) : member.email
+        email: email !== undefined ? (email || null) : member.email,
+        amountOwed: amountOwed !== undefined ? (amountOwed === null ? null : amountOwed.toFixed(2)) : member.amountOwed
       };
 
-      const updatedMember = await storage.updateMemberDetails(memberId, updates);
+      let updatedMember = await storage.updateMemberDetails(memberId, updates);
+      if (updates.amountOwed !== member.amountOwed) {
+        await storage.refreshMemberDues(leagueId, member.userId);
+        updatedMember = (await storage.getLeagueMemberById(memberId)) || updatedMember;
+      }
       res.json(updatedMember);
     } catch (err) {
       console.error("Error updating member:", err);
@@ -2009,6 +2604,48 @@ export async function registerRoutes(
     }
   });
 
+  // === ASSIGN MEMBER ROLE (commissioner only, via administer_league) ===
+  app.patch("/api/leagues/:id/members/:memberId/role", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const memberId = Number(req.params.memberId);
+      const { role } = req.body;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'administer_league')) {
+        return res.status(403).json({ message: "Only the commissioner can assign roles" });
+      }
+
+      if (!isAssignableRole(role)) {
+        return res.status(400).json({ message: "Role must be co_commissioner, treasurer, auditor or member", field: "role" });
+      }
+
+      const member = league.members.find(m => m.id === memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found in this league" });
+      }
+
+      if (member.userId === league.commissionerId) {
+        return res.status(400).json({ message: "Transfer the commissioner role instead" });
+      }
+
+      // Imported teams nobody has claimed yet can't act on anything
+      if (role !== 'member' && isPlaceholderUserId(member.userId)) {
+        return res.status(400).json({ message: "This team hasn't been claimed by a member yet" });
+      }
+
+      res.json(await storage.updateMemberRole(memberId, role));
+    } catch (err) {
+      console.error("Error assigning role:", err);
+      res.status(500).json({ message: "Failed to assign role" });
+    }
+  });
+
   // === DELETE LEAGUE MEMBER ===
   app.delete("/api/leagues/:id/members/:memberId", isAuthenticated, async (req: any, res) => {
     try {
@@ -2021,8 +2658,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can remove members" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to remove members" });
       }
 
       const member = await storage.getLeagueMemberById(memberId);
@@ -2035,7 +2672,12 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Cannot remove yourself from the league. Transfer commissioner role first." });
       }
 
+      if (member.userId === league.commissionerId) {
+        return res.status(403).json({ message: "The commissioner can't be removed from the league" });
+      }
+
       await storage.deleteLeagueMember(memberId);
+      await storage.revokeLinkTokensForSubject('dues', memberId, 'Member removed');
       res.json({ success: true, message: "Member removed from league" });
     } catch (err) {
       console.error("Error deleting member:", err);
@@ -2043,6 +2685,201 @@ export async function registerRoutes(
     }
   });
 
+  // === SHARED LINKS (Invite, dues and LPS links sent to members) ===
+  app.get("/api/leagues/:id/links", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const league = await storage.getLeague(Number(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to view links" });
+      }
+
+      res.json(await getLeagueLinks(league));
+    } catch (err) {
+      console.error("Error fetching links:", err);
+      res.status(500).json({ message: "Failed to fetch links" });
+    }
+  });
+
+  app.post("/api/leagues/:id/links/:linkId/revoke", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const linkId = Number(req.params.linkId);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to revoke links" });
+      }
+
+      const link = await storage.getLinkToken(linkId);
+      if (!link || link.leagueId !== leagueId) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+
+      const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : 'Revoked by commissioner';
+      const revoked = await storage.revokeLinkToken(linkId, userId, reason);
+      if (!revoked) {
+        return res.status(409).json({ message: "This link has already been used or revoked" });
+      }
+      res.json(revoked);
+    } catch (err) {
+      console.error("Error revoking link:", err);
+      res.status(500).json({ message: "Failed to revoke link" });
+    }
+  });
+
+  // === NOTIFICATIONS ===
+  // Delivery log for the commissioner. Bodies carry live payment links, so they're left out.
+  app.get("/api/leagues/:id/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const league = await storage.getLeague(Number(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!hasLeaguePermission(league, userId, 'send_reminders')) {
+        return res.status(403).json({ message: "You don't have permission to view notifications" });
+      }
+
+      const notifications = await storage.getLeagueNotifications(league.id, 200);
+      res.json(notifications.map(({ body, html, ...notification }) => notification));
+    } catch (err) {
+      console.error("Error fetching notifications:", err);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  const channelPreferenceSchema = z.enum(NOTIFICATION_CHANNEL_PREFERENCES);
+  const notificationPreferencesSchema = z.object({
+    channel: channelPreferenceSchema.optional(),
+    events: z.record(z.enum(NOTIFICATION_EVENTS), channelPreferenceSchema).optional(),
+    quietHours: z.object({
+      start: z.number().int().min(0).max(23),
+      end: z.number().int().min(0).max(23),
+      timeZone: z.string().refine(isValidTimeZone, "Unknown time zone")
+    }).nullable().optional()
+  });
+
+  // Members set their own; nobody else can change how they're contacted
+  app.put("/api/leagues/:id/members/:memberId/notification-preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const leagueId = Number(req.params.id);
+      const memberId = Number(req.params.memberId);
+
+      const parseResult = notificationPreferencesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid notification preferences", errors: parseResult.error.flatten() });
+      }
+
+      const member = await storage.getLeagueMemberById(memberId);
+      if (!member || member.leagueId !== leagueId) {
+        return res.status(404).json({ message: "Member not found in this league" });
+      }
+      if (member.userId !== userId) {
+        return res.status(403).json({ message: "You can only change your own notification settings" });
+      }
+
+      res.json(await storage.updateMemberNotificationPreferences(memberId, parseResult.data));
+    } catch (err) {
+      console.error("Error updating notification preferences:", err);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // In-app notifications for the signed-in user, across their leagues
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getInAppNotifications(userId, 50));
+    } catch (err) {
+      console.error("Error fetching notifications:", err);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const ids = Array.isArray(req.body?.ids) ? req.body.ids.map(Number).filter(Number.isInteger) : null;
+      const marked = await storage.markNotificationsRead(userId, ids);
+      res.json({ success: true, marked });
+    } catch (err) {
+      console.error("Error marking notifications read:", err);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  // === ACCEPT INVITE (Public preview, sign-in required to accept) ===
+  const INVITE_ERROR_STATUS: Record<InviteErrorCode, number> = {
+    NOT_FOUND: 404,
+    EXPIRED: 410,
+    ALREADY_ACCEPTED: 410,
+    CANCELLED: 410,
+    ALREADY_MEMBER: 409,
+    LEAGUE_ARCHIVED: 409
+  };
+
+  app.get("/api/invites/:token", async (req: any, res) => {
+    try {
+      const result = await getInvitePreview(req.params.token, req.user?.claims?.sub);
+      if (!result.success || !result.preview) {
+        return res.status(result.code ? INVITE_ERROR_STATUS[result.code] : 500).json({ message: result.error, code: result.code });
+      }
+      res.json(result.preview);
+    } catch (err) {
+      console.error("Error fetching invite:", err);
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  app.post("/api/invites/:token/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await acceptInvite(req.params.token, userId);
+      if (!result.success || !result.member) {
+        return res.status(result.code ? INVITE_ERROR_STATUS[result.code] : 500).json({ message: result.error, code: result.code });
+      }
+      res.json({ leagueId: result.member.leagueId, member: result.member });
+    } catch (err) {
+      console.error("Error accepting invite:", err);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
+  // Answers a send the commissioner asked for by hand: 400 when the member
+  // can't be reached that way, 202 when it's held for quiet hours or retrying
+  const respondToNotification = (res: any, notification: Notification, sentMessage: string) => {
+    if (notification.status === 'skipped') {
+      return res.status(400).json({ message: notification.lastError, notificationId: notification.id });
+    }
+    if (notification.status === 'failed') {
+      return res.status(500).json({ message: notification.lastError || "Failed to send", notificationId: notification.id });
+    }
+    if (notification.status === 'pending') {
+      return res.status(202).json({
+        success: true,
+        scheduled: true,
+        method: notification.channel,
+        notificationId: notification.id,
+        message: notification.lastError
+          ? `Couldn't send yet (${notification.lastError}). It will be retried.`
+          : "It will go out when the member's quiet hours end."
+      });
+    }
+    return res.json({ success: true, method: notification.channel, notificationId: notification.id, messageId: notification.providerMessageId, message: sentMessage });
+  };
+
   // === RESEND INVITE TO MEMBER ===
   app.post("/api/leagues/:id/members/:memberId/resend-invite", isAuthenticated, async (req: any, res) => {
     try {
@@ -2056,8 +2893,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can resend invites" });
+      if (!hasLeaguePermission(league, userId, 'edit_members')) {
+        return res.status(403).json({ message: "You don't have permission to resend invites" });
       }
 
       const member = await storage.getLeagueMemberById(memberId);
@@ -2065,34 +2902,25 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Member not found in this league" });
       }
 
-      const paymentUrl = `${process.env.REPLIT_DEV_DOMAIN ? 'https://' + process.env.REPLIT_DEV_DOMAIN : 'http://localhost:5000'}/pay/${leagueId}`;
-      const inviteMessage = `You've been invited to pay your dues for ${league.name} on LeagueVault! Click here to pay your dues now.\n\n${paymentUrl}`;
-
-      if (method === 'sms') {
-        if (!member.phoneNumber) {
-          return res.status(400).json({ message: "Member has no phone number" });
-        }
-        const { sendSMS } = await import('./twilio');
-        const result = await sendSMS(member.phoneNumber, inviteMessage);
-        if (result.success) {
-          return res.json({ success: true, method: 'sms', message: `Invite sent via SMS to ${member.phoneNumber}` });
-        } else {
-          return res.status(500).json({ message: "Failed to send SMS" });
-        }
-      } else if (method === 'email') {
-        if (!member.email) {
-          return res.status(400).json({ message: "Member has no email" });
-        }
-        const { sendInviteEmail } = await import('./sendgrid');
-        const result = await sendInviteEmail(member.email, league.name, paymentUrl);
-        if (result.success) {
-          return res.json({ success: true, method: 'email', message: `Invite sent via email to ${member.email}` });
-        } else {
-          return res.status(500).json({ message: result.error || "Failed to send email" });
-        }
+      if (method !== 'sms' && method !== 'email') {
+        return res.status(400).json({ message: "Invalid method. Use 'sms' or 'email'" });
+      }
+      if (method === 'sms' && !member.phoneNumber) {
+        return res.status(400).json({ message: "Member has no phone number" });
+      }
+      if (method === 'email' && !member.email) {
+        return res.status(400).json({ message: "Member has no email" });
       }
 
-      return res.status(400).json({ message: "Invalid method. Use 'sms' or 'email'" });
+      const paymentToken = await issueLinkToken({ purpose: 'dues', leagueId, subjectId: member.id, createdBy: userId });
+      const notification = await notificationService.notify(member, 'invite', {
+        leagueName: league.name,
+        url: getAppUrl(`/pay-dues/${paymentToken}`),
+        purpose: 'dues'
+      }, { channel: method === 'sms' ? 'sms' : 'email', sourceType: 'member', sourceId: member.id });
+
+      return respondToNotification(res, notification,
+        method === 'sms' ? `Invite sent via SMS to ${member.phoneNumber}` : `Invite sent via email to ${member.email}`);
     } catch (err) {
       console.error("Error resending invite:", err);
       res.status(500).json({ message: "Failed to resend invite" });
@@ -2119,8 +2947,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can update league name" });
+      if (!hasLeaguePermission(league, userId, 'manage_league')) {
+        return res.status(403).json({ message: "You don't have permission to update the league name" });
       }
 
       await storage.updateLeagueName(leagueId, parseResult.data.name);
@@ -2140,7 +2968,7 @@ export async function registerRoutes(
 
       // Authorization: Only current commissioner can transfer
       const league = await storage.getLeague(leagueId);
-      if (!league || league.commissionerId !== userId) {
+      if (!league || !hasLeaguePermission(league, userId, 'administer_league')) {
         return res.status(403).json({ message: "Only the current commissioner can transfer this role" });
       }
 
@@ -2169,64 +2997,33 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can request payments" });
+      if (!hasLeaguePermission(league, userId, 'send_reminders')) {
+        return res.status(403).json({ message: "You don't have permission to request payments" });
       }
 
-      const baseUrl = process.env.REPLIT_DEV_DOMAIN 
-        ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
-        : 'https://your-app.replit.app';
-
       let sentCount = 0;
       let skippedCount = 0;
 
-      const { sendSMS, isTwilioConfigured } = await import('./twilio');
-      const { sendReminderEmail } = await import('./sendgrid');
-      const crypto = await import('crypto');
-      const twilioReady = await isTwilioConfigured();
-
       for (const member of league.members || []) {
         // Skip already paid members
         if (member.paidStatus === 'paid') continue;
 
-        const hasPhone = !!member.phoneNumber;
-        const hasEmail = !!member.email;
-
-        if (!hasPhone && !hasEmail) {
+        // A fresh link each time; links sent earlier keep working until they expire
+        const paymentToken = await issueLinkToken({ purpose: 'dues', leagueId, subjectId: member.id, createdBy: userId });
+        const notification = await notificationService.notify(member, 'dues_due', {
+          leagueName: league.name,
+          balance: describeDuesBalance(league, summarizeMemberDues(league, member)),
+          paymentUrl: getAppUrl(`/pay-dues/${paymentToken}`),
+          kind: 'individual'
+        }, { sourceType: 'member', sourceId: member.id });
+
+        // Held for quiet hours or retrying still counts as requested
+        if (notification.status === 'skipped' || notification.status === 'failed') {
           skippedCount++;
-          continue;
-        }
-
-        // Generate a unique payment token for this member
-        const paymentToken = crypto.randomBytes(32).toString('hex');
-        await storage.setMemberPaymentToken(member.id, paymentToken);
-        const paymentUrl = `${baseUrl}/pay-dues/${paymentToken}`;
-
-        let sent = false;
-
-        // Try SMS first if available
-        if (hasPhone && twilioReady) {
-          const message = `Hey, nerd. You still haven't paid your dues for ${league.name}. Pay up or shut up.\n\nPay here: ${paymentUrl}`;
-          const smsResult = await sendSMS(member.phoneNumber, message);
-          if (smsResult.success) {
-            sent = true;
-          }
-        }
-
-        // Try email if SMS wasn't sent or failed
-        if (!sent && hasEmail) {
-          const result = await sendReminderEmail(member.email, league.name, paymentUrl);
-          if (result.success) {
-            sent = true;
-          }
-        }
-
-        if (sent) {
+        } else {
           // Mark that payment request was sent (don't change paidStatus)
           await storage.updateMemberPaymentRequestSent(member.id, true);
           sentCount++;
-        } else {
-          skippedCount++;
         }
       }
 
@@ -2250,8 +3047,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      if (league.commissionerId !== userId) {
-        return res.status(403).json({ message: "Only commissioners can send reminders" });
+      if (!hasLeaguePermission(league, userId, 'send_reminders')) {
+        return res.status(403).json({ message: "You don't have permission to send reminders" });
       }
 
       const member = league.members?.find((m: any) => m.id === memberId);
@@ -2263,64 +3060,36 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Member has already paid" });
       }
 
-      const baseUrl = process.env.REPLIT_DEV_DOMAIN 
-        ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
-        : 'https://your-app.replit.app';
-      
-      // Generate a unique payment token for this member
-      const crypto = await import('crypto');
-      const paymentToken = crypto.randomBytes(32).toString('hex');
-      await storage.setMemberPaymentToken(memberId, paymentToken);
-      const paymentUrl = `${baseUrl}/pay-dues/${paymentToken}`;
-
-      if (method === 'email') {
-        if (!member.email) {
-          return res.status(400).json({ message: "Member does not have an email address" });
-        }
-        const { sendReminderEmail } = await import('./sendgrid');
-        const result = await sendReminderEmail(member.email, league.name, paymentUrl);
-        if (result.success) {
-          await storage.createPaymentReminder({
-            leagueId,
-            userId: member.userId,
-            type: 'individual',
-            email: member.email
-          });
-          // Mark payment request as sent
-          await storage.updateMemberPaymentRequestSent(memberId, true);
-          return res.json({ success: true, messageId: result.messageId, method: 'email' });
-        } else {
-          return res.status(500).json({ message: result.error || "Failed to send email" });
-        }
-      } else {
-        // Default to SMS
-        if (!member.phoneNumber) {
-          return res.status(400).json({ message: "Member does not have a phone number" });
-        }
+      if (method === 'email' && !member.email) {
+        return res.status(400).json({ message: "Member does not have an email address" });
+      }
+      // Default to SMS
+      if (method !== 'email' && !member.phoneNumber) {
+        return res.status(400).json({ message: "Member does not have a phone number" });
+      }
 
-        const { sendSMS, isTwilioConfigured } = await import('./twilio');
-        if (!await isTwilioConfigured()) {
-          return res.status(400).json({ message: "SMS not configured" });
-        }
+      const paymentToken = await issueLinkToken({ purpose: 'dues', leagueId, subjectId: memberId, createdBy: userId });
+      const notification = await notificationService.notify(member, 'dues_due', {
+        leagueName: league.name,
+        balance: describeDuesBalance(league, summarizeMemberDues(league, member)),
+        paymentUrl: getAppUrl(`/pay-dues/${paymentToken}`),
+        kind: 'individual'
+      }, { channel: method === 'email' ? 'email' : 'sms', sourceType: 'member', sourceId: memberId });
 
-        const message = `Hey, nerd. You still haven't paid your dues for ${league.name}. Pay up or shut up.\n\nPay here: ${paymentUrl}`;
-        
-        const smsResult = await sendSMS(member.phoneNumber, message);
-        
-        if (smsResult.success) {
-          await storage.createPaymentReminder({
-            leagueId,
-            userId: member.userId,
-            type: 'individual',
-            phoneNumber: member.phoneNumber
-          });
-          // Mark payment request as sent
-          await storage.updateMemberPaymentRequestSent(memberId, true);
-          res.json({ success: true, messageId: smsResult.messageId, method: 'sms' });
-        } else {
-          res.status(500).json({ message: smsResult.error || "Failed to send SMS" });
-        }
+      if (notification.status !== 'skipped' && notification.status !== 'failed') {
+        await storage.createPaymentReminder({
+          leagueId,
+          userId: member.userId,
+          type: 'individual',
+          channel: notification.channel,
+          phoneNumber: notification.channel === 'sms' ? member.phoneNumber : null,
+          email: notification.channel === 'email' ? notification.recipient : null,
+          notificationId: notification.id
+        });
+        // Mark payment request as sent
+        await storage.updateMemberPaymentRequestSent(memberId, true);
       }
+      return respondToNotification(res, notification, `Reminder sent via ${method === 'email' ? 'email' : 'SMS'}`);
     } catch (err) {
       console.error("Error sending reminder:", err);
       res.status(500).json({ message: "Failed to send reminder" });
@@ -2395,7 +3164,7 @@ export async function registerRoutes(
 
   // === WEEKLY AWARDS AUTOMATION ===
   // This endpoint processes HPS wallet credits and LPS SMS notifications
-  // Should be triggered every Tuesday after fantasy week ends
+  // Leagues normally run this via their scheduled finalize_week job; this is the manual trigger
   // Requires admin authentication
   app.post("/api/automation/process-weekly-awards", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
@@ -2410,115 +3179,31 @@ export async function registerRoutes(
         return res.status(404).json({ message: "League not found" });
       }
 
-      // Check if this week has already been processed
-      const existingEvent = await storage.getWeeklyAwardEvent(leagueId, week);
-      if (existingEvent?.hpsWalletCredited && existingEvent?.lpsSmssSent) {
-        return res.json({ 
-          message: "Week already processed",
-          event: existingEvent
-        });
-      }
-
-      // Get highest and lowest scorers for this week using dedicated methods
-      const highestScorer = await storage.getHighestScorerForWeek(leagueId, week);
-      const lowestScorer = await storage.getLowestScorerForWeek(leagueId, week);
-      
-      if (!highestScorer || !lowestScorer) {
+      const result = await weeklyAwardService.processWeek(league, week);
+      if (result.skippedReason === 'no_scores') {
         return res.status(400).json({ message: "No scores found for this week" });
       }
-
-      const weeklyHighScorePrize = league.settings?.weeklyHighScorePrize || league.settings?.weeklyPayoutAmount || 0;
-      const weeklyLowScoreFee = league.settings?.weeklyLowScoreFee || league.settings?.lowestScorerFee || 0;
-      const weeklyLowScoreFeeEnabled = league.settings?.weeklyLowScoreFeeEnabled || league.settings?.lowestScorerFeeEnabled || false;
-
-      let hpsWalletCredited = existingEvent?.hpsWalletCredited || false;
-      let lpsSmssSent = existingEvent?.lpsSmssSent || false;
-      let eventId = existingEvent?.id;
-
-      // Create or update event record
-      if (!existingEvent) {
-        const event = await storage.createWeeklyAwardEvent({
-          leagueId,
-          week,
-          highScoreUserId: highestScorer?.userId,
-          lowScoreUserId: lowestScorer?.userId,
-          highScorePrize: String(weeklyHighScorePrize),
-          lowScoreFee: String(weeklyLowScoreFee),
-          hpsWalletCredited: false,
-          lpsSmssSent: false,
+      if (result.skippedReason === 'non_authoritative_scores') {
+        return res.status(409).json({
+          message: "This week contains mock scores; awards are not processed for it",
+          code: 'NON_AUTHORITATIVE_SCORES'
         });
-        eventId = event.id;
-      }
-
-      // Process HPS wallet credit
-      if (!hpsWalletCredited && weeklyHighScorePrize > 0 && highestScorer) {
-        try {
-          const wallet = await storage.getOrCreateWallet(leagueId, highestScorer.userId);
-          await storage.creditWallet(
-            wallet.id,
-            String(weeklyHighScorePrize),
-            "payout",
-            null,
-            `Week ${week} High Score Bonus`
-          );
-          hpsWalletCredited = true;
-          console.log(`Credited $${weeklyHighScorePrize} to ${highestScorer.userId} wallet for Week ${week} HPS`);
-        } catch (err) {
-          console.error("Failed to credit HPS wallet:", err);
-        }
-      }
-
-      // Process LPS SMS notification
-      if (!lpsSmssSent && weeklyLowScoreFeeEnabled && weeklyLowScoreFee > 0 && lowestScorer) {
-        try {
-          // Find the member to get their phone number
-          const lowestMember = league.members.find(m => m.userId === lowestScorer.userId);
-          
-          if (lowestMember?.phoneNumber) {
-            // Create an LPS payment request
-            const paymentToken = crypto.randomUUID();
-            await storage.createLpsPaymentRequest({
-              leagueId,
-              userId: lowestScorer.userId,
-              week,
-              amount: String(weeklyLowScoreFee),
-              paymentToken,
-              phoneNumber: lowestMember.phoneNumber,
-            });
-
-            // Send SMS notification
-            const paymentUrl = `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : ''}/pay-lps/${paymentToken}`;
-            await sendSMS(
-              lowestMember.phoneNumber,
-              `You had the lowest score in ${league.name} for Week ${week}! You owe $${weeklyLowScoreFee}. Pay now: ${paymentUrl}`
-            );
-            
-            lpsSmssSent = true;
-            console.log(`Sent LPS SMS to ${lowestMember.phoneNumber} for Week ${week}`);
-          } else {
-            console.log(`No phone number for lowest scorer ${lowestScorer.userId} - will retry when contact info is added`);
-            // Don't mark as sent - allow retry when phone number is added
-          }
-        } catch (err) {
-          console.error("Failed to send LPS SMS:", err);
-        }
-      }
-
-      // Update event record
-      if (eventId) {
-        await storage.updateWeeklyAwardEvent(eventId, { hpsWalletCredited, lpsSmssSent });
       }
 
       res.json({
-        message: "Weekly awards processed",
+        message: result.alreadyProcessed ? "Week already processed" : "Weekly awards processed",
         week,
         leagueId,
-        hpsWalletCredited,
-        lpsSmssSent,
-        highestScorer: highestScorer?.userId,
-        lowestScorer: lowestScorer?.userId,
-        weeklyHighScorePrize,
-        weeklyLowScoreFee
+        hpsWalletCredited: result.event?.hpsWalletCredited || false,
+        lpsSmssSent: result.event?.lpsSmssSent || false,
+        highestScorers: result.hpsRecipients,
+        lowestScorers: result.lpsRecipients,
+        hpsNeedsReview: result.hpsNeedsReview,
+        hpsPendingApproval: result.hpsPendingApproval,
+        lpsNeedsReview: result.lpsNeedsReview,
+        weeklyHighScorePrize: result.hpsAmount,
+        weeklyLowScoreFee: result.lpsAmount,
+        event: result.event
       });
     } catch (err) {
       console.error("Error processing weekly awards:", err);
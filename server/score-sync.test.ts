@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { syncLeagueWeekScores } from "./score-sync";
+import { resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+const WEEK = 5;
+const SLEEPER_LEAGUE_ID = "998877665544332211";
+
+// Trimmed Sleeper API responses for a three-roster league
+const SLEEPER_USERS = [
+  { user_id: "s1", display_name: "owner", metadata: { team_name: "Owner FC" } },
+  { user_id: "s2", display_name: "alice", metadata: { team_name: "Alice Aces" } },
+  { user_id: "s3", display_name: "bob", metadata: {} }
+];
+const SLEEPER_ROSTERS = [
+  { roster_id: 1, owner_id: "s1", settings: { fpts: 500 } },
+  { roster_id: 2, owner_id: "s2", settings: { fpts: 520 } },
+  { roster_id: 3, owner_id: "s3", settings: { fpts: 480 } }
+];
+const SLEEPER_MATCHUPS = [
+  { roster_id: 1, matchup_id: 1, points: 101.4, starters_points: [101.4], players_points: { a: 101.4, b: 12 } },
+  { roster_id: 2, matchup_id: 1, points: 133.9, starters_points: [133.9], players_points: { c: 133.9, d: 4.5 } },
+  { roster_id: 3, matchup_id: null, points: 88.25, starters_points: [88.25], players_points: { e: 88.25 } }
+];
+
+// Answers Sleeper API requests from the fixtures above, with overrides by path
+function stubSleeper(overrides: Record<string, () => Response> = {}) {
+  const fixtures: Record<string, unknown> = {
+    [`league/${SLEEPER_LEAGUE_ID}/users`]: SLEEPER_USERS,
+    [`league/${SLEEPER_LEAGUE_ID}/rosters`]: SLEEPER_ROSTERS,
+    [`league/${SLEEPER_LEAGUE_ID}/matchups/${WEEK}`]: SLEEPER_MATCHUPS
+  };
+  const fetchMock = vi.fn(async (url: string) => {
+    const path = url.replace("https://api.sleeper.app/v1/", "");
+    if (overrides[path]) return overrides[path]();
+    if (!(path in fixtures)) return new Response("null", { status: 404 });
+    return new Response(JSON.stringify(fixtures[path]), { status: 200, headers: { "Content-Type": "application/json" } });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+async function sleeperLeague(externalTeamIds: Record<string, string>): Promise<LeagueWithMembers> {
+  return await createTestLeague({
+    platform: "sleeper",
+    settings: { sleeperLeagueId: SLEEPER_LEAGUE_ID, weeklyHighScorePrize: 20 },
+    memberIds: ["alice", "bob"],
+    externalTeamIds
+  });
+}
+
+// Nothing written and nothing paid
+async function expectUntouched(league: LeagueWithMembers) {
+  expect(await storage.getWeeklyScores(league.id, WEEK)).toHaveLength(0);
+  expect(await storage.getWeeklyAwardEvent(league.id, WEEK)).toBeUndefined();
+  expect((await storage.getLeagueTransactions(league.id)).payouts).toHaveLength(0);
+}
+
+describe("syncLeagueWeekScores", () => {
+  beforeEach(resetDatabase);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("writes every team's score from Sleeper and runs the weekly awards", async () => {
+    stubSleeper();
+    const league = await sleeperLeague({ commissioner: "1", alice: "2", bob: "3" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: true, scoresUpdated: 3, source: "sleeper" });
+    const scores = await storage.getWeeklyScores(league.id, WEEK);
+    expect(scores.map(s => [s.userId, s.score, s.benchScore, s.source])).toEqual(expect.arrayContaining([
+      ["alice", "133.90", "4.50", "sleeper"],
+      ["commissioner", "101.40", "12.00", "sleeper"],
+      ["bob", "88.25", "0.00", "sleeper"]
+    ]));
+    expect(result.automation?.hpsRecipients).toEqual(["alice"]);
+    expect((await storage.getMemberWallet(league.id, "alice"))?.availableBalance).toBe("20.00");
+  });
+
+  it("writes nothing when a mapped team has no Sleeper score", async () => {
+    stubSleeper({
+      [`league/${SLEEPER_LEAGUE_ID}/matchups/${WEEK}`]: () => Response.json(SLEEPER_MATCHUPS.filter(m => m.roster_id !== 3))
+    });
+    const league = await sleeperLeague({ commissioner: "1", alice: "2", bob: "3" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: false, code: "INCOMPLETE_SCORES" });
+    expect(result.missingTeams).toEqual([expect.objectContaining({ teamName: "Team bob", reason: "no_platform_score" })]);
+    await expectUntouched(league);
+  });
+
+  it("writes nothing when a member isn't mapped to a Sleeper roster", async () => {
+    stubSleeper();
+    const league = await sleeperLeague({ commissioner: "1", alice: "2" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: false, code: "INCOMPLETE_SCORES" });
+    expect(result.missingTeams).toEqual([expect.objectContaining({ teamName: "Team bob", reason: "unmapped" })]);
+    await expectUntouched(league);
+  });
+
+  it("writes nothing when Sleeper returns an error", async () => {
+    stubSleeper({
+      [`league/${SLEEPER_LEAGUE_ID}/matchups/${WEEK}`]: () => new Response("upstream timeout", { status: 503 })
+    });
+    const league = await sleeperLeague({ commissioner: "1", alice: "2", bob: "3" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: false, code: "PLATFORM_SYNC_FAILED", platformError: "Sleeper API error: 503" });
+    expect(result.missingTeams).toHaveLength(3);
+    expect(result.missingTeams?.every(t => t.reason === "platform_error")).toBe(true);
+    await expectUntouched(league);
+  });
+
+  it("writes nothing when Sleeper can't be reached", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => { throw new TypeError("fetch failed"); }));
+    const league = await sleeperLeague({ commissioner: "1", alice: "2", bob: "3" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: false, code: "PLATFORM_SYNC_FAILED", platformError: "fetch failed" });
+    await expectUntouched(league);
+  });
+
+  it("only fills in teams without a score, keeping manual entries", async () => {
+    stubSleeper();
+    const league = await sleeperLeague({ commissioner: "1", alice: "2", bob: "3" });
+    await storage.addWeeklyScore({ leagueId: league.id, userId: "bob", week: WEEK, score: "150.00", source: "manual" });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: true, scoresUpdated: 2 });
+    const bob = (await storage.getWeeklyScores(league.id, WEEK)).find(s => s.userId === "bob");
+    expect(bob).toMatchObject({ score: "150.00", source: "manual" });
+  });
+
+  it("refuses leagues without a platform rather than inventing scores", async () => {
+    const fetchMock = stubSleeper();
+    const league = await createTestLeague({ settings: { weeklyHighScorePrize: 20 }, memberIds: ["alice"] });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: false, code: "PLATFORM_NOT_CONFIGURED" });
+    expect(fetchMock).not.toHaveBeenCalled();
+    await expectUntouched(league);
+  });
+
+  it("pays nothing from sandbox mock scores", async () => {
+    const league = await createTestLeague({ settings: { weeklyHighScorePrize: 20, sandboxMode: true }, memberIds: ["alice"] });
+
+    const result = await syncLeagueWeekScores(league, WEEK);
+
+    expect(result).toMatchObject({ success: true, source: "mock", scoresUpdated: 2 });
+    expect(result.automation?.skippedReason).toBe("non_authoritative_scores");
+    expect((await storage.getLeagueTransactions(league.id)).payouts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,141 @@
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { getPlatformProvider } from "./platforms";
+import { weeklyAwardService, type WeeklyAwardResult } from "./weekly-awards";
+
+export interface MissingTeam {
+  memberId: number;
+  teamName: string;
+  reason: 'unmapped' | 'no_platform_score' | 'platform_error';
+}
+
+export type ScoreSyncErrorCode = 'PLATFORM_SYNC_FAILED' | 'INCOMPLETE_SCORES' | 'PLATFORM_NOT_CONFIGURED';
+
+export interface ScoreSyncResult {
+  success: boolean;
+  scoresUpdated?: number;
+  source?: string;
+  automation?: Omit<WeeklyAwardResult, 'event'>;
+  error?: string;
+  code?: ScoreSyncErrorCode;
+  platformError?: string;
+  needsAuth?: boolean;
+  missingTeams?: MissingTeam[];
+}
+
+// Syncs one week of scores from the league's platform, then runs the weekly
+// awards. Fails closed: if any team can't be scored, nothing is written. Mock
+// scores are only generated in sandbox mode. Used by the sync-scores route and
+// the scheduled sync job.
+export async function syncLeagueWeekScores(league: LeagueWithMembers, week: number): Promise<ScoreSyncResult> {
+  const leagueId = league.id;
+  const members = league.members || [];
+  let scoresUpdated = 0;
+  let dataSource: string;
+
+  // Get existing scores once for efficiency
+  const existingScores = await storage.getWeeklyScores(leagueId, week);
+  const hasExistingScore = (memberUserId: string) => existingScores.some(s => s.userId === memberUserId);
+
+  const provider = getPlatformProvider(league.platform);
+  if (provider && provider.isLeagueConfigured(league)) {
+    const platformResult = await provider.fetchWeekScores(league, week);
+
+    if (!platformResult.success || !platformResult.data) {
+      const platformError = platformResult.error || `Failed to fetch ${provider.displayName} scores`;
+      console.log(`[${provider.displayName}] Error fetching scores for league ${leagueId} week ${week}: ${platformError}`);
+      return {
+        success: false,
+        error: `${provider.displayName} sync failed: ${platformError}. No scores were written.`,
+        code: 'PLATFORM_SYNC_FAILED',
+        platformError,
+        needsAuth: platformResult.needsAuth || undefined,
+        missingTeams: members
+          .filter(m => !hasExistingScore(m.userId))
+          .map(m => ({ memberId: m.id, teamName: m.teamName || m.userId, reason: 'platform_error' as const }))
+      };
+    }
+
+    const platformScores = platformResult.data.weeklyScores;
+    const missingTeams: MissingTeam[] = [];
+    const newScores: Array<{ userId: string; score: number; benchScore?: number }> = [];
+
+    for (const member of members) {
+      if (hasExistingScore(member.userId)) continue;
+
+      const platformScore = member.externalTeamId
+        ? platformScores.get(Number(member.externalTeamId))
+        : undefined;
+
+      if (platformScore !== undefined) {
+        newScores.push({
+          userId: member.userId,
+          score: platformScore,
+          benchScore: platformResult.data.benchScores?.get(Number(member.externalTeamId))
+        });
+      } else {
+        missingTeams.push({
+          memberId: member.id,
+          teamName: member.teamName || member.userId,
+          reason: member.externalTeamId ? 'no_platform_score' : 'unmapped'
+        });
+      }
+    }
+
+    // Partial weeks would hand prizes to the wrong team, so write all or nothing
+    if (missingTeams.length > 0) {
+      return {
+        success: false,
+        error: `${missingTeams.length} team(s) have no ${provider.displayName} score for week ${week}. Map them to a ${provider.displayName} team or enter their scores manually. No scores were written.`,
+        code: 'INCOMPLETE_SCORES',
+        missingTeams
+      };
+    }
+
+    for (const newScore of newScores) {
+      await storage.addWeeklyScore({
+        leagueId,
+        userId: newScore.userId,
+        week,
+        score: String(newScore.score.toFixed(2)),
+        benchScore: newScore.benchScore !== undefined ? newScore.benchScore.toFixed(2) : null,
+        source: provider.platform
+      });
+      scoresUpdated++;
+    }
+    dataSource = provider.platform;
+  } else if (league.settings?.sandboxMode) {
+    // Demo leagues get random scores so the weekly flow can be tried out
+    for (const member of members) {
+      if (hasExistingScore(member.userId)) continue;
+
+      await storage.addWeeklyScore({
+        leagueId,
+        userId: member.userId,
+        week,
+        score: (80 + Math.random() * 100).toFixed(2),
+        source: 'mock'
+      });
+      scoresUpdated++;
+    }
+    dataSource = 'mock';
+  } else {
+    return {
+      success: false,
+      error: "This league isn't connected to a fantasy platform. Enter scores manually instead.",
+      code: 'PLATFORM_NOT_CONFIGURED'
+    };
+  }
+
+  // Award HPS/LPS for the week; safe to repeat when a week is re-synced
+  const { event, ...automation } = await weeklyAwardService.processWeek(league, week);
+
+  // Update lastScoreSync timestamp
+  const currentSettings = league.settings || {};
+  await storage.updateLeagueSettings(leagueId, {
+    ...currentSettings,
+    lastScoreSync: new Date().toISOString()
+  });
+
+  return { success: true, scoresUpdated, source: dataSource, automation };
+}
@@ -0,0 +1,267 @@
+import {
+  SEASON_PRIZES, SEASON_PRIZE_LABELS,
+  type LeagueWithMembers, type SeasonPayoutBatch, type SeasonPayoutLine, type SeasonPrize, type SeasonStanding
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getPlatformProvider } from "./platforms";
+import { toCents } from "./ledger";
+import { sendPayoutNotice } from "./payout-notices";
+import { getApprovalThreshold, requiresApproval } from "./approvals";
+
+// End-of-season payouts run in two steps: drafting calculates a batch from
+// final standings (pulled from the platform or entered by the commissioner)
+// and the league's prize settings; approving pays the whole batch at once.
+// Each league season has a single batch, so nothing is ever paid twice.
+// Under two-person control (an approval threshold), a second payout manager
+// approves the batch and prizes above the threshold wait in the approval queue.
+
+export type SeasonPayoutErrorCode =
+  | 'NO_PRIZES'
+  | 'STANDINGS_UNAVAILABLE'
+  | 'STANDINGS_INCOMPLETE'
+  | 'EXCEEDS_POT'
+  | 'ALREADY_PAID'
+  | 'NOT_FOUND'
+  | 'SELF_APPROVAL';
+
+export interface SeasonPayoutResult {
+  success: boolean;
+  batch?: SeasonPayoutBatch;
+  // True when approval found the batch already paid
+  alreadyPaid?: boolean;
+  // Prizes over the approval threshold, waiting in the approval queue
+  heldForApproval?: number;
+  error?: string;
+  code?: SeasonPayoutErrorCode;
+  needsAuth?: boolean;
+}
+
+export interface CommissionerStandingInput {
+  userId: string;
+  finalRank: number | null;
+  regularSeasonRank?: number | null;
+  pointsFor?: number | null;
+}
+
+const PLACE_RANKS: Partial<Record<SeasonPrize, number>> = {
+  first_place: 1,
+  second_place: 2,
+  third_place: 3
+};
+
+function getPrizeAmounts(league: LeagueWithMembers): Record<SeasonPrize, number> {
+  const settings = league.settings;
+  return {
+    first_place: Number(settings?.firstPlacePayout || 0),
+    second_place: Number(settings?.secondPlacePayout || 0),
+    third_place: Number(settings?.thirdPlacePayout || 0),
+    regular_season_winner: Number(settings?.regularSeasonWinnerPayout || 0),
+    most_points_for: Number(settings?.mostPointsForPayout || 0)
+  };
+}
+
+// Platform standings mapped onto members through externalTeamId
+async function fetchPlatformStandings(
+  league: LeagueWithMembers
+): Promise<{ success: boolean; standings?: SeasonStanding[]; error?: string; needsAuth?: boolean }> {
+  const provider = getPlatformProvider(league.platform);
+  if (!provider || !provider.isLeagueConfigured(league)) {
+    return { success: false, error: "This league isn't connected to a fantasy platform. Enter the final standings instead." };
+  }
+
+  const result = await provider.fetchStandings(league);
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error || `Failed to fetch ${provider.displayName} standings`, needsAuth: result.needsAuth };
+  }
+
+  const standings: SeasonStanding[] = [];
+  for (const standing of result.data) {
+    const member = league.members.find(m => m.externalTeamId === String(standing.teamId));
+    if (!member) continue;
+    standings.push({
+      userId: member.userId,
+      finalRank: standing.finalRank,
+      regularSeasonRank: standing.regularSeasonRank,
+      pointsFor: standing.pointsFor
+    });
+  }
+  return { success: true, standings };
+}
+
+// Points for defaults to the scores recorded in LeagueVault
+async function buildCommissionerStandings(
+  league: LeagueWithMembers,
+  input: CommissionerStandingInput[]
+): Promise<SeasonStanding[]> {
+  const memberInput = input.filter(s => league.members.some(m => m.userId === s.userId));
+  const seasonPoints = await storage.getSeasonPointsFor(
+    league.id,
+    memberInput.map(s => s.userId),
+    league.settings?.numberOfWeeks || 17
+  );
+  return memberInput.map(s => ({
+    userId: s.userId,
+    finalRank: s.finalRank ?? null,
+    regularSeasonRank: s.regularSeasonRank ?? null,
+    pointsFor: s.pointsFor ?? seasonPoints.get(s.userId) ?? 0
+  }));
+}
+
+// Teams level on the deciding stat share the prize
+function getPrizeWinners(standings: SeasonStanding[], prize: SeasonPrize): string[] {
+  const placeRank = PLACE_RANKS[prize];
+  if (placeRank) {
+    return standings.filter(s => s.finalRank === placeRank).map(s => s.userId);
+  }
+  if (prize === 'regular_season_winner') {
+    return standings.filter(s => s.regularSeasonRank === 1).map(s => s.userId);
+  }
+  const best = Math.max(...standings.map(s => s.pointsFor));
+  return best > 0 ? standings.filter(s => s.pointsFor === best).map(s => s.userId) : [];
+}
+
+// Splits round down to the cent; leftover cents stay in the treasury
+export function calculateSeasonPayoutLines(
+  league: LeagueWithMembers,
+  standings: SeasonStanding[],
+  potCents: number
+): { lines: SeasonPayoutLine[]; totalCents: number; missingPrizes: SeasonPrize[] } {
+  const amounts = getPrizeAmounts(league);
+  const isPercent = league.settings?.seasonPayoutMode === 'percent';
+
+  const lines: SeasonPayoutLine[] = [];
+  const missingPrizes: SeasonPrize[] = [];
+  let totalCents = 0;
+
+  for (const prize of SEASON_PRIZES) {
+    if (amounts[prize] <= 0) continue;
+    const prizeCents = isPercent
+      ? Math.floor(potCents * amounts[prize] / 100)
+      : toCents(amounts[prize]);
+
+    const winners = getPrizeWinners(standings, prize);
+    if (winners.length === 0) {
+      missingPrizes.push(prize);
+      continue;
+    }
+
+    const shareCents = Math.floor(prizeCents / winners.length);
+    for (const userId of winners) {
+      lines.push({ prize, userId, amount: (shareCents / 100).toFixed(2) });
+      totalCents += shareCents;
+    }
+  }
+
+  return { lines, totalCents, missingPrizes };
+}
+
+// Recalculates the season's draft batch; a paid batch can't be redrafted
+export async function draftSeasonPayouts(
+  league: LeagueWithMembers,
+  source: 'platform' | 'commissioner',
+  commissionerStandings: CommissionerStandingInput[],
+  createdBy: string
+): Promise<SeasonPayoutResult> {
+  if (Object.values(getPrizeAmounts(league)).every(amount => amount <= 0)) {
+    return { success: false, code: 'NO_PRIZES', error: "No season prizes are configured in league settings" };
+  }
+
+  const existing = await storage.getSeasonPayoutBatch(league.id, league.seasonYear);
+  if (existing?.status === 'paid') {
+    return { success: false, code: 'ALREADY_PAID', batch: existing, error: `Season ${league.seasonYear} payouts have already been paid` };
+  }
+
+  let standings: SeasonStanding[];
+  if (source === 'platform') {
+    const fetched = await fetchPlatformStandings(league);
+    if (!fetched.success || !fetched.standings) {
+      return { success: false, code: 'STANDINGS_UNAVAILABLE', error: fetched.error, needsAuth: fetched.needsAuth };
+    }
+    standings = fetched.standings;
+  } else {
+    standings = await buildCommissionerStandings(league, commissionerStandings);
+  }
+
+  const treasury = await storage.getLeagueTreasury(league.id);
+  const potCents = toCents(treasury.availableBalance);
+  const { lines, totalCents, missingPrizes } = calculateSeasonPayoutLines(league, standings, potCents);
+
+  if (missingPrizes.length > 0) {
+    return {
+      success: false,
+      code: 'STANDINGS_INCOMPLETE',
+      error: `Standings don't decide: ${missingPrizes.map(p => SEASON_PRIZE_LABELS[p]).join(', ')}`
+    };
+  }
+  if (totalCents > potCents) {
+    return {
+      success: false,
+      code: 'EXCEEDS_POT',
+      error: `Season prizes total $${(totalCents / 100).toFixed(2)} but the treasury holds $${treasury.availableBalance}`
+    };
+  }
+
+  const batch = await storage.saveSeasonPayoutDraft({
+    leagueId: league.id,
+    seasonYear: league.seasonYear,
+    standingsSource: source,
+    standings,
+    lines,
+    potAmount: (potCents / 100).toFixed(2),
+    totalAmount: (totalCents / 100).toFixed(2),
+    createdBy
+  });
+  if (!batch) {
+    return { success: false, code: 'ALREADY_PAID', error: `Season ${league.seasonYear} payouts have already been paid` };
+  }
+  return { success: true, batch };
+}
+
+// Pays the reviewed draft: payouts plus wallet credits in one transaction
+export async function approveSeasonPayouts(league: LeagueWithMembers, approvedBy: string): Promise<SeasonPayoutResult> {
+  const batch = await storage.getSeasonPayoutBatch(league.id, league.seasonYear);
+  if (!batch) {
+    return { success: false, code: 'NOT_FOUND', error: "Calculate season payouts before approving them" };
+  }
+  if (batch.status === 'paid') {
+    return { success: true, batch, alreadyPaid: true };
+  }
+  const selfApproval: SeasonPayoutResult = {
+    success: false,
+    code: 'SELF_APPROVAL',
+    error: "This league requires two-person approval, so another payout manager must approve the payouts you calculated"
+  };
+  const approvalThreshold = getApprovalThreshold(league);
+  if (approvalThreshold > 0 && batch.createdBy === approvedBy) return selfApproval;
+
+  const treasury = await storage.getLeagueTreasury(league.id);
+  if (toCents(batch.totalAmount) > toCents(treasury.availableBalance)) {
+    return {
+      success: false,
+      code: 'EXCEEDS_POT',
+      error: `The treasury holds $${treasury.availableBalance}, less than the $${batch.totalAmount} batch. Recalculate before approving.`
+    };
+  }
+
+  const paid = await storage.paySeasonPayoutBatch(batch.id, approvedBy, approvalThreshold);
+  if (!paid) {
+    // Another approval got there first, or the batch was recalculated by this user
+    const current = await storage.getSeasonPayoutBatch(league.id, league.seasonYear);
+    if (current?.status === 'draft') return selfApproval;
+    return { success: true, batch: current, alreadyPaid: true };
+  }
+
+  // Held prizes get their notice when the approval queue releases them
+  let heldForApproval = 0;
+  for (let i = 0; i < paid.lines.length; i++) {
+    const line = paid.lines[i];
+    if (requiresApproval(league, Number(line.amount))) {
+      heldForApproval++;
+      continue;
+    }
+    await sendPayoutNotice(league, line.userId, line.amount, `${paid.seasonYear} Season - ${SEASON_PRIZE_LABELS[line.prize]}`, paid.payoutIds[i]);
+  }
+
+  console.log(`[Season Payouts] Paid ${paid.lines.length - heldForApproval} prizes (${heldForApproval} held for approval) totalling $${paid.totalAmount} for league ${league.id} (${league.seasonYear})`);
+  return { success: true, batch: paid, heldForApproval };
+}
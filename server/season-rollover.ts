@@ -0,0 +1,124 @@
+import type { League, LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { isPlaceholderUserId, movePlaceholderUserId } from "./platforms";
+import { toCents } from "./ledger";
+
+// Starting a new season clones the league into a new row linked through
+// previousLeagueId: same settings and roster (roles, contact details, platform
+// team mappings) with everyone's dues reset. Unwithdrawn wallet balances can
+// move with their members. ESPN keeps its league ID and only changes season;
+// Yahoo and Sleeper issue a new league ID every season, so the commissioner
+// supplies it.
+
+export type SeasonRolloverErrorCode = 'INVALID_SEASON' | 'PLATFORM_ID_REQUIRED' | 'ALREADY_ROLLED_OVER';
+
+export interface SeasonRolloverOptions {
+  seasonYear?: number;
+  name?: string;
+  startDate?: Date | null;
+  carryOverBalances: boolean;
+  yahooLeagueKey?: string;
+  sleeperLeagueId?: string;
+}
+
+export interface SeasonRolloverResult {
+  success: boolean;
+  league?: League;
+  carriedOver?: { userId: string; amount: string }[];
+  error?: string;
+  code?: SeasonRolloverErrorCode;
+}
+
+export interface SeasonRolloverPreview {
+  nextSeasonYear: number;
+  nextLeague: League | null;
+  walletsWithBalance: number;
+  carryoverTotal: string;
+}
+
+type PlatformPointer = Pick<League, 'externalLeagueId'> & { settings: Partial<NonNullable<League['settings']>> };
+
+// Where the new season lives on the league's platform
+function getNextSeasonPlatform(
+  league: League,
+  seasonYear: number,
+  options: SeasonRolloverOptions
+): PlatformPointer | { error: string } {
+  switch (league.platform) {
+    case 'espn':
+      return { externalLeagueId: league.externalLeagueId, settings: { espnSeasonId: String(seasonYear) } };
+    case 'yahoo': {
+      const match = options.yahooLeagueKey?.trim().match(/^\d+\.l\.(\d+)$/);
+      if (!match) return { error: "Enter the Yahoo league key for the new season (e.g. 449.l.123456)" };
+      return { externalLeagueId: match[1], settings: { yahooLeagueKey: options.yahooLeagueKey!.trim() } };
+    }
+    case 'sleeper': {
+      const sleeperLeagueId = options.sleeperLeagueId?.trim();
+      if (!sleeperLeagueId || !/^\d+$/.test(sleeperLeagueId)) return { error: "Enter the Sleeper league ID for the new season" };
+      return { externalLeagueId: sleeperLeagueId, settings: { sleeperLeagueId } };
+    }
+    default:
+      return { externalLeagueId: league.externalLeagueId, settings: {} };
+  }
+}
+
+export async function getSeasonRolloverPreview(league: League): Promise<SeasonRolloverPreview> {
+  const [nextLeague, wallets] = await Promise.all([
+    storage.getNextSeasonLeague(league.id),
+    storage.getLeagueWallets(league.id)
+  ]);
+  const funded = wallets.filter(w => toCents(w.availableBalance) > 0);
+
+  return {
+    nextSeasonYear: league.seasonYear + 1,
+    nextLeague: nextLeague || null,
+    walletsWithBalance: funded.length,
+    carryoverTotal: (funded.reduce((sum, w) => sum + toCents(w.availableBalance), 0) / 100).toFixed(2)
+  };
+}
+
+export async function startNextSeason(
+  league: LeagueWithMembers,
+  options: SeasonRolloverOptions
+): Promise<SeasonRolloverResult> {
+  const seasonYear = options.seasonYear ?? league.seasonYear + 1;
+  if (!Number.isInteger(seasonYear) || seasonYear <= league.seasonYear) {
+    return { success: false, code: 'INVALID_SEASON', error: `The new season must be after ${league.seasonYear}` };
+  }
+
+  const platform = getNextSeasonPlatform(league, seasonYear, options);
+  if ('error' in platform) {
+    return { success: false, code: 'PLATFORM_ID_REQUIRED', error: platform.error };
+  }
+
+  const outcome = await storage.rolloverLeague({
+    league: {
+      name: options.name?.trim() || league.name,
+      commissionerId: league.commissionerId,
+      platform: league.platform,
+      externalLeagueId: platform.externalLeagueId,
+      seasonYear,
+      startDate: options.startDate ?? null,
+      settings: { ...league.settings!, ...platform.settings },
+      previousLeagueId: league.id
+    },
+    members: league.members.map(member => ({
+      userId: member.userId,
+      role: member.role,
+      teamName: member.teamName,
+      ownerName: member.ownerName,
+      externalTeamId: member.externalTeamId,
+      phoneNumber: member.phoneNumber,
+      email: member.email,
+      paidStatus: 'unpaid'
+    })),
+    remapUserId: (userId, leagueId) => isPlaceholderUserId(userId) ? movePlaceholderUserId(userId, leagueId) : userId,
+    carryOverBalances: options.carryOverBalances
+  });
+  if (!outcome) {
+    return { success: false, code: 'ALREADY_ROLLED_OVER', error: "This league has already been carried into a new season" };
+  }
+
+  console.log(`[Rollover] League ${league.id} rolled into ${seasonYear} as league ${outcome.league.id}; ${outcome.carriedOver.length} balances carried over`);
+  return { success: true, league: outcome.league, carriedOver: outcome.carriedOver };
+}
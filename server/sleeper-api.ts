@@ -0,0 +1,263 @@
+const SLEEPER_API_BASE = 'https://api.sleeper.app/v1';
+
+interface SleeperTeam {
+  id: number;
+  name: string;
+  ownerName?: string;
+  totalPoints: number;
+}
+
+export interface SleeperMatchup {
+  week: number;
+  teams: Array<{ teamId: number; points: number }>;
+}
+
+interface SleeperScoreData {
+  teams: SleeperTeam[];
+  weeklyScores: Map<number, number>;
+  // Points scored by players left on the bench, for tiebreakers
+  benchScores: Map<number, number>;
+  matchups: SleeperMatchup[];
+}
+
+export interface SleeperLeagueInfo {
+  name: string;
+  seasonId: number;
+  teams: Array<{
+    id: number;
+    name: string;
+    ownerName?: string;
+  }>;
+}
+
+// Accepts a bare league ID or a URL like https://sleeper.com/leagues/123456789012345678/league
+export function parseSleeperLeagueId(leagueUrl: string): string | null {
+  const match = leagueUrl.match(/\/leagues\/(\d+)/) || leagueUrl.trim().match(/^(\d+)$/);
+  return match ? match[1] : null;
+}
+
+async function sleeperGet(path: string): Promise<{ success: boolean; data?: any; error?: string }> {
+  const response = await fetch(`${SLEEPER_API_BASE}/${path}`, {
+    headers: { 'Accept': 'application/json' }
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return { success: false, error: 'Sleeper league not found. Check your League ID.' };
+    }
+    return { success: false, error: `Sleeper API error: ${response.status}` };
+  }
+
+  // Sleeper answers unknown league IDs with a 200 and a null body
+  const data = await response.json();
+  if (data === null) {
+    return { success: false, error: 'Sleeper league not found. Check your League ID.' };
+  }
+
+  return { success: true, data };
+}
+
+// Teams are rosters; names come from the owning user's team_name or display name
+function buildSleeperTeams(rosters: any[], users: any[]): SleeperTeam[] {
+  const usersById: Record<string, any> = {};
+  for (const user of users || []) {
+    usersById[user.user_id] = user;
+  }
+
+  return (rosters || []).map((roster: any) => {
+    const owner = roster.owner_id ? usersById[roster.owner_id] : undefined;
+    const points = (roster.settings?.fpts || 0) + (roster.settings?.fpts_decimal || 0) / 100;
+    return {
+      id: roster.roster_id,
+      name: owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`,
+      ownerName: owner?.display_name || undefined,
+      totalPoints: points
+    };
+  });
+}
+
+export async function fetchSleeperLeagueInfo(
+  leagueId: string
+): Promise<{ success: boolean; data?: SleeperLeagueInfo; error?: string }> {
+  try {
+    const leagueResult = await sleeperGet(`league/${leagueId}`);
+    if (!leagueResult.success) {
+      return { success: false, error: leagueResult.error };
+    }
+
+    const [usersResult, rostersResult] = await Promise.all([
+      sleeperGet(`league/${leagueId}/users`),
+      sleeperGet(`league/${leagueId}/rosters`)
+    ]);
+    if (!usersResult.success || !rostersResult.success) {
+      return { success: false, error: usersResult.error || rostersResult.error };
+    }
+
+    const teams = buildSleeperTeams(rostersResult.data, usersResult.data);
+
+    return {
+      success: true,
+      data: {
+        name: leagueResult.data.name || `Sleeper League ${leagueId}`,
+        seasonId: Number(leagueResult.data.season) || new Date().getFullYear(),
+        teams: teams.map(t => ({ id: t.id, name: t.name, ownerName: t.ownerName }))
+      }
+    };
+  } catch (error) {
+    console.error('Sleeper API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Sleeper league info'
+    };
+  }
+}
+
+export async function fetchSleeperScores(
+  leagueId: string,
+  week: number
+): Promise<{ success: boolean; data?: SleeperScoreData; error?: string }> {
+  try {
+    const [usersResult, rostersResult, matchupsResult] = await Promise.all([
+      sleeperGet(`league/${leagueId}/users`),
+      sleeperGet(`league/${leagueId}/rosters`),
+      sleeperGet(`league/${leagueId}/matchups/${week}`)
+    ]);
+    if (!usersResult.success || !rostersResult.success || !matchupsResult.success) {
+      return { success: false, error: usersResult.error || rostersResult.error || matchupsResult.error };
+    }
+
+    const teams = buildSleeperTeams(rostersResult.data, usersResult.data);
+
+    // Keyed by roster ID, which is what members store as externalTeamId
+    const weeklyScores = new Map<number, number>();
+    const benchScores = new Map<number, number>();
+    // Sleeper returns one entry per roster; rosters facing each other share a matchup_id
+    const matchupsById = new Map<number, SleeperMatchup>();
+    for (const entry of matchupsResult.data || []) {
+      if (entry.roster_id === undefined || entry.points === null || entry.points === undefined) {
+        continue;
+      }
+      const points = Number(entry.points) || 0;
+      weeklyScores.set(entry.roster_id, points);
+
+      // players_points covers the whole roster, starters included
+      if (entry.players_points && Array.isArray(entry.starters_points)) {
+        const rosterPoints = Object.values(entry.players_points).reduce((sum: number, p: any) => sum + (Number(p) || 0), 0);
+        const starterPoints = entry.starters_points.reduce((sum: number, p: any) => sum + (Number(p) || 0), 0);
+        benchScores.set(entry.roster_id, Math.round((rosterPoints - starterPoints) * 100) / 100);
+      }
+
+      // Bye weeks have no matchup_id
+      if (entry.matchup_id) {
+        const matchup = matchupsById.get(entry.matchup_id) || { week, teams: [] };
+        matchup.teams.push({ teamId: entry.roster_id, points });
+        matchupsById.set(entry.matchup_id, matchup);
+      }
+    }
+
+    return {
+      success: true,
+      data: { teams, weeklyScores, benchScores, matchups: Array.from(matchupsById.values()) }
+    };
+  } catch (error) {
+    console.error('Sleeper API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Sleeper data'
+    };
+  }
+}
+
+// Regular-season schedule: every week before the playoffs start
+export async function fetchSleeperSchedule(
+  leagueId: string
+): Promise<{ success: boolean; matchups?: SleeperMatchup[]; error?: string }> {
+  try {
+    const leagueResult = await sleeperGet(`league/${leagueId}`);
+    if (!leagueResult.success) {
+      return { success: false, error: leagueResult.error };
+    }
+
+    const lastWeek = (Number(leagueResult.data.settings?.playoff_week_start) || 15) - 1;
+
+    const matchups: SleeperMatchup[] = [];
+    for (let week = 1; week <= lastWeek; week++) {
+      const result = await sleeperGet(`league/${leagueId}/matchups/${week}`);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const matchupsById = new Map<number, SleeperMatchup>();
+      for (const entry of result.data || []) {
+        if (!entry.matchup_id) continue;
+        const matchup = matchupsById.get(entry.matchup_id) || { week, teams: [] };
+        matchup.teams.push({ teamId: entry.roster_id, points: Number(entry.points) || 0 });
+        matchupsById.set(entry.matchup_id, matchup);
+      }
+      matchups.push(...Array.from(matchupsById.values()));
+    }
+
+    return { success: true, matchups };
+  } catch (error) {
+    console.error('Sleeper API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Sleeper schedule'
+    };
+  }
+}
+
+export interface SleeperStanding {
+  teamId: number;
+  finalRank: number | null;
+  regularSeasonRank: number | null;
+  pointsFor: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Regular-season rank is by wins, then points for. Final ranks come from the
+// winners bracket's placement games (p = 1 is the final, p = 3 the 3rd-place game).
+export async function fetchSleeperStandings(
+  leagueId: string
+): Promise<{ success: boolean; standings?: SleeperStanding[]; error?: string }> {
+  try {
+    const [rostersResult, bracketResult] = await Promise.all([
+      sleeperGet(`league/${leagueId}/rosters`),
+      sleeperGet(`league/${leagueId}/winners_bracket`)
+    ]);
+    if (!rostersResult.success) {
+      return { success: false, error: rostersResult.error };
+    }
+
+    const finalRanks = new Map<number, number>();
+    for (const game of (bracketResult.success ? bracketResult.data : []) || []) {
+      if (!game.p || !game.w || !game.l) continue;
+      finalRanks.set(game.w, game.p);
+      finalRanks.set(game.l, game.p + 1);
+    }
+
+    const standings: SleeperStanding[] = (rostersResult.data || []).map((roster: any) => ({
+      teamId: roster.roster_id,
+      finalRank: finalRanks.get(roster.roster_id) ?? null,
+      regularSeasonRank: null,
+      pointsFor: (roster.settings?.fpts || 0) + (roster.settings?.fpts_decimal || 0) / 100,
+      wins: roster.settings?.wins || 0,
+      losses: roster.settings?.losses || 0,
+      ties: roster.settings?.ties || 0
+    }));
+
+    [...standings]
+      .sort((a, b) => (b.wins + b.ties / 2) - (a.wins + a.ties / 2) || b.pointsFor - a.pointsFor)
+      .forEach((standing, index) => { standing.regularSeasonRank = index + 1; });
+
+    return { success: true, standings };
+  } catch (error) {
+    console.error('Sleeper API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Sleeper standings'
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { and, eq, sql } from "drizzle-orm";
+import { payments, payouts } from "@shared/schema";
+import { db } from "./db";
+import { InsufficientBalanceError, storage } from "./storage";
+import { captureQueries, resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+describe("wallet withdrawals", () => {
+  beforeEach(resetDatabase);
+
+  async function fundedWallet(balance: string) {
+    const wallet = await storage.getOrCreateWallet(1, "winner");
+    await storage.creditWallet(wallet.id, balance, "payout", null, "Week 1 High Score");
+    return wallet;
+  }
+
+  function requestWithdrawal(walletId: number, amount: string) {
+    return storage.createWithdrawalRequest(
+      { walletId, leagueId: 1, userId: "winner", amount, netAmount: amount },
+      `Withdrawal of $${amount}`
+    );
+  }
+
+  it("locks the wallet row before checking and debiting the balance", async () => {
+    const wallet = await fundedWallet("100.00");
+
+    const queries = await captureQueries(() => requestWithdrawal(wallet.id, "15.00"));
+
+    const lock = queries.findIndex(q => /^select .* from "member_wallets" .* for update$/i.test(q));
+    const debit = queries.findIndex(q => /^update "member_wallets"/i.test(q));
+    expect(lock).toBeGreaterThanOrEqual(0);
+    expect(debit).toBeGreaterThan(lock);
+  });
+
+  // PGlite runs these one transaction at a time; the test above checks the lock
+  it("never lets parallel withdrawals overdraw the wallet", async () => {
+    const wallet = await fundedWallet("100.00");
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => requestWithdrawal(wallet.id, "15.00"))
+    );
+
+    const succeeded = results.filter(r => r.status === "fulfilled");
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    expect(succeeded).toHaveLength(6);
+    expect(rejected).toHaveLength(4);
+    for (const result of rejected) {
+      expect(result.reason).toBeInstanceOf(InsufficientBalanceError);
+    }
+
+    const after = await storage.getMemberWalletById(wallet.id);
+    expect(after?.availableBalance).toBe("10.00");
+    expect(after?.totalWithdrawn).toBe("90.00");
+
+    const transactions = await storage.getWalletTransactions(wallet.id);
+    for (const transaction of transactions) {
+      expect(Number(transaction.balanceAfter)).toBeGreaterThanOrEqual(0);
+    }
+    expect(transactions.filter(t => t.type === "debit")).toHaveLength(6);
+  });
+
+  it("returns a failed withdrawal to the wallet with a wallet audit", async () => {
+    const wallet = await fundedWallet("100.00");
+    const withdrawal = await requestWithdrawal(wallet.id, "40.00");
+
+    await storage.failWithdrawalAndRefund(withdrawal.id, "Transfer failed");
+    expect(await storage.failWithdrawalAndRefund(withdrawal.id, "Transfer failed")).toBeUndefined();
+
+    const after = await storage.getMemberWalletById(wallet.id);
+    expect(after).toMatchObject({ availableBalance: "100.00", totalWithdrawn: "0.00", totalEarnings: "100.00" });
+    const audits = await storage.getAuditEvents({ leagueId: 1, entityType: "wallet" });
+    expect(audits.map(a => [a.action, a.after?.availableBalance, a.after?.sourceType])).toEqual([
+      ["credit", "100.00", "refund"],
+      ["debit", "60.00", "withdrawal"],
+      ["credit", "100.00", "payout"]
+    ]);
+  });
+
+  it("records nothing for a withdrawal the balance can't cover", async () => {
+    const wallet = await fundedWallet("20.00");
+
+    await expect(requestWithdrawal(wallet.id, "20.01")).rejects.toBeInstanceOf(InsufficientBalanceError);
+
+    expect(await storage.getUserWithdrawals("winner")).toHaveLength(0);
+    expect((await storage.getMemberWalletById(wallet.id))?.availableBalance).toBe("20.00");
+  });
+});
+
+describe("legacy ledger backfill", () => {
+  beforeEach(resetDatabase);
+
+  // Rows written straight to their tables, as they were before the ledger
+  async function seedLegacyMoney(leagueId: number) {
+    await db.insert(payments).values([
+      { leagueId, userId: "alice", amount: "100.00", status: "completed" },
+      { leagueId, userId: "bob", amount: "100.00", status: "completed" },
+      { leagueId, userId: "carol", amount: "100.00", status: "pending" },
+      { leagueId, userId: "dave", amount: "100.00", status: "failed" }
+    ]);
+    await db.insert(payouts).values([
+      { leagueId, userId: "alice", amount: "25.00", reason: "weekly_high_score", week: 1, status: "paid" },
+      { leagueId, userId: "bob", amount: "40.00", reason: "other", status: "pending" }
+    ]);
+  }
+
+  // What the treasury showed before it read from the ledger
+  async function legacyTreasuryBalance(leagueId: number) {
+    const [inflow] = await db.select({ total: sql<string>`COALESCE(SUM(amount), 0)` })
+      .from(payments).where(and(eq(payments.leagueId, leagueId), eq(payments.status, "completed")));
+    const [outflow] = await db.select({ total: sql<string>`COALESCE(SUM(amount), 0)` })
+      .from(payouts).where(and(eq(payouts.leagueId, leagueId), eq(payouts.status, "paid")));
+    return (Number(inflow.total) - Number(outflow.total)).toFixed(2);
+  }
+
+  it("posts legacy payments and payouts so the treasury keeps its balance", async () => {
+    const league = await createTestLeague({ memberIds: ["alice", "bob", "carol", "dave"] });
+    await seedLegacyMoney(league.id);
+    const before = await legacyTreasuryBalance(league.id);
+    expect(before).toBe("175.00");
+    expect((await storage.getLeagueTreasury(league.id)).availableBalance).toBe("0.00");
+
+    expect(await storage.postLegacyLedgerEntries()).toBe(3);
+
+    expect(await storage.getLeagueTreasury(league.id)).toEqual({ totalInflow: "200.00", totalOutflow: "25.00", availableBalance: before });
+    expect(await storage.getUnpostedPaymentIds(league.id)).toEqual([]);
+    expect(await storage.getUnpostedPayoutIds(league.id)).toEqual([]);
+    expect(await storage.getUnbalancedLedgerTransactionIds(league.id)).toEqual([]);
+
+    // Rerunning at the next startup posts nothing
+    expect(await storage.postLegacyLedgerEntries()).toBe(0);
+    expect((await storage.getLeagueTreasury(league.id)).availableBalance).toBe(before);
+  });
+});
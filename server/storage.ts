@@ -17,10 +17,106 @@ import {
   type LeagueMessage,
   type LeagueInvite,
   type LeagueWithMembers,
-  type WeeklyAwardEvent, type InsertWeeklyAwardEvent
+  type WeeklyAwardEvent, type InsertWeeklyAwardEvent,
+  scheduledJobs, jobRuns,
+  type ScheduledJob, type InsertScheduledJob,
+  type JobRun, type InsertJobRun,
+  ledgerTransactions, ledgerEntries,
+  type LedgerAccount,
+  refunds,
+  type Refund, type InsertRefund,
+  seasonPayoutBatches, SEASON_PRIZE_LABELS,
+  type SeasonPayoutBatch, type InsertSeasonPayoutBatch,
+  approvalRequests,
+  type ApprovalRequest,
+  auditEvents,
+  type AuditEventWithActor, type AuditEntityType,
+  leagueExports, LEAGUE_INVITE_EXPIRY_DAYS,
+  type LeagueExport,
+  linkTokens,
+  type LinkToken, type InsertLinkToken, type LinkTokenPurpose,
+  notifications, smsOptOuts,
+  leagueCredentials, type YahooTokens,
+  type Notification, type InsertNotification, type NotificationPreferences
 } from "@shared/schema";
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, inArray, notInArray, lte, isNull, isNotNull, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { authStorage } from "./replit_integrations/auth/storage";
+import {
+  isBalanced, paymentPosting, withdrawalPosting, withdrawalRefundPosting,
+  refundPosting, refundReversalPosting, payoutPosting, carryoverPostings, toCents,
+  type LedgerPosting
+} from "./ledger";
+import { getAmountOwed, getDuesStatus } from "./dues";
+import { getAuditActor, toAuditSnapshot } from "./audit";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+export interface AuditEventInput {
+  leagueId: number | null;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  action: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface AuditEventFilter {
+  leagueId?: number;
+  entityType?: string;
+  actorId?: string;
+  action?: string;
+  limit?: number;
+}
+
+export interface SeasonRolloverPlan {
+  league: typeof leagues.$inferInsert & { previousLeagueId: number };
+  members: Omit<InsertLeagueMember, 'leagueId'>[];
+  // Maps a previous-season user ID into the new league (placeholder IDs embed the league ID)
+  remapUserId: (userId: string, leagueId: number) => string;
+  carryOverBalances: boolean;
+}
+
+export interface HighScorePrizeInput {
+  amount: string; // Each recipient's share
+  prizeTotal: string;
+  description: string;
+  holdForApproval: boolean;
+}
+
+export interface HighScorePrizeOutcome {
+  createdPayoutIds: number[];
+  // Payouts credited to a wallet by this call; notices go to these recipients
+  credited: Payout[];
+  pendingApproval: boolean;
+}
+
+export interface LowScoreFeeInput {
+  amount: string; // Each recipient's share
+  feeTotal: string;
+  phoneNumbers: Record<string, string | null>; // By recipient, copied onto new requests
+}
+
+export interface LowScoreFeeOutcome {
+  createdRequestIds: number[];
+  // Every recipient's request, new or from an earlier run
+  requests: LpsPaymentRequest[];
+}
+
+export interface SeasonRolloverOutcome {
+  league: League;
+  carriedOver: { userId: string; amount: string }[];
+}
+
+// Withdrawals whose money hasn't settled yet; a league can't be archived under them
+const IN_FLIGHT_WITHDRAWAL_STATUSES = ['pending_approval', 'pending', 'processing'];
+
+export class InsufficientBalanceError extends Error {
+  constructor() {
+    super("Insufficient balance");
+  }
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -43,7 +139,9 @@ export interface IStorage {
   createLeague(league: InsertLeague): Promise<League>;
   getLeague(id: number): Promise<LeagueWithMembers | undefined>;
   getUserLeagues(userId: string): Promise<League[]>;
-  updateLeagueTotalDues(id: number, amount: number): Promise<void>;
+  completePayment(stripePaymentIntentId: string): Promise<{ payment: Payment; applied: boolean } | undefined>;
+  refreshMemberDues(leagueId: number, userId: string): Promise<void>;
+  refreshLeagueDues(leagueId: number): Promise<void>;
   updateLeagueSettings(id: number, settings: any): Promise<void>;
   updateLeagueName(id: number, name: string): Promise<void>;
 
@@ -51,18 +149,46 @@ export interface IStorage {
   getLeagueMember(leagueId: number, userId: string): Promise<LeagueMember | undefined>;
   getLeagueMemberById(id: number): Promise<LeagueMember | undefined>;
   updateMemberStatus(id: number, status: string): Promise<void>;
-  updateMemberDetails(id: number, details: { teamName?: string | null; ownerName?: string | null; phoneNumber?: string | null; email?: string | null }): Promise<LeagueMember>;
+  updateMemberRole(id: number, role: string): Promise<LeagueMember>;
+  updateMemberDetails(id: number, details: { teamName?: string | null; ownerName?: string | null; phoneNumber?: string | null; email?: string | null; amountOwed?: string | null }): Promise<LeagueMember>;
   deleteLeagueMember(id: number): Promise<void>;
 
   createPayment(payment: InsertPayment & { userId: string; status: string; stripePaymentIntentId?: string | null }): Promise<Payment>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  getPaymentByIntentId(stripePaymentIntentId: string): Promise<Payment | undefined>;
+  transitionPaymentStatus(stripePaymentIntentId: string, fromStatuses: string[], toStatus: string): Promise<Payment | undefined>;
   createPayout(payout: InsertPayout & { status: string }): Promise<Payout>;
+  getPayout(id: number): Promise<Payout | undefined>;
+  createPayoutForApproval(payout: InsertPayout & { feeAmount?: string }, approval: { requestedBy: string | null; description: string }): Promise<Payout>;
+
+  // Approval queue
+  getApprovalRequest(id: number): Promise<ApprovalRequest | undefined>;
+  getLeagueApprovalRequests(leagueId: number): Promise<ApprovalRequest[]>;
+  approvePayoutRequest(id: number, decidedBy: string, note: string | null): Promise<{ approval: ApprovalRequest; payout: Payout } | undefined>;
+  approveWithdrawalRequest(id: number, decidedBy: string, note: string | null): Promise<{ approval: ApprovalRequest; withdrawal: WithdrawalRequest } | undefined>;
+  rejectApprovalRequest(id: number, decidedBy: string, note: string): Promise<ApprovalRequest | undefined>;
+
+  // Refunds
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined>;
+  getPaymentRefunds(paymentId: number): Promise<Refund[]>;
+  getLeagueRefunds(leagueId: number): Promise<Refund[]>;
+  applyRefund(refundId: number, stripeRefundId: string): Promise<Refund | undefined>;
+  failRefund(refundId: number, failureReason: string, stripeRefundId?: string): Promise<Refund | undefined>;
   getLeagueTransactions(leagueId: number): Promise<{ payments: Payment[], payouts: Payout[] }>;
+
+  // Season payouts
+  getSeasonPayoutBatch(leagueId: number, seasonYear: number): Promise<SeasonPayoutBatch | undefined>;
+  saveSeasonPayoutDraft(batch: InsertSeasonPayoutBatch): Promise<SeasonPayoutBatch | undefined>;
+  paySeasonPayoutBatch(batchId: number, approvedBy: string, approvalThreshold: number): Promise<SeasonPayoutBatch | undefined>;
   
   addWeeklyScore(score: InsertWeeklyScore): Promise<WeeklyScore>;
   updateWeeklyScore(id: number, score: string): Promise<void>;
   getWeeklyScores(leagueId: number, week: number): Promise<WeeklyScore[]>;
   getHighestScorerForWeek(leagueId: number, week: number): Promise<WeeklyScore | undefined>;
   getLowestScorerForWeek(leagueId: number, week: number): Promise<WeeklyScore | undefined>;
+  hasNonAuthoritativeScores(leagueId: number, week: number, authoritativeSources: string[]): Promise<boolean>;
+  getSeasonPointsFor(leagueId: number, userIds: string[], throughWeek: number): Promise<Map<string, number>>;
 
   // Platform fees
   createPlatformFee(fee: InsertPlatformFee): Promise<PlatformFee>;
@@ -75,38 +201,78 @@ export interface IStorage {
   getMemberWalletById(walletId: number): Promise<MemberWallet | undefined>;
   getUserWallets(userId: string): Promise<MemberWallet[]>;
   getLeagueWallets(leagueId: number): Promise<MemberWallet[]>;
-  creditWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string): Promise<WalletTransaction>;
-  debitWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string): Promise<WalletTransaction>;
+  creditWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string, ledger?: LedgerPosting): Promise<WalletTransaction>;
+  debitWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string, ledger?: LedgerPosting): Promise<WalletTransaction>;
   getWalletTransactions(walletId: number): Promise<WalletTransaction[]>;
   getLeagueTreasury(leagueId: number): Promise<{ totalInflow: string; totalOutflow: string; availableBalance: string }>;
 
+  // Ledger
+  postLedgerTransaction(posting: LedgerPosting): Promise<boolean>;
+  getLedgerBalances(leagueId: number): Promise<{ account: LedgerAccount; walletId: number | null; balance: string }[]>;
+  getLedgerSourceTotals(leagueId: number): Promise<{ sourceType: string; account: LedgerAccount; total: string }[]>;
+  getUnbalancedLedgerTransactionIds(leagueId: number): Promise<number[]>;
+  getUnpostedPaymentIds(leagueId: number): Promise<number[]>;
+  getUnpostedPayoutIds(leagueId: number): Promise<number[]>;
+  postLegacyLedgerEntries(): Promise<number>;
+
   // Withdrawal requests
-  createWithdrawalRequest(request: InsertWithdrawalRequest): Promise<WithdrawalRequest>;
+  createWithdrawalRequest(request: InsertWithdrawalRequest, description: string, requiresApproval?: boolean): Promise<WithdrawalRequest>;
   getWithdrawalRequest(id: number): Promise<WithdrawalRequest | undefined>;
   getUserWithdrawals(userId: string): Promise<WithdrawalRequest[]>;
   updateWithdrawalStatus(id: number, status: string, stripeTransferId?: string, failureReason?: string): Promise<void>;
+  getWithdrawalByTransferId(stripeTransferId: string): Promise<WithdrawalRequest | undefined>;
+  transitionWithdrawalStatus(id: number, fromStatuses: string[], toStatus: string, updates?: { stripeTransferId?: string; stripePayoutId?: string }): Promise<WithdrawalRequest | undefined>;
+  failWithdrawalAndRefund(id: number, failureReason: string): Promise<WithdrawalRequest | undefined>;
 
   // LPS Payment Requests
   createLpsPaymentRequest(request: InsertLpsPaymentRequest): Promise<LpsPaymentRequest>;
+  getLpsPaymentRequestsByIds(ids: number[]): Promise<LpsPaymentRequest[]>;
   getLpsPaymentByToken(token: string): Promise<LpsPaymentRequest | undefined>;
   updateLpsPaymentStatus(id: number, status: string): Promise<void>;
+  getLpsPaymentRequest(id: number): Promise<LpsPaymentRequest | undefined>;
   markLpsSmsAsSent(id: number): Promise<void>;
+  updateLpsDeliveryStatus(id: number, deliveryStatus: string): Promise<void>;
+  getPendingLpsPaymentRequests(leagueId: number, userId: string): Promise<LpsPaymentRequest[]>;
 
   // Member phone number
   updateMemberPhoneNumber(memberId: number, phoneNumber: string): Promise<void>;
-  updateMemberEspnTeamId(memberId: number, espnTeamId: string): Promise<void>;
-  getUnpaidMembersWithPhone(leagueId: number): Promise<LeagueMember[]>;
+  updateMemberExternalTeamId(memberId: number, externalTeamId: string): Promise<void>;
+  getUnpaidMembers(leagueId: number): Promise<LeagueMember[]>;
+  getMembersByPhoneNumber(phoneNumber: string): Promise<LeagueMember[]>;
 
   // Payment reminders
   createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder>;
   updateReminderStatus(id: number, status: string): Promise<void>;
+  updateRemindersForNotification(notificationId: number, status: string): Promise<void>;
   getLeagueReminders(leagueId: number): Promise<PaymentReminder[]>;
 
   // League start date
   updateLeagueStartDate(leagueId: number, startDate: Date): Promise<void>;
 
-  // Delete league (commissioner only)
-  deleteLeague(leagueId: number): Promise<void>;
+  // Platform credentials
+  getYahooTokens(leagueId: number): Promise<YahooTokens | undefined>;
+  saveYahooTokens(leagueId: number, tokens: YahooTokens): Promise<void>;
+  moveLegacyYahooTokens(): Promise<number>;
+
+  // Archiving (soft delete), restore and purge
+  getLeagueArchiveBlockers(leagueId: number): Promise<{ walletsWithBalance: number; withdrawalsInFlight: number }>;
+  archiveLeague(leagueId: number, archivedBy: string): Promise<League | undefined>;
+  restoreLeague(leagueId: number): Promise<League | undefined>;
+  isLeagueArchived(leagueId: number): Promise<boolean>;
+  getArchivedLeaguesBefore(archivedBefore: Date): Promise<League[]>;
+  purgeLeague(leagueId: number, archivedBefore: Date): Promise<LeagueExport | undefined>;
+
+  // Season rollover
+  rolloverLeague(plan: SeasonRolloverPlan): Promise<SeasonRolloverOutcome | undefined>;
+  getNextSeasonLeague(leagueId: number): Promise<League | undefined>;
+
+  // League history (per-member totals across a franchise's seasons)
+  getFranchiseLeagues(league: League): Promise<League[]>;
+  getMembersForLeagues(leagueIds: number[]): Promise<LeagueWithMembers['members']>;
+  getPaymentTotalsByMember(leagueIds: number[]): Promise<{ leagueId: number; userId: string; kind: string; total: string }[]>;
+  getPayoutTotalsByMember(leagueIds: number[]): Promise<{ leagueId: number; userId: string; reason: string; total: string }[]>;
+  getScoreTotalsByMember(leagueIds: number[], authoritativeSources: string[]): Promise<{ leagueId: number; userId: string; totalPoints: string; bestWeek: string }[]>;
+  getWeeklyAwardEventsForLeagues(leagueIds: number[]): Promise<WeeklyAwardEvent[]>;
 
   // League messages (message board)
   createLeagueMessage(leagueId: number, userId: string, content: string): Promise<LeagueMessage>;
@@ -115,17 +281,68 @@ export interface IStorage {
   deleteLeagueMessage(messageId: number): Promise<void>;
 
   // League invites
-  createLeagueInvite(invite: { leagueId: number; invitedBy: string; contactType: string; contactValue: string; inviteToken: string; teamName?: string; ownerName?: string }): Promise<LeagueInvite>;
+  createLeagueInvite(invite: { leagueId: number; invitedBy: string; contactType: string; contactValue: string; teamName?: string; ownerName?: string }): Promise<LeagueInvite>;
+  getLeagueInvite(id: number): Promise<LeagueInvite | undefined>;
   getLeagueInvites(leagueId: number): Promise<LeagueInvite[]>;
+  getLeagueInviteByToken(token: string): Promise<LeagueInvite | undefined>;
+  acceptLeagueInvite(inviteId: number, placeholderUserId: string, userId: string): Promise<{ invite: LeagueInvite; member: LeagueMember } | undefined>;
   updateInviteStatus(id: number, status: string): Promise<void>;
 
+  // Link tokens
+  createLinkToken(token: InsertLinkToken): Promise<LinkToken>;
+  getLinkToken(id: number): Promise<LinkToken | undefined>;
+  getLinkTokenByHash(tokenHash: string): Promise<LinkToken | undefined>;
+  getLeagueLinkTokens(leagueId: number): Promise<LinkToken[]>;
+  recordLinkTokenUse(id: number): Promise<void>;
+  consumeLinkToken(id: number, userId: string | null): Promise<LinkToken | undefined>;
+  revokeLinkToken(id: number, revokedBy: string | null, reason: string): Promise<LinkToken | undefined>;
+  revokeLinkTokensForSubject(purpose: LinkTokenPurpose, subjectId: number, reason: string): Promise<number>;
+
+  // Notifications
+  updateMemberNotificationPreferences(memberId: number, preferences: NotificationPreferences): Promise<LeagueMember>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  claimNotification(id: number, now: Date): Promise<Notification | undefined>;
+  claimNextNotification(now: Date): Promise<Notification | undefined>;
+  markNotificationSent(id: number, providerMessageId: string | null): Promise<Notification>;
+  failNotification(id: number, error: string, retryAt: Date | null): Promise<Notification>;
+  getLeagueNotifications(leagueId: number, limit: number): Promise<Notification[]>;
+  getInAppNotifications(userId: string, limit: number): Promise<Notification[]>;
+  markNotificationsRead(userId: string, ids: number[] | null): Promise<number>;
+  recordNotificationDelivery(providerMessageId: string, status: 'delivered' | 'failed', error: string | null): Promise<Notification | undefined>;
+
+  // SMS opt-outs, by E.164 number
+  isPhoneNumberOptedOut(phoneNumber: string): Promise<boolean>;
+  optOutPhoneNumber(phoneNumber: string, keyword: string): Promise<void>;
+  optInPhoneNumber(phoneNumber: string): Promise<boolean>;
+
   // Transfer commissioner
   transferCommissioner(leagueId: number, newCommissionerId: string): Promise<void>;
 
   // Weekly award events
   getWeeklyAwardEvent(leagueId: number, week: number): Promise<WeeklyAwardEvent | undefined>;
+  getWeeklyAwardEvents(leagueId: number): Promise<WeeklyAwardEvent[]>;
   createWeeklyAwardEvent(event: InsertWeeklyAwardEvent): Promise<WeeklyAwardEvent>;
-  updateWeeklyAwardEvent(id: number, updates: { hpsWalletCredited?: boolean; lpsSmssSent?: boolean }): Promise<void>;
+  getOrCreateWeeklyAwardEvent(event: InsertWeeklyAwardEvent): Promise<WeeklyAwardEvent>;
+  updateWeeklyAwardEvent(id: number, updates: Partial<InsertWeeklyAwardEvent>): Promise<void>;
+  issueHighScorePrize(eventId: number, prize: HighScorePrizeInput): Promise<HighScorePrizeOutcome>;
+  issueLowScoreFee(eventId: number, fee: LowScoreFeeInput): Promise<LowScoreFeeOutcome>;
+
+  // Scheduled jobs and job runs
+  getScheduledJobs(leagueId: number): Promise<ScheduledJob[]>;
+  upsertScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  getDueScheduledJobs(now: Date): Promise<ScheduledJob[]>;
+  advanceScheduledJob(id: number, currentNextRunAt: Date, nextRunAt: Date): Promise<boolean>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  getJobRun(id: number): Promise<JobRun | undefined>;
+  getJobRuns(filter: { leagueId?: number; status?: string; limit?: number }): Promise<JobRun[]>;
+  claimNextJobRun(now: Date): Promise<JobRun | undefined>;
+  completeJobRun(id: number, result: Record<string, any>): Promise<void>;
+  failJobRun(id: number, error: string, retryAt: Date | null): Promise<void>;
+  requeueStaleJobRuns(startedBefore: Date): Promise<number>;
+  retryJobRun(id: number): Promise<void>;
+
+  // Audit log (append-only)
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithActor[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -134,15 +351,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserRole(id: string, role: string): Promise<void> {
-    await db.update(users).set({ role }).where(eq(users.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ role: users.role }).from(users).where(eq(users.id, id)).for('update');
+      await tx.update(users).set({ role }).where(eq(users.id, id));
+      await this.recordAudit(tx, { leagueId: null, entityType: 'user', entityId: id, action: 'update', before, after: { role } });
+    });
   }
 
   async updateUserStripeConnect(id: string, accountId: string): Promise<void> {
-    await db.update(users).set({ stripeConnectAccountId: accountId }).where(eq(users.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ stripeConnectAccountId: users.stripeConnectAccountId }).from(users).where(eq(users.id, id)).for('update');
+      await tx.update(users).set({ stripeConnectAccountId: accountId }).where(eq(users.id, id));
+      await this.recordAudit(tx, { leagueId: null, entityType: 'user', entityId: id, action: 'connect_stripe', before, after: { stripeConnectAccountId: accountId } });
+    });
   }
 
   async updateUserStripeConnectOnboarded(id: string): Promise<void> {
-    await db.update(users).set({ stripeConnectOnboarded: new Date() }).where(eq(users.id, id));
+    await db.transaction(async (tx) => {
+      const stripeConnectOnboarded = new Date();
+      await tx.update(users).set({ stripeConnectOnboarded }).where(eq(users.id, id));
+      await this.recordAudit(tx, { leagueId: null, entityType: 'user', entityId: id, action: 'stripe_onboarded', after: { stripeConnectOnboarded } });
+    });
   }
 
   async isUserAdmin(id: string): Promise<boolean> {
@@ -186,8 +415,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createLeague(league: InsertLeague): Promise<League> {
-    const [newLeague] = await db.insert(leagues).values(league).returning();
-    return newLeague;
+    return await db.transaction(async (tx) => {
+      const [newLeague] = await tx.insert(leagues).values(league).returning();
+      await this.recordAudit(tx, { leagueId: newLeague.id, entityType: 'league', entityId: newLeague.id, action: 'create', after: newLeague });
+      return newLeague;
+    });
   }
 
   async getLeague(id: number): Promise<LeagueWithMembers | undefined> {
@@ -215,27 +447,111 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.league).filter((l): l is League => !!l);
   }
 
-  async updateLeagueTotalDues(id: number, amount: number): Promise<void> {
-    await db.update(leagues)
-      .set({ totalDues: sql`COALESCE(${leagues.totalDues}, 0) + ${amount}` })
-      .where(eq(leagues.id, id));
+  // Marks a succeeded payment completed and applies it in one transaction:
+  // the ledger posting, leagues.totalDues, the member's dues status or the
+  // LPS request it paid. A redelivered event re-runs the apply, which the
+  // posting's idempotency key turns into a no-op (applied: false) once done.
+  // Undefined for unknown intents and payments since refunded.
+  async completePayment(stripePaymentIntentId: string): Promise<{ payment: Payment; applied: boolean } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(payments)
+        .where(eq(payments.stripePaymentIntentId, stripePaymentIntentId))
+        .for('update');
+      if (!current) return undefined;
+
+      // A failed intent can still succeed if the member retries with another card
+      let payment = current;
+      if (current.status === 'pending' || current.status === 'failed') {
+        [payment] = await tx.update(payments)
+          .set({ status: 'completed' })
+          .where(eq(payments.id, current.id))
+          .returning();
+        await this.recordAudit(tx, { leagueId: payment.leagueId, entityType: 'payment', entityId: payment.id, action: 'update_status', before: { status: current.status }, after: { status: 'completed' } });
+      } else if (current.status !== 'completed') {
+        return undefined;
+      }
+
+      const posted = await this.insertLedgerPosting(tx, paymentPosting(payment));
+      if (!posted) return { payment, applied: false };
+
+      await tx.update(leagues)
+        .set({ totalDues: sql`COALESCE(${leagues.totalDues}, 0) + ${payment.amount}` })
+        .where(eq(leagues.id, payment.leagueId));
+      if (payment.kind === 'dues') {
+        // Also moves the member to 'partial' or 'paid'
+        await this.recomputeMemberDues(tx, payment.leagueId, payment.userId);
+      }
+      if (payment.kind === 'lps' && payment.lpsPaymentRequestId) {
+        const [request] = await tx.select().from(lpsPaymentRequests)
+          .where(eq(lpsPaymentRequests.id, payment.lpsPaymentRequestId))
+          .for('update');
+        if (request && request.status !== 'paid') {
+          await tx.update(lpsPaymentRequests).set({ status: 'paid', paidAt: new Date() }).where(eq(lpsPaymentRequests.id, request.id));
+          await this.recordAudit(tx, { leagueId: request.leagueId, entityType: 'lps_request', entityId: request.id, action: 'update_status', before: { status: request.status }, after: { status: 'paid' } });
+        }
+      }
+      return { payment, applied: true };
+    });
   }
 
   async updateLeagueSettings(id: number, settings: any): Promise<void> {
-    await db.update(leagues)
-      .set({ settings })
-      .where(eq(leagues.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ settings: leagues.settings }).from(leagues).where(eq(leagues.id, id)).for('update');
+      await tx.update(leagues)
+        .set({ settings })
+        .where(eq(leagues.id, id));
+      await this.recordAudit(tx, { leagueId: id, entityType: 'league', entityId: id, action: 'update_settings', before, after: { settings } });
+    });
+  }
+
+  // Platform credential methods
+  async getYahooTokens(leagueId: number): Promise<YahooTokens | undefined> {
+    const [credentials] = await db.select().from(leagueCredentials).where(eq(leagueCredentials.leagueId, leagueId));
+    return credentials?.yahooTokens || undefined;
+  }
+
+  async saveYahooTokens(leagueId: number, tokens: YahooTokens): Promise<void> {
+    await db.insert(leagueCredentials)
+      .values({ leagueId, yahooTokens: tokens })
+      .onConflictDoUpdate({ target: leagueCredentials.leagueId, set: { yahooTokens: tokens, updatedAt: new Date() } });
+  }
+
+  // Leagues connected before league_credentials kept their tokens in
+  // settings, where every league response included them
+  async moveLegacyYahooTokens(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const legacy = await tx.select().from(leagues)
+        .where(sql`${leagues.settings} ? 'yahooTokens'`)
+        .for('update');
+      for (const league of legacy) {
+        const { yahooTokens, ...settings } = league.settings!;
+        if (yahooTokens) {
+          await tx.insert(leagueCredentials)
+            .values({ leagueId: league.id, yahooTokens })
+            .onConflictDoNothing();
+        }
+        await tx.update(leagues).set({ settings }).where(eq(leagues.id, league.id));
+      }
+      return legacy.length;
+    });
   }
 
   async updateLeagueName(id: number, name: string): Promise<void> {
-    await db.update(leagues)
-      .set({ name })
-      .where(eq(leagues.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ name: leagues.name }).from(leagues).where(eq(leagues.id, id)).for('update');
+      await tx.update(leagues)
+        .set({ name })
+        .where(eq(leagues.id, id));
+      await this.recordAudit(tx, { leagueId: id, entityType: 'league', entityId: id, action: 'update', before, after: { name } });
+    });
   }
 
   async addLeagueMember(member: InsertLeagueMember): Promise<LeagueMember> {
-    const [newMember] = await db.insert(leagueMembers).values(member).returning();
-    return newMember;
+    return await db.transaction(async (tx) => {
+      const [newMember] = await tx.insert(leagueMembers).values(member).returning();
+      await this.recordAudit(tx, { leagueId: newMember.leagueId, entityType: 'member', entityId: newMember.id, action: 'create', after: newMember });
+      return newMember;
+    });
   }
 
   async getLeagueMember(leagueId: number, userId: string): Promise<LeagueMember | undefined> {
@@ -250,42 +566,53 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
-  async updateMemberDetails(id: number, details: { teamName?: string | null; ownerName?: string | null; phoneNumber?: string | null; email?: string | null }): Promise<LeagueMember> {
-    const [updated] = await db.update(leagueMembers)
-      .set(details)
-      .where(eq(leagueMembers.id, id))
-      .returning();
-    return updated;
+  // Updates a member and records the fields that changed
+  private async updateMemberAudited(
+    id: number,
+    changes: Partial<typeof leagueMembers.$inferInsert>,
+    action = 'update'
+  ): Promise<LeagueMember> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leagueMembers).where(eq(leagueMembers.id, id)).for('update');
+      const [updated] = await tx.update(leagueMembers)
+        .set(changes)
+        .where(eq(leagueMembers.id, id))
+        .returning();
+      if (before) {
+        const fields = Object.keys(changes) as (keyof LeagueMember)[];
+        await this.recordAudit(tx, {
+          leagueId: before.leagueId,
+          entityType: 'member',
+          entityId: id,
+          action,
+          before: Object.fromEntries(fields.map(f => [f, before[f]])),
+          after: Object.fromEntries(fields.map(f => [f, updated[f]]))
+        });
+      }
+      return updated;
+    });
+  }
+
+  async updateMemberDetails(id: number, details: { teamName?: string | null; ownerName?: string | null; phoneNumber?: string | null; email?: string | null; amountOwed?: string | null }): Promise<LeagueMember> {
+    return await this.updateMemberAudited(id, details);
   }
   
   async updateMemberStatus(id: number, status: string): Promise<void> {
-    await db.update(leagueMembers).set({ paidStatus: status }).where(eq(leagueMembers.id, id));
+    await this.updateMemberAudited(id, { paidStatus: status });
+  }
+
+  async updateMemberRole(id: number, role: string): Promise<LeagueMember> {
+    return await this.updateMemberAudited(id, { role }, 'update_role');
   }
 
   async updateMemberPaymentRequestSent(id: number, sent: boolean): Promise<void> {
-    await db.update(leagueMembers).set({ 
+    await this.updateMemberAudited(id, {
       paymentRequestSent: sent,
       paymentRequestSentAt: sent ? new Date() : null
-    }).where(eq(leagueMembers.id, id));
-  }
-
-  async setMemberPaymentToken(id: number, token: string): Promise<void> {
-    if (token) {
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 30); // Token valid for 30 days
-      await db.update(leagueMembers).set({ 
-        paymentToken: token,
-        paymentTokenExpiresAt: expiresAt
-      }).where(eq(leagueMembers.id, id));
-    } else {
-      // Clear the token
-      await db.update(leagueMembers).set({ 
-        paymentToken: null,
-        paymentTokenExpiresAt: null
-      }).where(eq(leagueMembers.id, id));
-    }
+    }, 'payment_request_sent');
   }
 
+  // Dues links sent before link_tokens
   async getMemberByPaymentToken(token: string): Promise<LeagueMember | undefined> {
     const [member] = await db.select().from(leagueMembers)
       .where(eq(leagueMembers.paymentToken, token));
@@ -293,36 +620,364 @@ export class DatabaseStorage implements IStorage {
   }
 
   async linkMemberToUser(memberId: number, userId: string): Promise<void> {
-    await db.update(leagueMembers).set({ userId }).where(eq(leagueMembers.id, memberId));
+    await this.updateMemberAudited(memberId, { userId }, 'link_user');
   }
 
   async deleteLeagueMember(id: number): Promise<void> {
-    await db.delete(leagueMembers).where(eq(leagueMembers.id, id));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(leagueMembers).where(eq(leagueMembers.id, id)).returning();
+      if (deleted) {
+        await this.recordAudit(tx, { leagueId: deleted.leagueId, entityType: 'member', entityId: id, action: 'delete', before: deleted });
+      }
+    });
   }
 
   async createPayment(payment: InsertPayment & { userId: string; status: string; stripePaymentIntentId?: string | null }): Promise<Payment> {
-    const [newPayment] = await db.insert(payments).values({
-      leagueId: payment.leagueId,
-      userId: payment.userId,
-      amount: payment.amount,
-      status: payment.status,
-      stripePaymentIntentId: payment.stripePaymentIntentId
-    }).returning();
-    return newPayment;
+    return await db.transaction(async (tx) => {
+      const [newPayment] = await tx.insert(payments).values({
+        leagueId: payment.leagueId,
+        userId: payment.userId,
+        amount: payment.amount,
+        status: payment.status,
+        stripePaymentIntentId: payment.stripePaymentIntentId,
+        kind: payment.kind || 'dues',
+        lpsPaymentRequestId: payment.lpsPaymentRequestId ?? null
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newPayment.leagueId, entityType: 'payment', entityId: newPayment.id, action: 'create', after: newPayment });
+      return newPayment;
+    });
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentByIntentId(stripePaymentIntentId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments)
+      .where(eq(payments.stripePaymentIntentId, stripePaymentIntentId));
+    return payment;
+  }
+
+  // Conditional so a redelivered webhook can't apply the same transition twice;
+  // returns the payment only when this call changed its status
+  async transitionPaymentStatus(stripePaymentIntentId: string, fromStatuses: string[], toStatus: string): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select({ status: payments.status }).from(payments)
+        .where(eq(payments.stripePaymentIntentId, stripePaymentIntentId))
+        .for('update');
+      const [updated] = await tx.update(payments)
+        .set({ status: toStatus })
+        .where(and(
+          eq(payments.stripePaymentIntentId, stripePaymentIntentId),
+          inArray(payments.status, fromStatuses)
+        ))
+        .returning();
+      if (updated) {
+        await this.recordAudit(tx, { leagueId: updated.leagueId, entityType: 'payment', entityId: updated.id, action: 'update_status', before, after: { status: toStatus } });
+      }
+      return updated;
+    });
   }
 
   async createPayout(payout: InsertPayout & { status: string; feeAmount?: string }): Promise<Payout> {
-    const [newPayout] = await db.insert(payouts).values({
-      leagueId: payout.leagueId,
-      userId: payout.userId,
-      amount: payout.amount,
-      reason: payout.reason,
-      week: payout.week,
-      status: payout.status,
-      payoutType: payout.payoutType || 'standard',
-      feeAmount: payout.feeAmount || "0"
-    }).returning();
-    return newPayout;
+    return await db.transaction(async (tx) => {
+      const [newPayout] = await tx.insert(payouts).values({
+        leagueId: payout.leagueId,
+        userId: payout.userId,
+        amount: payout.amount,
+        reason: payout.reason,
+        week: payout.week,
+        status: payout.status,
+        payoutType: payout.payoutType || 'standard',
+        feeAmount: payout.feeAmount || "0"
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newPayout.leagueId, entityType: 'payout', entityId: newPayout.id, action: 'create', after: newPayout });
+      return newPayout;
+    });
+  }
+
+  async getPayout(id: number): Promise<Payout | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, id));
+    return payout;
+  }
+
+  // The payout is held without crediting a wallet; `description` becomes the
+  // wallet transaction's description once it's approved
+  async createPayoutForApproval(
+    payout: InsertPayout & { feeAmount?: string },
+    approval: { requestedBy: string | null; description: string }
+  ): Promise<Payout> {
+    return await db.transaction(async (tx) => {
+      const [held] = await tx.insert(payouts).values({
+        leagueId: payout.leagueId,
+        userId: payout.userId,
+        amount: payout.amount,
+        reason: payout.reason,
+        week: payout.week,
+        status: 'pending_approval',
+        payoutType: payout.payoutType || 'standard',
+        feeAmount: payout.feeAmount || "0"
+      }).returning();
+
+      await tx.insert(approvalRequests).values({
+        leagueId: held.leagueId,
+        sourceType: 'payout',
+        sourceId: held.id,
+        userId: held.userId,
+        amount: held.amount,
+        description: approval.description,
+        requestedBy: approval.requestedBy
+      });
+      await this.recordAudit(tx, { leagueId: held.leagueId, entityType: 'payout', entityId: held.id, action: 'create', after: held });
+      return held;
+    });
+  }
+
+  // Approval queue methods
+  async getApprovalRequest(id: number): Promise<ApprovalRequest | undefined> {
+    const [request] = await db.select().from(approvalRequests).where(eq(approvalRequests.id, id));
+    return request;
+  }
+
+  async getLeagueApprovalRequests(leagueId: number): Promise<ApprovalRequest[]> {
+    return await db.select().from(approvalRequests)
+      .where(eq(approvalRequests.leagueId, leagueId))
+      .orderBy(desc(approvalRequests.createdAt));
+  }
+
+  // Records the decision only if the request is still pending, so two people
+  // deciding at once can't both act on it
+  private async decideApproval(
+    tx: DbTransaction,
+    id: number,
+    sourceType: string | null,
+    status: 'approved' | 'rejected',
+    decidedBy: string,
+    note: string | null
+  ): Promise<ApprovalRequest | undefined> {
+    const [decided] = await tx.update(approvalRequests)
+      .set({ status, decidedBy, decisionNote: note, decidedAt: new Date() })
+      .where(and(
+        eq(approvalRequests.id, id),
+        eq(approvalRequests.status, 'pending'),
+        sourceType ? eq(approvalRequests.sourceType, sourceType) : undefined
+      ))
+      .returning();
+    if (decided) {
+      await this.recordAudit(tx, {
+        leagueId: decided.leagueId,
+        entityType: 'approval',
+        entityId: id,
+        action: status === 'approved' ? 'approve' : 'reject',
+        before: { status: 'pending' },
+        after: { status, decisionNote: note, sourceType: decided.sourceType, sourceId: decided.sourceId, amount: decided.amount }
+      });
+    }
+    return decided;
+  }
+
+  // Releases a held payout: status, wallet credit and ledger posting together
+  async approvePayoutRequest(id: number, decidedBy: string, note: string | null): Promise<{ approval: ApprovalRequest; payout: Payout } | undefined> {
+    const pending = await this.getApprovalRequest(id);
+    if (!pending || pending.status !== 'pending' || pending.sourceType !== 'payout') return undefined;
+
+    // Created up front; creating a wallet twice is harmless
+    const wallet = await this.getOrCreateWallet(pending.leagueId, pending.userId);
+
+    return await db.transaction(async (tx) => {
+      const approval = await this.decideApproval(tx, id, 'payout', 'approved', decidedBy, note);
+      if (!approval) return undefined;
+
+      const [held] = await tx.select().from(payouts).where(eq(payouts.id, approval.sourceId));
+      const [payout] = await tx.update(payouts)
+        .set({ status: held?.payoutType === 'instant' ? 'paid' : 'approved' })
+        .where(and(eq(payouts.id, approval.sourceId), eq(payouts.status, 'pending_approval')))
+        .returning();
+      if (!payout) throw new Error(`Payout ${approval.sourceId} is not awaiting approval`);
+
+      await this.creditLockedWallet(tx, wallet.id, payout.amount, 'payout', payout.id, approval.description);
+      await this.insertLedgerPosting(tx, payoutPosting(payout, wallet.id));
+      return { approval, payout };
+    });
+  }
+
+  // The wallet was debited when the withdrawal was requested; the caller
+  // starts the Stripe transfer
+  async approveWithdrawalRequest(id: number, decidedBy: string, note: string | null): Promise<{ approval: ApprovalRequest; withdrawal: WithdrawalRequest } | undefined> {
+    return await db.transaction(async (tx) => {
+      const approval = await this.decideApproval(tx, id, 'withdrawal', 'approved', decidedBy, note);
+      if (!approval) return undefined;
+
+      const [withdrawal] = await tx.update(withdrawalRequests)
+        .set({ status: 'pending' })
+        .where(and(eq(withdrawalRequests.id, approval.sourceId), eq(withdrawalRequests.status, 'pending_approval')))
+        .returning();
+      if (!withdrawal) throw new Error(`Withdrawal ${approval.sourceId} is not awaiting approval`);
+      return { approval, withdrawal };
+    });
+  }
+
+  // A rejected payout never reaches the wallet; a rejected withdrawal's
+  // funds go back into it
+  async rejectApprovalRequest(id: number, decidedBy: string, note: string): Promise<ApprovalRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const approval = await this.decideApproval(tx, id, null, 'rejected', decidedBy, note);
+      if (!approval) return undefined;
+
+      if (approval.sourceType === 'payout') {
+        await tx.update(payouts)
+          .set({ status: 'rejected' })
+          .where(and(eq(payouts.id, approval.sourceId), eq(payouts.status, 'pending_approval')));
+      } else {
+        const [rejected] = await tx.update(withdrawalRequests).set({
+          status: 'rejected',
+          failureReason: note,
+          processedAt: new Date()
+        }).where(and(
+          eq(withdrawalRequests.id, approval.sourceId),
+          eq(withdrawalRequests.status, 'pending_approval')
+        )).returning();
+        if (rejected) {
+          await this.returnWithdrawnFunds(tx, rejected, `Withdrawal #${rejected.id} rejected - funds returned`);
+        }
+      }
+      return approval;
+    });
+  }
+
+  // Refund methods
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    return await db.transaction(async (tx) => {
+      const [newRefund] = await tx.insert(refunds).values(refund).returning();
+      await this.recordAudit(tx, { leagueId: newRefund.leagueId, entityType: 'refund', entityId: newRefund.id, action: 'create', after: newRefund });
+      return newRefund;
+    });
+  }
+
+  async getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.stripeRefundId, stripeRefundId));
+    return refund;
+  }
+
+  async getPaymentRefunds(paymentId: number): Promise<Refund[]> {
+    return await db.select().from(refunds)
+      .where(eq(refunds.paymentId, paymentId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  async getLeagueRefunds(leagueId: number): Promise<Refund[]> {
+    return await db.select().from(refunds)
+      .where(eq(refunds.leagueId, leagueId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  // Applies a refund Stripe accepted: payment status and refunded amount,
+  // totalDues, the ledger, and the member's dues or LPS status, all at most once
+  async applyRefund(refundId: number, stripeRefundId: string): Promise<Refund | undefined> {
+    return await db.transaction(async (tx) => {
+      const [refund] = await tx.update(refunds)
+        .set({ status: 'succeeded', stripeRefundId })
+        .where(and(eq(refunds.id, refundId), eq(refunds.status, 'pending')))
+        .returning();
+      if (!refund) return undefined;
+
+      await this.adjustPaymentForRefund(tx, refund, 1);
+      await this.insertLedgerPosting(tx, refundPosting(refund));
+      await this.recordAudit(tx, { leagueId: refund.leagueId, entityType: 'refund', entityId: refund.id, action: 'update_status', before: { status: 'pending' }, after: { status: 'succeeded' } });
+      return refund;
+    });
+  }
+
+  // Stripe rejected the refund, either up front or after it had been applied
+  async failRefund(refundId: number, failureReason: string, stripeRefundId?: string): Promise<Refund | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(refunds).where(eq(refunds.id, refundId)).for('update');
+      if (!current || current.status === 'failed') return undefined;
+
+      const [refund] = await tx.update(refunds)
+        .set({ status: 'failed', failureReason, stripeRefundId: stripeRefundId ?? current.stripeRefundId })
+        .where(eq(refunds.id, refundId))
+        .returning();
+
+      if (current.status === 'succeeded') {
+        await this.adjustPaymentForRefund(tx, refund, -1);
+        await this.insertLedgerPosting(tx, refundReversalPosting(refund));
+      }
+      await this.recordAudit(tx, {
+        leagueId: refund.leagueId,
+        entityType: 'refund',
+        entityId: refund.id,
+        action: 'update_status',
+        before: { status: current.status },
+        after: { status: 'failed', failureReason }
+      });
+      return refund;
+    });
+  }
+
+  // direction 1 applies the refund, -1 undoes it
+  private async adjustPaymentForRefund(tx: DbTransaction, refund: Refund, direction: 1 | -1): Promise<void> {
+    const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).for('update');
+    if (!payment) throw new Error(`Payment ${refund.paymentId} not found`);
+
+    const refundedAmount = (Number(payment.refundedAmount) + direction * Number(refund.amount)).toFixed(2);
+    const status = Number(refundedAmount) <= 0
+      ? 'completed'
+      : Number(refundedAmount) >= Number(payment.amount) ? 'refunded' : 'partially_refunded';
+    await tx.update(payments).set({ refundedAmount, status }).where(eq(payments.id, payment.id));
+
+    await tx.update(leagues)
+      .set({ totalDues: sql`COALESCE(${leagues.totalDues}, 0) - ${(direction * Number(refund.amount)).toFixed(2)}` })
+      .where(eq(leagues.id, payment.leagueId));
+
+    if (payment.kind === 'lps' && payment.lpsPaymentRequestId) {
+      await tx.update(lpsPaymentRequests)
+        .set({ status: status === 'refunded' ? 'refunded' : 'paid' })
+        .where(eq(lpsPaymentRequests.id, payment.lpsPaymentRequestId));
+      return;
+    }
+
+    await this.recomputeMemberDues(tx, payment.leagueId, payment.userId);
+  }
+
+  // amountPaid is every completed dues payment less what was refunded;
+  // paidStatus follows from it and what the member owes
+  private async recomputeMemberDues(tx: DbTransaction, leagueId: number, userId: string): Promise<void> {
+    const [member] = await tx.select().from(leagueMembers)
+      .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, userId)))
+      .for('update');
+    if (!member) return;
+
+    const [league] = await tx.select().from(leagues).where(eq(leagues.id, leagueId));
+    const [kept] = await tx.select({
+      total: sql<string>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)`
+    }).from(payments).where(and(
+      eq(payments.leagueId, leagueId),
+      eq(payments.userId, userId),
+      eq(payments.kind, 'dues'),
+      inArray(payments.status, ['completed', 'partially_refunded'])
+    ));
+    const paidCents = toCents(kept.total);
+    const owedCents = league ? toCents(getAmountOwed(league, member)) : 0;
+
+    await tx.update(leagueMembers)
+      .set({ amountPaid: (paidCents / 100).toFixed(2), paidStatus: getDuesStatus(paidCents, owedCents) })
+      .where(eq(leagueMembers.id, member.id));
+  }
+
+  async refreshMemberDues(leagueId: number, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.recomputeMemberDues(tx, leagueId, userId);
+    });
+  }
+
+  async refreshLeagueDues(leagueId: number): Promise<void> {
+    const members = await db.select({ userId: leagueMembers.userId }).from(leagueMembers)
+      .where(eq(leagueMembers.leagueId, leagueId));
+    for (const member of members) {
+      await this.refreshMemberDues(leagueId, member.userId);
+    }
   }
 
   async getLeagueTransactions(leagueId: number): Promise<{ payments: Payment[], payouts: Payout[] }> {
@@ -331,19 +986,146 @@ export class DatabaseStorage implements IStorage {
     return { payments: leaguePayments, payouts: leaguePayouts };
   }
 
+  // Season payout methods
+  async getSeasonPayoutBatch(leagueId: number, seasonYear: number): Promise<SeasonPayoutBatch | undefined> {
+    const [batch] = await db.select().from(seasonPayoutBatches)
+      .where(and(eq(seasonPayoutBatches.leagueId, leagueId), eq(seasonPayoutBatches.seasonYear, seasonYear)));
+    return batch;
+  }
+
+  // Creates or replaces the season's draft; returns undefined once it's been paid
+  async saveSeasonPayoutDraft(batch: InsertSeasonPayoutBatch): Promise<SeasonPayoutBatch | undefined> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(seasonPayoutBatches)
+        .values({ ...batch, status: 'draft' })
+        .onConflictDoUpdate({
+          target: [seasonPayoutBatches.leagueId, seasonPayoutBatches.seasonYear],
+          set: {
+            standingsSource: batch.standingsSource,
+            standings: batch.standings,
+            lines: batch.lines,
+            potAmount: batch.potAmount,
+            totalAmount: batch.totalAmount,
+            createdBy: batch.createdBy,
+            updatedAt: new Date()
+          },
+          setWhere: eq(seasonPayoutBatches.status, 'draft')
+        })
+        .returning();
+      if (saved) {
+        await this.recordAudit(tx, {
+          leagueId: saved.leagueId,
+          entityType: 'season_payout',
+          entityId: saved.id,
+          action: 'draft',
+          after: { seasonYear: saved.seasonYear, standingsSource: saved.standingsSource, lines: saved.lines, totalAmount: saved.totalAmount }
+        });
+      }
+      return saved;
+    });
+  }
+
+  // Every line's payout, wallet credit and ledger posting commit together with
+  // the batch moving to 'paid'; a second approval finds it already paid. With
+  // an approval threshold set, whoever calculated the batch can't approve it
+  // (undefined, batch left in draft) and lines above the threshold are held
+  // in the approval queue instead of credited.
+  async paySeasonPayoutBatch(batchId: number, approvedBy: string, approvalThreshold: number): Promise<SeasonPayoutBatch | undefined> {
+    const [draft] = await db.select().from(seasonPayoutBatches).where(eq(seasonPayoutBatches.id, batchId));
+    if (!draft || draft.status !== 'draft') return undefined;
+    if (approvalThreshold > 0 && draft.createdBy === approvedBy) return undefined;
+
+    // Wallets are created up front; creating one twice is harmless
+    const walletIds = new Map<string, number>();
+    for (const line of draft.lines) {
+      if (!walletIds.has(line.userId)) {
+        walletIds.set(line.userId, (await this.getOrCreateWallet(draft.leagueId, line.userId)).id);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx.select().from(seasonPayoutBatches)
+        .where(eq(seasonPayoutBatches.id, batchId))
+        .for('update');
+      // Recalculating re-stamps createdBy, so check again under the lock
+      if (!batch || batch.status !== 'draft') return undefined;
+      if (approvalThreshold > 0 && batch.createdBy === approvedBy) return undefined;
+
+      const payoutIds: number[] = [];
+      for (const line of batch.lines) {
+        const walletId = walletIds.get(line.userId);
+        if (!walletId) throw new Error(`No wallet for ${line.userId}`);
+
+        const description = `${batch.seasonYear} Season - ${SEASON_PRIZE_LABELS[line.prize]}`;
+        const held = approvalThreshold > 0 && Number(line.amount) > approvalThreshold;
+        const [payout] = await tx.insert(payouts).values({
+          leagueId: batch.leagueId,
+          userId: line.userId,
+          amount: line.amount,
+          reason: line.prize,
+          status: held ? 'pending_approval' : 'approved',
+          payoutType: 'standard',
+          feeAmount: "0"
+        }).returning();
+        payoutIds.push(payout.id);
+        await this.recordAudit(tx, { leagueId: payout.leagueId, entityType: 'payout', entityId: payout.id, action: 'create', after: payout });
+
+        if (held) {
+          await tx.insert(approvalRequests).values({
+            leagueId: payout.leagueId,
+            sourceType: 'payout',
+            sourceId: payout.id,
+            userId: payout.userId,
+            amount: payout.amount,
+            description,
+            requestedBy: approvedBy
+          });
+          continue;
+        }
+
+        await this.creditLockedWallet(tx, walletId, line.amount, 'payout', payout.id, description);
+        await this.insertLedgerPosting(tx, payoutPosting(payout, walletId));
+      }
+
+      const [paid] = await tx.update(seasonPayoutBatches)
+        .set({ status: 'paid', payoutIds, approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(seasonPayoutBatches.id, batchId))
+        .returning();
+      await this.recordAudit(tx, {
+        leagueId: paid.leagueId,
+        entityType: 'season_payout',
+        entityId: paid.id,
+        action: 'approve',
+        before: { status: 'draft' },
+        after: { status: 'paid', payoutIds, totalAmount: paid.totalAmount }
+      });
+      return paid;
+    });
+  }
+
   async addWeeklyScore(score: InsertWeeklyScore): Promise<WeeklyScore> {
-    const [newScore] = await db.insert(weeklyScores).values({
-      leagueId: score.leagueId,
-      userId: score.userId,
-      week: score.week,
-      score: score.score,
-      source: score.source || 'manual'
-    }).returning();
-    return newScore;
+    return await db.transaction(async (tx) => {
+      const [newScore] = await tx.insert(weeklyScores).values({
+        leagueId: score.leagueId,
+        userId: score.userId,
+        week: score.week,
+        score: score.score,
+        benchScore: score.benchScore ?? null,
+        source: score.source || 'manual'
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newScore.leagueId, entityType: 'score', entityId: newScore.id, action: 'create', after: newScore });
+      return newScore;
+    });
   }
 
   async updateWeeklyScore(id: number, score: string): Promise<void> {
-    await db.update(weeklyScores).set({ score }).where(eq(weeklyScores.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(weeklyScores).where(eq(weeklyScores.id, id)).for('update');
+      await tx.update(weeklyScores).set({ score }).where(eq(weeklyScores.id, id));
+      if (before) {
+        await this.recordAudit(tx, { leagueId: before.leagueId, entityType: 'score', entityId: id, action: 'update', before: { score: before.score }, after: { score } });
+      }
+    });
   }
 
   async getWeeklyScores(leagueId: number, week: number): Promise<WeeklyScore[]> {
@@ -362,22 +1144,55 @@ export class DatabaseStorage implements IStorage {
     return scores.length > 0 ? scores[scores.length - 1] : undefined;
   }
 
+  async getSeasonPointsFor(leagueId: number, userIds: string[], throughWeek: number): Promise<Map<string, number>> {
+    const rows = await db.select({
+      userId: weeklyScores.userId,
+      total: sql<string>`sum(${weeklyScores.score})`
+    }).from(weeklyScores)
+      .where(and(
+        eq(weeklyScores.leagueId, leagueId),
+        inArray(weeklyScores.userId, userIds),
+        lte(weeklyScores.week, throughWeek)
+      ))
+      .groupBy(weeklyScores.userId);
+    return new Map(rows.map(r => [r.userId, Number(r.total)]));
+  }
+
+  async hasNonAuthoritativeScores(leagueId: number, week: number, authoritativeSources: string[]): Promise<boolean> {
+    const [row] = await db.select({ id: weeklyScores.id }).from(weeklyScores)
+      .where(and(
+        eq(weeklyScores.leagueId, leagueId),
+        eq(weeklyScores.week, week),
+        notInArray(weeklyScores.source, authoritativeSources)
+      ))
+      .limit(1);
+    return !!row;
+  }
+
   // Platform fee methods
   async createPlatformFee(fee: InsertPlatformFee): Promise<PlatformFee> {
-    const [newFee] = await db.insert(platformFees).values({
-      payoutId: fee.payoutId,
-      leagueId: fee.leagueId,
-      amount: fee.amount,
-      feeType: fee.feeType || 'instant_payout'
-    }).returning();
-    return newFee;
+    return await db.transaction(async (tx) => {
+      const [newFee] = await tx.insert(platformFees).values({
+        payoutId: fee.payoutId,
+        leagueId: fee.leagueId,
+        amount: fee.amount,
+        feeType: fee.feeType || 'instant_payout'
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newFee.leagueId, entityType: 'platform_fee', entityId: newFee.id, action: 'create', after: newFee });
+      return newFee;
+    });
   }
 
   async updatePlatformFeeStatus(id: number, status: string, stripeTransferId?: string): Promise<void> {
-    await db.update(platformFees).set({ 
-      status, 
-      stripeTransferId: stripeTransferId || null 
-    }).where(eq(platformFees.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(platformFees).where(eq(platformFees.id, id)).for('update');
+      if (!before) return;
+      await tx.update(platformFees).set({
+        status,
+        stripeTransferId: stripeTransferId || null
+      }).where(eq(platformFees.id, id));
+      await this.recordAudit(tx, { leagueId: before.leagueId, entityType: 'platform_fee', entityId: id, action: 'update_status', before: { status: before.status }, after: { status } });
+    });
   }
 
   async getTotalPlatformFees(): Promise<string> {
@@ -414,8 +1229,9 @@ export class DatabaseStorage implements IStorage {
       pendingBalance: "0",
       totalEarnings: "0",
       totalWithdrawn: "0"
-    }).returning();
-    return newWallet;
+    }).onConflictDoNothing({ target: [memberWallets.leagueId, memberWallets.userId] }).returning();
+    // Another request created it first
+    return newWallet || (await this.getMemberWallet(leagueId, userId))!;
   }
 
   async getMemberWallet(leagueId: number, userId: string): Promise<MemberWallet | undefined> {
@@ -437,60 +1253,103 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(memberWallets).where(eq(memberWallets.leagueId, leagueId));
   }
 
-  async creditWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string): Promise<WalletTransaction> {
-    const wallet = await this.getMemberWalletById(walletId);
-    if (!wallet) throw new Error("Wallet not found");
-
-    const newBalance = (Number(wallet.availableBalance) + Number(amount)).toFixed(2);
-    const newTotalEarnings = (Number(wallet.totalEarnings) + Number(amount)).toFixed(2);
-
-    await db.update(memberWallets).set({
-      availableBalance: newBalance,
-      totalEarnings: newTotalEarnings,
-      updatedAt: new Date()
-    }).where(eq(memberWallets.id, walletId));
+  // Both wallet operations lock the wallet row (SELECT ... FOR UPDATE) and write
+  // the balance and its ledger entry in one transaction, so concurrent calls
+  // serialize and a crash can't leave them out of sync
+  // `ledger` is posted in the same transaction when given
+  async creditWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string, ledger?: LedgerPosting): Promise<WalletTransaction> {
+    return await db.transaction(async (tx) => {
+      const transaction = await this.creditLockedWallet(tx, walletId, amount, sourceType, sourceId, description);
+      if (ledger) await this.insertLedgerPosting(tx, ledger);
+      return transaction;
+    });
+  }
 
-    const [transaction] = await db.insert(walletTransactions).values({
-      walletId,
-      leagueId: wallet.leagueId,
-      userId: wallet.userId,
-      type: 'credit',
-      amount,
-      sourceType,
-      sourceId,
-      description,
-      balanceAfter: newBalance
-    }).returning();
-    return transaction;
+  async debitWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string, ledger?: LedgerPosting): Promise<WalletTransaction> {
+    return await db.transaction(async (tx) => {
+      const transaction = await this.debitLockedWallet(tx, walletId, amount, sourceType, sourceId, description);
+      if (ledger) await this.insertLedgerPosting(tx, ledger);
+      return transaction;
+    });
   }
 
-  async debitWallet(walletId: number, amount: string, sourceType: string, sourceId: number | null, description: string): Promise<WalletTransaction> {
-    const wallet = await this.getMemberWalletById(walletId);
+  private async lockWallet(tx: DbTransaction, walletId: number): Promise<MemberWallet> {
+    const [wallet] = await tx.select().from(memberWallets)
+      .where(eq(memberWallets.id, walletId))
+      .for('update');
     if (!wallet) throw new Error("Wallet not found");
+    return wallet;
+  }
 
-    const currentBalance = Number(wallet.availableBalance);
-    if (currentBalance < Number(amount)) throw new Error("Insufficient balance");
+  private async creditLockedWallet(
+    tx: DbTransaction,
+    walletId: number,
+    amount: string,
+    sourceType: string,
+    sourceId: number | null,
+    description: string
+  ): Promise<WalletTransaction> {
+    return await this.changeLockedWalletBalance(tx, walletId, 'credit', amount, 'totalEarnings', sourceType, sourceId, description);
+  }
+
+  private async debitLockedWallet(
+    tx: DbTransaction,
+    walletId: number,
+    amount: string,
+    sourceType: string,
+    sourceId: number | null,
+    description: string
+  ): Promise<WalletTransaction> {
+    return await this.changeLockedWalletBalance(tx, walletId, 'debit', amount, 'totalWithdrawn', sourceType, sourceId, description);
+  }
+
+  // Moves the available balance and records the wallet transaction.
+  // `lifetimeTotal` is the running total the change counts toward; a balance
+  // carried between seasons is neither new winnings nor a withdrawal.
+  private async changeLockedWalletBalance(
+    tx: DbTransaction,
+    walletId: number,
+    type: 'credit' | 'debit',
+    amount: string,
+    lifetimeTotal: 'totalEarnings' | 'totalWithdrawn' | null,
+    sourceType: string,
+    sourceId: number | null,
+    description: string
+  ): Promise<WalletTransaction> {
+    const wallet = await this.lockWallet(tx, walletId);
 
-    const newBalance = (currentBalance - Number(amount)).toFixed(2);
-    const newTotalWithdrawn = (Number(wallet.totalWithdrawn) + Number(amount)).toFixed(2);
+    const currentBalance = Number(wallet.availableBalance);
+    if (type === 'debit' && currentBalance < Number(amount)) throw new InsufficientBalanceError();
 
-    await db.update(memberWallets).set({
+    const newBalance = (type === 'credit' ? currentBalance + Number(amount) : currentBalance - Number(amount)).toFixed(2);
+    // Credits add to totalEarnings and debits to totalWithdrawn; the other way
+    // round takes back from the total, e.g. a failed withdrawal returned
+    const totalChange = (lifetimeTotal === 'totalEarnings') === (type === 'credit') ? Number(amount) : -Number(amount);
+    await tx.update(memberWallets).set({
       availableBalance: newBalance,
-      totalWithdrawn: newTotalWithdrawn,
+      ...(lifetimeTotal && { [lifetimeTotal]: Math.max(Number(wallet[lifetimeTotal]) + totalChange, 0).toFixed(2) }),
       updatedAt: new Date()
     }).where(eq(memberWallets.id, walletId));
 
-    const [transaction] = await db.insert(walletTransactions).values({
+    const [transaction] = await tx.insert(walletTransactions).values({
       walletId,
       leagueId: wallet.leagueId,
       userId: wallet.userId,
-      type: 'debit',
+      type,
       amount,
       sourceType,
       sourceId,
       description,
       balanceAfter: newBalance
     }).returning();
+    await this.recordAudit(tx, {
+      leagueId: wallet.leagueId,
+      entityType: 'wallet',
+      entityId: walletId,
+      action: type,
+      before: { availableBalance: wallet.availableBalance },
+      after: { availableBalance: newBalance, amount, sourceType, sourceId }
+    });
     return transaction;
   }
 
@@ -500,37 +1359,168 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(walletTransactions.createdAt));
   }
 
+  // Read from the ledger's league_treasury account (credits in, debits out)
   async getLeagueTreasury(leagueId: number): Promise<{ totalInflow: string; totalOutflow: string; availableBalance: string }> {
-    const [inflow] = await db.select({
-      total: sql<string>`COALESCE(SUM(amount), 0)`
-    }).from(payments).where(and(eq(payments.leagueId, leagueId), eq(payments.status, 'completed')));
-
-    const [outflow] = await db.select({
-      total: sql<string>`COALESCE(SUM(amount), 0)`
-    }).from(payouts).where(and(eq(payouts.leagueId, leagueId), eq(payouts.status, 'paid')));
+    const [totals] = await db.select({
+      inflow: sql<string>`COALESCE(SUM(CASE WHEN ${ledgerEntries.amount} < 0 THEN -${ledgerEntries.amount} ELSE 0 END), 0)`,
+      outflow: sql<string>`COALESCE(SUM(CASE WHEN ${ledgerEntries.amount} > 0 THEN ${ledgerEntries.amount} ELSE 0 END), 0)`
+    }).from(ledgerEntries).where(and(
+      eq(ledgerEntries.leagueId, leagueId),
+      eq(ledgerEntries.account, 'league_treasury')
+    ));
 
-    const totalIn = Number(inflow.total || 0);
-    const totalOut = Number(outflow.total || 0);
+    const totalIn = Number(totals.inflow || 0);
+    const totalOut = Number(totals.outflow || 0);
 
     return {
-      totalInflow: inflow.total || "0",
-      totalOutflow: outflow.total || "0",
+      totalInflow: totalIn.toFixed(2),
+      totalOutflow: totalOut.toFixed(2),
       availableBalance: (totalIn - totalOut).toFixed(2)
     };
   }
 
+  // Ledger methods
+  // Returns false without writing anything if the key was already posted
+  private async insertLedgerPosting(tx: DbTransaction, posting: LedgerPosting): Promise<boolean> {
+    if (!isBalanced(posting.lines)) {
+      throw new Error(`Ledger posting ${posting.key} does not balance`);
+    }
+
+    const [transaction] = await tx.insert(ledgerTransactions).values({
+      leagueId: posting.leagueId,
+      key: posting.key,
+      sourceType: posting.sourceType,
+      sourceId: posting.sourceId,
+      description: posting.description
+    }).onConflictDoNothing({ target: ledgerTransactions.key }).returning();
+    if (!transaction) return false;
+
+    await tx.insert(ledgerEntries).values(posting.lines.map(line => ({
+      transactionId: transaction.id,
+      leagueId: posting.leagueId,
+      account: line.account,
+      walletId: line.walletId ?? null,
+      amount: line.amount
+    })));
+    return true;
+  }
+
+  async postLedgerTransaction(posting: LedgerPosting): Promise<boolean> {
+    return await db.transaction(async (tx) => this.insertLedgerPosting(tx, posting));
+  }
+
+  // Raw debit-positive sums; callers flip the sign for credit-normal accounts
+  async getLedgerBalances(leagueId: number): Promise<{ account: LedgerAccount; walletId: number | null; balance: string }[]> {
+    const rows = await db.select({
+      account: ledgerEntries.account,
+      walletId: ledgerEntries.walletId,
+      balance: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)`
+    }).from(ledgerEntries)
+      .where(eq(ledgerEntries.leagueId, leagueId))
+      .groupBy(ledgerEntries.account, ledgerEntries.walletId);
+    return rows.map(r => ({ ...r, account: r.account as LedgerAccount }));
+  }
+
+  async getLedgerSourceTotals(leagueId: number): Promise<{ sourceType: string; account: LedgerAccount; total: string }[]> {
+    const rows = await db.select({
+      sourceType: ledgerTransactions.sourceType,
+      account: ledgerEntries.account,
+      total: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)`
+    }).from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(eq(ledgerEntries.leagueId, leagueId))
+      .groupBy(ledgerTransactions.sourceType, ledgerEntries.account);
+    return rows.map(r => ({ ...r, account: r.account as LedgerAccount }));
+  }
+
+  async getUnbalancedLedgerTransactionIds(leagueId: number): Promise<number[]> {
+    const rows = await db.select({ transactionId: ledgerEntries.transactionId })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.leagueId, leagueId))
+      .groupBy(ledgerEntries.transactionId)
+      .having(sql`SUM(${ledgerEntries.amount}) <> 0`);
+    return rows.map(r => r.transactionId);
+  }
+
+  async getUnpostedPaymentIds(leagueId: number): Promise<number[]> {
+    const rows = await db.select({ id: payments.id })
+      .from(payments)
+      .leftJoin(ledgerTransactions, eq(ledgerTransactions.key, sql`'payment:' || ${payments.id}`))
+      .where(and(
+        eq(payments.leagueId, leagueId),
+        inArray(payments.status, ['completed', 'partially_refunded', 'refunded']),
+        isNull(ledgerTransactions.id)
+      ));
+    return rows.map(r => r.id);
+  }
+
+  // Pending payouts haven't moved money yet
+  async getUnpostedPayoutIds(leagueId: number): Promise<number[]> {
+    const rows = await db.select({ id: payouts.id })
+      .from(payouts)
+      .leftJoin(ledgerTransactions, eq(ledgerTransactions.key, sql`'payout:' || ${payouts.id}`))
+      .where(and(
+        eq(payouts.leagueId, leagueId),
+        inArray(payouts.status, ['approved', 'paid']),
+        isNull(ledgerTransactions.id)
+      ));
+    return rows.map(r => r.id);
+  }
+
+  // Payments and payouts from before the ledger have no postings, so the
+  // treasury would leave them out. Postings are keyed by their source, so
+  // running this again posts nothing twice.
+  async postLegacyLedgerEntries(): Promise<number> {
+    let posted = 0;
+    for (const league of await this.getAllLeagues()) {
+      for (const id of await this.getUnpostedPaymentIds(league.id)) {
+        const payment = await this.getPayment(id);
+        if (payment && await this.postLedgerTransaction(paymentPosting(payment))) posted++;
+      }
+      for (const id of await this.getUnpostedPayoutIds(league.id)) {
+        const payout = await this.getPayout(id);
+        if (!payout) continue;
+        const wallet = await this.getOrCreateWallet(payout.leagueId, payout.userId);
+        if (await this.postLedgerTransaction(payoutPosting(payout, wallet.id))) posted++;
+      }
+    }
+    return posted;
+  }
+
   // Withdrawal request methods
-  async createWithdrawalRequest(request: InsertWithdrawalRequest): Promise<WithdrawalRequest> {
-    const [newRequest] = await db.insert(withdrawalRequests).values({
-      walletId: request.walletId,
-      leagueId: request.leagueId,
-      userId: request.userId,
-      amount: request.amount,
-      payoutType: request.payoutType || 'standard',
-      feeAmount: request.feeAmount || "0",
-      netAmount: request.netAmount
-    }).returning();
-    return newRequest;
+  // Records the request and debits the wallet together; throws
+  // InsufficientBalanceError (and records nothing) if the balance is short.
+  // With requiresApproval the request is held in the approval queue.
+  async createWithdrawalRequest(request: InsertWithdrawalRequest, description: string, requiresApproval = false): Promise<WithdrawalRequest> {
+    return await db.transaction(async (tx) => {
+      const [newRequest] = await tx.insert(withdrawalRequests).values({
+        walletId: request.walletId,
+        leagueId: request.leagueId,
+        userId: request.userId,
+        amount: request.amount,
+        status: requiresApproval ? 'pending_approval' : 'pending',
+        payoutType: request.payoutType || 'standard',
+        feeAmount: request.feeAmount || "0",
+        netAmount: request.netAmount
+      }).returning();
+
+      await this.debitLockedWallet(tx, request.walletId, request.amount, 'withdrawal', newRequest.id, description);
+      await this.insertLedgerPosting(tx, withdrawalPosting(newRequest));
+
+      if (requiresApproval) {
+        await tx.insert(approvalRequests).values({
+          leagueId: newRequest.leagueId,
+          sourceType: 'withdrawal',
+          sourceId: newRequest.id,
+          userId: newRequest.userId,
+          amount: newRequest.amount,
+          description,
+          requestedBy: newRequest.userId
+        });
+      }
+      await this.recordAudit(tx, { leagueId: newRequest.leagueId, entityType: 'withdrawal', entityId: newRequest.id, action: 'create', after: newRequest });
+      return newRequest;
+    });
   }
 
   async getWithdrawalRequest(id: number): Promise<WithdrawalRequest | undefined> {
@@ -545,27 +1535,104 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateWithdrawalStatus(id: number, status: string, stripeTransferId?: string, failureReason?: string): Promise<void> {
-    await db.update(withdrawalRequests).set({
-      status,
-      stripeTransferId: stripeTransferId || null,
-      failureReason: failureReason || null,
-      processedAt: status === 'completed' || status === 'failed' ? new Date() : null
-    }).where(eq(withdrawalRequests.id, id));
+    await db.transaction(async (tx) => {
+      const [updated] = await tx.update(withdrawalRequests).set({
+        status,
+        stripeTransferId: stripeTransferId || null,
+        failureReason: failureReason || null,
+        processedAt: status === 'completed' || status === 'failed' ? new Date() : null
+      }).where(eq(withdrawalRequests.id, id)).returning();
+      if (updated) {
+        await this.recordAudit(tx, { leagueId: updated.leagueId, entityType: 'withdrawal', entityId: id, action: 'update_status', after: { status, failureReason: failureReason || null } });
+      }
+    });
+  }
+
+  async getWithdrawalByTransferId(stripeTransferId: string): Promise<WithdrawalRequest | undefined> {
+    const [request] = await db.select().from(withdrawalRequests)
+      .where(eq(withdrawalRequests.stripeTransferId, stripeTransferId));
+    return request;
+  }
+
+  // Returns the request only when this call changed its status, so duplicate
+  // webhook deliveries can't apply a transition twice
+  async transitionWithdrawalStatus(
+    id: number,
+    fromStatuses: string[],
+    toStatus: string,
+    updates: { stripeTransferId?: string; stripePayoutId?: string } = {}
+  ): Promise<WithdrawalRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select({ status: withdrawalRequests.status }).from(withdrawalRequests)
+        .where(eq(withdrawalRequests.id, id))
+        .for('update');
+      const [updated] = await tx.update(withdrawalRequests).set({
+        status: toStatus,
+        ...updates,
+        processedAt: toStatus === 'completed' ? new Date() : undefined
+      }).where(and(
+        eq(withdrawalRequests.id, id),
+        inArray(withdrawalRequests.status, fromStatuses)
+      )).returning();
+      if (updated) {
+        await this.recordAudit(tx, { leagueId: updated.leagueId, entityType: 'withdrawal', entityId: id, action: 'update_status', before, after: { status: toStatus, ...updates } });
+      }
+      return updated;
+    });
+  }
+
+  // Marks the withdrawal failed and puts the debited amount back in the wallet
+  // as a 'refund' transaction, in one transaction and at most once
+  async failWithdrawalAndRefund(id: number, failureReason: string): Promise<WithdrawalRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [failed] = await tx.update(withdrawalRequests).set({
+        status: 'failed',
+        failureReason,
+        processedAt: new Date()
+      }).where(and(
+        eq(withdrawalRequests.id, id),
+        inArray(withdrawalRequests.status, ['pending', 'processing', 'completed'])
+      )).returning();
+      if (!failed) return undefined;
+
+      await this.returnWithdrawnFunds(tx, failed, `Withdrawal #${failed.id} failed - funds returned`);
+      await this.recordAudit(tx, { leagueId: failed.leagueId, entityType: 'withdrawal', entityId: id, action: 'update_status', after: { status: 'failed', failureReason } });
+      return failed;
+    });
+  }
+
+  private async returnWithdrawnFunds(tx: DbTransaction, withdrawal: WithdrawalRequest, description: string): Promise<void> {
+    await this.changeLockedWalletBalance(tx, withdrawal.walletId, 'credit', withdrawal.amount, 'totalWithdrawn', 'refund', withdrawal.id, description);
+    await this.insertLedgerPosting(tx, withdrawalRefundPosting(withdrawal));
   }
 
   // LPS Payment Request methods
   async createLpsPaymentRequest(request: InsertLpsPaymentRequest): Promise<LpsPaymentRequest> {
-    const [newRequest] = await db.insert(lpsPaymentRequests).values({
-      leagueId: request.leagueId,
-      userId: request.userId,
-      week: request.week,
-      amount: request.amount,
-      paymentToken: request.paymentToken,
-      phoneNumber: request.phoneNumber || null
-    }).returning();
-    return newRequest;
+    return await db.transaction(async (tx) => {
+      const [newRequest] = await tx.insert(lpsPaymentRequests).values({
+        leagueId: request.leagueId,
+        userId: request.userId,
+        week: request.week,
+        amount: request.amount,
+        phoneNumber: request.phoneNumber || null
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newRequest.leagueId, entityType: 'lps_request', entityId: newRequest.id, action: 'create', after: newRequest });
+      return newRequest;
+    });
+  }
+
+  async getLpsPaymentRequest(id: number): Promise<LpsPaymentRequest | undefined> {
+    const [request] = await db.select().from(lpsPaymentRequests)
+      .where(eq(lpsPaymentRequests.id, id));
+    return request;
+  }
+
+  async getLpsPaymentRequestsByIds(ids: number[]): Promise<LpsPaymentRequest[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(lpsPaymentRequests).where(inArray(lpsPaymentRequests.id, ids));
   }
 
+  // Links sent before link_tokens
   async getLpsPaymentByToken(token: string): Promise<LpsPaymentRequest | undefined> {
     const [request] = await db.select().from(lpsPaymentRequests)
       .where(eq(lpsPaymentRequests.paymentToken, token));
@@ -573,52 +1640,136 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateLpsPaymentStatus(id: number, status: string): Promise<void> {
-    await db.update(lpsPaymentRequests).set({
-      status,
-      paidAt: status === 'paid' ? new Date() : null
-    }).where(eq(lpsPaymentRequests.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ status: lpsPaymentRequests.status }).from(lpsPaymentRequests)
+        .where(eq(lpsPaymentRequests.id, id))
+        .for('update');
+      const [updated] = await tx.update(lpsPaymentRequests).set({
+        status,
+        paidAt: status === 'paid' ? new Date() : null
+      }).where(eq(lpsPaymentRequests.id, id)).returning();
+      if (updated) {
+        await this.recordAudit(tx, { leagueId: updated.leagueId, entityType: 'lps_request', entityId: id, action: 'update_status', before, after: { status } });
+      }
+    });
   }
 
   async markLpsSmsAsSent(id: number): Promise<void> {
-    await db.update(lpsPaymentRequests).set({ smsSent: true })
-      .where(eq(lpsPaymentRequests.id, id));
+    await this.updateLpsRequestAudited(id, { smsSent: true }, 'notify');
+  }
+
+  async updateLpsDeliveryStatus(id: number, deliveryStatus: string): Promise<void> {
+    await this.updateLpsRequestAudited(id, { deliveryStatus }, 'delivery');
+  }
+
+  private async updateLpsRequestAudited(
+    id: number,
+    changes: Partial<typeof lpsPaymentRequests.$inferInsert>,
+    action: string
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(lpsPaymentRequests).where(eq(lpsPaymentRequests.id, id)).for('update');
+      if (!before) return;
+      const [updated] = await tx.update(lpsPaymentRequests)
+        .set(changes)
+        .where(eq(lpsPaymentRequests.id, id))
+        .returning();
+      const fields = Object.keys(changes) as (keyof LpsPaymentRequest)[];
+      await this.recordAudit(tx, {
+        leagueId: before.leagueId,
+        entityType: 'lps_request',
+        entityId: id,
+        action,
+        before: Object.fromEntries(fields.map(f => [f, before[f]])),
+        after: Object.fromEntries(fields.map(f => [f, updated[f]]))
+      });
+    });
+  }
+
+  async getPendingLpsPaymentRequests(leagueId: number, userId: string): Promise<LpsPaymentRequest[]> {
+    return await db.select().from(lpsPaymentRequests)
+      .where(and(
+        eq(lpsPaymentRequests.leagueId, leagueId),
+        eq(lpsPaymentRequests.userId, userId),
+        eq(lpsPaymentRequests.status, 'pending')
+      ))
+      .orderBy(lpsPaymentRequests.week);
   }
 
   // Member phone number methods
   async updateMemberPhoneNumber(memberId: number, phoneNumber: string): Promise<void> {
-    await db.update(leagueMembers).set({ phoneNumber })
-      .where(eq(leagueMembers.id, memberId));
+    await this.updateMemberAudited(memberId, { phoneNumber });
   }
 
-  async updateMemberEspnTeamId(memberId: number, espnTeamId: string): Promise<void> {
-    await db.update(leagueMembers).set({ externalTeamId: espnTeamId })
-      .where(eq(leagueMembers.id, memberId));
+  async updateMemberExternalTeamId(memberId: number, externalTeamId: string): Promise<void> {
+    await this.updateMemberAudited(memberId, { externalTeamId });
   }
 
-  async getUnpaidMembersWithPhone(leagueId: number): Promise<LeagueMember[]> {
+  // Whatever contact details they have; the notification service picks the channel
+  async getUnpaidMembers(leagueId: number): Promise<LeagueMember[]> {
     return await db.select().from(leagueMembers)
       .where(and(
         eq(leagueMembers.leagueId, leagueId),
-        eq(leagueMembers.paidStatus, 'unpaid')
+        inArray(leagueMembers.paidStatus, ['unpaid', 'partial'])
       ));
   }
 
+  // Phone numbers are stored as typed, so they're compared by digits. A US
+  // number may have been entered with or without the leading 1.
+  async getMembersByPhoneNumber(phoneNumber: string): Promise<LeagueMember[]> {
+    const digits = phoneNumber.replace(/\D/g, '');
+    const candidates = digits.length === 11 && digits.startsWith('1') ? [digits, digits.slice(1)] : [digits];
+    return await db.select().from(leagueMembers)
+      .where(inArray(sql`regexp_replace(${leagueMembers.phoneNumber}, '[^0-9]', '', 'g')`, candidates));
+  }
+
   // Payment reminder methods
   async createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder> {
-    const [newReminder] = await db.insert(paymentReminders).values({
-      leagueId: reminder.leagueId,
-      userId: reminder.userId,
-      type: reminder.type,
-      phoneNumber: reminder.phoneNumber || null
-    }).returning();
-    return newReminder;
+    return await db.transaction(async (tx) => {
+      const [newReminder] = await tx.insert(paymentReminders).values({
+        leagueId: reminder.leagueId,
+        userId: reminder.userId,
+        type: reminder.type,
+        channel: reminder.channel || null,
+        phoneNumber: reminder.phoneNumber || null,
+        email: reminder.email || null,
+        notificationId: reminder.notificationId ?? null
+      }).returning();
+      await this.recordAudit(tx, { leagueId: newReminder.leagueId, entityType: 'reminder', entityId: newReminder.id, action: 'create', after: newReminder });
+      return newReminder;
+    });
   }
 
   async updateReminderStatus(id: number, status: string): Promise<void> {
-    await db.update(paymentReminders).set({
-      status,
-      sentAt: status === 'sent' ? new Date() : null
-    }).where(eq(paymentReminders.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(paymentReminders).where(eq(paymentReminders.id, id)).for('update');
+      if (!before) return;
+      const changes = { status, sentAt: status === 'sent' ? new Date() : null };
+      await tx.update(paymentReminders).set(changes).where(eq(paymentReminders.id, id));
+      await this.recordAudit(tx, {
+        leagueId: before.leagueId,
+        entityType: 'reminder',
+        entityId: id,
+        action: 'update',
+        before: { status: before.status, sentAt: before.sentAt },
+        after: changes
+      });
+    });
+  }
+
+  // Delivery reports arrive after the reminder was marked sent, so sentAt is kept
+  async updateRemindersForNotification(notificationId: number, status: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const reminders = await tx.select().from(paymentReminders)
+        .where(eq(paymentReminders.notificationId, notificationId))
+        .for('update');
+      if (reminders.length === 0) return;
+      await tx.update(paymentReminders).set({ status })
+        .where(eq(paymentReminders.notificationId, notificationId));
+      for (const reminder of reminders) {
+        await this.recordAudit(tx, { leagueId: reminder.leagueId, entityType: 'reminder', entityId: reminder.id, action: 'delivery', before: { status: reminder.status }, after: { status } });
+      }
+    });
   }
 
   async getLeagueReminders(leagueId: number): Promise<PaymentReminder[]> {
@@ -629,77 +1780,319 @@ export class DatabaseStorage implements IStorage {
 
   // League start date
   async updateLeagueStartDate(leagueId: number, startDate: Date): Promise<void> {
-    await db.update(leagues).set({ startDate })
-      .where(eq(leagues.id, leagueId));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select({ startDate: leagues.startDate }).from(leagues).where(eq(leagues.id, leagueId)).for('update');
+      await tx.update(leagues).set({ startDate })
+        .where(eq(leagues.id, leagueId));
+      await this.recordAudit(tx, { leagueId, entityType: 'league', entityId: leagueId, action: 'update', before, after: { startDate } });
+    });
   }
 
-  async deleteLeague(leagueId: number): Promise<void> {
-    // Delete all related data in order (children first, then parent)
-    // This handles foreign key constraints properly
-    
-    // Get all wallets for this league
-    const leagueWallets = await db.select().from(memberWallets)
-      .where(eq(memberWallets.leagueId, leagueId));
-    const walletIds = leagueWallets.map(w => w.id);
-    
-    // Delete withdrawal requests first (references wallets)
-    if (walletIds.length > 0) {
-      await db.delete(withdrawalRequests)
-        .where(inArray(withdrawalRequests.walletId, walletIds));
-    }
-    
-    // Delete wallet transactions (references wallets)
-    if (walletIds.length > 0) {
-      await db.delete(walletTransactions)
-        .where(inArray(walletTransactions.walletId, walletIds));
+  // League archive methods
+  async getLeagueArchiveBlockers(leagueId: number): Promise<{ walletsWithBalance: number; withdrawalsInFlight: number }> {
+    const [wallets] = await db.select({ count: sql<number>`count(*)` }).from(memberWallets)
+      .where(and(
+        eq(memberWallets.leagueId, leagueId),
+        sql`(${memberWallets.availableBalance} <> 0 OR ${memberWallets.pendingBalance} <> 0)`
+      ));
+    const [withdrawals] = await db.select({ count: sql<number>`count(*)` }).from(withdrawalRequests)
+      .where(and(
+        eq(withdrawalRequests.leagueId, leagueId),
+        inArray(withdrawalRequests.status, IN_FLIGHT_WITHDRAWAL_STATUSES)
+      ));
+    return { walletsWithBalance: Number(wallets.count), withdrawalsInFlight: Number(withdrawals.count) };
+  }
+
+  // The balance and withdrawal checks are repeated in the update itself, so
+  // money moving between the caller's check and the archive still blocks it
+  async archiveLeague(leagueId: number, archivedBy: string): Promise<League | undefined> {
+    return await db.transaction(async (tx) => {
+      const [archived] = await tx.update(leagues)
+        .set({ archivedAt: new Date(), archivedBy })
+        .where(and(
+          eq(leagues.id, leagueId),
+          isNull(leagues.archivedAt),
+          sql`NOT EXISTS (SELECT 1 FROM ${memberWallets} WHERE ${memberWallets.leagueId} = ${leagueId} AND (${memberWallets.availableBalance} <> 0 OR ${memberWallets.pendingBalance} <> 0))`,
+          sql`NOT EXISTS (SELECT 1 FROM ${withdrawalRequests} WHERE ${withdrawalRequests.leagueId} = ${leagueId} AND ${inArray(withdrawalRequests.status, IN_FLIGHT_WITHDRAWAL_STATUSES)})`
+        ))
+        .returning();
+      if (archived) {
+        await this.recordAudit(tx, { leagueId, entityType: 'league', entityId: leagueId, action: 'archive', before: { archivedAt: null }, after: { archivedAt: archived.archivedAt } });
+      }
+      return archived;
+    });
+  }
+
+  async restoreLeague(leagueId: number): Promise<League | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select({ archivedAt: leagues.archivedAt, archivedBy: leagues.archivedBy }).from(leagues)
+        .where(eq(leagues.id, leagueId))
+        .for('update');
+      const [restored] = await tx.update(leagues)
+        .set({ archivedAt: null, archivedBy: null })
+        .where(and(eq(leagues.id, leagueId), isNotNull(leagues.archivedAt)))
+        .returning();
+      if (restored) {
+        await this.recordAudit(tx, { leagueId, entityType: 'league', entityId: leagueId, action: 'restore', before, after: { archivedAt: null } });
+      }
+      return restored;
+    });
+  }
+
+  async isLeagueArchived(leagueId: number): Promise<boolean> {
+    const [league] = await db.select({ archivedAt: leagues.archivedAt }).from(leagues).where(eq(leagues.id, leagueId));
+    return !!league?.archivedAt;
+  }
+
+  async getArchivedLeaguesBefore(archivedBefore: Date): Promise<League[]> {
+    return await db.select().from(leagues)
+      .where(and(isNotNull(leagues.archivedAt), lte(leagues.archivedAt, archivedBefore)))
+      .orderBy(leagues.archivedAt);
+  }
+
+  // Copies every row belonging to the league into league_exports, then
+  // deletes them (children first), all in one transaction. Only leagues
+  // archived on or before `archivedBefore` are purged. Job runs and audit
+  // events are kept.
+  async purgeLeague(leagueId: number, archivedBefore: Date): Promise<LeagueExport | undefined> {
+    return await db.transaction(async (tx) => {
+      const [league] = await tx.select().from(leagues)
+        .where(and(eq(leagues.id, leagueId), isNotNull(leagues.archivedAt), lte(leagues.archivedAt, archivedBefore)))
+        .for('update');
+      if (!league) return undefined;
+
+      const wallets = await tx.select().from(memberWallets).where(eq(memberWallets.leagueId, leagueId));
+      const walletIds = wallets.map(w => w.id);
+
+      const data: Record<string, any[]> = {
+        league: [{ ...league, settings: toAuditSnapshot(league.settings) }],
+        members: await tx.select().from(leagueMembers).where(eq(leagueMembers.leagueId, leagueId)),
+        payments: await tx.select().from(payments).where(eq(payments.leagueId, leagueId)),
+        refunds: await tx.select().from(refunds).where(eq(refunds.leagueId, leagueId)),
+        payouts: await tx.select().from(payouts).where(eq(payouts.leagueId, leagueId)),
+        platformFees: await tx.select().from(platformFees).where(eq(platformFees.leagueId, leagueId)),
+        wallets,
+        walletTransactions: walletIds.length > 0
+          ? await tx.select().from(walletTransactions).where(inArray(walletTransactions.walletId, walletIds))
+          : [],
+        withdrawals: await tx.select().from(withdrawalRequests).where(eq(withdrawalRequests.leagueId, leagueId)),
+        ledgerTransactions: await tx.select().from(ledgerTransactions).where(eq(ledgerTransactions.leagueId, leagueId)),
+        ledgerEntries: await tx.select().from(ledgerEntries).where(eq(ledgerEntries.leagueId, leagueId)),
+        seasonPayoutBatches: await tx.select().from(seasonPayoutBatches).where(eq(seasonPayoutBatches.leagueId, leagueId)),
+        approvalRequests: await tx.select().from(approvalRequests).where(eq(approvalRequests.leagueId, leagueId)),
+        lpsPaymentRequests: await tx.select().from(lpsPaymentRequests).where(eq(lpsPaymentRequests.leagueId, leagueId)),
+        paymentReminders: await tx.select().from(paymentReminders).where(eq(paymentReminders.leagueId, leagueId)),
+        weeklyScores: await tx.select().from(weeklyScores).where(eq(weeklyScores.leagueId, leagueId)),
+        weeklyAwardEvents: await tx.select().from(weeklyAwardEvents).where(eq(weeklyAwardEvents.leagueId, leagueId)),
+        messages: await tx.select().from(leagueMessages).where(eq(leagueMessages.leagueId, leagueId)),
+        invites: await tx.select().from(leagueInvites).where(eq(leagueInvites.leagueId, leagueId)),
+        scheduledJobs: await tx.select().from(scheduledJobs).where(eq(scheduledJobs.leagueId, leagueId))
+      };
+
+      const [exported] = await tx.insert(leagueExports)
+        .values({ leagueId, leagueName: league.name, data })
+        .returning();
+
+      if (walletIds.length > 0) {
+        await tx.delete(withdrawalRequests).where(inArray(withdrawalRequests.walletId, walletIds));
+        await tx.delete(walletTransactions).where(inArray(walletTransactions.walletId, walletIds));
+      }
+      await tx.delete(ledgerEntries).where(eq(ledgerEntries.leagueId, leagueId));
+      await tx.delete(ledgerTransactions).where(eq(ledgerTransactions.leagueId, leagueId));
+      await tx.delete(memberWallets).where(eq(memberWallets.leagueId, leagueId));
+      await tx.delete(seasonPayoutBatches).where(eq(seasonPayoutBatches.leagueId, leagueId));
+      await tx.delete(approvalRequests).where(eq(approvalRequests.leagueId, leagueId));
+      await tx.delete(leagueCredentials).where(eq(leagueCredentials.leagueId, leagueId));
+      await tx.delete(lpsPaymentRequests).where(eq(lpsPaymentRequests.leagueId, leagueId));
+      await tx.delete(paymentReminders).where(eq(paymentReminders.leagueId, leagueId));
+      await tx.delete(leagueMessages).where(eq(leagueMessages.leagueId, leagueId));
+      await tx.delete(leagueInvites).where(eq(leagueInvites.leagueId, leagueId));
+      await tx.delete(linkTokens).where(eq(linkTokens.leagueId, leagueId));
+      await tx.delete(notifications).where(eq(notifications.leagueId, leagueId));
+      await tx.delete(weeklyAwardEvents).where(eq(weeklyAwardEvents.leagueId, leagueId));
+      await tx.delete(scheduledJobs).where(eq(scheduledJobs.leagueId, leagueId));
+      await tx.delete(weeklyScores).where(eq(weeklyScores.leagueId, leagueId));
+      await tx.delete(payouts).where(eq(payouts.leagueId, leagueId));
+      await tx.delete(refunds).where(eq(refunds.leagueId, leagueId));
+      await tx.delete(payments).where(eq(payments.leagueId, leagueId));
+      await tx.delete(platformFees).where(eq(platformFees.leagueId, leagueId));
+      await tx.delete(leagueMembers).where(eq(leagueMembers.leagueId, leagueId));
+      await tx.delete(leagues).where(eq(leagues.id, leagueId));
+
+      await this.recordAudit(tx, { leagueId, entityType: 'league', entityId: leagueId, action: 'purge', before: { name: league.name, archivedAt: league.archivedAt }, after: { exportId: exported.id } });
+      return exported;
+    });
+  }
+
+  // Season rollover methods
+  // Creates the next season's league, its roster and any carried-over wallet
+  // balances in one transaction; undefined if the previous league was already
+  // rolled over or has been archived
+  async rolloverLeague(plan: SeasonRolloverPlan): Promise<SeasonRolloverOutcome | undefined> {
+    const previousLeagueId = plan.league.previousLeagueId;
+    return await db.transaction(async (tx) => {
+      // Serializes rollovers of the same league; the unique previousLeagueId is the backstop
+      const [previous] = await tx.select({ id: leagues.id }).from(leagues)
+        .where(and(eq(leagues.id, previousLeagueId), isNull(leagues.archivedAt)))
+        .for('update');
+      if (!previous) return undefined;
+      const [existing] = await tx.select({ id: leagues.id }).from(leagues).where(eq(leagues.previousLeagueId, previousLeagueId));
+      if (existing) return undefined;
+
+      const [league] = await tx.insert(leagues).values(plan.league).returning();
+      await this.recordAudit(tx, { leagueId: league.id, entityType: 'league', entityId: league.id, action: 'create', after: league });
+      // The new season keeps the same platform account connection
+      const [credentials] = await tx.select().from(leagueCredentials).where(eq(leagueCredentials.leagueId, previousLeagueId));
+      if (credentials) {
+        await tx.insert(leagueCredentials).values({ leagueId: league.id, yahooTokens: credentials.yahooTokens });
+      }
+      await this.recordAudit(tx, { leagueId: previousLeagueId, entityType: 'league', entityId: previousLeagueId, action: 'rollover', after: { nextLeagueId: league.id, seasonYear: league.seasonYear } });
+
+      const userIds = new Map<string, string>();
+      for (const member of plan.members) {
+        const userId = plan.remapUserId(member.userId, league.id);
+        userIds.set(member.userId, userId);
+        const [newMember] = await tx.insert(leagueMembers).values({ ...member, leagueId: league.id, userId }).returning();
+        await this.recordAudit(tx, { leagueId: league.id, entityType: 'member', entityId: newMember.id, action: 'create', after: newMember });
+      }
+
+      const carriedOver: SeasonRolloverOutcome['carriedOver'] = [];
+      if (plan.carryOverBalances && userIds.size > 0) {
+        const wallets = await tx.select().from(memberWallets)
+          .where(and(
+            eq(memberWallets.leagueId, previousLeagueId),
+            inArray(memberWallets.userId, Array.from(userIds.keys())),
+            sql`${memberWallets.availableBalance} > 0`
+          ))
+          .for('update');
+
+        for (const wallet of wallets) {
+          const amount = wallet.availableBalance;
+          const [newWallet] = await tx.insert(memberWallets)
+            .values({ leagueId: league.id, userId: userIds.get(wallet.userId)! })
+            .returning();
+
+          await this.changeLockedWalletBalance(tx, wallet.id, 'debit', amount, null, 'carryover', league.id, `Balance carried over to the ${league.seasonYear} season`);
+          await this.changeLockedWalletBalance(tx, newWallet.id, 'credit', amount, null, 'carryover', previousLeagueId, `Balance carried over from last season`);
+          for (const posting of carryoverPostings(wallet, newWallet, amount)) {
+            await this.insertLedgerPosting(tx, posting);
+          }
+          carriedOver.push({ userId: newWallet.userId, amount });
+        }
+      }
+
+      return { league, carriedOver };
+    });
+  }
+
+  async getNextSeasonLeague(leagueId: number): Promise<League | undefined> {
+    const [league] = await db.select().from(leagues).where(eq(leagues.previousLeagueId, leagueId));
+    return league;
+  }
+
+  // League history methods
+  // Follows previousLeagueId links both ways and matches leagues the same
+  // commissioner imported from the same platform league, until no new season
+  // turns up. Anyone can import a public platform league, so a match by
+  // external ID alone could pull another group's leagues in. Archived leagues
+  // other than the starting one are left out.
+  async getFranchiseLeagues(league: League): Promise<League[]> {
+    const found = new Map<number, League>([[league.id, league]]);
+    let frontier: League[] = [league];
+
+    while (frontier.length > 0) {
+      const conditions: SQL[] = [inArray(leagues.previousLeagueId, frontier.map(l => l.id))];
+      const previousIds = frontier.map(l => l.previousLeagueId).filter((id): id is number => id !== null);
+      if (previousIds.length > 0) conditions.push(inArray(leagues.id, previousIds));
+      for (const season of frontier) {
+        if (season.platform !== 'custom' && season.externalLeagueId) {
+          conditions.push(and(
+            eq(leagues.platform, season.platform),
+            eq(leagues.externalLeagueId, season.externalLeagueId),
+            eq(leagues.commissionerId, season.commissionerId)
+          )!);
+        }
+      }
+
+      const linked = await db.select().from(leagues).where(and(or(...conditions), isNull(leagues.archivedAt)));
+      frontier = linked.filter(l => !found.has(l.id));
+      for (const season of frontier) found.set(season.id, season);
     }
-    
-    // Delete member wallets
-    await db.delete(memberWallets)
-      .where(eq(memberWallets.leagueId, leagueId));
-    
-    // Delete LPS payment requests
-    await db.delete(lpsPaymentRequests)
-      .where(eq(lpsPaymentRequests.leagueId, leagueId));
-    
-    // Delete payment reminders
-    await db.delete(paymentReminders)
-      .where(eq(paymentReminders.leagueId, leagueId));
-    
-    // Delete league messages
-    await db.delete(leagueMessages)
-      .where(eq(leagueMessages.leagueId, leagueId));
-    
-    // Delete weekly scores
-    await db.delete(weeklyScores)
-      .where(eq(weeklyScores.leagueId, leagueId));
-    
-    // Delete payouts
-    await db.delete(payouts)
-      .where(eq(payouts.leagueId, leagueId));
-    
-    // Delete payments
-    await db.delete(payments)
-      .where(eq(payments.leagueId, leagueId));
-    
-    // Delete platform fees
-    await db.delete(platformFees)
-      .where(eq(platformFees.leagueId, leagueId));
-    
-    // Delete league members
-    await db.delete(leagueMembers)
-      .where(eq(leagueMembers.leagueId, leagueId));
-    
-    // Finally delete the league itself
-    await db.delete(leagues)
-      .where(eq(leagues.id, leagueId));
+
+    return Array.from(found.values()).sort((a, b) => a.seasonYear - b.seasonYear || a.id - b.id);
+  }
+
+  async getMembersForLeagues(leagueIds: number[]): Promise<LeagueWithMembers['members']> {
+    if (leagueIds.length === 0) return [];
+    const members = await db.query.leagueMembers.findMany({
+      where: inArray(leagueMembers.leagueId, leagueIds),
+      with: { user: true }
+    });
+    return members as LeagueWithMembers['members'];
+  }
+
+  // Dues and LPS fees actually collected, net of refunds
+  async getPaymentTotalsByMember(leagueIds: number[]): Promise<{ leagueId: number; userId: string; kind: string; total: string }[]> {
+    if (leagueIds.length === 0) return [];
+    return await db.select({
+      leagueId: payments.leagueId,
+      userId: payments.userId,
+      kind: payments.kind,
+      total: sql<string>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)`
+    }).from(payments)
+      .where(and(
+        inArray(payments.leagueId, leagueIds),
+        inArray(payments.status, ['completed', 'partially_refunded', 'refunded'])
+      ))
+      .groupBy(payments.leagueId, payments.userId, payments.kind);
+  }
+
+  // Payouts that reached (or are on their way to) the member's wallet
+  async getPayoutTotalsByMember(leagueIds: number[]): Promise<{ leagueId: number; userId: string; reason: string; total: string }[]> {
+    if (leagueIds.length === 0) return [];
+    return await db.select({
+      leagueId: payouts.leagueId,
+      userId: payouts.userId,
+      reason: payouts.reason,
+      total: sql<string>`COALESCE(SUM(${payouts.amount}), 0)`
+    }).from(payouts)
+      .where(and(
+        inArray(payouts.leagueId, leagueIds),
+        notInArray(payouts.status, ['pending_approval', 'rejected'])
+      ))
+      .groupBy(payouts.leagueId, payouts.userId, payouts.reason);
+  }
+
+  async getScoreTotalsByMember(leagueIds: number[], authoritativeSources: string[]): Promise<{ leagueId: number; userId: string; totalPoints: string; bestWeek: string }[]> {
+    if (leagueIds.length === 0) return [];
+    return await db.select({
+      leagueId: weeklyScores.leagueId,
+      userId: weeklyScores.userId,
+      totalPoints: sql<string>`COALESCE(SUM(${weeklyScores.score}), 0)`,
+      bestWeek: sql<string>`MAX(${weeklyScores.score})`
+    }).from(weeklyScores)
+      .where(and(
+        inArray(weeklyScores.leagueId, leagueIds),
+        inArray(weeklyScores.source, authoritativeSources)
+      ))
+      .groupBy(weeklyScores.leagueId, weeklyScores.userId);
+  }
+
+  async getWeeklyAwardEventsForLeagues(leagueIds: number[]): Promise<WeeklyAwardEvent[]> {
+    if (leagueIds.length === 0) return [];
+    return await db.select().from(weeklyAwardEvents)
+      .where(inArray(weeklyAwardEvents.leagueId, leagueIds))
+      .orderBy(weeklyAwardEvents.leagueId, weeklyAwardEvents.week);
   }
 
   async createLeagueMessage(leagueId: number, userId: string, content: string): Promise<LeagueMessage> {
-    const [message] = await db.insert(leagueMessages)
-      .values({ leagueId, userId, content })
-      .returning();
-    return message;
+    return await db.transaction(async (tx) => {
+      const [message] = await tx.insert(leagueMessages)
+        .values({ leagueId, userId, content })
+        .returning();
+      await this.recordAudit(tx, { leagueId, entityType: 'message', entityId: message.id, action: 'create', after: message });
+      return message;
+    });
   }
 
   async getLeagueMessages(leagueId: number, limit: number = 50): Promise<(LeagueMessage & { user?: User })[]> {
@@ -725,25 +2118,314 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteLeagueMessage(messageId: number): Promise<void> {
-    await db.delete(leagueMessages).where(eq(leagueMessages.id, messageId));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(leagueMessages).where(eq(leagueMessages.id, messageId)).returning();
+      if (deleted) {
+        await this.recordAudit(tx, { leagueId: deleted.leagueId, entityType: 'message', entityId: messageId, action: 'delete', before: deleted });
+      }
+    });
   }
 
   // League invites
-  async createLeagueInvite(invite: { leagueId: number; invitedBy: string; contactType: string; contactValue: string; inviteToken: string; teamName?: string; ownerName?: string }): Promise<LeagueInvite> {
-    const [result] = await db.insert(leagueInvites).values(invite).returning();
-    return result;
+  async createLeagueInvite(invite: { leagueId: number; invitedBy: string; contactType: string; contactValue: string; teamName?: string; ownerName?: string }): Promise<LeagueInvite> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + LEAGUE_INVITE_EXPIRY_DAYS);
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(leagueInvites).values({ ...invite, expiresAt }).returning();
+      await this.recordAudit(tx, { leagueId: result.leagueId, entityType: 'invite', entityId: result.id, action: 'create', after: result });
+      return result;
+    });
+  }
+
+  async getLeagueInvite(id: number): Promise<LeagueInvite | undefined> {
+    const [invite] = await db.select().from(leagueInvites).where(eq(leagueInvites.id, id));
+    return invite;
   }
 
   async getLeagueInvites(leagueId: number): Promise<LeagueInvite[]> {
     return db.select().from(leagueInvites).where(eq(leagueInvites.leagueId, leagueId)).orderBy(desc(leagueInvites.createdAt));
   }
 
+  // Invite links sent before link_tokens
+  async getLeagueInviteByToken(token: string): Promise<LeagueInvite | undefined> {
+    const [invite] = await db.select().from(leagueInvites).where(eq(leagueInvites.inviteToken, token));
+    return invite;
+  }
+
+  // Links the invite's placeholder member to the user, moves everything
+  // recorded against the placeholder over to them and marks the invite
+  // accepted, all at once. Undefined if the invite was already used or
+  // cancelled, the placeholder is gone, or the user joined some other way.
+  async acceptLeagueInvite(inviteId: number, placeholderUserId: string, userId: string): Promise<{ invite: LeagueInvite; member: LeagueMember } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx.select().from(leagueInvites)
+        .where(and(eq(leagueInvites.id, inviteId), inArray(leagueInvites.status, ['pending', 'sent'])))
+        .for('update');
+      if (!pending) return undefined;
+
+      const [placeholder] = await tx.select().from(leagueMembers)
+        .where(and(eq(leagueMembers.leagueId, pending.leagueId), eq(leagueMembers.userId, placeholderUserId)))
+        .for('update');
+      const [existing] = await tx.select({ id: leagueMembers.id }).from(leagueMembers)
+        .where(and(eq(leagueMembers.leagueId, pending.leagueId), eq(leagueMembers.userId, userId)));
+      if (!placeholder || existing) return undefined;
+
+      const [member] = await tx.update(leagueMembers)
+        .set({ userId })
+        .where(eq(leagueMembers.id, placeholder.id))
+        .returning();
+      await this.moveMemberHistory(tx, pending.leagueId, placeholderUserId, userId);
+
+      const [invite] = await tx.update(leagueInvites)
+        .set({ status: 'accepted', acceptedAt: new Date(), acceptedBy: userId })
+        .where(eq(leagueInvites.id, inviteId))
+        .returning();
+
+      await this.recordAudit(tx, { leagueId: member.leagueId, entityType: 'member', entityId: member.id, action: 'link_user', before: { userId: placeholderUserId }, after: { userId } });
+      await this.recordAudit(tx, { leagueId: invite.leagueId, entityType: 'invite', entityId: invite.id, action: 'accept', before: { status: pending.status }, after: { status: invite.status, acceptedBy: userId } });
+      return { invite, member };
+    });
+  }
+
+  // Re-keys a member's money, scores and awards in one league from one user ID
+  // to another. User IDs inside JSON columns are swapped as quoted strings,
+  // which covers both array entries and object keys.
+  private async moveMemberHistory(tx: DbTransaction, leagueId: number, fromUserId: string, toUserId: string): Promise<void> {
+    for (const table of [
+      payments, refunds, payouts, weeklyScores, memberWallets, walletTransactions,
+      withdrawalRequests, lpsPaymentRequests, paymentReminders, approvalRequests, notifications
+    ]) {
+      await tx.update(table)
+        .set({ userId: toUserId })
+        .where(and(eq(table.leagueId, leagueId), eq(table.userId, fromUserId)));
+    }
+
+    const from = JSON.stringify(fromUserId);
+    const to = JSON.stringify(toUserId);
+    const swapJson = (column: AnyPgColumn) => sql`replace(${column}::text, ${from}, ${to})::jsonb`;
+
+    await tx.update(weeklyAwardEvents).set({
+      highScoreUserId: sql`CASE WHEN ${weeklyAwardEvents.highScoreUserId} = ${fromUserId} THEN ${toUserId} ELSE ${weeklyAwardEvents.highScoreUserId} END`,
+      lowScoreUserId: sql`CASE WHEN ${weeklyAwardEvents.lowScoreUserId} = ${fromUserId} THEN ${toUserId} ELSE ${weeklyAwardEvents.lowScoreUserId} END`,
+      highScoreTiedUserIds: swapJson(weeklyAwardEvents.highScoreTiedUserIds),
+      lowScoreTiedUserIds: swapJson(weeklyAwardEvents.lowScoreTiedUserIds),
+      hpsRecipientIds: swapJson(weeklyAwardEvents.hpsRecipientIds),
+      lpsRecipientIds: swapJson(weeklyAwardEvents.lpsRecipientIds),
+      hpsPayoutIds: swapJson(weeklyAwardEvents.hpsPayoutIds),
+      lpsPaymentRequestIds: swapJson(weeklyAwardEvents.lpsPaymentRequestIds)
+    }).where(eq(weeklyAwardEvents.leagueId, leagueId));
+
+    await tx.update(seasonPayoutBatches).set({
+      standings: swapJson(seasonPayoutBatches.standings),
+      lines: swapJson(seasonPayoutBatches.lines)
+    }).where(eq(seasonPayoutBatches.leagueId, leagueId));
+  }
+
   async updateInviteStatus(id: number, status: string): Promise<void> {
-    await db.update(leagueInvites).set({ status }).where(eq(leagueInvites.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leagueInvites).where(eq(leagueInvites.id, id)).for('update');
+      await tx.update(leagueInvites).set({ status }).where(eq(leagueInvites.id, id));
+      if (before) {
+        await this.recordAudit(tx, { leagueId: before.leagueId, entityType: 'invite', entityId: id, action: 'update_status', before: { status: before.status }, after: { status } });
+      }
+    });
+  }
+
+  // Link tokens
+  async createLinkToken(token: InsertLinkToken): Promise<LinkToken> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(linkTokens).values(token).returning();
+      await this.recordAudit(tx, { leagueId: created.leagueId, entityType: 'link_token', entityId: created.id, action: 'issue', after: created });
+      return created;
+    });
+  }
+
+  async getLinkToken(id: number): Promise<LinkToken | undefined> {
+    const [token] = await db.select().from(linkTokens).where(eq(linkTokens.id, id));
+    return token;
+  }
+
+  async getLinkTokenByHash(tokenHash: string): Promise<LinkToken | undefined> {
+    const [token] = await db.select().from(linkTokens).where(eq(linkTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getLeagueLinkTokens(leagueId: number): Promise<LinkToken[]> {
+    return db.select().from(linkTokens).where(eq(linkTokens.leagueId, leagueId)).orderBy(desc(linkTokens.createdAt));
+  }
+
+  // Opening a link isn't audited; the count and timestamp are enough to see it was used
+  async recordLinkTokenUse(id: number): Promise<void> {
+    await db.update(linkTokens)
+      .set({ useCount: sql`${linkTokens.useCount} + 1`, lastUsedAt: new Date() })
+      .where(eq(linkTokens.id, id));
+  }
+
+  // Spends a single-use link; undefined if it was already spent or revoked
+  async consumeLinkToken(id: number, userId: string | null): Promise<LinkToken | undefined> {
+    return await db.transaction(async (tx) => {
+      const [consumed] = await tx.update(linkTokens)
+        .set({ consumedAt: new Date(), consumedBy: userId })
+        .where(and(eq(linkTokens.id, id), isNull(linkTokens.consumedAt), isNull(linkTokens.revokedAt)))
+        .returning();
+      if (consumed) {
+        await this.recordAudit(tx, { leagueId: consumed.leagueId, entityType: 'link_token', entityId: id, action: 'consume', after: { consumedBy: userId } });
+      }
+      return consumed;
+    });
+  }
+
+  async revokeLinkToken(id: number, revokedBy: string | null, reason: string): Promise<LinkToken | undefined> {
+    return await db.transaction(async (tx) => {
+      const [revoked] = await tx.update(linkTokens)
+        .set({ revokedAt: new Date(), revokedBy, revokedReason: reason })
+        .where(and(eq(linkTokens.id, id), isNull(linkTokens.consumedAt), isNull(linkTokens.revokedAt)))
+        .returning();
+      if (revoked) {
+        await this.recordAudit(tx, { leagueId: revoked.leagueId, entityType: 'link_token', entityId: id, action: 'revoke', after: { reason } });
+      }
+      return revoked;
+    });
+  }
+
+  // Revokes every live link to an invite, member or LPS request, e.g. when it's cancelled
+  async revokeLinkTokensForSubject(purpose: LinkTokenPurpose, subjectId: number, reason: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const revoked = await tx.update(linkTokens)
+        .set({ revokedAt: new Date(), revokedBy: getAuditActor().actorId, revokedReason: reason })
+        .where(and(
+          eq(linkTokens.purpose, purpose),
+          eq(linkTokens.subjectId, subjectId),
+          isNull(linkTokens.consumedAt),
+          isNull(linkTokens.revokedAt)
+        ))
+        .returning();
+      for (const token of revoked) {
+        await this.recordAudit(tx, { leagueId: token.leagueId, entityType: 'link_token', entityId: token.id, action: 'revoke', after: { reason } });
+      }
+      return revoked.length;
+    });
+  }
+
+  // Notification methods
+  async updateMemberNotificationPreferences(memberId: number, preferences: NotificationPreferences): Promise<LeagueMember> {
+    return await this.updateMemberAudited(memberId, { notificationPreferences: preferences }, 'update_notifications');
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  // Takes a pending notification that's due for sending; undefined if another
+  // worker got it first or it isn't due yet
+  async claimNotification(id: number, now: Date): Promise<Notification | undefined> {
+    const [claimed] = await db.update(notifications)
+      .set({ status: 'sending', attempts: sql`${notifications.attempts} + 1` })
+      .where(and(eq(notifications.id, id), eq(notifications.status, 'pending'), lte(notifications.sendAfter, now)))
+      .returning();
+    return claimed;
+  }
+
+  async claimNextNotification(now: Date): Promise<Notification | undefined> {
+    return await db.transaction(async (tx) => {
+      const [due] = await tx.select().from(notifications)
+        .where(and(eq(notifications.status, 'pending'), lte(notifications.sendAfter, now)))
+        .orderBy(notifications.sendAfter)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!due) return undefined;
+
+      const [claimed] = await tx.update(notifications)
+        .set({ status: 'sending', attempts: due.attempts + 1 })
+        .where(eq(notifications.id, due.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async markNotificationSent(id: number, providerMessageId: string | null): Promise<Notification> {
+    const [sent] = await db.update(notifications)
+      .set({ status: 'sent', providerMessageId, lastError: null, sentAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    return sent;
+  }
+
+  async failNotification(id: number, error: string, retryAt: Date | null): Promise<Notification> {
+    const [failed] = await db.update(notifications)
+      .set(retryAt
+        ? { status: 'pending', lastError: error, sendAfter: retryAt }
+        : { status: 'failed', lastError: error })
+      .where(eq(notifications.id, id))
+      .returning();
+    return failed;
+  }
+
+  async getLeagueNotifications(leagueId: number, limit: number): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.leagueId, leagueId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getInAppNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.channel, 'in_app'), eq(notifications.status, 'delivered')))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  // Null ids marks every unread in-app notification for the user
+  async markNotificationsRead(userId: string, ids: number[] | null): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const read = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.channel, 'in_app'),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning({ id: notifications.id });
+    return read.length;
+  }
+
+  // Undefined when no sent notification has that provider ID, e.g. a report
+  // for a text sent outside the notification service
+  async recordNotificationDelivery(providerMessageId: string, status: 'delivered' | 'failed', error: string | null): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set(status === 'delivered'
+        ? { status, deliveredAt: new Date() }
+        : { status, lastError: error })
+      .where(and(
+        eq(notifications.providerMessageId, providerMessageId),
+        inArray(notifications.status, ['sent', 'delivered', 'failed'])
+      ))
+      .returning();
+    return updated;
+  }
+
+  // SMS opt-out methods
+  async isPhoneNumberOptedOut(phoneNumber: string): Promise<boolean> {
+    const [optOut] = await db.select().from(smsOptOuts).where(eq(smsOptOuts.phoneNumber, phoneNumber));
+    return !!optOut;
+  }
+
+  async optOutPhoneNumber(phoneNumber: string, keyword: string): Promise<void> {
+    await db.insert(smsOptOuts).values({ phoneNumber, keyword }).onConflictDoNothing();
+  }
+
+  // False if the number wasn't opted out
+  async optInPhoneNumber(phoneNumber: string): Promise<boolean> {
+    const removed = await db.delete(smsOptOuts).where(eq(smsOptOuts.phoneNumber, phoneNumber)).returning();
+    return removed.length > 0;
   }
 
   async transferCommissioner(leagueId: number, newCommissionerId: string): Promise<void> {
     await db.transaction(async (tx) => {
+      const [before] = await tx.select({ commissionerId: leagues.commissionerId }).from(leagues).where(eq(leagues.id, leagueId)).for('update');
+
       // Update league commissioner
       await tx.update(leagues).set({ commissionerId: newCommissionerId }).where(eq(leagues.id, leagueId));
       
@@ -756,6 +2438,8 @@ export class DatabaseStorage implements IStorage {
       await tx.update(leagueMembers)
         .set({ role: 'commissioner' })
         .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, newCommissionerId)));
+
+      await this.recordAudit(tx, { leagueId, entityType: 'league', entityId: leagueId, action: 'transfer_commissioner', before, after: { commissionerId: newCommissionerId } });
     });
   }
 
@@ -766,13 +2450,330 @@ export class DatabaseStorage implements IStorage {
     return event;
   }
 
+  async getWeeklyAwardEvents(leagueId: number): Promise<WeeklyAwardEvent[]> {
+    return await db.select().from(weeklyAwardEvents)
+      .where(eq(weeklyAwardEvents.leagueId, leagueId))
+      .orderBy(desc(weeklyAwardEvents.week));
+  }
+
   async createWeeklyAwardEvent(event: InsertWeeklyAwardEvent): Promise<WeeklyAwardEvent> {
     const [created] = await db.insert(weeklyAwardEvents).values(event).returning();
     return created;
   }
 
-  async updateWeeklyAwardEvent(id: number, updates: { hpsWalletCredited?: boolean; lpsSmssSent?: boolean }): Promise<void> {
-    await db.update(weeklyAwardEvents).set(updates).where(eq(weeklyAwardEvents.id, id));
+  // One event per (league, week); concurrent callers all get the same row
+  async getOrCreateWeeklyAwardEvent(event: InsertWeeklyAwardEvent): Promise<WeeklyAwardEvent> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(weeklyAwardEvents).values(event)
+        .onConflictDoNothing({ target: [weeklyAwardEvents.leagueId, weeklyAwardEvents.week] })
+        .returning();
+      if (created) {
+        await this.recordAudit(tx, { leagueId: created.leagueId, entityType: 'weekly_award', entityId: created.id, action: 'create', after: created });
+        return created;
+      }
+      const [existing] = await tx.select().from(weeklyAwardEvents)
+        .where(and(eq(weeklyAwardEvents.leagueId, event.leagueId), eq(weeklyAwardEvents.week, event.week)));
+      return existing;
+    });
+  }
+
+  // Creates each recipient's HPS payout and credits their wallet while holding
+  // the award event's row lock, recording both on the event in the same
+  // transaction. A run that gets the lock second finds the prize issued.
+  async issueHighScorePrize(eventId: number, prize: HighScorePrizeInput): Promise<HighScorePrizeOutcome> {
+    const outcome: HighScorePrizeOutcome = { createdPayoutIds: [], credited: [], pendingApproval: false };
+    const [snapshot] = await db.select().from(weeklyAwardEvents).where(eq(weeklyAwardEvents.id, eventId));
+    if (!snapshot || snapshot.hpsWalletCredited) return outcome;
+
+    // Wallets are created up front; creating one twice is harmless
+    const walletIds = new Map<string, number>();
+    for (const recipientId of snapshot.hpsRecipientIds) {
+      walletIds.set(recipientId, (await this.getOrCreateWallet(snapshot.leagueId, recipientId)).id);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(weeklyAwardEvents)
+        .where(eq(weeklyAwardEvents.id, eventId))
+        .for('update');
+      if (!event || event.hpsWalletCredited || event.hpsNeedsReview || event.hpsRecipientIds.length === 0) {
+        return outcome;
+      }
+
+      const hpsPayoutIds = { ...event.hpsPayoutIds };
+      for (const recipientId of event.hpsRecipientIds) {
+        const walletId = walletIds.get(recipientId);
+        if (!walletId) throw new Error(`No wallet for ${recipientId}`);
+
+        let payout: Payout | undefined;
+        if (hpsPayoutIds[recipientId]) {
+          [payout] = await tx.select().from(payouts).where(eq(payouts.id, hpsPayoutIds[recipientId]));
+        } else {
+          [payout] = await tx.insert(payouts).values({
+            leagueId: event.leagueId,
+            userId: recipientId,
+            amount: prize.amount,
+            reason: 'weekly_high_score',
+            week: event.week,
+            status: prize.holdForApproval ? 'pending_approval' : 'approved',
+            payoutType: 'standard',
+            feeAmount: "0"
+          }).returning();
+          if (prize.holdForApproval) {
+            await tx.insert(approvalRequests).values({
+              leagueId: payout.leagueId,
+              sourceType: 'payout',
+              sourceId: payout.id,
+              userId: payout.userId,
+              amount: payout.amount,
+              description: prize.description,
+              requestedBy: null
+            });
+          }
+          await this.recordAudit(tx, { leagueId: payout.leagueId, entityType: 'payout', entityId: payout.id, action: 'create', after: payout });
+          hpsPayoutIds[recipientId] = payout.id;
+          outcome.createdPayoutIds.push(payout.id);
+        }
+        if (!payout) throw new Error(`HPS payout ${hpsPayoutIds[recipientId]} is missing`);
+
+        // Held prizes are credited by the approval queue, if at all
+        if (payout.status === 'pending_approval' || payout.status === 'rejected') {
+          outcome.pendingApproval = outcome.pendingApproval || payout.status === 'pending_approval';
+          continue;
+        }
+
+        // Released by the approval queue, or credited before this ran under a lock
+        const [credit] = await tx.select({ id: walletTransactions.id }).from(walletTransactions)
+          .where(and(
+            eq(walletTransactions.sourceType, 'payout'),
+            eq(walletTransactions.sourceId, payout.id)
+          ))
+          .limit(1);
+        if (credit) continue;
+
+        await this.creditLockedWallet(tx, walletId, payout.amount, 'payout', payout.id, prize.description);
+        await this.insertLedgerPosting(tx, payoutPosting(payout, walletId));
+        outcome.credited.push(payout);
+      }
+
+      const updates = { hpsPayoutIds, highScorePrize: prize.prizeTotal, hpsWalletCredited: true };
+      await tx.update(weeklyAwardEvents).set(updates).where(eq(weeklyAwardEvents.id, eventId));
+      await this.recordAudit(tx, {
+        leagueId: event.leagueId,
+        entityType: 'weekly_award',
+        entityId: eventId,
+        action: 'issue_hps',
+        before: { hpsPayoutIds: event.hpsPayoutIds, highScorePrize: event.highScorePrize, hpsWalletCredited: false },
+        after: updates
+      });
+      return outcome;
+    });
+  }
+
+  // Creates the LPS payment requests a week hasn't issued yet. Runs under the
+  // event's lock, so overlapping runs charge each recipient once.
+  async issueLowScoreFee(eventId: number, fee: LowScoreFeeInput): Promise<LowScoreFeeOutcome> {
+    return await db.transaction(async (tx) => {
+      const outcome: LowScoreFeeOutcome = { createdRequestIds: [], requests: [] };
+      const [event] = await tx.select().from(weeklyAwardEvents)
+        .where(eq(weeklyAwardEvents.id, eventId))
+        .for('update');
+      if (!event || event.lpsNeedsReview) return outcome;
+
+      const lpsPaymentRequestIds = { ...event.lpsPaymentRequestIds };
+      for (const recipientId of event.lpsRecipientIds) {
+        let request: LpsPaymentRequest | undefined;
+        if (lpsPaymentRequestIds[recipientId]) {
+          [request] = await tx.select().from(lpsPaymentRequests).where(eq(lpsPaymentRequests.id, lpsPaymentRequestIds[recipientId]));
+        }
+        if (!request) {
+          [request] = await tx.insert(lpsPaymentRequests).values({
+            leagueId: event.leagueId,
+            userId: recipientId,
+            week: event.week,
+            amount: fee.amount,
+            phoneNumber: fee.phoneNumbers[recipientId] || null
+          }).returning();
+          await this.recordAudit(tx, { leagueId: request.leagueId, entityType: 'lps_request', entityId: request.id, action: 'create', after: request });
+          lpsPaymentRequestIds[recipientId] = request.id;
+          outcome.createdRequestIds.push(request.id);
+        }
+        outcome.requests.push(request);
+      }
+
+      if (outcome.createdRequestIds.length > 0) {
+        const updates = { lpsPaymentRequestIds, lowScoreFee: fee.feeTotal };
+        await tx.update(weeklyAwardEvents).set(updates).where(eq(weeklyAwardEvents.id, eventId));
+        await this.recordAudit(tx, {
+          leagueId: event.leagueId,
+          entityType: 'weekly_award',
+          entityId: eventId,
+          action: 'issue_lps',
+          before: { lpsPaymentRequestIds: event.lpsPaymentRequestIds, lowScoreFee: event.lowScoreFee },
+          after: updates
+        });
+      }
+      return outcome;
+    });
+  }
+
+  async updateWeeklyAwardEvent(id: number, updates: Partial<InsertWeeklyAwardEvent>): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(weeklyAwardEvents).where(eq(weeklyAwardEvents.id, id)).for('update');
+      await tx.update(weeklyAwardEvents).set(updates).where(eq(weeklyAwardEvents.id, id));
+      if (before) {
+        const fields = Object.keys(updates) as (keyof WeeklyAwardEvent)[];
+        await this.recordAudit(tx, {
+          leagueId: before.leagueId,
+          entityType: 'weekly_award',
+          entityId: id,
+          action: 'update',
+          before: Object.fromEntries(fields.map(f => [f, before[f]])),
+          after: updates
+        });
+      }
+    });
+  }
+
+  // Scheduled job methods
+  async getScheduledJobs(leagueId: number): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs)
+      .where(eq(scheduledJobs.leagueId, leagueId));
+  }
+
+  async upsertScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(scheduledJobs).values(job)
+        .onConflictDoUpdate({
+          target: [scheduledJobs.leagueId, scheduledJobs.jobType],
+          set: { cronExpression: job.cronExpression, enabled: job.enabled, nextRunAt: job.nextRunAt }
+        })
+        .returning();
+      await this.recordAudit(tx, {
+        leagueId: saved.leagueId,
+        entityType: 'scheduled_job',
+        entityId: saved.id,
+        action: 'update',
+        after: { jobType: saved.jobType, cronExpression: saved.cronExpression, enabled: saved.enabled }
+      });
+      return saved;
+    });
+  }
+
+  // Archived leagues' schedules are paused
+  async getDueScheduledJobs(now: Date): Promise<ScheduledJob[]> {
+    const rows = await db.select({ job: scheduledJobs }).from(scheduledJobs)
+      .innerJoin(leagues, eq(leagues.id, scheduledJobs.leagueId))
+      .where(and(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now), isNull(leagues.archivedAt)));
+    return rows.map(row => row.job);
+  }
+
+  // Only moves the schedule on if nobody else already has, so each slot is queued once
+  async advanceScheduledJob(id: number, currentNextRunAt: Date, nextRunAt: Date): Promise<boolean> {
+    const updated = await db.update(scheduledJobs)
+      .set({ nextRunAt, lastRunAt: new Date() })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.nextRunAt, currentNextRunAt)))
+      .returning({ id: scheduledJobs.id });
+    return updated.length > 0;
+  }
+
+  // Job run methods
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
+
+  async getJobRun(id: number): Promise<JobRun | undefined> {
+    const [run] = await db.select().from(jobRuns).where(eq(jobRuns.id, id));
+    return run;
+  }
+
+  async getJobRuns(filter: { leagueId?: number; status?: string; limit?: number }): Promise<JobRun[]> {
+    const conditions = [];
+    if (filter.leagueId !== undefined) conditions.push(eq(jobRuns.leagueId, filter.leagueId));
+    if (filter.status) conditions.push(eq(jobRuns.status, filter.status));
+    return await db.select().from(jobRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobRuns.createdAt))
+      .limit(filter.limit || 100);
+  }
+
+  // Takes the oldest due run; SKIP LOCKED keeps concurrent workers off the same row
+  async claimNextJobRun(now: Date): Promise<JobRun | undefined> {
+    return await db.transaction(async (tx) => {
+      const [run] = await tx.select().from(jobRuns)
+        .where(and(eq(jobRuns.status, 'pending'), lte(jobRuns.runAt, now)))
+        .orderBy(jobRuns.runAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!run) return undefined;
+
+      const [claimed] = await tx.update(jobRuns)
+        .set({ status: 'running', startedAt: now, attempts: run.attempts + 1 })
+        .where(eq(jobRuns.id, run.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async completeJobRun(id: number, result: Record<string, any>): Promise<void> {
+    await db.update(jobRuns)
+      .set({ status: 'succeeded', result, lastError: null, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id));
+  }
+
+  async failJobRun(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db.update(jobRuns)
+      .set(retryAt
+        ? { status: 'pending', lastError: error, runAt: retryAt, finishedAt: new Date() }
+        : { status: 'failed', lastError: error, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id));
+  }
+
+  // Runs left 'running' by a crashed process go back in the queue
+  async requeueStaleJobRuns(startedBefore: Date): Promise<number> {
+    const requeued = await db.update(jobRuns)
+      .set({ status: 'pending', lastError: 'Run interrupted before finishing' })
+      .where(and(eq(jobRuns.status, 'running'), lte(jobRuns.startedAt, startedBefore)))
+      .returning({ id: jobRuns.id });
+    return requeued.length;
+  }
+
+  async retryJobRun(id: number): Promise<void> {
+    await db.update(jobRuns)
+      .set({ status: 'pending', attempts: 0, runAt: new Date(), lastError: null, finishedAt: null })
+      .where(eq(jobRuns.id, id));
+  }
+
+  // Audit log methods
+  // Written in the same transaction as the change it describes. There are
+  // deliberately no methods that update or delete audit events.
+  private async recordAudit(executor: DbExecutor, event: AuditEventInput): Promise<void> {
+    const actor = getAuditActor();
+    await executor.insert(auditEvents).values({
+      leagueId: event.leagueId,
+      actorType: actor.actorType,
+      actorId: actor.actorId,
+      entityType: event.entityType,
+      entityId: String(event.entityId),
+      action: event.action,
+      before: toAuditSnapshot(event.before),
+      after: toAuditSnapshot(event.after)
+    });
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithActor[]> {
+    const conditions = [];
+    if (filter.leagueId !== undefined) conditions.push(eq(auditEvents.leagueId, filter.leagueId));
+    if (filter.entityType) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.actorId) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+    const events = await db.query.auditEvents.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [desc(auditEvents.createdAt), desc(auditEvents.id)],
+      limit: filter.limit || 100,
+      with: { actor: true }
+    });
+    return events as AuditEventWithActor[];
   }
 }
 
@@ -79,3 +79,14 @@ export async function getStripeSync() {
   }
   return stripeSync;
 }
+
+// Signing secrets for the /api/stripe/webhook endpoint (whsec_...). Connect
+// events (payouts on member accounts) are signed with a separate secret.
+export function getStripeWebhookSecrets(): string[] {
+  const secrets = [process.env.STRIPE_WEBHOOK_SECRET, process.env.STRIPE_CONNECT_WEBHOOK_SECRET]
+    .filter((secret): secret is string => !!secret);
+  if (secrets.length === 0) {
+    throw new Error('STRIPE_WEBHOOK_SECRET is not set');
+  }
+  return secrets;
+}
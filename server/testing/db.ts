@@ -0,0 +1,61 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+
+// Tests run against an in-memory Postgres (PGlite) built from the same schema
+// drizzle-kit pushes, so storage runs its real SQL, locks and transactions.
+// PGlite has a single connection and runs one transaction at a time, so
+// races can't show a missing row lock; captureQueries shows the lock itself.
+let queryLog: string[] | null = null;
+let queryFailure: { pattern: RegExp; error: Error } | null = null;
+
+export async function createTestDatabase() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  const logger = {
+    logQuery: (query: string) => {
+      queryLog?.push(query);
+      if (queryFailure?.pattern.test(query)) {
+        const { error } = queryFailure;
+        queryFailure = null;
+        throw error;
+      }
+    }
+  };
+  return { pool: client, db: drizzle(client, { schema, logger }) };
+}
+
+// Makes the next query matching `pattern` fail with `error`, as a dropped
+// connection would
+export function failNextQuery(pattern: RegExp, error: Error): void {
+  queryFailure = { pattern, error };
+}
+
+// The SQL storage sends while `run` runs, in order
+export async function captureQueries(run: () => Promise<unknown>): Promise<string[]> {
+  queryLog = [];
+  try {
+    await run();
+    return queryLog;
+  } finally {
+    queryLog = null;
+  }
+}
+
+// Empties every table between tests
+export async function resetDatabase(): Promise<void> {
+  queryFailure = null;
+  // Loaded here so this module can build the mock for ../db
+  const { db } = await import("../db");
+  const { rows } = await db.execute<{ tablename: string }>(
+    sql`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`
+  );
+  if (rows.length === 0) return;
+  const tables = rows.map(r => `"${r.tablename}"`).join(', ');
+  await db.execute(sql.raw(`TRUNCATE ${tables} RESTART IDENTITY CASCADE`));
+}
@@ -0,0 +1,44 @@
+import type { LeagueSettings, LeagueWithMembers } from "@shared/schema";
+import { storage } from "../storage";
+
+export interface TestLeagueOptions {
+  commissionerId?: string;
+  platform?: string;
+  externalLeagueId?: string;
+  // Merged over a league with no prizes or fees
+  settings?: Partial<LeagueSettings>;
+  // One member per user ID, with a team named after it
+  memberIds?: string[];
+  // Platform team (or Sleeper roster) each member is mapped to
+  externalTeamIds?: Record<string, string>;
+}
+
+export async function createTestLeague(options: TestLeagueOptions = {}): Promise<LeagueWithMembers> {
+  const commissionerId = options.commissionerId || "commissioner";
+  const league = await storage.createLeague({
+    name: "Test League",
+    commissionerId,
+    platform: options.platform || "custom",
+    externalLeagueId: options.externalLeagueId ?? null,
+    seasonYear: 2026,
+    settings: {
+      entryFee: 0,
+      weeklyHighScorePrize: 0,
+      weeklyLowScoreFee: 0,
+      weeklyLowScoreFeeEnabled: false,
+      payoutRules: "",
+      ...options.settings
+    }
+  });
+
+  for (const userId of [commissionerId, ...(options.memberIds || [])]) {
+    await storage.addLeagueMember({
+      leagueId: league.id,
+      userId,
+      role: userId === commissionerId ? "commissioner" : "member",
+      teamName: `Team ${userId}`,
+      externalTeamId: options.externalTeamIds?.[userId] ?? null
+    });
+  }
+  return (await storage.getLeague(league.id))!;
+}
@@ -0,0 +1,4 @@
+import { vi } from "vitest";
+
+// Swaps the Postgres pool for an in-memory database in every test file
+vi.mock("../db", async () => (await import("./db")).createTestDatabase());
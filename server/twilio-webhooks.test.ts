@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import twilio from "twilio";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { resolveLinkToken } from "./link-tokens";
+import { handleInboundSms, handleStatusCallback, isValidTwilioRequest, toTwimlResponse, type TwilioParams } from "./twilio-webhooks";
+import { resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+const AUTH_TOKEN = "twilio_test_auth_token";
+const BASE_URL = "https://leaguevault.test/api/twilio";
+const ALICE_PHONE = "+15551230001";
+
+// Signs the fixture as Twilio would, then checks it the way the routes do
+async function replay(path: "status" | "inbound", params: TwilioParams) {
+  const url = `${BASE_URL}/${path}`;
+  const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, url, params);
+  expect(await isValidTwilioRequest(url, params, signature, AUTH_TOKEN)).toBe(true);
+}
+
+async function statusCallback(params: TwilioParams) {
+  await replay("status", params);
+  await handleStatusCallback(params);
+}
+
+async function inboundSms(from: string, body: string) {
+  const params = { MessageSid: "SMinbound", From: from, To: "+15559990000", Body: body };
+  await replay("inbound", params);
+  return await handleInboundSms(params);
+}
+
+async function leagueWithPhones(settings: Parameters<typeof createTestLeague>[0]['settings'] = {}): Promise<LeagueWithMembers> {
+  const league = await createTestLeague({ settings, memberIds: ["alice", "bob"] });
+  const alice = league.members.find(m => m.userId === "alice")!;
+  await storage.updateMemberDetails(alice.id, { phoneNumber: "(555) 123-0001" });
+  return (await storage.getLeague(league.id))!;
+}
+
+describe("Twilio signatures", () => {
+  it("rejects tampered, missing or foreign signatures", async () => {
+    const url = `${BASE_URL}/inbound`;
+    const params = { From: ALICE_PHONE, Body: "BAL" };
+    const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, url, params);
+
+    expect(await isValidTwilioRequest(url, params, signature, AUTH_TOKEN)).toBe(true);
+    expect(await isValidTwilioRequest(url, { ...params, Body: "STOP" }, signature, AUTH_TOKEN)).toBe(false);
+    expect(await isValidTwilioRequest(`${BASE_URL}/status`, params, signature, AUTH_TOKEN)).toBe(false);
+    expect(await isValidTwilioRequest(url, params, undefined, AUTH_TOKEN)).toBe(false);
+    expect(await isValidTwilioRequest(url, params, signature, "another_account_token")).toBe(false);
+  });
+});
+
+describe("handleStatusCallback", () => {
+  beforeEach(resetDatabase);
+
+  async function textedLpsNotice(league: LeagueWithMembers, sid: string) {
+    const request = await storage.createLpsPaymentRequest({ leagueId: league.id, userId: "alice", week: 3, amount: "10.00", phoneNumber: ALICE_PHONE });
+    const notification = await storage.createNotification({
+      leagueId: league.id, userId: "alice", event: "lps_owed", channel: "sms", recipient: ALICE_PHONE,
+      body: "Week 3 LPS fee", status: "sent", providerMessageId: sid, sourceType: "lps_request", sourceId: request.id
+    });
+    const reminder = await storage.createPaymentReminder({ leagueId: league.id, userId: "alice", type: "weekly", channel: "sms", phoneNumber: ALICE_PHONE, notificationId: notification.id });
+    return { request, reminder };
+  }
+
+  async function notificationFor(league: LeagueWithMembers, sid: string) {
+    return (await storage.getLeagueNotifications(league.id, 10)).find(n => n.providerMessageId === sid)!;
+  }
+
+  it("marks a delivered text, its reminder and its LPS fee delivered", async () => {
+    const league = await leagueWithPhones();
+    const { request, reminder } = await textedLpsNotice(league, "SMdelivered");
+
+    await statusCallback({ MessageSid: "SMdelivered", MessageStatus: "sent" });
+    expect((await notificationFor(league, "SMdelivered")).status).toBe("sent");
+
+    await statusCallback({ MessageSid: "SMdelivered", MessageStatus: "delivered" });
+
+    const notification = await notificationFor(league, "SMdelivered");
+    expect(notification.status).toBe("delivered");
+    expect(notification.deliveredAt).not.toBeNull();
+    expect((await storage.getLeagueReminders(league.id)).find(r => r.id === reminder.id)?.status).toBe("delivered");
+    expect((await storage.getLpsPaymentRequest(request.id))?.deliveryStatus).toBe("delivered");
+  });
+
+  it("records why an undelivered text failed", async () => {
+    const league = await leagueWithPhones();
+    const { request, reminder } = await textedLpsNotice(league, "SMfailed");
+
+    await statusCallback({ MessageSid: "SMfailed", MessageStatus: "undelivered", ErrorCode: "30003" });
+
+    const notification = await notificationFor(league, "SMfailed");
+    expect(notification.status).toBe("failed");
+    expect(notification.lastError).toBe("Phone unreachable (Twilio error 30003)");
+    expect((await storage.getLeagueReminders(league.id)).find(r => r.id === reminder.id)?.status).toBe("failed");
+    expect((await storage.getLpsPaymentRequest(request.id))?.deliveryStatus).toBe("failed");
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(false);
+  });
+
+  it("opts out a number Twilio reports as unsubscribed", async () => {
+    const league = await leagueWithPhones();
+    await textedLpsNotice(league, "SMunsubscribed");
+
+    await statusCallback({ MessageSid: "SMunsubscribed", MessageStatus: "failed", ErrorCode: "21610" });
+
+    expect((await notificationFor(league, "SMunsubscribed")).lastError).toBe("Member replied STOP (Twilio error 21610)");
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(true);
+  });
+
+  it("ignores reports for texts it didn't send", async () => {
+    await expect(statusCallback({ MessageSid: "SMunknown", MessageStatus: "failed", ErrorCode: "21610" })).resolves.toBeUndefined();
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(false);
+  });
+});
+
+describe("handleInboundSms", () => {
+  beforeEach(resetDatabase);
+
+  it("opts a number out on STOP and back in on START", async () => {
+    expect(await inboundSms(ALICE_PHONE, "stop")).toBe("You're unsubscribed from LeagueVault texts. Reply START to resubscribe.");
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(true);
+
+    // Opting out again is harmless
+    expect(await inboundSms(ALICE_PHONE, "UNSUBSCRIBE")).toContain("unsubscribed");
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(true);
+
+    expect(await inboundSms(ALICE_PHONE, " Start ")).toBe("You're resubscribed to LeagueVault texts. Reply HELP for help or STOP to unsubscribe.");
+    expect(await storage.isPhoneNumberOptedOut(ALICE_PHONE)).toBe(false);
+  });
+
+  it("answers HELP and unknown keywords", async () => {
+    expect(await inboundSms(ALICE_PHONE, "HELP")).toContain("Reply BAL for your balance, PAY for payment links or STOP to unsubscribe.");
+    expect(await inboundSms(ALICE_PHONE, "what do I owe?")).toBe("Sorry, we didn't get that. Reply BAL for your balance, PAY for payment links or HELP for help.");
+  });
+
+  it("replies to BAL with dues and LPS fees owed", async () => {
+    const league = await leagueWithPhones({ entryFee: 100 });
+    await storage.createLpsPaymentRequest({ leagueId: league.id, userId: "alice", week: 3, amount: "10.00" });
+
+    expect(await inboundSms(ALICE_PHONE, "bal")).toBe(
+      "You owe:\nTest League: $100.00 dues, $10.00 Week 3 LPS fee\n\nReply PAY for payment links. - LeagueVault"
+    );
+  });
+
+  it("replies to PAY with fresh links that resolve to what's owed", async () => {
+    const league = await leagueWithPhones({ entryFee: 100 });
+    const alice = league.members.find(m => m.userId === "alice")!;
+    const request = await storage.createLpsPaymentRequest({ leagueId: league.id, userId: "alice", week: 3, amount: "10.00" });
+
+    const reply = (await inboundSms(ALICE_PHONE, "PAY"))!;
+    const dues = reply.match(/^Test League dues \(\$100\.00\): https:\/\/your-app\.replit\.app\/pay-dues\/(\S+)$/m);
+    const lps = reply.match(/^Test League Week 3 LPS fee \(\$10\.00\): https:\/\/your-app\.replit\.app\/pay-lps\/(\S+)$/m);
+    expect(dues).not.toBeNull();
+    expect(lps).not.toBeNull();
+
+    const duesLink = await resolveLinkToken(dues![1], "dues");
+    expect(duesLink.success && duesLink.link.subjectId).toBe(alice.id);
+    const lpsLink = await resolveLinkToken(lps![1], "lps");
+    expect(lpsLink.success && lpsLink.link.subjectId).toBe(request.id);
+  });
+
+  it("tells paid-up and unknown numbers so", async () => {
+    await leagueWithPhones();
+    expect(await inboundSms(ALICE_PHONE, "BAL")).toBe("You're all paid up. - LeagueVault");
+    expect(await inboundSms(ALICE_PHONE, "PAY")).toBe("You're all paid up. - LeagueVault");
+    expect(await inboundSms("+15550000000", "BAL")).toBe("We couldn't find a LeagueVault team with this number. Ask your commissioner to add it to your team.");
+  });
+});
+
+describe("toTwimlResponse", () => {
+  it("wraps a reply in a message and sends nothing for no reply", () => {
+    expect(toTwimlResponse("You owe: $5 & more")).toBe('<?xml version="1.0" encoding="UTF-8"?><Response><Message>You owe: $5 &amp; more</Message></Response>');
+    expect(toTwimlResponse(null)).toBe('<?xml version="1.0" encoding="UTF-8"?><Response/>');
+  });
+});
@@ -0,0 +1,174 @@
+import twilio from 'twilio';
+import type { LeagueMember, LeagueWithMembers, LpsPaymentRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { summarizeMemberDues } from "./dues";
+import { getAppUrl, issueLinkToken } from "./link-tokens";
+import { getTwilioAuthToken, normalizePhoneNumber } from "./twilio";
+
+// Twilio calls us for delivery reports on the texts we send (each message's
+// statusCallback) and for texts members send to our number. Both are signed
+// with the account auth token, and nothing is read from a request until its
+// signature checks out.
+
+export type TwilioParams = Record<string, string>;
+
+// Twilio's standard opt-out keywords, plus our own
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+const BALANCE_KEYWORDS = ['BAL', 'BALANCE'];
+const PAY_KEYWORDS = ['PAY'];
+
+const UNSUBSCRIBED_ERROR_CODE = '21610';
+
+// The delivery errors members actually hit, in words a commissioner can act on
+const DELIVERY_ERRORS: Record<string, string> = {
+  [UNSUBSCRIBED_ERROR_CODE]: 'Member replied STOP',
+  '30003': 'Phone unreachable',
+  '30004': 'Message blocked',
+  '30005': 'Unknown phone number',
+  '30006': 'Landline or unreachable carrier',
+  '30007': 'Filtered by carrier',
+};
+
+const HELP_REPLY = "LeagueVault: league dues and payout texts. Reply BAL for your balance, PAY for payment links or STOP to unsubscribe. Msg & data rates may apply.";
+const UNKNOWN_REPLY = "Sorry, we didn't get that. Reply BAL for your balance, PAY for payment links or HELP for help.";
+const NOT_FOUND_REPLY = "We couldn't find a LeagueVault team with this number. Ask your commissioner to add it to your team.";
+const PAID_UP_REPLY = "You're all paid up. - LeagueVault";
+
+interface Outstanding {
+  league: LeagueWithMembers;
+  member: LeagueMember;
+  dues: string | null; // Remaining dues; null when paid up
+  lpsRequests: LpsPaymentRequest[];
+}
+
+// `authToken` defaults to the account's; fixtures signed with
+// twilio.getExpectedTwilioSignature can pass their own
+export async function isValidTwilioRequest(
+  url: string,
+  params: TwilioParams,
+  signature: string | undefined,
+  authToken?: string
+): Promise<boolean> {
+  const token = authToken || await getTwilioAuthToken();
+  if (!token) {
+    console.error('[Twilio] Webhook rejected: set TWILIO_AUTH_TOKEN to verify Twilio signatures');
+    return false;
+  }
+  return !!signature && twilio.validateRequest(token, signature, url, params);
+}
+
+// Updates the notification behind a texted message, and the reminder or LPS
+// fee it was about, once the carrier reports delivery or failure
+export async function handleStatusCallback(params: TwilioParams): Promise<void> {
+  const { MessageSid, MessageStatus, ErrorCode } = params;
+  // queued, sending and sent were already recorded when the text went out
+  const status = MessageStatus === 'delivered' ? 'delivered'
+    : MessageStatus === 'failed' || MessageStatus === 'undelivered' ? 'failed'
+    : null;
+  if (!MessageSid || !status) return;
+
+  const error = status === 'failed'
+    ? ErrorCode ? `${DELIVERY_ERRORS[ErrorCode] || 'Not delivered'} (Twilio error ${ErrorCode})` : 'Not delivered'
+    : null;
+  const notification = await storage.recordNotificationDelivery(MessageSid, status, error);
+  if (!notification) return;
+
+  // Twilio refuses numbers that opted out before we heard about it
+  if (ErrorCode === UNSUBSCRIBED_ERROR_CODE && notification.recipient) {
+    const phoneNumber = normalizePhoneNumber(notification.recipient);
+    if (phoneNumber) await storage.optOutPhoneNumber(phoneNumber, 'STOP');
+  }
+
+  await storage.updateRemindersForNotification(notification.id, status);
+  if (notification.sourceType === 'lps_request' && notification.sourceId) {
+    await storage.updateLpsDeliveryStatus(notification.sourceId, status);
+  }
+  console.log(`[Twilio] ${notification.event} to ${notification.userId}: ${MessageStatus}${ErrorCode ? ` (${ErrorCode})` : ''}`);
+}
+
+// What members with this number owe in their active leagues; null when the
+// number isn't on any roster
+async function getOutstanding(phoneNumber: string): Promise<Outstanding[] | null> {
+  const members = await storage.getMembersByPhoneNumber(phoneNumber);
+  if (members.length === 0) return null;
+
+  const outstanding: Outstanding[] = [];
+  for (const member of members) {
+    const league = await storage.getLeague(member.leagueId);
+    if (!league || league.archivedAt) continue;
+
+    const remaining = summarizeMemberDues(league, member).remaining;
+    const lpsRequests = await storage.getPendingLpsPaymentRequests(league.id, member.userId);
+    if (Number(remaining) > 0 || lpsRequests.length > 0) {
+      outstanding.push({ league, member, dues: Number(remaining) > 0 ? remaining : null, lpsRequests });
+    }
+  }
+  return outstanding;
+}
+
+async function describeBalances(phoneNumber: string): Promise<string> {
+  const outstanding = await getOutstanding(phoneNumber);
+  if (!outstanding) return NOT_FOUND_REPLY;
+  if (outstanding.length === 0) return PAID_UP_REPLY;
+
+  const lines = outstanding.map(({ league, dues, lpsRequests }) => {
+    const parts = [
+      ...(dues ? [`$${dues} dues`] : []),
+      ...lpsRequests.map(r => `$${r.amount} Week ${r.week} LPS fee`)
+    ];
+    return `${league.name}: ${parts.join(', ')}`;
+  });
+  return `You owe:\n${lines.join('\n')}\n\nReply PAY for payment links. - LeagueVault`;
+}
+
+// Fresh links each time, so a member can always get a working one by text
+async function getPaymentLinks(phoneNumber: string): Promise<string> {
+  const outstanding = await getOutstanding(phoneNumber);
+  if (!outstanding) return NOT_FOUND_REPLY;
+  if (outstanding.length === 0) return PAID_UP_REPLY;
+
+  const lines: string[] = [];
+  for (const { league, member, dues, lpsRequests } of outstanding) {
+    if (dues) {
+      const token = await issueLinkToken({ purpose: 'dues', leagueId: league.id, subjectId: member.id });
+      lines.push(`${league.name} dues ($${dues}): ${getAppUrl(`/pay-dues/${token}`)}`);
+    }
+    for (const request of lpsRequests) {
+      const token = await issueLinkToken({ purpose: 'lps', leagueId: league.id, subjectId: request.id });
+      lines.push(`${league.name} Week ${request.week} LPS fee ($${request.amount}): ${getAppUrl(`/pay-lps/${token}`)}`);
+    }
+  }
+  return lines.join('\n\n');
+}
+
+// Returns the text to reply with, if any. Opt-outs are per number, so a STOP
+// covers every league the number is on.
+export async function handleInboundSms(params: TwilioParams): Promise<string | null> {
+  const phoneNumber = normalizePhoneNumber(params.From || '');
+  if (!phoneNumber) return null;
+  const keyword = (params.Body || '').trim().split(/\s+/)[0].toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.includes(keyword)) {
+    await storage.optOutPhoneNumber(phoneNumber, keyword);
+    console.log(`[Twilio] ${phoneNumber} opted out of texts (${keyword})`);
+    return "You're unsubscribed from LeagueVault texts. Reply START to resubscribe.";
+  }
+  if (OPT_IN_KEYWORDS.includes(keyword)) {
+    if (await storage.optInPhoneNumber(phoneNumber)) {
+      console.log(`[Twilio] ${phoneNumber} opted back in to texts (${keyword})`);
+    }
+    return "You're resubscribed to LeagueVault texts. Reply HELP for help or STOP to unsubscribe.";
+  }
+  if (HELP_KEYWORDS.includes(keyword)) return HELP_REPLY;
+  if (BALANCE_KEYWORDS.includes(keyword)) return await describeBalances(phoneNumber);
+  if (PAY_KEYWORDS.includes(keyword)) return await getPaymentLinks(phoneNumber);
+  return UNKNOWN_REPLY;
+}
+
+export function toTwimlResponse(reply: string | null): string {
+  const response = new twilio.twiml.MessagingResponse();
+  if (reply) response.message(reply);
+  return response.toString();
+}
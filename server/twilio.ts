@@ -32,7 +32,8 @@ async function getCredentials() {
     accountSid: connectionSettings.settings.account_sid,
     apiKey: connectionSettings.settings.api_key,
     apiKeySecret: connectionSettings.settings.api_key_secret,
-    phoneNumber: connectionSettings.settings.phone_number
+    phoneNumber: connectionSettings.settings.phone_number,
+    authToken: connectionSettings.settings.auth_token
   };
 }
 
@@ -48,7 +49,32 @@ export async function getTwilioFromPhoneNumber() {
   return phoneNumber;
 }
 
-export async function sendSMS(to: string, message: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
+// Twilio signs webhooks with the account auth token, which API key
+// credentials don't include; TWILIO_AUTH_TOKEN takes precedence
+export async function getTwilioAuthToken(): Promise<string | null> {
+  if (process.env.TWILIO_AUTH_TOKEN) return process.env.TWILIO_AUTH_TOKEN;
+  try {
+    const { authToken } = await getCredentials();
+    return authToken || null;
+  } catch {
+    return null;
+  }
+}
+
+// E.164 form of a number as typed; 10-digit numbers are taken as US
+export function normalizePhoneNumber(phoneNumber: string): string | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length >= 11 && digits.length <= 15) return `+${digits}`;
+  return null;
+}
+
+// `statusCallback` is where Twilio posts delivery reports for the message
+export async function sendSMS(
+  to: string,
+  message: string,
+  options: { statusCallback?: string } = {}
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
     console.log('=== TWILIO SEND SMS ===');
     console.log('To:', to);
@@ -67,7 +93,8 @@ export async function sendSMS(to: string, message: string): Promise<{ success: b
     const result = await client.messages.create({
       body: message,
       from: fromNumber,
-      to: to
+      to: to,
+      ...(options.statusCallback ? { statusCallback: options.statusCallback } : {})
     });
 
     console.log('Twilio result - SID:', result.sid, 'Status:', result.status);
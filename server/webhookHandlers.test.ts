@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Stripe from "stripe";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { WebhookHandlers, WebhookSignatureError } from "./webhookHandlers";
+import { failNextQuery, resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+// Mirroring events into the Stripe sync tables needs a live Stripe account
+vi.mock("./stripeClient", () => ({
+  getStripeSync: async () => ({ processWebhook: async () => {} }),
+  getStripeWebhookSecrets: () => [],
+  getUncachableStripeClient: async () => { throw new Error("No Stripe in tests"); }
+}));
+
+const SECRET = "whsec_test_secret";
+
+// A payment_intent.succeeded delivery signed the way Stripe signs it
+function signedSucceededEvent(intentId: string, eventId = "evt_succeeded") {
+  const payload = JSON.stringify({
+    id: eventId,
+    object: "event",
+    type: "payment_intent.succeeded",
+    data: { object: { id: intentId, object: "payment_intent", status: "succeeded" } }
+  });
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: SECRET });
+  return { payload: Buffer.from(payload), signature };
+}
+
+async function deliver(intentId: string) {
+  const { payload, signature } = signedSucceededEvent(intentId);
+  await WebhookHandlers.processWebhook(payload, signature, SECRET);
+}
+
+describe("payment_intent.succeeded", () => {
+  let league: LeagueWithMembers;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    league = await createTestLeague({ settings: { entryFee: 100 }, memberIds: ["alice"] });
+  });
+
+  async function duesPayment(intentId: string, status = "pending") {
+    return await storage.createPayment({ leagueId: league.id, userId: "alice", amount: "100.00", kind: "dues", status, stripePaymentIntentId: intentId });
+  }
+
+  async function expectAppliedOnce() {
+    expect((await storage.getLeague(league.id))?.totalDues).toBe("100.00");
+    expect((await storage.getLeagueTreasury(league.id)).availableBalance).toBe("100.00");
+    expect((await storage.getLeagueMember(league.id, "alice"))?.paidStatus).toBe("paid");
+  }
+
+  it("applies a payment once however many times the event is delivered", async () => {
+    const payment = await duesPayment("pi_replayed");
+
+    for (let delivery = 0; delivery < 3; delivery++) {
+      await deliver("pi_replayed");
+    }
+
+    expect((await storage.getPayment(payment.id))?.status).toBe("completed");
+    await expectAppliedOnce();
+  });
+
+  it("leaves the payment pending when applying it fails, so the redelivery applies it", async () => {
+    const payment = await duesPayment("pi_retry");
+    failNextQuery(/^update "leagues" set "total_dues"/i, new Error("connection reset"));
+
+    await expect(deliver("pi_retry")).rejects.toThrow("connection reset");
+    expect((await storage.getPayment(payment.id))?.status).toBe("pending");
+    expect((await storage.getLeague(league.id))?.totalDues).toBe("0.00");
+
+    await deliver("pi_retry");
+    await deliver("pi_retry");
+
+    expect((await storage.getPayment(payment.id))?.status).toBe("completed");
+    await expectAppliedOnce();
+  });
+
+  it("applies a payment that was marked completed but never applied", async () => {
+    await duesPayment("pi_stranded");
+    await storage.transitionPaymentStatus("pi_stranded", ["pending"], "completed");
+
+    await deliver("pi_stranded");
+    await deliver("pi_stranded");
+
+    await expectAppliedOnce();
+  });
+
+  it("marks an LPS request paid when its payment succeeds", async () => {
+    const request = await storage.createLpsPaymentRequest({ leagueId: league.id, userId: "alice", week: 4, amount: "10.00", phoneNumber: null });
+    await storage.createPayment({
+      leagueId: league.id, userId: "alice", amount: "10.00", kind: "lps", lpsPaymentRequestId: request.id,
+      status: "pending", stripePaymentIntentId: "pi_lps"
+    });
+
+    await deliver("pi_lps");
+    await deliver("pi_lps");
+
+    expect((await storage.getLpsPaymentRequest(request.id))?.status).toBe("paid");
+    expect((await storage.getLeagueTreasury(league.id)).availableBalance).toBe("10.00");
+  });
+
+  it("rejects a delivery that isn't signed with the webhook secret", async () => {
+    const payment = await duesPayment("pi_forged");
+    const { payload } = signedSucceededEvent("pi_forged");
+    const forged = Stripe.webhooks.generateTestHeaderString({ payload: payload.toString(), secret: "whsec_someone_else" });
+
+    await expect(WebhookHandlers.processWebhook(payload, forged, SECRET)).rejects.toBeInstanceOf(WebhookSignatureError);
+    expect((await storage.getPayment(payment.id))?.status).toBe("pending");
+  });
+});
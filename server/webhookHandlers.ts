@@ -1,7 +1,16 @@
-import { getStripeSync } from './stripeClient';
+import Stripe from 'stripe';
+import { getStripeSync, getStripeWebhookSecrets } from './stripeClient';
+import { storage } from './storage';
+import { handlePayoutEvent, handleTransferEvent } from './withdrawals';
+import { handleRefundEvent } from './refunds';
+import { runAsActor } from './audit';
+
+export class WebhookSignatureError extends Error {}
 
 export class WebhookHandlers {
-  static async processWebhook(payload: Buffer, signature: string): Promise<void> {
+  // `secret` defaults to the configured webhook secrets; fixtures signed with
+  // Stripe.webhooks.generateTestHeaderString can pass their own
+  static async processWebhook(payload: Buffer, signature: string, secret?: string): Promise<void> {
     if (!Buffer.isBuffer(payload)) {
       throw new Error(
         'STRIPE WEBHOOK ERROR: Payload must be a Buffer. ' +
@@ -11,7 +20,69 @@ export class WebhookHandlers {
       );
     }
 
-    const sync = await getStripeSync();
-    await sync.processWebhook(payload, signature);
+    const event = WebhookHandlers.constructEvent(payload, signature, secret ? [secret] : getStripeWebhookSecrets());
+
+    // Changes made here are attributed to Stripe in the audit log
+    await runAsActor({ actorType: 'webhook', actorId: null }, () => WebhookHandlers.handleEvent(event));
+
+    // Mirroring Stripe data locally is best-effort; our own payment state is already updated
+    try {
+      const sync = await getStripeSync();
+      await sync.processWebhook(payload, signature);
+    } catch (err) {
+      console.error('Stripe sync failed for webhook', event.id, err);
+    }
+  }
+
+  private static constructEvent(payload: Buffer, signature: string, secrets: string[]): Stripe.Event {
+    let lastError: any;
+    for (const secret of secrets) {
+      try {
+        return Stripe.webhooks.constructEvent(payload, signature, secret);
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw new WebhookSignatureError(lastError?.message || 'Invalid signature');
+  }
+
+  static async handleEvent(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await WebhookHandlers.handlePaymentSucceeded(event.data.object);
+        break;
+      case 'payment_intent.payment_failed':
+        await WebhookHandlers.handlePaymentFailed(event.data.object);
+        break;
+      case 'transfer.created':
+      case 'transfer.reversed':
+        await handleTransferEvent(event);
+        break;
+      case 'payout.paid':
+      case 'payout.failed':
+      case 'payout.canceled':
+        await handlePayoutEvent(event);
+        break;
+      case 'refund.updated':
+      case 'refund.failed':
+        await handleRefundEvent(event);
+        break;
+    }
+  }
+
+  // Completing and applying the payment commit together, so a redelivery
+  // either finds it fully applied or applies it
+  private static async handlePaymentSucceeded(intent: Stripe.PaymentIntent): Promise<void> {
+    const completed = await storage.completePayment(intent.id);
+    if (!completed?.applied) return;
+
+    console.log(`Payment ${completed.payment.id} completed via ${intent.id}`);
+  }
+
+  private static async handlePaymentFailed(intent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await storage.transitionPaymentStatus(intent.id, ['pending'], 'failed');
+    if (!payment) return;
+
+    console.log(`Payment ${payment.id} failed via ${intent.id}: ${intent.last_payment_error?.message || 'unknown error'}`);
   }
 }
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { LeagueWithMembers } from "@shared/schema";
+import { storage } from "./storage";
+import { WeeklyAwardService } from "./weekly-awards";
+import { resetDatabase } from "./testing/db";
+import { createTestLeague } from "./testing/fixtures";
+
+const WEEK = 3;
+
+async function addScores(league: LeagueWithMembers, scores: Record<string, number>) {
+  for (const [userId, score] of Object.entries(scores)) {
+    await storage.addWeeklyScore({ leagueId: league.id, userId, week: WEEK, score: score.toFixed(2), source: "manual" });
+  }
+}
+
+async function hpsPayouts(league: LeagueWithMembers) {
+  const { payouts } = await storage.getLeagueTransactions(league.id);
+  return payouts.filter(p => p.reason === "weekly_high_score");
+}
+
+async function balanceOf(league: LeagueWithMembers, userId: string) {
+  return (await storage.getMemberWallet(league.id, userId))?.availableBalance;
+}
+
+describe("WeeklyAwardService.processWeek", () => {
+  const service = new WeeklyAwardService();
+
+  beforeEach(resetDatabase);
+
+  it("pays the HPS prize once when the same week is replayed", async () => {
+    const league = await createTestLeague({ settings: { weeklyHighScorePrize: 25 }, memberIds: ["alice", "bob"] });
+    await addScores(league, { alice: 140.5, bob: 98.2 });
+
+    const first = await service.processWeek(league, WEEK);
+    expect(first.hpsPayoutCreated).toBe(true);
+    expect(first.hpsRecipients).toEqual(["alice"]);
+
+    for (let run = 0; run < 3; run++) {
+      const replay = await service.processWeek(league, WEEK);
+      expect(replay.alreadyProcessed).toBe(true);
+      expect(replay.hpsPayoutCreated).toBe(false);
+    }
+
+    expect(await hpsPayouts(league)).toHaveLength(1);
+    expect(await balanceOf(league, "alice")).toBe("25.00");
+    const wallet = await storage.getMemberWallet(league.id, "alice");
+    expect(await storage.getWalletTransactions(wallet!.id)).toHaveLength(1);
+  });
+
+  it("pays the HPS prize once when runs for the same week overlap", async () => {
+    const league = await createTestLeague({ settings: { weeklyHighScorePrize: 25 }, memberIds: ["alice", "bob"] });
+    await addScores(league, { alice: 140.5, bob: 98.2 });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => service.processWeek(league, WEEK)));
+
+    expect(results.filter(r => r.hpsPayoutCreated)).toHaveLength(1);
+    expect(await hpsPayouts(league)).toHaveLength(1);
+    expect(await balanceOf(league, "alice")).toBe("25.00");
+    expect(await storage.getLeagueTreasury(league.id)).toMatchObject({ totalOutflow: "25.00" });
+  });
+
+  it("pays each share of a split prize once across replays", async () => {
+    const league = await createTestLeague({
+      settings: { weeklyHighScorePrize: 25, tiebreaker: "split" },
+      memberIds: ["alice", "bob", "carol"]
+    });
+    await addScores(league, { alice: 120, bob: 120, carol: 80 });
+
+    await Promise.all([service.processWeek(league, WEEK), service.processWeek(league, WEEK)]);
+    await service.processWeek(league, WEEK);
+
+    expect(await hpsPayouts(league)).toHaveLength(2);
+    expect(await balanceOf(league, "alice")).toBe("12.50");
+    expect(await balanceOf(league, "bob")).toBe("12.50");
+  });
+
+  it("holds a prize over the approval threshold once, and replays don't credit it after approval", async () => {
+    const league = await createTestLeague({
+      settings: { weeklyHighScorePrize: 100, approvalThreshold: 50, approverUserId: "bob" },
+      memberIds: ["alice", "bob"]
+    });
+    await addScores(league, { alice: 140.5, bob: 98.2 });
+
+    const results = await Promise.all([service.processWeek(league, WEEK), service.processWeek(league, WEEK)]);
+    expect(results.some(r => r.hpsPendingApproval)).toBe(true);
+
+    const approvals = await storage.getLeagueApprovalRequests(league.id);
+    expect(approvals).toHaveLength(1);
+    expect(await balanceOf(league, "alice")).toBe("0.00");
+
+    await storage.approvePayoutRequest(approvals[0].id, "bob", null);
+    await service.processWeek(league, WEEK);
+    await service.processWeek(league, WEEK);
+
+    expect(await hpsPayouts(league)).toHaveLength(1);
+    expect(await balanceOf(league, "alice")).toBe("100.00");
+  });
+
+  it("charges the LPS fee once when runs for the same week overlap", async () => {
+    const league = await createTestLeague({
+      settings: { weeklyLowScoreFeeEnabled: true, weeklyLowScoreFee: 10 },
+      memberIds: ["alice", "bob"]
+    });
+    await addScores(league, { alice: 140.5, bob: 72.25 });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => service.processWeek(league, WEEK)));
+    await service.processWeek(league, WEEK);
+
+    expect(results.filter(r => r.lpsRequestCreated)).toHaveLength(1);
+    const requests = await storage.getPendingLpsPaymentRequests(league.id, "bob");
+    expect(requests).toHaveLength(1);
+    const event = await storage.getWeeklyAwardEvent(league.id, WEEK);
+    expect(event?.lpsPaymentRequestIds).toEqual({ bob: requests[0].id });
+    expect(event?.lowScoreFee).toBe("10.00");
+  });
+});
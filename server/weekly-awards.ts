@@ -0,0 +1,286 @@
+import type { LeagueWithMembers, Notification, WeeklyAwardEvent, WeeklyScore } from "@shared/schema";
+import { storage } from "./storage";
+import { requiresApproval } from "./approvals";
+import { getAppUrl, issueLinkToken } from "./link-tokens";
+import { sendHighScoreNotice } from "./payout-notices";
+import { notificationService } from "./notifications";
+import { getAuthoritativeScoreSources } from "./platforms";
+
+export type AwardKind = 'hps' | 'lps';
+
+export interface WeeklyAwardResult {
+  event?: WeeklyAwardEvent;
+  // Set when nothing could be awarded for the week
+  skippedReason?: 'no_scores' | 'non_authoritative_scores';
+  // True when a previous run had already issued everything this run found configured
+  alreadyProcessed: boolean;
+  hpsPayoutCreated: boolean;
+  hpsRecipients: string[];
+  hpsAmount: number;
+  hpsNeedsReview: boolean;
+  // True when the prize is over the league's approval threshold and waiting in the approval queue
+  hpsPendingApproval: boolean;
+  lpsRequestCreated: boolean;
+  lpsRecipients: string[];
+  lpsAmount: number;
+  lpsNeedsReview: boolean;
+  lpsSmsStatus: string;
+}
+
+interface TieResolution {
+  // Every team level on points, or empty when there was no tie
+  tiedUserIds: string[];
+  recipients: string[];
+  needsReview: boolean;
+}
+
+function getAwardSettings(league: LeagueWithMembers) {
+  const settings = league.settings;
+  return {
+    hpsPrize: settings?.weeklyHighScorePrize || settings?.weeklyPayoutAmount || 0,
+    lpsEnabled: settings?.weeklyLowScoreFeeEnabled || settings?.lowestScorerFeeEnabled || false,
+    lpsFee: settings?.weeklyLowScoreFee || settings?.lowestScorerFee || 0
+  };
+}
+
+// LPS notice outcomes that count as handed off to the member
+const DELIVERED_NOTICE_STATUSES = ['sent', 'emailed', 'in_app', 'scheduled'];
+
+// Summarizes an LPS notice for the week's automation result
+function getLpsNoticeStatus(notice: Notification | undefined): string {
+  if (!notice || notice.status === 'skipped') return 'no_contact';
+  if (notice.status === 'failed') return 'failed';
+  if (notice.status === 'pending') return 'scheduled';
+  return notice.channel === 'email' ? 'emailed' : notice.channel === 'in_app' ? 'in_app' : 'sent';
+}
+
+// Splits an amount evenly, rounding down to the cent; leftover cents stay with the league
+function splitAmount(amount: number, ways: number): string {
+  return (Math.floor((amount * 100) / ways) / 100).toFixed(2);
+}
+
+// Picks the HPS winner or LPS loser for the week, applying the league's
+// tiebreaker when teams are level. Ties the rule can't settle need review.
+async function resolveAward(
+  league: LeagueWithMembers,
+  week: number,
+  scores: WeeklyScore[],
+  kind: AwardKind
+): Promise<TieResolution> {
+  // Scores arrive ordered highest first
+  const target = kind === 'hps' ? scores[0] : scores[scores.length - 1];
+  const tied = scores.filter(s => Number(s.score) === Number(target.score));
+  if (tied.length === 1) {
+    return { tiedUserIds: [], recipients: [target.userId], needsReview: false };
+  }
+
+  const tiedUserIds = tied.map(s => s.userId);
+  const needsReview = { tiedUserIds, recipients: [], needsReview: true };
+  const tiebreaker = league.settings?.tiebreaker || 'commissioner';
+
+  if (tiebreaker === 'split') {
+    return { tiedUserIds, recipients: tiedUserIds, needsReview: false };
+  }
+
+  let values: Map<string, number>;
+  if (tiebreaker === 'bench_points') {
+    // Not every platform reports bench points
+    if (tied.some(s => s.benchScore === null)) return needsReview;
+    values = new Map(tied.map(s => [s.userId, Number(s.benchScore)]));
+  } else if (tiebreaker === 'season_points') {
+    values = await storage.getSeasonPointsFor(league.id, tiedUserIds, week);
+  } else {
+    return needsReview;
+  }
+
+  // More bench/season points wins HPS; fewer takes the LPS fee
+  const totals = tiedUserIds.map(id => values.get(id) ?? 0);
+  const best = kind === 'hps' ? Math.max(...totals) : Math.min(...totals);
+  const winners = tiedUserIds.filter((_, i) => totals[i] === best);
+  if (winners.length !== 1) return needsReview;
+
+  return { tiedUserIds, recipients: winners, needsReview: false };
+}
+
+// Issues the weekly HPS prize and LPS fee for a (league, week). Every side
+// effect is recorded on the week's weeklyAwardEvents row before moving on, so
+// calling this again for the same week only finishes steps that haven't run.
+// The HPS prize is issued under a row lock on that event.
+// Winners are fixed on the first run; later score edits don't re-award.
+export class WeeklyAwardService {
+  async processWeek(league: LeagueWithMembers, week: number): Promise<WeeklyAwardResult> {
+    const leagueId = league.id;
+    const { hpsPrize, lpsEnabled, lpsFee } = getAwardSettings(league);
+    const result: WeeklyAwardResult = {
+      alreadyProcessed: false,
+      hpsPayoutCreated: false,
+      hpsRecipients: [],
+      hpsAmount: hpsPrize,
+      hpsNeedsReview: false,
+      hpsPendingApproval: false,
+      lpsRequestCreated: false,
+      lpsRecipients: [],
+      lpsAmount: lpsFee,
+      lpsNeedsReview: false,
+      lpsSmsStatus: ''
+    };
+
+    // Money only moves on weeks scored entirely from authoritative sources
+    if (await storage.hasNonAuthoritativeScores(leagueId, week, getAuthoritativeScoreSources())) {
+      console.log(`[Awards] Skipping week ${week} for league ${leagueId}: week contains non-authoritative scores`);
+      return { ...result, skippedReason: 'non_authoritative_scores' };
+    }
+
+    const existingEvent = await storage.getWeeklyAwardEvent(leagueId, week);
+    let event = existingEvent;
+    if (!event) {
+      const scores = await storage.getWeeklyScores(leagueId, week);
+      if (scores.length === 0) {
+        return { ...result, skippedReason: 'no_scores' };
+      }
+
+      const hps = await resolveAward(league, week, scores, 'hps');
+      const lps = await resolveAward(league, week, scores, 'lps');
+      const tieFound = hps.tiedUserIds.length > 0 || lps.tiedUserIds.length > 0;
+
+      event = await storage.getOrCreateWeeklyAwardEvent({
+        leagueId,
+        week,
+        highScoreUserId: hps.recipients.length === 1 ? hps.recipients[0] : null,
+        lowScoreUserId: lps.recipients.length === 1 ? lps.recipients[0] : null,
+        highScoreTiedUserIds: hps.tiedUserIds.length > 0 ? hps.tiedUserIds : null,
+        lowScoreTiedUserIds: lps.tiedUserIds.length > 0 ? lps.tiedUserIds : null,
+        tiebreaker: tieFound ? (league.settings?.tiebreaker || 'commissioner') : null,
+        hpsRecipientIds: hps.recipients,
+        lpsRecipientIds: lps.recipients,
+        hpsNeedsReview: hps.needsReview,
+        lpsNeedsReview: lps.needsReview,
+        highScorePrize: String(hpsPrize),
+        lowScoreFee: String(lpsFee),
+        hpsWalletCredited: false,
+        lpsSmssSent: false
+      });
+      if (tieFound) {
+        console.log(`[Awards] Tie in week ${week} for league ${leagueId} - HPS review: ${hps.needsReview}, LPS review: ${lps.needsReview}`);
+      }
+    }
+
+    result.hpsRecipients = event.hpsRecipientIds;
+    result.lpsRecipients = event.lpsRecipientIds;
+    result.hpsNeedsReview = event.hpsNeedsReview;
+    result.lpsNeedsReview = event.lpsNeedsReview;
+
+    // HPS: payouts and wallet credits commit together under the event's lock,
+    // so runs racing on the same week pay the prize once
+    if (hpsPrize > 0 && !event.hpsNeedsReview && event.hpsRecipientIds.length > 0 && !event.hpsWalletCredited) {
+      const amount = splitAmount(hpsPrize, event.hpsRecipientIds.length);
+      const description = event.hpsRecipientIds.length > 1
+        ? `Week ${week} High Point Scorer Prize (split ${event.hpsRecipientIds.length} ways)`
+        : `Week ${week} High Point Scorer Prize`;
+      const issued = await storage.issueHighScorePrize(event.id, {
+        amount,
+        prizeTotal: String(hpsPrize),
+        description,
+        holdForApproval: requiresApproval(league, Number(amount))
+      });
+      result.hpsPayoutCreated = issued.createdPayoutIds.length > 0;
+      result.hpsPendingApproval = issued.pendingApproval;
+      for (const payout of issued.credited) {
+        await sendHighScoreNotice(league, payout.userId, week, payout.amount, description, payout.id);
+      }
+    }
+
+    // LPS: payment requests are created together under the event's lock, so
+    // runs racing on the same week charge each recipient once; then SMS
+    if (lpsEnabled && lpsFee > 0 && !event.lpsNeedsReview && !event.lpsSmssSent) {
+      const issued = await storage.issueLowScoreFee(event.id, {
+        amount: splitAmount(lpsFee, event.lpsRecipientIds.length || 1),
+        feeTotal: String(lpsFee),
+        phoneNumbers: Object.fromEntries(event.lpsRecipientIds.map(recipientId => [
+          recipientId,
+          league.members.find(m => m.userId === recipientId)?.phoneNumber || null
+        ]))
+      });
+      result.lpsRequestCreated = issued.createdRequestIds.length > 0;
+      let allSmsSent = issued.requests.length > 0;
+      const smsStatuses: string[] = [];
+
+      for (const lpsRequest of issued.requests) {
+        const recipientId = lpsRequest.userId;
+        const member = league.members.find(m => m.userId === recipientId);
+        if (lpsRequest.smsSent) {
+          smsStatuses.push('sent');
+          continue;
+        }
+
+        // Members who couldn't be reached are tried again on later runs, e.g.
+        // once a phone number or email is added. Sends that failed or are held
+        // for quiet hours are retried by the notification service itself, so
+        // smsSent marks the notice as handed off on any channel.
+        let notice: Notification | undefined;
+        if (member) {
+          const paymentToken = await issueLinkToken({ purpose: 'lps', leagueId, subjectId: lpsRequest.id });
+          notice = await notificationService.notify(member, 'lps_owed', {
+            leagueName: league.name,
+            week,
+            amount: lpsRequest.amount,
+            paymentUrl: getAppUrl(`/pay-lps/${paymentToken}`)
+          }, { sourceType: 'lps_request', sourceId: lpsRequest.id });
+        }
+        const smsStatus = getLpsNoticeStatus(notice);
+        if (DELIVERED_NOTICE_STATUSES.includes(smsStatus)) {
+          await storage.markLpsSmsAsSent(lpsRequest.id);
+        }
+        if (!DELIVERED_NOTICE_STATUSES.includes(smsStatus)) allSmsSent = false;
+        smsStatuses.push(smsStatus);
+        console.log(`[LPS] Week ${week} league ${leagueId} - user ${recipientId} - $${lpsRequest.amount} - notice: ${smsStatus}`);
+      }
+
+      if (allSmsSent) {
+        await storage.updateWeeklyAwardEvent(event.id, { lpsSmssSent: true });
+      }
+      result.lpsSmsStatus = smsStatuses.find(s => !DELIVERED_NOTICE_STATUSES.includes(s)) || smsStatuses[0] || '';
+    } else if (event.lpsSmssSent) {
+      result.lpsSmsStatus = 'sent';
+    }
+
+    result.alreadyProcessed = !!existingEvent && !result.hpsPayoutCreated && !result.lpsRequestCreated;
+    result.event = await storage.getWeeklyAwardEvent(leagueId, week);
+    return result;
+  }
+
+  // Settles an award that needs review. Passing several tied teams splits it
+  // between them. Issues the award straight away.
+  async resolveTie(
+    league: LeagueWithMembers,
+    week: number,
+    kind: AwardKind,
+    userIds: string[],
+    resolvedBy: string
+  ): Promise<{ success: boolean; result?: WeeklyAwardResult; error?: string }> {
+    const event = await storage.getWeeklyAwardEvent(league.id, week);
+    if (!event) {
+      return { success: false, error: `Week ${week} hasn't been processed yet` };
+    }
+
+    const needsReview = kind === 'hps' ? event.hpsNeedsReview : event.lpsNeedsReview;
+    const tiedUserIds = (kind === 'hps' ? event.highScoreTiedUserIds : event.lowScoreTiedUserIds) || [];
+    if (!needsReview) {
+      return { success: false, error: "This award isn't waiting for review" };
+    }
+
+    const recipients = Array.from(new Set(userIds));
+    if (recipients.length === 0 || recipients.some(id => !tiedUserIds.includes(id))) {
+      return { success: false, error: "Choose one or more of the tied teams" };
+    }
+
+    await storage.updateWeeklyAwardEvent(event.id, kind === 'hps'
+      ? { hpsRecipientIds: recipients, hpsNeedsReview: false, highScoreUserId: recipients.length === 1 ? recipients[0] : null, resolvedBy, resolvedAt: new Date() }
+      : { lpsRecipientIds: recipients, lpsNeedsReview: false, lowScoreUserId: recipients.length === 1 ? recipients[0] : null, resolvedBy, resolvedAt: new Date() }
+    );
+
+    return { success: true, result: await this.processWeek(league, week) };
+  }
+}
+
+export const weeklyAwardService = new WeeklyAwardService();
@@ -0,0 +1,129 @@
+import type Stripe from "stripe";
+import type { WithdrawalRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { getUncachableStripeClient } from "./stripeClient";
+
+// Withdrawals move money in two hops: a transfer from the platform balance to
+// the member's Connect account, then (for instant withdrawals) an instant
+// payout from that account to their debit card. Standard withdrawals ride the
+// Connect account's automatic payout schedule once the transfer lands.
+//
+// Status is driven by webhooks:
+//   transfer.created  -> standard withdrawals complete
+//   payout.paid       -> instant withdrawals complete
+//   payout.failed     -> the transfer is reversed
+//   transfer.reversed -> withdrawal fails and the wallet is refunded
+
+function toCents(amount: string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export interface WithdrawalTransferResult {
+  success: boolean;
+  withdrawal: WithdrawalRequest;
+  error?: string;
+}
+
+// Called right after the wallet has been debited. Any Stripe error here fails
+// the withdrawal and refunds the wallet immediately.
+export async function startWithdrawalTransfer(
+  withdrawal: WithdrawalRequest,
+  connectAccountId: string
+): Promise<WithdrawalTransferResult> {
+  const stripe = await getUncachableStripeClient();
+
+  let transfer: Stripe.Transfer;
+  try {
+    transfer = await stripe.transfers.create({
+      amount: toCents(withdrawal.netAmount),
+      currency: 'usd',
+      destination: connectAccountId,
+      transfer_group: `withdrawal_${withdrawal.id}`,
+      metadata: { withdrawalRequestId: String(withdrawal.id) }
+    }, { idempotencyKey: `withdrawal-transfer-${withdrawal.id}` });
+  } catch (err: any) {
+    const failed = await storage.failWithdrawalAndRefund(withdrawal.id, err.message || 'Transfer failed');
+    return { success: false, withdrawal: failed || withdrawal, error: err.message || 'Transfer failed' };
+  }
+
+  const processing = await storage.transitionWithdrawalStatus(withdrawal.id, ['pending'], 'processing', {
+    stripeTransferId: transfer.id
+  });
+
+  if (withdrawal.payoutType !== 'instant') {
+    return { success: true, withdrawal: processing || withdrawal };
+  }
+
+  try {
+    const payout = await stripe.payouts.create({
+      amount: toCents(withdrawal.netAmount),
+      currency: 'usd',
+      method: 'instant',
+      metadata: { withdrawalRequestId: String(withdrawal.id) }
+    }, {
+      stripeAccount: connectAccountId,
+      idempotencyKey: `withdrawal-payout-${withdrawal.id}`
+    });
+    const withPayout = await storage.transitionWithdrawalStatus(withdrawal.id, ['processing'], 'processing', {
+      stripePayoutId: payout.id
+    });
+    return { success: true, withdrawal: withPayout || processing || withdrawal };
+  } catch (err: any) {
+    // Pull the money back from the Connect account before refunding the wallet
+    await reverseWithdrawalTransfer(transfer.id, withdrawal.id);
+    const failed = await storage.failWithdrawalAndRefund(withdrawal.id, err.message || 'Instant payout failed');
+    return { success: false, withdrawal: failed || withdrawal, error: err.message || 'Instant payout failed' };
+  }
+}
+
+async function reverseWithdrawalTransfer(transferId: string, withdrawalId: number): Promise<void> {
+  const stripe = await getUncachableStripeClient();
+  await stripe.transfers.createReversal(transferId, {
+    metadata: { withdrawalRequestId: String(withdrawalId) }
+  }, { idempotencyKey: `withdrawal-reversal-${withdrawalId}` });
+}
+
+async function findWithdrawal(metadata: Stripe.Metadata | null, transferId?: string | null): Promise<WithdrawalRequest | undefined> {
+  const id = Number(metadata?.withdrawalRequestId);
+  if (id) {
+    return await storage.getWithdrawalRequest(id);
+  }
+  return transferId ? await storage.getWithdrawalByTransferId(transferId) : undefined;
+}
+
+export async function handleTransferEvent(event: Stripe.Event): Promise<void> {
+  const transfer = event.data.object as Stripe.Transfer;
+  const withdrawal = await findWithdrawal(transfer.metadata, transfer.id);
+  if (!withdrawal) return;
+
+  if (event.type === 'transfer.created' && withdrawal.payoutType !== 'instant') {
+    await storage.transitionWithdrawalStatus(withdrawal.id, ['pending', 'processing'], 'completed', {
+      stripeTransferId: transfer.id
+    });
+  } else if (event.type === 'transfer.reversed') {
+    const failed = await storage.failWithdrawalAndRefund(withdrawal.id, 'Transfer was reversed');
+    if (failed) {
+      console.log(`Withdrawal ${withdrawal.id} reversed; refunded $${failed.amount} to wallet ${failed.walletId}`);
+    }
+  }
+}
+
+// Payout events come from the member's Connect account (event.account)
+export async function handlePayoutEvent(event: Stripe.Event): Promise<void> {
+  const payout = event.data.object as Stripe.Payout;
+  const withdrawal = await findWithdrawal(payout.metadata);
+  if (!withdrawal) return;
+
+  if (event.type === 'payout.paid') {
+    await storage.transitionWithdrawalStatus(withdrawal.id, ['pending', 'processing'], 'completed', {
+      stripePayoutId: payout.id
+    });
+  } else if (event.type === 'payout.failed' || event.type === 'payout.canceled') {
+    if (withdrawal.status === 'failed') return;
+    if (withdrawal.stripeTransferId) {
+      await reverseWithdrawalTransfer(withdrawal.stripeTransferId, withdrawal.id);
+    }
+    const reason = payout.failure_message || (event.type === 'payout.canceled' ? 'Payout was canceled' : 'Payout failed');
+    await storage.failWithdrawalAndRefund(withdrawal.id, reason);
+  }
+}
@@ -0,0 +1,355 @@
+import type { YahooTokens } from "@shared/schema";
+
+const YAHOO_AUTH_URL = 'https://api.login.yahoo.com/oauth2/request_auth';
+const YAHOO_TOKEN_URL = 'https://api.login.yahoo.com/oauth2/get_token';
+const YAHOO_API_BASE = 'https://fantasysports.yahooapis.com/fantasy/v2';
+
+interface YahooTeam {
+  id: number;
+  name: string;
+  ownerName?: string;
+  totalPoints: number;
+}
+
+export interface YahooMatchup {
+  week: number;
+  teams: Array<{ teamId: number; points: number }>;
+}
+
+interface YahooScoreData {
+  teams: YahooTeam[];
+  weeklyScores: Map<number, number>;
+  matchups: YahooMatchup[];
+}
+
+export interface YahooLeagueInfo {
+  name: string;
+  leagueKey: string;
+  seasonId: number;
+  teams: Array<{
+    id: number;
+    name: string;
+    ownerName?: string;
+  }>;
+}
+
+function getCredentials() {
+  const clientId = process.env.YAHOO_CLIENT_ID;
+  const clientSecret = process.env.YAHOO_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error('Yahoo Fantasy not configured. Set YAHOO_CLIENT_ID and YAHOO_CLIENT_SECRET.');
+  }
+
+  return { clientId, clientSecret };
+}
+
+export function isYahooConfigured(): boolean {
+  return !!(process.env.YAHOO_CLIENT_ID && process.env.YAHOO_CLIENT_SECRET);
+}
+
+export function getYahooRedirectUri(): string {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : 'http://localhost:5000';
+  return `${baseUrl}/api/integrations/yahoo/callback`;
+}
+
+export function getYahooAuthorizeUrl(state: string): string {
+  const { clientId } = getCredentials();
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: getYahooRedirectUri(),
+    response_type: 'code',
+    state
+  });
+  return `${YAHOO_AUTH_URL}?${params.toString()}`;
+}
+
+// Parse the numeric league ID from a URL like https://football.fantasysports.yahoo.com/f1/123456
+export function parseYahooLeagueId(leagueUrl: string): string | null {
+  const match = leagueUrl.match(/\/f1\/(\d+)/) || leagueUrl.match(/^(\d+)$/);
+  return match ? match[1] : null;
+}
+
+async function requestTokens(
+  params: Record<string, string>
+): Promise<{ success: boolean; tokens?: YahooTokens; error?: string }> {
+  try {
+    const { clientId, clientSecret } = getCredentials();
+    const response = await fetch(YAHOO_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ redirect_uri: getYahooRedirectUri(), ...params }).toString()
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `Yahoo authorization failed: ${response.status}` };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      tokens: {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || params.refresh_token,
+        expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000).toISOString()
+      }
+    };
+  } catch (error) {
+    console.error('Yahoo OAuth error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to authorize with Yahoo'
+    };
+  }
+}
+
+export async function exchangeYahooCode(
+  code: string
+): Promise<{ success: boolean; tokens?: YahooTokens; error?: string }> {
+  return requestTokens({ grant_type: 'authorization_code', code });
+}
+
+// Returns the same tokens when still valid, or a refreshed set the caller must persist
+export async function refreshYahooTokensIfNeeded(
+  tokens: YahooTokens
+): Promise<{ success: boolean; tokens?: YahooTokens; refreshed?: boolean; error?: string }> {
+  // Refresh a minute early so a long sync doesn't expire mid-request
+  if (new Date(tokens.expiresAt).getTime() - 60 * 1000 > Date.now()) {
+    return { success: true, tokens, refreshed: false };
+  }
+
+  const result = await requestTokens({ grant_type: 'refresh_token', refresh_token: tokens.refreshToken });
+  if (!result.success) {
+    return { success: false, error: 'Yahoo session expired. Reconnect your Yahoo account.' };
+  }
+  return { success: true, tokens: result.tokens, refreshed: true };
+}
+
+async function yahooGet(path: string, accessToken: string): Promise<{ success: boolean; data?: any; error?: string }> {
+  const response = await fetch(`${YAHOO_API_BASE}/${path}?format=json`, {
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    }
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      return { success: false, error: 'Yahoo API authentication failed. Reconnect your Yahoo account.' };
+    }
+    if (response.status === 400 || response.status === 404) {
+      return { success: false, error: 'Yahoo league not found. Check your League URL.' };
+    }
+    return { success: false, error: `Yahoo API error: ${response.status}` };
+  }
+
+  const data = await response.json();
+  return { success: true, data: data.fantasy_content };
+}
+
+// Yahoo returns resources as arrays of single-key objects; merge them into one object
+function flattenYahooResource(parts: any): Record<string, any> {
+  const result: Record<string, any> = {};
+  if (!Array.isArray(parts)) return parts || result;
+  for (const part of parts) {
+    if (Array.isArray(part)) {
+      Object.assign(result, flattenYahooResource(part));
+    } else if (part && typeof part === 'object') {
+      Object.assign(result, part);
+    }
+  }
+  return result;
+}
+
+// Yahoo collections are objects keyed "0".."n-1" plus a "count" field
+function yahooCollection(collection: any, key: string): any[] {
+  if (!collection) return [];
+  const count = Number(collection.count) || 0;
+  const items: any[] = [];
+  for (let i = 0; i < count; i++) {
+    if (collection[i]?.[key]) {
+      items.push(collection[i][key]);
+    }
+  }
+  return items;
+}
+
+function parseYahooTeam(team: any): YahooTeam {
+  const meta = flattenYahooResource(team[0]);
+  const stats = flattenYahooResource(team.slice(1));
+  const manager = meta.managers?.[0]?.manager;
+  return {
+    id: Number(meta.team_id),
+    name: meta.name || `Team ${meta.team_id}`,
+    ownerName: manager?.nickname && manager.nickname !== '--hidden--' ? manager.nickname : undefined,
+    totalPoints: Number(stats.team_points?.total) || 0
+  };
+}
+
+// Accepts a full league key ("449.l.123456") or "nfl.l.123456", where "nfl"
+// resolves to the current season's game key
+export async function fetchYahooLeagueInfo(
+  leagueKey: string,
+  accessToken: string
+): Promise<{ success: boolean; data?: YahooLeagueInfo; error?: string }> {
+  try {
+    const result = await yahooGet(`league/${leagueKey}/teams`, accessToken);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const league = result.data.league;
+    const meta = flattenYahooResource(league?.[0]);
+    const teams = yahooCollection(league?.[1]?.teams, 'team').map(parseYahooTeam);
+
+    return {
+      success: true,
+      data: {
+        name: meta.name || `Yahoo League ${leagueKey}`,
+        leagueKey: meta.league_key || leagueKey,
+        seasonId: Number(meta.season) || new Date().getFullYear(),
+        teams: teams.map(t => ({ id: t.id, name: t.name, ownerName: t.ownerName }))
+      }
+    };
+  } catch (error) {
+    console.error('Yahoo API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Yahoo league info'
+    };
+  }
+}
+
+export async function fetchYahooScores(
+  leagueKey: string,
+  week: number,
+  accessToken: string
+): Promise<{ success: boolean; data?: YahooScoreData; error?: string }> {
+  try {
+    const result = await yahooGet(`league/${leagueKey}/scoreboard;week=${week}`, accessToken);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const scoreboard = result.data.league?.[1]?.scoreboard;
+    const matchups = yahooCollection(scoreboard?.[0]?.matchups, 'matchup');
+
+    const teams: YahooTeam[] = [];
+    const weeklyScores = new Map<number, number>();
+    const weekMatchups: YahooMatchup[] = [];
+
+    for (const matchup of matchups) {
+      const matchupTeams = yahooCollection(matchup[0]?.teams, 'team').map(parseYahooTeam);
+      for (const parsed of matchupTeams) {
+        teams.push(parsed);
+        weeklyScores.set(parsed.id, parsed.totalPoints);
+      }
+      weekMatchups.push({
+        week,
+        teams: matchupTeams.map(t => ({ teamId: t.id, points: t.totalPoints }))
+      });
+    }
+
+    return {
+      success: true,
+      data: { teams, weeklyScores, matchups: weekMatchups }
+    };
+  } catch (error) {
+    console.error('Yahoo API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Yahoo data'
+    };
+  }
+}
+
+// Yahoo has no full-season schedule resource, so walk the scoreboard week by week
+export async function fetchYahooSchedule(
+  leagueKey: string,
+  accessToken: string
+): Promise<{ success: boolean; matchups?: YahooMatchup[]; error?: string }> {
+  try {
+    const leagueResult = await yahooGet(`league/${leagueKey}`, accessToken);
+    if (!leagueResult.success || !leagueResult.data) {
+      return { success: false, error: leagueResult.error };
+    }
+
+    const meta = flattenYahooResource(leagueResult.data.league?.[0]);
+    const startWeek = Number(meta.start_week) || 1;
+    const endWeek = Number(meta.end_week) || 17;
+
+    const matchups: YahooMatchup[] = [];
+    for (let week = startWeek; week <= endWeek; week++) {
+      const result = await fetchYahooScores(leagueKey, week, accessToken);
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+      matchups.push(...result.data.matchups);
+    }
+
+    return { success: true, matchups };
+  } catch (error) {
+    console.error('Yahoo API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Yahoo schedule'
+    };
+  }
+}
+
+export interface YahooStanding {
+  teamId: number;
+  finalRank: number | null;
+  regularSeasonRank: number | null;
+  pointsFor: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// team_standings.rank is the final finish once the playoffs end; playoff_seed
+// is the regular-season finish
+export async function fetchYahooStandings(
+  leagueKey: string,
+  accessToken: string
+): Promise<{ success: boolean; standings?: YahooStanding[]; error?: string }> {
+  try {
+    const result = await yahooGet(`league/${leagueKey}/standings`, accessToken);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const league = result.data.league;
+    const meta = flattenYahooResource(league?.[0]);
+    const seasonOver = meta.is_finished === 1 || meta.is_finished === '1';
+    const teams = yahooCollection(league?.[1]?.standings?.[0]?.teams, 'team');
+
+    const standings: YahooStanding[] = teams.map((team: any) => {
+      const teamMeta = flattenYahooResource(team[0]);
+      const stats = flattenYahooResource(team.slice(1));
+      const teamStandings = stats.team_standings || {};
+      return {
+        teamId: Number(teamMeta.team_id),
+        finalRank: seasonOver && teamStandings.rank ? Number(teamStandings.rank) : null,
+        regularSeasonRank: teamStandings.playoff_seed ? Number(teamStandings.playoff_seed) : null,
+        pointsFor: Number(teamStandings.points_for) || 0,
+        wins: Number(teamStandings.outcome_totals?.wins) || 0,
+        losses: Number(teamStandings.outcome_totals?.losses) || 0,
+        ties: Number(teamStandings.outcome_totals?.ties) || 0
+      };
+    });
+
+    return { success: true, standings };
+  } catch (error) {
+    console.error('Yahoo API fetch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Yahoo standings'
+    };
+  }
+}
@@ -9,7 +9,8 @@ import {
   leagueMembers,
   payments,
   payouts,
-  weeklyScores
+  weeklyScores,
+  TIEBREAKERS
 } from './schema';
 
 export const errorSchemas = {
@@ -41,7 +42,7 @@ export const api = {
       method: 'GET' as const,
       path: '/api/leagues/:id',
       responses: {
-        200: z.custom<typeof leagues.$inferSelect & { members: any[] }>(),
+        200: z.custom<typeof leagues.$inferSelect & { members: any[]; yahooConnected: boolean }>(),
         404: errorSchemas.notFound,
       },
     },
@@ -66,7 +67,7 @@ export const api = {
     syncPlatform: {
         method: 'POST' as const,
         path: '/api/leagues/sync',
-        input: z.object({ platform: z.enum(['espn', 'yahoo']), leagueUrl: z.string() }),
+        input: z.object({ platform: z.enum(['espn', 'yahoo', 'sleeper']), leagueUrl: z.string() }),
         responses: {
             200: z.object({
                 success: z.boolean(),
@@ -87,6 +88,8 @@ export const api = {
         weeklyLowScoreFee: z.number().min(0).optional(),
         weeklyLowScoreFeeEnabled: z.boolean().optional(),
         payoutRules: z.string().optional(),
+        sandboxMode: z.boolean().optional(),
+        tiebreaker: z.enum(TIEBREAKERS).optional(),
       }),
       responses: {
         200: z.object({ success: z.boolean() }),
@@ -104,8 +107,18 @@ export const api = {
           scoresUpdated: z.number(),
           source: z.string(),
         }),
+        400: errorSchemas.validation,
         403: errorSchemas.unauthorized,
         404: errorSchemas.notFound,
+        422: z.object({
+          message: z.string(),
+          code: z.string(),
+          missingTeams: z.array(z.object({
+            memberId: z.number(),
+            teamName: z.string(),
+            reason: z.string(),
+          })),
+        }),
       }
     },
     delete: {
@@ -159,10 +172,11 @@ export const api = {
     create: {
       method: 'POST' as const,
       path: '/api/payments',
-      input: insertPaymentSchema,
+      input: insertPaymentSchema.pick({ leagueId: true, amount: true }),
       responses: {
-        201: z.custom<typeof payments.$inferSelect>(),
+        201: z.custom<typeof payments.$inferSelect & { clientSecret: string }>(),
         400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
       },
     },
     history: {
@@ -248,6 +262,7 @@ export const api = {
       responses: {
         201: z.any(),
         400: errorSchemas.validation,
+        502: errorSchemas.internal,
       }
     },
     withdrawals: {
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, unique, check } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "./models/auth";
@@ -7,12 +7,77 @@ import { users } from "./models/auth";
 // Re-export auth models so they are available
 export * from "./models/auth";
 
+// Weekly high/low score tiebreakers. 'commissioner' (and any tie the rule
+// can't break) leaves the award waiting for the commissioner to decide.
+export const TIEBREAKERS = ['split', 'bench_points', 'season_points', 'commissioner'] as const;
+export type Tiebreaker = typeof TIEBREAKERS[number];
+
+// End-of-season prizes. Places come from final (playoff) standings,
+// regular_season_winner from the regular-season table.
+export const SEASON_PRIZES = ['first_place', 'second_place', 'third_place', 'regular_season_winner', 'most_points_for'] as const;
+export type SeasonPrize = typeof SEASON_PRIZES[number];
+export const SEASON_PRIZE_LABELS: Record<SeasonPrize, string> = {
+  first_place: '1st Place',
+  second_place: '2nd Place',
+  third_place: '3rd Place',
+  regular_season_winner: 'Regular Season Winner',
+  most_points_for: 'Most Points For',
+};
+// The leagues.settings field holding each prize's amount or percentage
+export const SEASON_PRIZE_SETTINGS = {
+  first_place: 'firstPlacePayout',
+  second_place: 'secondPlacePayout',
+  third_place: 'thirdPlacePayout',
+  regular_season_winner: 'regularSeasonWinnerPayout',
+  most_points_for: 'mostPointsForPayout',
+} as const satisfies Record<SeasonPrize, keyof LeagueSettings>;
+
+// League roles. The commissioner is whoever leagues.commissionerId names;
+// the other roles are assigned to members by the commissioner.
+export const LEAGUE_ROLES = ['commissioner', 'co_commissioner', 'treasurer', 'auditor', 'member'] as const;
+export type LeagueRole = typeof LEAGUE_ROLES[number];
+export const LEAGUE_ROLE_LABELS: Record<LeagueRole, string> = {
+  commissioner: 'Commissioner',
+  co_commissioner: 'Co-Commissioner',
+  treasurer: 'Treasurer',
+  auditor: 'Auditor',
+  member: 'Member',
+};
+
+export const LEAGUE_PERMISSIONS = [
+  'manage_league',      // Settings, name, start date, platform integration, scheduled jobs, message moderation
+  'sync_scores',        // Score sync and edits, finalizing weeks, settling award ties
+  'issue_payouts',      // Payouts, refunds, season payouts
+  'edit_members',       // Member details, team mappings, invites, removing members
+  'view_treasury',      // Treasury, dues, refunds, reconciliation, season payouts, approval queue
+  'send_reminders',     // Payment requests, dues reminders and the notification log
+  'administer_league',  // Assigning roles, transferring the commissioner role, deleting the league
+] as const;
+export type LeaguePermission = typeof LEAGUE_PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<LeagueRole, readonly LeaguePermission[]> = {
+  commissioner: LEAGUE_PERMISSIONS,
+  co_commissioner: ['manage_league', 'sync_scores', 'issue_payouts', 'edit_members', 'view_treasury', 'send_reminders'],
+  treasurer: ['issue_payouts', 'view_treasury', 'send_reminders'],
+  auditor: ['view_treasury'],
+  member: [],
+};
+
+// One payment in a dues installment plan, due before `dueWeek` starts
+export interface DuesInstallment {
+  dueWeek: number;
+  amount: number;
+}
+
+// Days an archived league can be restored before an admin purge may remove it
+export const LEAGUE_ARCHIVE_GRACE_DAYS = 30;
+
 // === LEAGUES ===
 export const leagues = pgTable("leagues", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   commissionerId: text("commissioner_id").notNull(), // Links to users.id (which is a string/uuid)
-  platform: text("platform").notNull().default("custom"), // 'espn', 'yahoo', 'custom'
+  platform: text("platform").notNull().default("custom"), // 'espn', 'yahoo', 'sleeper', 'custom'
   externalLeagueId: text("external_league_id"),
   seasonYear: integer("season_year").notNull(),
   startDate: timestamp("start_date"), // For pre-season payment reminders
@@ -28,6 +93,35 @@ export const leagues = pgTable("leagues", {
     seasonDues?: number;
     lowestScorerFee?: number;
     lowestScorerFeeEnabled?: boolean;
+    // ESPN integration (cookies only needed for private leagues)
+    espnLeagueId?: string;
+    espnSeasonId?: string;
+    espnPrivateLeague?: boolean;
+    espnS2?: string;
+    espnSwid?: string;
+    // Yahoo integration (OAuth tokens are per league, in league_credentials)
+    yahooLeagueKey?: string;
+    yahooTokens?: YahooTokens; // Legacy: moved to league_credentials at startup
+    // Sleeper integration (public API, no auth)
+    sleeperLeagueId?: string;
+    // Demo leagues: score sync generates mock scores instead of failing
+    sandboxMode?: boolean;
+    // How a tie for weekly high/low score is settled; defaults to 'commissioner'
+    tiebreaker?: Tiebreaker;
+    // Regular-season length, used to work out the current week from startDate
+    numberOfWeeks?: number;
+    // Splits entryFee into payments due before the given weeks; amounts add up to entryFee
+    duesInstallments?: DuesInstallment[];
+    // End-of-season prizes: dollars, or percentages of the pot when seasonPayoutMode is 'percent'
+    seasonPayoutMode?: 'fixed' | 'percent';
+    firstPlacePayout?: number;
+    secondPlacePayout?: number;
+    thirdPlacePayout?: number;
+    regularSeasonWinnerPayout?: number;
+    mostPointsForPayout?: number;
+    // Two-person control: payouts and withdrawals above approvalThreshold wait for approverUserId to sign off
+    approvalThreshold?: number;
+    approverUserId?: string;
   }>().default({ 
     entryFee: 0, 
     weeklyHighScorePrize: 0, 
@@ -36,6 +130,11 @@ export const leagues = pgTable("leagues", {
     payoutRules: "" 
   }),
   lastScoreSync: timestamp("last_score_sync"),
+  // The league this one continues when it was started with a season rollover
+  previousLeagueId: integer("previous_league_id").unique(),
+  // Set when the commissioner deletes the league; its records stay until a purge
+  archivedAt: timestamp("archived_at"),
+  archivedBy: text("archived_by"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -49,22 +148,38 @@ export const leaguesRelations = relations(leagues, ({ one, many }) => ({
   payouts: many(payouts),
 }));
 
+// === LEAGUE CREDENTIALS (Platform OAuth tokens, kept off leagues so they're never sent to the browser) ===
+export interface YahooTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+export const leagueCredentials = pgTable("league_credentials", {
+  leagueId: integer("league_id").primaryKey(),
+  yahooTokens: jsonb("yahoo_tokens").$type<YahooTokens>(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // === LEAGUE MEMBERS ===
 export const leagueMembers = pgTable("league_members", {
   id: serial("id").primaryKey(),
   leagueId: integer("league_id").notNull(),
   userId: text("user_id").notNull(),
-  role: text("role").notNull().default("member"), // 'commissioner', 'member'
+  role: text("role").notNull().default("member"), // A LeagueRole
   teamName: text("team_name"),
   ownerName: text("owner_name"), // Display name for the member
-  externalTeamId: text("external_team_id"), // ESPN/Yahoo team ID for score syncing
+  externalTeamId: text("external_team_id"), // ESPN/Yahoo team ID or Sleeper roster ID for score syncing
   phoneNumber: text("phone_number"), // For SMS payment reminders
   email: text("email"), // For email reminders/invites
-  paidStatus: text("paid_status").notNull().default("unpaid"), // 'paid', 'unpaid', 'partial'
+  paidStatus: text("paid_status").notNull().default("unpaid"), // 'paid', 'unpaid', 'partial' - derived from amountPaid vs. what's owed
+  amountOwed: decimal("amount_owed", { precision: 10, scale: 2 }), // Overrides the league entry fee for this member when set
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0"), // Completed dues less refunds
   paymentRequestSent: boolean("payment_request_sent").notNull().default(false), // Track if payment request was sent
   paymentRequestSentAt: timestamp("payment_request_sent_at"), // When the payment request was sent
-  paymentToken: text("payment_token"), // Unique token for payment link
-  paymentTokenExpiresAt: timestamp("payment_token_expires_at"), // Token expiration
+  paymentToken: text("payment_token"), // Legacy dues link token; new links are issued as link_tokens
+  paymentTokenExpiresAt: timestamp("payment_token_expires_at"),
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>(), // Null means 'auto' for everything, no quiet hours
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
@@ -85,8 +200,11 @@ export const payments = pgTable("payments", {
   leagueId: integer("league_id").notNull(),
   userId: text("user_id").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed'
+  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed', 'partially_refunded', 'refunded'
   stripePaymentIntentId: text("stripe_payment_intent_id"),
+  kind: text("kind").notNull().default("dues"), // 'dues', 'lps'
+  lpsPaymentRequestId: integer("lps_payment_request_id"), // Set for 'lps' payments
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -101,20 +219,49 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   }),
 }));
 
+// === REFUNDS (Commissioner-issued, back to the original PaymentIntent) ===
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull(),
+  leagueId: integer("league_id").notNull(),
+  userId: text("user_id").notNull(), // Member being refunded
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  issuedBy: text("issued_by").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'succeeded', 'failed'
+  stripeRefundId: text("stripe_refund_id"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  league: one(leagues, {
+    fields: [refunds.leagueId],
+    references: [leagues.id],
+  }),
+}));
+
 // === PAYOUTS (OUTGOING) ===
 export const payouts = pgTable("payouts", {
   id: serial("id").primaryKey(),
   leagueId: integer("league_id").notNull(),
   userId: text("user_id").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  reason: text("reason").notNull(), // 'weekly_high_score', 'championship', 'other'
+  reason: text("reason").notNull(), // 'weekly_high_score', 'championship', 'other', or a SeasonPrize
   week: integer("week"), // Optional, for weekly payouts
-  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'paid'
-  payoutType: text("payout_type").notNull().default("standard"), // 'instant', 'standard'
+  status: text("status").notNull().default("pending"), // 'pending', 'pending_approval', 'approved', 'paid', 'rejected'
+  payoutType: text("payout_type").notNull().default("standard"), // A PayoutType
   feeAmount: decimal("fee_amount", { precision: 10, scale: 2 }).default("0"), // Fee charged for instant payouts
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const PAYOUT_TYPES = ['standard', 'instant'] as const;
+export type PayoutType = typeof PAYOUT_TYPES[number];
+
 // === PLATFORM FEES (Revenue from instant payouts) ===
 export const platformFees = pgTable("platform_fees", {
   id: serial("id").primaryKey(),
@@ -156,7 +303,8 @@ export const weeklyScores = pgTable("weekly_scores", {
   userId: text("user_id").notNull(),
   week: integer("week").notNull(),
   score: decimal("score", { precision: 10, scale: 2 }).notNull(),
-  source: text("source").notNull().default("manual"), // 'manual', 'espn', 'yahoo', 'auto'
+  benchScore: decimal("bench_score", { precision: 10, scale: 2 }), // From the platform when reported; tiebreaker input
+  source: text("source").notNull().default("manual"), // 'manual', a leagues.platform, or 'mock'
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -182,7 +330,12 @@ export const memberWallets = pgTable("member_wallets", {
   totalWithdrawn: decimal("total_withdrawn", { precision: 10, scale: 2 }).notNull().default("0"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Last line of defense against overdrafts; debitWallet also checks under a row lock
+  check("member_wallets_available_balance_non_negative", sql`${table.availableBalance} >= 0`),
+  // One wallet per member per league, even when two requests create it at once
+  unique("member_wallets_league_user").on(table.leagueId, table.userId),
+]);
 
 export const memberWalletsRelations = relations(memberWallets, ({ one, many }) => ({
   league: one(leagues, {
@@ -204,8 +357,8 @@ export const walletTransactions = pgTable("wallet_transactions", {
   userId: text("user_id").notNull(),
   type: text("type").notNull(), // 'credit', 'debit'
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  sourceType: text("source_type").notNull(), // 'payout', 'withdrawal', 'adjustment', 'refund'
-  sourceId: integer("source_id"), // Reference to payout/withdrawal ID
+  sourceType: text("source_type").notNull(), // 'payout', 'withdrawal', 'adjustment', 'refund', 'carryover'
+  sourceId: integer("source_id"), // Reference to payout/withdrawal ID, or the other league for a carryover
   description: text("description"),
   balanceAfter: decimal("balance_after", { precision: 10, scale: 2 }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -233,11 +386,12 @@ export const withdrawalRequests = pgTable("withdrawal_requests", {
   leagueId: integer("league_id").notNull(),
   userId: text("user_id").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
+  status: text("status").notNull().default("pending"), // 'pending_approval', 'pending', 'processing', 'completed', 'failed', 'rejected'
   payoutType: text("payout_type").notNull().default("standard"), // 'instant', 'standard'
   feeAmount: decimal("fee_amount", { precision: 10, scale: 2 }).default("0"),
   netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
   stripeTransferId: text("stripe_transfer_id"),
+  stripePayoutId: text("stripe_payout_id"), // Instant payout on the member's Connect account
   failureReason: text("failure_reason"),
   requestedAt: timestamp("requested_at").defaultNow(),
   processedAt: timestamp("processed_at"),
@@ -265,9 +419,10 @@ export const lpsPaymentRequests = pgTable("lps_payment_requests", {
   userId: text("user_id").notNull(),
   week: integer("week").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'paid', 'cancelled'
-  paymentToken: text("payment_token").notNull(), // Unique token for payment link
+  status: text("status").notNull().default("pending"), // 'pending', 'paid', 'cancelled', 'refunded'
+  paymentToken: text("payment_token"), // Legacy link token; new links are issued as link_tokens
   smsSent: boolean("sms_sent").notNull().default(false),
+  deliveryStatus: text("delivery_status"), // Carrier report for a texted notice: 'delivered' or 'failed'
   phoneNumber: text("phone_number"),
   createdAt: timestamp("created_at").defaultNow(),
   paidAt: timestamp("paid_at"),
@@ -289,9 +444,12 @@ export const paymentReminders = pgTable("payment_reminders", {
   id: serial("id").primaryKey(),
   leagueId: integer("league_id").notNull(),
   userId: text("user_id").notNull(),
-  type: text("type").notNull(), // 'pre_season', 'weekly', 'final'
+  type: text("type").notNull(), // 'pre_season', 'weekly', 'final', 'individual'
+  channel: text("channel"), // A NotificationChannel; null when the member couldn't be reached
   phoneNumber: text("phone_number"),
-  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'failed'
+  email: text("email"),
+  notificationId: integer("notification_id"), // The notifications row that carried it
+  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'delivered', 'failed'
   sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -336,11 +494,25 @@ export const weeklyAwardEvents = pgTable("weekly_award_events", {
   lowScoreUserId: text("low_score_user_id"),
   highScorePrize: decimal("high_score_prize", { precision: 10, scale: 2 }),
   lowScoreFee: decimal("low_score_fee", { precision: 10, scale: 2 }),
+  // Teams level on points for the award; null when there was no tie
+  highScoreTiedUserIds: jsonb("high_score_tied_user_ids").$type<string[]>(),
+  lowScoreTiedUserIds: jsonb("low_score_tied_user_ids").$type<string[]>(),
+  tiebreaker: text("tiebreaker"), // League tiebreaker rule in effect when a tie was found
+  // Who receives each award (several when split); empty while the award needs review
+  hpsRecipientIds: jsonb("hps_recipient_ids").$type<string[]>().notNull().default([]),
+  lpsRecipientIds: jsonb("lps_recipient_ids").$type<string[]>().notNull().default([]),
+  hpsNeedsReview: boolean("hps_needs_review").notNull().default(false),
+  lpsNeedsReview: boolean("lps_needs_review").notNull().default(false),
+  resolvedBy: text("resolved_by"), // Commissioner who settled a tie
+  resolvedAt: timestamp("resolved_at"),
   hpsWalletCredited: boolean("hps_wallet_credited").notNull().default(false),
+  // Keyed by recipient user ID, so no recipient is ever issued twice
+  hpsPayoutIds: jsonb("hps_payout_ids").$type<Record<string, number>>().notNull().default({}),
+  lpsPaymentRequestIds: jsonb("lps_payment_request_ids").$type<Record<string, number>>().notNull().default({}),
   lpsSmssSent: boolean("lps_sms_sent").notNull().default(false),
   processedAt: timestamp("processed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [unique("weekly_award_events_league_week").on(table.leagueId, table.week)]);
 
 export const weeklyAwardEventsRelations = relations(weeklyAwardEvents, ({ one }) => ({
   league: one(leagues, {
@@ -350,6 +522,9 @@ export const weeklyAwardEventsRelations = relations(weeklyAwardEvents, ({ one })
 }));
 
 // === LEAGUE INVITES ===
+// Invite links stop working after this many days, or once accepted
+export const LEAGUE_INVITE_EXPIRY_DAYS = 14;
+
 export const leagueInvites = pgTable("league_invites", {
   id: serial("id").primaryKey(),
   leagueId: integer("league_id").notNull(),
@@ -358,10 +533,12 @@ export const leagueInvites = pgTable("league_invites", {
   contactValue: text("contact_value").notNull(), // phone number or email
   teamName: text("team_name"),
   ownerName: text("owner_name"),
-  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'accepted', 'expired'
-  inviteToken: text("invite_token").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'accepted', 'expired', 'cancelled'
+  inviteToken: text("invite_token"), // Legacy link token; new links are issued as link_tokens
   createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // Null on invites from before expiry; treated as createdAt + LEAGUE_INVITE_EXPIRY_DAYS
   acceptedAt: timestamp("accepted_at"),
+  acceptedBy: text("accepted_by"),
 });
 
 export const leagueInvitesRelations = relations(leagueInvites, ({ one }) => ({
@@ -371,12 +548,393 @@ export const leagueInvitesRelations = relations(leagueInvites, ({ one }) => ({
   }),
 }));
 
+// === BACKGROUND JOBS (Scheduled per-league automation) ===
+export const JOB_TYPES = ['sync_scores', 'finalize_week', 'preseason_reminders', 'purge_league'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+// Job types a league can put on a schedule; admins queue purge_league by hand
+export const SCHEDULABLE_JOB_TYPES = ['sync_scores', 'finalize_week', 'preseason_reminders'] as const;
+export type SchedulableJobType = typeof SCHEDULABLE_JOB_TYPES[number];
+
+// One cron schedule per league and job type
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  jobType: text("job_type").notNull(), // 'sync_scores', 'finalize_week', 'preseason_reminders'
+  cronExpression: text("cron_expression").notNull(), // 5-field cron, evaluated in UTC
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("scheduled_jobs_league_type").on(table.leagueId, table.jobType)]);
+
+export const scheduledJobsRelations = relations(scheduledJobs, ({ one }) => ({
+  league: one(leagues, {
+    fields: [scheduledJobs.leagueId],
+    references: [leagues.id],
+  }),
+}));
+
+// Job queue and run history. Failed attempts go back to 'pending' with a later
+// runAt until maxAttempts is reached.
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  scheduledJobId: integer("scheduled_job_id"), // Null for runs queued by hand
+  leagueId: integer("league_id").notNull(),
+  jobType: text("job_type").notNull(),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'succeeded', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Earliest time the run may start
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  lastError: text("last_error"),
+  result: jsonb("result").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const jobRunsRelations = relations(jobRuns, ({ one }) => ({
+  league: one(leagues, {
+    fields: [jobRuns.leagueId],
+    references: [leagues.id],
+  }),
+  scheduledJob: one(scheduledJobs, {
+    fields: [jobRuns.scheduledJobId],
+    references: [scheduledJobs.id],
+  }),
+}));
+
+// === LEDGER (Double-entry record of every money movement) ===
+// League treasury, member wallets and platform fees hold money on behalf of
+// someone (credit-normal); Stripe clearing is cash in the platform's Stripe
+// balance (debit-normal).
+export const LEDGER_ACCOUNTS = ['league_treasury', 'member_wallet', 'platform_fees', 'stripe_clearing'] as const;
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+// One row per movement; `key` (e.g. "payment:12") makes posting idempotent
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  key: text("key").notNull().unique(),
+  sourceType: text("source_type").notNull(), // 'payment', 'payout', 'withdrawal', 'withdrawal_refund', 'refund', 'refund_reversal', 'carryover_out', 'carryover_in'
+  sourceId: integer("source_id"),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Entries of one transaction sum to zero: positive amounts are debits, negative are credits
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull(),
+  leagueId: integer("league_id").notNull(),
+  account: text("account").notNull(), // LedgerAccount
+  walletId: integer("wallet_id"), // Set for member_wallet entries
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ one, many }) => ({
+  league: one(leagues, {
+    fields: [ledgerTransactions.leagueId],
+    references: [leagues.id],
+  }),
+  entries: many(ledgerEntries),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(ledgerTransactions, {
+    fields: [ledgerEntries.transactionId],
+    references: [ledgerTransactions.id],
+  }),
+  wallet: one(memberWallets, {
+    fields: [ledgerEntries.walletId],
+    references: [memberWallets.id],
+  }),
+}));
+
+// === SEASON PAYOUTS ===
+export interface SeasonStanding {
+  userId: string;
+  finalRank: number | null;
+  regularSeasonRank: number | null;
+  pointsFor: number;
+}
+
+export interface SeasonPayoutLine {
+  prize: SeasonPrize;
+  userId: string;
+  amount: string;
+}
+
+// One batch per league season. The commissioner reviews the draft (standings
+// and calculated lines) and approving it pays every line in one transaction.
+export const seasonPayoutBatches = pgTable("season_payout_batches", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  seasonYear: integer("season_year").notNull(),
+  status: text("status").notNull().default("draft"), // 'draft', 'paid'
+  standingsSource: text("standings_source").notNull(), // 'platform', 'commissioner'
+  standings: jsonb("standings").$type<SeasonStanding[]>().notNull().default([]),
+  lines: jsonb("lines").$type<SeasonPayoutLine[]>().notNull().default([]),
+  potAmount: decimal("pot_amount", { precision: 10, scale: 2 }).notNull(), // Treasury balance the lines were calculated from
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  payoutIds: jsonb("payout_ids").$type<number[]>().notNull().default([]), // Parallel to lines once paid
+  createdBy: text("created_by").notNull(),
+  approvedBy: text("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("season_payout_batches_league_season").on(table.leagueId, table.seasonYear)]);
+
+export const seasonPayoutBatchesRelations = relations(seasonPayoutBatches, ({ one }) => ({
+  league: one(leagues, {
+    fields: [seasonPayoutBatches.leagueId],
+    references: [leagues.id],
+  }),
+}));
+
+// === LEAGUE HISTORY ===
+// All-time totals across every season of a league franchise (seasons linked
+// by rollover or by the same platform league ID). Members are matched across
+// seasons by user ID; unclaimed platform teams by their team ID.
+export interface FranchiseSeason {
+  leagueId: number;
+  name: string;
+  seasonYear: number;
+  memberCount: number;
+  championKey: string | null;
+}
+
+export interface FranchiseMemberHistory {
+  key: string;
+  userId: string; // From the most recent season played
+  displayName: string;
+  teamName: string | null;
+  seasonsPlayed: number;
+  duesPaid: string;
+  lpsFeesPaid: string;
+  winnings: string;
+  net: string; // winnings - dues - LPS fees
+  hpsCount: number;
+  lpsCount: number;
+  championships: number[]; // Season years won
+  totalPoints: string;
+  bestWeek: string | null;
+}
+
+export interface LeagueHistory {
+  seasons: FranchiseSeason[];
+  members: FranchiseMemberHistory[];
+}
+
+// === APPROVAL REQUESTS (Two-person control) ===
+// A payout or withdrawal above the league's approvalThreshold waits here for
+// the designated approver. Held payouts haven't touched a wallet yet; held
+// withdrawals have already been debited and are refunded if rejected.
+export const approvalRequests = pgTable("approval_requests", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  sourceType: text("source_type").notNull(), // 'payout', 'withdrawal'
+  sourceId: integer("source_id").notNull(),
+  userId: text("user_id").notNull(), // Member the money goes to
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  requestedBy: text("requested_by"), // Null for automated HPS prizes
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected'
+  decidedBy: text("decided_by"),
+  decisionNote: text("decision_note"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("approval_requests_source").on(table.sourceType, table.sourceId)]);
+
+export const approvalRequestsRelations = relations(approvalRequests, ({ one }) => ({
+  league: one(leagues, {
+    fields: [approvalRequests.leagueId],
+    references: [leagues.id],
+  }),
+  user: one(users, {
+    fields: [approvalRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+// === AUDIT LOG (Append-only record of who changed what) ===
+export const AUDIT_ENTITY_TYPES = [
+  'league', 'member', 'payment', 'payout', 'refund', 'withdrawal', 'approval', 'season_payout',
+  'lps_request', 'score', 'weekly_award', 'message', 'invite', 'link_token', 'scheduled_job', 'user',
+  'wallet', 'platform_fee', 'reminder'
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  league: 'League',
+  member: 'Member',
+  payment: 'Payment',
+  payout: 'Payout',
+  refund: 'Refund',
+  withdrawal: 'Withdrawal',
+  approval: 'Approval',
+  season_payout: 'Season Payouts',
+  lps_request: 'LPS Request',
+  score: 'Score',
+  weekly_award: 'Weekly Award',
+  message: 'Message',
+  invite: 'Invite',
+  link_token: 'Link',
+  scheduled_job: 'Scheduled Job',
+  user: 'User',
+  wallet: 'Wallet',
+  platform_fee: 'Platform Fee',
+  reminder: 'Reminder',
+};
+
+// 'system' covers background jobs; 'webhook' covers Stripe callbacks
+export const AUDIT_ACTOR_TYPES = ['user', 'system', 'webhook'] as const;
+export type AuditActorType = typeof AUDIT_ACTOR_TYPES[number];
+
+// No foreign key to leagues: the history outlives a deleted league
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id"), // Null for platform-wide changes such as admin promotions
+  actorId: text("actor_id"), // Null when actorType isn't 'user'
+  actorType: text("actor_type").notNull().default("user"),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  action: text("action").notNull(), // 'create', 'update', 'delete', or a verb such as 'approve', 'transfer'
+  before: jsonb("before").$type<Record<string, any>>(),
+  after: jsonb("after").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+// Everything a purged league held, kept after its rows are removed
+export const leagueExports = pgTable("league_exports", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull().unique(),
+  leagueName: text("league_name").notNull(),
+  data: jsonb("data").$type<Record<string, any[]>>().notNull(),
+  exportedAt: timestamp("exported_at").notNull().defaultNow(),
+});
+
+// === LINK TOKENS (Signed links sent by SMS/email) ===
+// What a link opens; subjectId is the invite, member or LPS request it points at
+export const LINK_TOKEN_PURPOSES = ['invite', 'dues', 'lps'] as const;
+export type LinkTokenPurpose = typeof LINK_TOKEN_PURPOSES[number];
+
+export const LINK_TOKEN_EXPIRY_DAYS: Record<LinkTokenPurpose, number> = {
+  invite: LEAGUE_INVITE_EXPIRY_DAYS,
+  dues: 30,
+  lps: 30,
+};
+
+// Only the SHA-256 of each token is stored, so the table can't be used to rebuild links
+export const linkTokens = pgTable("link_tokens", {
+  id: serial("id").primaryKey(),
+  purpose: text("purpose").notNull(),
+  leagueId: integer("league_id").notNull(),
+  subjectId: integer("subject_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  singleUse: boolean("single_use").notNull().default(false),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdBy: text("created_by"), // Null when issued by a background job
+  useCount: integer("use_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  consumedAt: timestamp("consumed_at"), // Set when a single-use link is spent
+  consumedBy: text("consumed_by"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: text("revoked_by"),
+  revokedReason: text("revoked_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// === NOTIFICATIONS (Every SMS, email and in-app message sent to a member) ===
+export const NOTIFICATION_EVENTS = ['dues_due', 'lps_owed', 'hps_won', 'payout_sent', 'invite'] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  dues_due: 'Dues reminder',
+  lps_owed: 'Lowest score fee',
+  hps_won: 'High score prize',
+  payout_sent: 'Payout',
+  invite: 'Invite',
+};
+
+export const NOTIFICATION_CHANNELS = ['sms', 'email', 'in_app'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// 'auto' tries SMS, then email, then in-app; 'none' turns the event off
+export const NOTIFICATION_CHANNEL_PREFERENCES = ['auto', 'sms', 'email', 'in_app', 'none'] as const;
+export type NotificationChannelPreference = typeof NOTIFICATION_CHANNEL_PREFERENCES[number];
+
+export const NOTIFICATION_CHANNEL_PREFERENCE_LABELS: Record<NotificationChannelPreference, string> = {
+  auto: 'Automatic',
+  sms: 'Text message',
+  email: 'Email',
+  in_app: 'In-app only',
+  none: 'Off',
+};
+
+export interface NotificationPreferences {
+  channel?: NotificationChannelPreference; // Defaults to 'auto'
+  events?: Partial<Record<NotificationEvent, NotificationChannelPreference>>; // Overrides channel per event
+  // Texts that would arrive between start and end (hours 0-23 in timeZone) wait until end
+  quietHours?: { start: number; end: number; timeZone: string } | null;
+}
+
+// 'pending' rows wait for sendAfter (quiet hours or a retry); 'skipped' ones
+// had no channel to go out on. Later delivery updates from the provider are
+// matched by providerMessageId.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  userId: text("user_id").notNull(),
+  event: text("event").notNull(), // A NotificationEvent
+  channel: text("channel"), // A NotificationChannel; null when skipped before one was chosen
+  recipient: text("recipient"), // Phone number or email; null for in-app
+  subject: text("subject"),
+  body: text("body").notNull(), // SMS text, email plain text or in-app message
+  html: text("html"), // Email only
+  status: text("status").notNull().default("pending"), // 'pending', 'sending', 'sent', 'delivered', 'failed', 'skipped'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  sendAfter: timestamp("send_after").notNull().defaultNow(),
+  providerMessageId: text("provider_message_id"), // Twilio SID or SendGrid message ID
+  lastError: text("last_error"),
+  sourceType: text("source_type"), // What the notice is about, e.g. 'lps_request', 'payout', 'invite'
+  sourceId: integer("source_id"),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"), // In-app only
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  league: one(leagues, {
+    fields: [notifications.leagueId],
+    references: [leagues.id],
+  }),
+}));
+
+// === SMS OPT-OUTS (Numbers that replied STOP; texts to them are skipped in every league) ===
+export const smsOptOuts = pgTable("sms_opt_outs", {
+  phoneNumber: text("phone_number").primaryKey(), // E.164
+  keyword: text("keyword").notNull(), // What they replied, e.g. 'STOP'
+  optedOutAt: timestamp("opted_out_at").notNull().defaultNow(),
+});
+
 // === ZOD SCHEMAS ===
-export const insertLeagueSchema = createInsertSchema(leagues).omit({ id: true, createdAt: true, totalDues: true });
+export const insertLeagueSchema = createInsertSchema(leagues).omit({ id: true, createdAt: true, totalDues: true, previousLeagueId: true, archivedAt: true, archivedBy: true });
 export const insertPaymentReminderSchema = createInsertSchema(paymentReminders).omit({ id: true, createdAt: true, sentAt: true, status: true });
-export const insertLpsPaymentRequestSchema = createInsertSchema(lpsPaymentRequests).omit({ id: true, createdAt: true, paidAt: true, smsSent: true });
-export const insertLeagueMemberSchema = createInsertSchema(leagueMembers).omit({ id: true, joinedAt: true });
-export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, status: true, stripePaymentIntentId: true });
+export const insertLpsPaymentRequestSchema = createInsertSchema(lpsPaymentRequests).omit({ id: true, createdAt: true, paidAt: true, smsSent: true, deliveryStatus: true });
+export const insertLeagueMemberSchema = createInsertSchema(leagueMembers).omit({ id: true, joinedAt: true, amountPaid: true, notificationPreferences: true });
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, status: true, stripePaymentIntentId: true, refundedAmount: true });
 export const insertPayoutSchema = createInsertSchema(payouts).omit({ id: true, createdAt: true, status: true, feeAmount: true });
 export const insertWeeklyScoreSchema = createInsertSchema(weeklyScores).omit({ id: true, createdAt: true });
 export const insertPlatformFeeSchema = createInsertSchema(platformFees).omit({ id: true, createdAt: true, status: true, stripeTransferId: true });
@@ -386,14 +944,19 @@ export const insertWithdrawalRequestSchema = createInsertSchema(withdrawalReques
 export const insertLeagueMessageSchema = createInsertSchema(leagueMessages).omit({ id: true, createdAt: true });
 export const insertLeagueInviteSchema = createInsertSchema(leagueInvites).omit({ id: true, createdAt: true, acceptedAt: true, status: true });
 export const insertWeeklyAwardEventSchema = createInsertSchema(weeklyAwardEvents).omit({ id: true, createdAt: true, processedAt: true });
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({ id: true, createdAt: true, lastRunAt: true });
 
 // === TYPES ===
 export type League = typeof leagues.$inferSelect;
+export type LeagueSettings = NonNullable<League['settings']>;
+export type LeagueCredentials = typeof leagueCredentials.$inferSelect;
 export type InsertLeague = z.infer<typeof insertLeagueSchema>;
 export type LeagueMember = typeof leagueMembers.$inferSelect;
 export type InsertLeagueMember = z.infer<typeof insertLeagueMemberSchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = typeof refunds.$inferInsert;
 export type Payout = typeof payouts.$inferSelect;
 export type InsertPayout = z.infer<typeof insertPayoutSchema>;
 export type WeeklyScore = typeof weeklyScores.$inferSelect;
@@ -415,6 +978,26 @@ export type InsertLeagueMessage = z.infer<typeof insertLeagueMessageSchema>;
 export type LeagueInvite = typeof leagueInvites.$inferSelect;
 export type InsertLeagueInvite = z.infer<typeof insertLeagueInviteSchema>;
 export type WeeklyAwardEvent = typeof weeklyAwardEvents.$inferSelect;
-export type InsertWeeklyAwardEvent = z.infer<typeof insertWeeklyAwardEventSchema>;
+// Drizzle's insert type keeps the jsonb $type columns typed (drizzle-zod widens them to Json)
+export type InsertWeeklyAwardEvent = typeof weeklyAwardEvents.$inferInsert;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type SeasonPayoutBatch = typeof seasonPayoutBatches.$inferSelect;
+export type InsertSeasonPayoutBatch = typeof seasonPayoutBatches.$inferInsert;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type InsertApprovalRequest = typeof approvalRequests.$inferInsert;
+export type LeagueExport = typeof leagueExports.$inferSelect;
+export type LinkToken = typeof linkTokens.$inferSelect;
+export type InsertLinkToken = typeof linkTokens.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type SmsOptOut = typeof smsOptOuts.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
 
 export type LeagueWithMembers = League & { members: (LeagueMember & { user: typeof users.$inferSelect })[] };
+export type AuditEventWithActor = AuditEvent & { actor: typeof users.$inferSelect | null };
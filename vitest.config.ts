@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    setupFiles: ["server/testing/setup.ts"],
+    // Payment links are signed; tests never see a real secret
+    env: { LINK_TOKEN_SECRET: "test-link-secret" },
+    // Each file gets its own in-memory database; building the schema takes a few seconds
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+});